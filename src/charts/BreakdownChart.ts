@@ -1,12 +1,18 @@
 /**
  * Mine Closure Costing - Cost Breakdown Chart (D3)
  *
- * Stacked horizontal bar chart showing cost breakdown by category or phase.
+ * Stacked horizontal bar chart showing cost breakdown by category, phase or site domain.
  * Uses D3 enter/update/exit pattern for efficient updates.
  */
 
 import * as d3 from 'd3';
-import type { CurrencyConfig, CategoryCostSummary, PhaseCostSummary } from '../domain/types';
+import type {
+  CurrencyConfig,
+  CategoryCostSummary,
+  PhaseCostSummary,
+  DomainCostSummary,
+  SiteDomainType,
+} from '../domain/types';
 import { CATEGORY_NAMES, PHASE_NAMES, CostCategory, ClosurePhase } from '../domain/types';
 import { formatCurrency, formatPercent } from '../utils/formatting';
 
@@ -18,6 +24,9 @@ const CATEGORY_COLORS: Record<CostCategory, string> = {
   [CostCategory.Earthworks]: '#f97316',
   [CostCategory.TSFClosure]: '#eab308',
   [CostCategory.WRDRehabilitation]: '#84cc16',
+  [CostCategory.PitClosure]: '#d97706',
+  [CostCategory.InfrastructureRehabilitation]: '#f87171',
+  [CostCategory.UndergroundClosure]: '#78716c',
   [CostCategory.WaterTreatmentCapex]: '#06b6d4',
   [CostCategory.WaterTreatmentOpex]: '#0891b2',
   [CostCategory.Revegetation]: '#22c55e',
@@ -44,12 +53,25 @@ const PHASE_COLORS: Record<ClosurePhase, string> = {
   [ClosurePhase.RelinquishmentPostClosure]: '#ec4899',
 };
 
+// Color palette for site domain types
+const DOMAIN_TYPE_COLORS: Record<SiteDomainType, string> = {
+  tsf: '#eab308',
+  wrd: '#84cc16',
+  pit: '#d97706',
+  infrastructure: '#f87171',
+};
+
+const SITE_WIDE_COLOR = '#6b7280';
+
+/** What the breakdown bars are grouped by */
+export type BreakdownGrouping = 'category' | 'phase' | 'domain';
+
 export interface BreakdownChartConfig {
   width: number;
   height: number;
   margin: { top: number; right: number; bottom: number; left: number };
   currency: CurrencyConfig;
-  showByPhase: boolean;
+  groupBy: BreakdownGrouping;
 }
 
 const DEFAULT_CONFIG: BreakdownChartConfig = {
@@ -57,7 +79,7 @@ const DEFAULT_CONFIG: BreakdownChartConfig = {
   height: 400,
   margin: { top: 20, right: 120, bottom: 40, left: 180 },
   currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
-  showByPhase: false,
+  groupBy: 'category',
 };
 
 /**
@@ -67,10 +89,11 @@ export function renderBreakdownChart(
   container: HTMLElement,
   categoryData: readonly CategoryCostSummary[],
   phaseData: readonly PhaseCostSummary[],
+  domainData: readonly DomainCostSummary[],
   config: Partial<BreakdownChartConfig> = {}
 ): void {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  const { width, height, margin, currency, showByPhase } = cfg;
+  const { width, height, margin, currency, groupBy } = cfg;
 
   const innerWidth = width - margin.left - margin.right;
   const innerHeight = height - margin.top - margin.bottom;
@@ -100,7 +123,7 @@ export function renderBreakdownChart(
   type DataItem = { name: string; value: number; percent: number; color: string };
   let data: DataItem[];
 
-  if (showByPhase) {
+  if (groupBy === 'phase') {
     data = phaseData
       .filter((d) => d.totalCost > 0)
       .map((d) => ({
@@ -109,6 +132,15 @@ export function renderBreakdownChart(
         percent: d.percentOfTotal,
         color: PHASE_COLORS[d.phase],
       }));
+  } else if (groupBy === 'domain') {
+    data = domainData
+      .filter((d) => d.totalCost > 0)
+      .map((d) => ({
+        name: d.name,
+        value: d.totalCost,
+        percent: d.percentOfTotal,
+        color: d.type ? DOMAIN_TYPE_COLORS[d.type] : SITE_WIDE_COLOR,
+      }));
   } else {
     data = categoryData.map((d) => ({
       name: CATEGORY_NAMES[d.category],
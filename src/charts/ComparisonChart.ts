@@ -0,0 +1,306 @@
+/**
+ * Mine Closure Costing - Comparison Chart (D3)
+ *
+ * Annual cashflow curves of several scenarios overlaid on one chart, the
+ * base scenario drawn heavier.
+ * Uses D3 enter/update/exit pattern for efficient updates.
+ */
+
+import * as d3 from 'd3';
+import type { CurrencyConfig, AnnualCashflow } from '../domain/types';
+import { formatCurrency } from '../utils/formatting';
+
+export interface ComparisonChartConfig {
+  width: number;
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+  currency: CurrencyConfig;
+  showDiscounted: boolean;
+  showCumulative: boolean;
+}
+
+/** Cashflows of one compared scenario */
+export interface ComparisonSeries {
+  name: string;
+  cashflows: readonly AnnualCashflow[];
+}
+
+const DEFAULT_CONFIG: ComparisonChartConfig = {
+  width: 700,
+  height: 350,
+  margin: { top: 40, right: 30, bottom: 50, left: 80 },
+  currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
+  showDiscounted: false,
+  showCumulative: false,
+};
+
+/** Scenario colours, the base scenario first */
+export const COMPARISON_COLORS = ['#1d4ed8', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6'];
+
+interface CurvePoint {
+  year: number;
+  value: number;
+}
+
+interface Curve {
+  name: string;
+  color: string;
+  isBase: boolean;
+  points: CurvePoint[];
+}
+
+/**
+ * Render or update comparison chart
+ *
+ * @param container - Element to render into
+ * @param series - Cashflows per scenario, the base scenario first
+ * @param config - Chart configuration
+ */
+export function renderComparisonChart(
+  container: HTMLElement,
+  series: readonly ComparisonSeries[],
+  config: Partial<ComparisonChartConfig> = {}
+): void {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const { width, height, margin, currency, showDiscounted, showCumulative } = cfg;
+
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  // Years with spend in any scenario; a scenario without a year spends nothing in it
+  const years = [
+    ...new Set(
+      series.flatMap((s) =>
+        s.cashflows.filter((cf) => cf.nominalCost > 0 || cf.discountedCost > 0).map((cf) => cf.year)
+      )
+    ),
+  ].sort((a, b) => a - b);
+
+  if (years.length === 0) {
+    d3.select(container).select('svg').remove();
+    return;
+  }
+
+  const curves: Curve[] = series.map((s, i) => {
+    let cumulative = 0;
+    return {
+      name: s.name,
+      color: COMPARISON_COLORS[i % COMPARISON_COLORS.length] ?? '#6b7280',
+      isBase: i === 0,
+      points: years.map((year) => {
+        const cf = s.cashflows.find((c) => c.year === year);
+        const cost = cf ? (showDiscounted ? cf.discountedCost : cf.nominalCost) : 0;
+        cumulative += cost;
+        return { year, value: showCumulative ? cumulative : cost };
+      }),
+    };
+  });
+
+  // Select or create SVG
+  let svg = d3.select(container).select<SVGSVGElement>('svg');
+
+  if (svg.empty()) {
+    svg = d3
+      .select(container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('role', 'img')
+      .attr('aria-label', 'Scenario cashflow comparison chart');
+
+    svg.append('g').attr('class', 'chart-area');
+    svg.append('g').attr('class', 'legend');
+  }
+
+  svg.attr('width', width).attr('height', height);
+
+  const chartArea = svg
+    .select<SVGGElement>('.chart-area')
+    .attr('transform', `translate(${margin.left},${margin.top})`);
+
+  // Scales
+  const xScale = d3
+    .scaleLinear()
+    .domain([years[0] ?? 0, Math.max(years[years.length - 1] ?? 0, (years[0] ?? 0) + 1)])
+    .range([0, innerWidth]);
+
+  const maxValue = d3.max(curves, (c) => d3.max(c.points, (p) => p.value)) ?? 0;
+
+  const yScale = d3
+    .scaleLinear()
+    .domain([0, maxValue * 1.1 || 1])
+    .nice()
+    .range([innerHeight, 0]);
+
+  // Grid lines
+  let gridLines = chartArea.select<SVGGElement>('.grid-lines');
+  if (gridLines.empty()) {
+    gridLines = chartArea.append('g').attr('class', 'grid-lines');
+  }
+
+  const grid = gridLines.selectAll<SVGLineElement, number>('.grid-line').data(yScale.ticks(5));
+
+  grid
+    .enter()
+    .append('line')
+    .attr('class', 'grid-line')
+    .merge(grid)
+    .attr('x1', 0)
+    .attr('x2', innerWidth)
+    .attr('y1', (d) => yScale(d))
+    .attr('y2', (d) => yScale(d))
+    .attr('stroke', '#e5e7eb')
+    .attr('stroke-dasharray', '3,3');
+
+  grid.exit().remove();
+
+  // Curves
+  const line = d3
+    .line<CurvePoint>()
+    .x((d) => xScale(d.year))
+    .y((d) => yScale(d.value))
+    .curve(showCumulative ? d3.curveMonotoneX : d3.curveStepAfter);
+
+  let curveGroup = chartArea.select<SVGGElement>('.curves');
+  if (curveGroup.empty()) {
+    curveGroup = chartArea.append('g').attr('class', 'curves');
+  }
+
+  const paths = curveGroup.selectAll<SVGPathElement, Curve>('.curve').data(curves);
+
+  paths
+    .enter()
+    .append('path')
+    .attr('class', 'curve')
+    .attr('fill', 'none')
+    .merge(paths)
+    .attr('stroke', (d) => d.color)
+    .attr('stroke-width', (d) => (d.isBase ? 3 : 2))
+    .attr('stroke-dasharray', (d) => (d.isBase ? null : '6,3'))
+    .transition()
+    .duration(300)
+    .attr('d', (d) => line(d.points));
+
+  paths.exit().remove();
+
+  // Points with tooltips
+  const dots = curveGroup
+    .selectAll<SVGGElement, Curve>('.curve-dots')
+    .data(curves)
+    .join('g')
+    .attr('class', 'curve-dots')
+    .attr('fill', (d) => d.color);
+
+  dots
+    .selectAll<SVGCircleElement, CurvePoint & { name: string }>('circle')
+    .data((d) => d.points.map((p) => ({ ...p, name: d.name })))
+    .join('circle')
+    .attr('r', 3)
+    .attr('cx', (d) => xScale(d.year))
+    .attr('cy', (d) => yScale(d.value))
+    .selectAll('title')
+    .data((d) => [d])
+    .join('title')
+    .text((d) => `${d.name} ${d.year}: ${formatCurrency(d.value, currency)}`);
+
+  // X Axis
+  let xAxis = chartArea.select<SVGGElement>('.x-axis');
+  if (xAxis.empty()) {
+    xAxis = chartArea.append('g').attr('class', 'x-axis');
+  }
+
+  xAxis
+    .attr('transform', `translate(0,${innerHeight})`)
+    .transition()
+    .duration(300)
+    .call(d3.axisBottom(xScale).ticks(Math.min(years.length, 10)).tickFormat(d3.format('d')));
+
+  xAxis.selectAll('text').attr('font-size', '11px');
+
+  // Y Axis
+  let yAxis = chartArea.select<SVGGElement>('.y-axis');
+  if (yAxis.empty()) {
+    yAxis = chartArea.append('g').attr('class', 'y-axis');
+  }
+
+  yAxis
+    .transition()
+    .duration(300)
+    .call(
+      d3
+        .axisLeft(yScale)
+        .ticks(5)
+        .tickFormat((d) => formatCurrency(d as number, currency, { compact: true }))
+    );
+
+  yAxis.selectAll('text').attr('font-size', '11px');
+
+  // Axis labels
+  let xLabel = chartArea.select<SVGTextElement>('.x-label');
+  if (xLabel.empty()) {
+    xLabel = chartArea
+      .append('text')
+      .attr('class', 'x-label')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280');
+  }
+  xLabel
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .text('Year');
+
+  let yLabel = chartArea.select<SVGTextElement>('.y-label');
+  if (yLabel.empty()) {
+    yLabel = chartArea
+      .append('text')
+      .attr('class', 'y-label')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280')
+      .attr('transform', 'rotate(-90)');
+  }
+  yLabel
+    .attr('x', -innerHeight / 2)
+    .attr('y', -65)
+    .text(
+      `${showCumulative ? 'Cumulative ' : ''}${showDiscounted ? 'Discounted' : 'Nominal'} Cost`
+    );
+
+  // Legend
+  const legend = svg
+    .select<SVGGElement>('.legend')
+    .attr('transform', `translate(${margin.left + 10}, ${margin.top - 30})`);
+
+  const legendItems = legend.selectAll<SVGGElement, Curve>('.legend-item').data(curves);
+
+  const enterItems = legendItems.enter().append('g').attr('class', 'legend-item');
+
+  enterItems.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2);
+
+  enterItems.append('text').attr('x', 16).attr('y', 10).attr('font-size', '11px');
+
+  const mergedItems = enterItems.merge(legendItems);
+
+  const legendWidth = innerWidth / Math.max(curves.length, 1);
+  mergedItems.attr('transform', (_, i) => `translate(${i * legendWidth}, 0)`);
+
+  mergedItems.select('rect').attr('fill', (d) => d.color);
+
+  mergedItems
+    .select('text')
+    .text((d) => (d.name.length > 18 ? `${d.name.slice(0, 17)}…` : d.name))
+    .selectAll('title')
+    .data((d) => [d])
+    .join('title')
+    .text((d) => d.name);
+
+  legendItems.exit().remove();
+}
+
+/**
+ * Clear the chart
+ */
+export function clearComparisonChart(container: HTMLElement): void {
+  d3.select(container).select('svg').remove();
+}
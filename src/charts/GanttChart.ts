@@ -0,0 +1,342 @@
+/**
+ * Mine Closure Costing - Gantt Chart (D3)
+ *
+ * Horizontal timeline of closure phases from the phase schedule.
+ * Bars are coloured by cost intensity (average annual cost while active)
+ * and critical path phases are outlined.
+ * Uses D3 enter/update/exit pattern for efficient updates.
+ */
+
+import * as d3 from 'd3';
+import type { CurrencyConfig, AnnualCashflow, PhaseTiming } from '../domain/types';
+import { PHASE_NAMES, ClosurePhase } from '../domain/types';
+import { formatCurrency } from '../utils/formatting';
+
+export interface GanttChartConfig {
+  width: number;
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+  currency: CurrencyConfig;
+  /** Calendar year of closure year 0 */
+  startYear: number;
+  highlightCriticalPath: boolean;
+}
+
+const DEFAULT_CONFIG: GanttChartConfig = {
+  width: 700,
+  height: 350,
+  margin: { top: 40, right: 90, bottom: 50, left: 180 },
+  currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
+  startYear: 0,
+  highlightCriticalPath: true,
+};
+
+interface GanttBar {
+  phase: ClosurePhase;
+  name: string;
+  start: number;
+  finish: number;
+  duration: number;
+  totalCost: number;
+  intensity: number;
+  isCritical: boolean;
+  floatYears: number;
+}
+
+/**
+ * Render or update Gantt chart
+ *
+ * @param container - Element to render into
+ * @param timings - Scheduled phase timings
+ * @param cashflows - Annual cashflows with per-phase breakdown
+ * @param config - Chart configuration
+ */
+export function renderGanttChart(
+  container: HTMLElement,
+  timings: readonly PhaseTiming[],
+  cashflows: readonly AnnualCashflow[],
+  config: Partial<GanttChartConfig> = {}
+): void {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const { width, height, margin, currency, startYear, highlightCriticalPath } = cfg;
+
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  if (timings.length === 0) {
+    d3.select(container).select('svg').remove();
+    return;
+  }
+
+  // Phase cost totals from the annual breakdown
+  const phaseTotals = new Map<ClosurePhase, number>();
+  for (const cf of cashflows) {
+    for (const [phase, cost] of Object.entries(cf.phaseBreakdown) as [ClosurePhase, number][]) {
+      phaseTotals.set(phase, (phaseTotals.get(phase) ?? 0) + cost);
+    }
+  }
+
+  const chartData: GanttBar[] = timings.map((t) => {
+    const totalCost = phaseTotals.get(t.phase) ?? 0;
+    return {
+      phase: t.phase,
+      name: PHASE_NAMES[t.phase],
+      start: t.startYear,
+      finish: t.finishYear,
+      duration: t.durationYears,
+      totalCost,
+      intensity: totalCost / Math.max(1, t.durationYears),
+      isCritical: t.isCritical,
+      floatYears: t.totalFloatYears,
+    };
+  });
+
+  // Select or create SVG
+  let svg = d3.select(container).select<SVGSVGElement>('svg');
+
+  if (svg.empty()) {
+    svg = d3
+      .select(container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('role', 'img')
+      .attr('aria-label', 'Closure phase schedule chart');
+
+    const defs = svg.append('defs');
+
+    defs
+      .append('linearGradient')
+      .attr('id', 'gantt-intensity-gradient')
+      .attr('x1', '0%')
+      .attr('x2', '100%')
+      .attr('y1', '0%')
+      .attr('y2', '0%');
+
+    svg.append('g').attr('class', 'chart-area');
+    svg.append('g').attr('class', 'legend');
+  }
+
+  svg.attr('width', width).attr('height', height);
+
+  const chartArea = svg
+    .select<SVGGElement>('.chart-area')
+    .attr('transform', `translate(${margin.left},${margin.top})`);
+
+  // Scales
+  const maxYear = d3.max(chartData, (d) => d.finish) ?? 0;
+
+  const xScale = d3
+    .scaleLinear()
+    .domain([0, Math.max(1, maxYear)])
+    .range([0, innerWidth]);
+
+  const yScale = d3
+    .scaleBand<ClosurePhase>()
+    .domain(chartData.map((d) => d.phase))
+    .range([0, innerHeight])
+    .padding(0.3);
+
+  const maxIntensity = d3.max(chartData, (d) => d.intensity) ?? 0;
+
+  const colorScale = d3
+    .scaleSequential(d3.interpolateYlOrRd)
+    .domain([0, maxIntensity > 0 ? maxIntensity : 1]);
+
+  // Grid lines (years)
+  let gridLines = chartArea.select<SVGGElement>('.grid-lines');
+  if (gridLines.empty()) {
+    gridLines = chartArea.append('g').attr('class', 'grid-lines');
+  }
+
+  const grid = gridLines.selectAll<SVGLineElement, number>('.grid-line').data(xScale.ticks(10));
+
+  grid
+    .enter()
+    .append('line')
+    .attr('class', 'grid-line')
+    .merge(grid)
+    .attr('x1', (d) => xScale(d))
+    .attr('x2', (d) => xScale(d))
+    .attr('y1', 0)
+    .attr('y2', innerHeight)
+    .attr('stroke', '#e5e7eb')
+    .attr('stroke-dasharray', '3,3');
+
+  grid.exit().remove();
+
+  // Phase bars
+  const bars = chartArea
+    .selectAll<SVGRectElement, GanttBar>('.phase-bar')
+    .data(chartData, (d) => d.phase);
+
+  const enterBars = bars
+    .enter()
+    .append('rect')
+    .attr('class', 'phase-bar')
+    .attr('x', 0)
+    .attr('width', 0)
+    .attr('rx', 3);
+
+  enterBars.append('title');
+
+  const mergedBars = enterBars.merge(bars);
+
+  mergedBars
+    .transition()
+    .duration(300)
+    .attr('x', (d) => xScale(d.start))
+    .attr('y', (d) => yScale(d.phase) ?? 0)
+    .attr('width', (d) => Math.max(2, xScale(d.finish) - xScale(d.start)))
+    .attr('height', yScale.bandwidth())
+    .attr('fill', (d) => (d.totalCost > 0 ? colorScale(d.intensity) : '#e5e7eb'))
+    .attr('stroke', (d) => (highlightCriticalPath && d.isCritical ? '#111827' : 'none'))
+    .attr('stroke-width', 1.5);
+
+  mergedBars
+    .select('title')
+    .text(
+      (d) =>
+        `${d.name}\nYears ${startYear + d.start}–${startYear + d.finish} (${d.duration} yrs)\n` +
+        `${formatCurrency(d.totalCost, currency)} total, ${formatCurrency(d.intensity, currency, { compact: true })}/yr\n` +
+        (d.isCritical ? 'Critical path' : `Float: ${d.floatYears} yrs`)
+    );
+
+  bars.exit().transition().duration(200).attr('width', 0).remove();
+
+  // Intensity labels at bar ends
+  const labels = chartArea
+    .selectAll<SVGTextElement, GanttBar>('.intensity-label')
+    .data(chartData, (d) => d.phase);
+
+  labels
+    .enter()
+    .append('text')
+    .attr('class', 'intensity-label')
+    .attr('font-size', '10px')
+    .attr('fill', '#6b7280')
+    .attr('dominant-baseline', 'middle')
+    .merge(labels)
+    .transition()
+    .duration(300)
+    .attr('x', (d) => Math.max(xScale(d.start) + 2, xScale(d.finish)) + 6)
+    .attr('y', (d) => (yScale(d.phase) ?? 0) + yScale.bandwidth() / 2)
+    .text((d) =>
+      d.totalCost > 0 ? `${formatCurrency(d.intensity, currency, { compact: true })}/yr` : ''
+    );
+
+  labels.exit().remove();
+
+  // X Axis
+  let xAxis = chartArea.select<SVGGElement>('.x-axis');
+  if (xAxis.empty()) {
+    xAxis = chartArea.append('g').attr('class', 'x-axis');
+  }
+
+  xAxis
+    .attr('transform', `translate(0,${innerHeight})`)
+    .transition()
+    .duration(300)
+    .call(
+      d3
+        .axisBottom(xScale)
+        .ticks(10)
+        .tickFormat((d) => d3.format('d')(startYear + (d as number)))
+    );
+
+  xAxis.selectAll('text').attr('font-size', '11px');
+
+  // Y Axis
+  let yAxis = chartArea.select<SVGGElement>('.y-axis');
+  if (yAxis.empty()) {
+    yAxis = chartArea.append('g').attr('class', 'y-axis');
+  }
+
+  yAxis
+    .transition()
+    .duration(300)
+    .call(d3.axisLeft(yScale).tickFormat((d) => PHASE_NAMES[d]));
+
+  yAxis.selectAll('text').attr('font-size', '11px');
+
+  // Axis label
+  let xLabel = chartArea.select<SVGTextElement>('.x-label');
+  if (xLabel.empty()) {
+    xLabel = chartArea
+      .append('text')
+      .attr('class', 'x-label')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280');
+  }
+  xLabel.attr('x', innerWidth / 2).attr('y', innerHeight + 40).text('Year');
+
+  // Legend - intensity gradient
+  const gradientStops = d3.range(0, 1.01, 0.25);
+  svg
+    .select('#gantt-intensity-gradient')
+    .selectAll<SVGStopElement, number>('stop')
+    .data(gradientStops)
+    .join('stop')
+    .attr('offset', (d) => `${d * 100}%`)
+    .attr('stop-color', (d) => colorScale(d * (maxIntensity > 0 ? maxIntensity : 1)));
+
+  const legend = svg
+    .select<SVGGElement>('.legend')
+    .attr('transform', `translate(${margin.left}, ${margin.top - 28})`);
+
+  if (legend.select('.legend-bar').empty()) {
+    legend
+      .append('text')
+      .attr('class', 'legend-title')
+      .attr('y', 10)
+      .attr('font-size', '11px')
+      .text('Cost intensity');
+    legend
+      .append('rect')
+      .attr('class', 'legend-bar')
+      .attr('x', 85)
+      .attr('width', 100)
+      .attr('height', 12)
+      .attr('rx', 2)
+      .attr('fill', 'url(#gantt-intensity-gradient)');
+    legend
+      .append('text')
+      .attr('class', 'legend-max')
+      .attr('x', 191)
+      .attr('y', 10)
+      .attr('font-size', '11px');
+    legend
+      .append('rect')
+      .attr('class', 'legend-critical')
+      .attr('x', 280)
+      .attr('width', 12)
+      .attr('height', 12)
+      .attr('rx', 2)
+      .attr('fill', 'none')
+      .attr('stroke', '#111827')
+      .attr('stroke-width', 1.5);
+    legend
+      .append('text')
+      .attr('class', 'legend-critical-label')
+      .attr('x', 296)
+      .attr('y', 10)
+      .attr('font-size', '11px')
+      .text('Critical path');
+  }
+
+  legend
+    .select('.legend-max')
+    .text(`${formatCurrency(maxIntensity, currency, { compact: true })}/yr`);
+
+  legend
+    .selectAll('.legend-critical, .legend-critical-label')
+    .attr('display', highlightCriticalPath ? null : 'none');
+}
+
+/**
+ * Clear the chart
+ */
+export function clearGanttChart(container: HTMLElement): void {
+  d3.select(container).select('svg').remove();
+}
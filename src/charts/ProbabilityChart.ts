@@ -0,0 +1,377 @@
+/**
+ * Mine Closure Costing - Probability Chart (D3)
+ *
+ * Histogram and cumulative probability (S-curve) of sampled outcomes,
+ * with P-value markers and the deterministic base case overlaid.
+ * Uses D3 enter/update/exit pattern for efficient updates.
+ */
+
+import * as d3 from 'd3';
+import type { CurrencyConfig } from '../domain/types';
+import { formatCurrency } from '../utils/formatting';
+
+export interface ProbabilityChartConfig {
+  width: number;
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+  currency: CurrencyConfig;
+  binCount: number;
+  percentiles: readonly number[];
+  valueLabel: string;
+}
+
+const DEFAULT_CONFIG: ProbabilityChartConfig = {
+  width: 700,
+  height: 350,
+  margin: { top: 40, right: 60, bottom: 50, left: 60 },
+  currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
+  binCount: 30,
+  percentiles: [10, 50, 90],
+  valueLabel: 'Total Cost',
+};
+
+interface CurvePoint {
+  value: number;
+  probability: number;
+}
+
+interface Marker {
+  label: string;
+  value: number;
+  color: string;
+}
+
+/**
+ * Render or update probability chart
+ *
+ * @param container - Element to render into
+ * @param samples - Sampled outcomes (any order)
+ * @param baseValue - Deterministic base case to overlay, or null to omit
+ * @param config - Chart configuration
+ */
+export function renderProbabilityChart(
+  container: HTMLElement,
+  samples: readonly number[],
+  baseValue: number | null,
+  config: Partial<ProbabilityChartConfig> = {}
+): void {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const { width, height, margin, currency, binCount, percentiles, valueLabel } = cfg;
+
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  const sorted = samples.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+
+  if (sorted.length === 0) {
+    d3.select(container).select('svg').remove();
+    return;
+  }
+
+  // Select or create SVG
+  let svg = d3.select(container).select<SVGSVGElement>('svg');
+
+  if (svg.empty()) {
+    svg = d3
+      .select(container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('role', 'img')
+      .attr('aria-label', 'Probability distribution chart');
+
+    svg.append('g').attr('class', 'chart-area');
+    svg.append('g').attr('class', 'legend');
+  }
+
+  svg.attr('width', width).attr('height', height);
+
+  const chartArea = svg
+    .select<SVGGElement>('.chart-area')
+    .attr('transform', `translate(${margin.left},${margin.top})`);
+
+  // Scales - pad the value range so a single-valued sample still has width
+  const minValue = Math.min(sorted[0] ?? 0, baseValue ?? Infinity);
+  const maxValue = Math.max(sorted[sorted.length - 1] ?? 0, baseValue ?? -Infinity);
+  const padding =
+    maxValue > minValue ? (maxValue - minValue) * 0.05 : Math.abs(maxValue) * 0.05 || 1;
+
+  const xScale = d3
+    .scaleLinear()
+    .domain([minValue - padding, maxValue + padding])
+    .nice()
+    .range([0, innerWidth]);
+
+  const [domainMin, domainMax] = xScale.domain() as [number, number];
+
+  const bins = d3.bin().domain([domainMin, domainMax]).thresholds(xScale.ticks(binCount))(sorted);
+
+  const maxFrequency = d3.max(bins, (b) => b.length / sorted.length) ?? 0;
+
+  const yFrequency = d3
+    .scaleLinear()
+    .domain([0, maxFrequency * 1.1 || 1])
+    .nice()
+    .range([innerHeight, 0]);
+
+  const yProbability = d3.scaleLinear().domain([0, 1]).range([innerHeight, 0]);
+
+  // Grid lines (on the probability axis)
+  let gridLines = chartArea.select<SVGGElement>('.grid-lines');
+  if (gridLines.empty()) {
+    gridLines = chartArea.append('g').attr('class', 'grid-lines');
+  }
+
+  const grid = gridLines
+    .selectAll<SVGLineElement, number>('.grid-line')
+    .data(yProbability.ticks(5));
+
+  grid
+    .enter()
+    .append('line')
+    .attr('class', 'grid-line')
+    .merge(grid)
+    .attr('x1', 0)
+    .attr('x2', innerWidth)
+    .attr('y1', (d) => yProbability(d))
+    .attr('y2', (d) => yProbability(d))
+    .attr('stroke', '#e5e7eb')
+    .attr('stroke-dasharray', '3,3');
+
+  grid.exit().remove();
+
+  // Histogram bars
+  let histogram = chartArea.select<SVGGElement>('.histogram');
+  if (histogram.empty()) {
+    histogram = chartArea.append('g').attr('class', 'histogram');
+  }
+
+  const bars = histogram.selectAll<SVGRectElement, d3.Bin<number, number>>('.bin').data(bins);
+
+  bars
+    .enter()
+    .append('rect')
+    .attr('class', 'bin')
+    .attr('y', innerHeight)
+    .attr('height', 0)
+    .attr('fill', '#93c5fd')
+    .attr('opacity', 0.8)
+    .merge(bars)
+    .transition()
+    .duration(300)
+    .attr('x', (d) => xScale(d.x0 ?? domainMin) + 1)
+    .attr('width', (d) => Math.max(0, xScale(d.x1 ?? domainMax) - xScale(d.x0 ?? domainMin) - 2))
+    .attr('y', (d) => yFrequency(d.length / sorted.length))
+    .attr('height', (d) => innerHeight - yFrequency(d.length / sorted.length));
+
+  bars.exit().transition().duration(200).attr('height', 0).attr('y', innerHeight).remove();
+
+  // Cumulative probability S-curve
+  const curveData: CurvePoint[] = [
+    { value: domainMin, probability: 0 },
+    ...sorted.map((value, i) => ({ value, probability: (i + 1) / sorted.length })),
+    { value: domainMax, probability: 1 },
+  ];
+
+  const line = d3
+    .line<CurvePoint>()
+    .x((d) => xScale(d.value))
+    .y((d) => yProbability(d.probability))
+    .curve(d3.curveStepAfter);
+
+  let curve = chartArea.select<SVGPathElement>('.s-curve');
+  if (curve.empty()) {
+    curve = chartArea
+      .append('path')
+      .attr('class', 's-curve')
+      .attr('fill', 'none')
+      .attr('stroke', '#1d4ed8')
+      .attr('stroke-width', 2);
+  }
+  curve.datum(curveData).transition().duration(300).attr('d', line);
+
+  // P-value and base case markers
+  const markers: Marker[] = percentiles.map((p) => ({
+    label: `P${p}`,
+    value: d3.quantileSorted(sorted, p / 100) ?? 0,
+    color: '#f59e0b',
+  }));
+
+  if (baseValue !== null) {
+    markers.push({ label: 'Base', value: baseValue, color: '#ef4444' });
+  }
+
+  let markerGroup = chartArea.select<SVGGElement>('.markers');
+  if (markerGroup.empty()) {
+    markerGroup = chartArea.append('g').attr('class', 'markers');
+  }
+
+  const markerItems = markerGroup
+    .selectAll<SVGGElement, Marker>('.marker')
+    .data(markers, (d) => d.label);
+
+  const enterMarkers = markerItems.enter().append('g').attr('class', 'marker');
+
+  enterMarkers.append('line').attr('y1', 0).attr('stroke-width', 1.5);
+  enterMarkers
+    .append('text')
+    .attr('y', -6)
+    .attr('text-anchor', 'middle')
+    .attr('font-size', '11px')
+    .attr('font-weight', '600');
+
+  const mergedMarkers = enterMarkers.merge(markerItems);
+
+  mergedMarkers
+    .transition()
+    .duration(300)
+    .attr('transform', (d) => `translate(${xScale(d.value)},0)`);
+
+  mergedMarkers
+    .select('line')
+    .attr('y2', innerHeight)
+    .attr('stroke', (d) => d.color)
+    .attr('stroke-dasharray', (d) => (d.label === 'Base' ? null : '4,3'));
+
+  mergedMarkers
+    .select('text')
+    .attr('fill', (d) => d.color)
+    .text((d) => d.label);
+
+  mergedMarkers
+    .selectAll('title')
+    .data((d) => [d])
+    .join('title')
+    .text((d) => `${d.label}: ${formatCurrency(d.value, currency)}`);
+
+  markerItems.exit().remove();
+
+  // X Axis
+  let xAxis = chartArea.select<SVGGElement>('.x-axis');
+  if (xAxis.empty()) {
+    xAxis = chartArea.append('g').attr('class', 'x-axis');
+  }
+
+  xAxis
+    .attr('transform', `translate(0,${innerHeight})`)
+    .transition()
+    .duration(300)
+    .call(
+      d3
+        .axisBottom(xScale)
+        .ticks(6)
+        .tickFormat((d) => formatCurrency(d as number, currency, { compact: true }))
+    );
+
+  xAxis.selectAll('text').attr('font-size', '11px');
+
+  // Y Axis (frequency, left)
+  let yAxis = chartArea.select<SVGGElement>('.y-axis');
+  if (yAxis.empty()) {
+    yAxis = chartArea.append('g').attr('class', 'y-axis');
+  }
+
+  yAxis
+    .transition()
+    .duration(300)
+    .call(d3.axisLeft(yFrequency).ticks(5).tickFormat(d3.format('.0%')));
+
+  yAxis.selectAll('text').attr('font-size', '11px');
+
+  // Y Axis (cumulative probability, right)
+  let yAxisRight = chartArea.select<SVGGElement>('.y-axis-right');
+  if (yAxisRight.empty()) {
+    yAxisRight = chartArea.append('g').attr('class', 'y-axis-right');
+  }
+
+  yAxisRight
+    .attr('transform', `translate(${innerWidth},0)`)
+    .transition()
+    .duration(300)
+    .call(d3.axisRight(yProbability).ticks(5).tickFormat(d3.format('.0%')));
+
+  yAxisRight.selectAll('text').attr('font-size', '11px');
+
+  // Axis labels
+  let xLabel = chartArea.select<SVGTextElement>('.x-label');
+  if (xLabel.empty()) {
+    xLabel = chartArea
+      .append('text')
+      .attr('class', 'x-label')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280');
+  }
+  xLabel
+    .attr('x', innerWidth / 2)
+    .attr('y', innerHeight + 40)
+    .text(valueLabel);
+
+  let yLabel = chartArea.select<SVGTextElement>('.y-label');
+  if (yLabel.empty()) {
+    yLabel = chartArea
+      .append('text')
+      .attr('class', 'y-label')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280')
+      .attr('transform', 'rotate(-90)');
+  }
+  yLabel
+    .attr('x', -innerHeight / 2)
+    .attr('y', -45)
+    .text('Frequency');
+
+  let yLabelRight = chartArea.select<SVGTextElement>('.y-label-right');
+  if (yLabelRight.empty()) {
+    yLabelRight = chartArea
+      .append('text')
+      .attr('class', 'y-label-right')
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('fill', '#6b7280')
+      .attr('transform', 'rotate(90)');
+  }
+  yLabelRight
+    .attr('x', innerHeight / 2)
+    .attr('y', -innerWidth - 48)
+    .text('Cumulative Probability');
+
+  // Legend
+  const legendData = [
+    { label: 'Frequency', color: '#93c5fd' },
+    { label: 'Cumulative', color: '#1d4ed8' },
+    ...(baseValue !== null ? [{ label: 'Base Case', color: '#ef4444' }] : []),
+  ];
+
+  const legend = svg
+    .select<SVGGElement>('.legend')
+    .attr('transform', `translate(${margin.left + 10}, ${margin.top - 30})`);
+
+  const legendItems = legend
+    .selectAll<SVGGElement, { label: string; color: string }>('.legend-item')
+    .data(legendData);
+
+  const enterItems = legendItems.enter().append('g').attr('class', 'legend-item');
+
+  enterItems.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2);
+
+  enterItems.append('text').attr('x', 16).attr('y', 10).attr('font-size', '11px');
+
+  const mergedItems = enterItems.merge(legendItems);
+
+  mergedItems.attr('transform', (_, i) => `translate(${i * 100}, 0)`);
+
+  mergedItems.select('rect').attr('fill', (d) => d.color);
+
+  mergedItems.select('text').text((d) => d.label);
+
+  legendItems.exit().remove();
+}
+
+/**
+ * Clear the chart
+ */
+export function clearProbabilityChart(container: HTMLElement): void {
+  d3.select(container).select('svg').remove();
+}
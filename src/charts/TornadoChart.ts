@@ -16,6 +16,11 @@ export interface TornadoChartConfig {
   currency: CurrencyConfig;
   maxDrivers: number;
   showNPV: boolean;
+  /** Chart title (null for the ±10% sensitivity title) */
+  title: string | null;
+  /** NPV at the centre line (null to centre each driver between its low and high NPV) */
+  baseNPV: number | null;
+  legendLabels: readonly [string, string];
 }
 
 const DEFAULT_CONFIG: TornadoChartConfig = {
@@ -25,6 +30,9 @@ const DEFAULT_CONFIG: TornadoChartConfig = {
   currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
   maxDrivers: 8,
   showNPV: false,
+  title: null,
+  baseNPV: null,
+  legendLabels: ['-10%', '+10%'],
 };
 
 /**
@@ -37,7 +45,8 @@ export function renderTornadoChart(
   config: Partial<TornadoChartConfig> = {}
 ): void {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  const { width, height, margin, currency, maxDrivers, showNPV } = cfg;
+  const { width, height, margin, currency, maxDrivers, showNPV, title, baseNPV, legendLabels } =
+    cfg;
 
   const innerWidth = width - margin.left - margin.right;
   const innerHeight = height - margin.top - margin.bottom;
@@ -58,7 +67,7 @@ export function renderTornadoChart(
 
   // Calculate low/high deviations from base
   const chartData = sortedData.map((d) => {
-    const baseValue = showNPV ? (d.lowNPV + d.highNPV) / 2 : baseTotalCost;
+    const baseValue = showNPV ? (baseNPV ?? (d.lowNPV + d.highNPV) / 2) : baseTotalCost;
     return {
       name: d.driverName,
       low: showNPV ? d.lowNPV - baseValue : d.lowTotalCost - baseTotalCost,
@@ -99,7 +108,9 @@ export function renderTornadoChart(
     .attr('font-size', '14px')
     .attr('font-weight', '500')
     .attr('fill', '#374151')
-    .text(`Sensitivity Analysis (±10% variation) - ${showNPV ? 'NPV Impact' : 'Cost Impact'}`);
+    .text(
+      `${title ?? 'Sensitivity Analysis (±10% variation)'} - ${showNPV ? 'NPV Impact' : 'Cost Impact'}`
+    );
 
   // Scales
   const maxDeviation = d3.max(chartData, (d) => Math.max(Math.abs(d.low), Math.abs(d.high))) ?? 0;
@@ -271,8 +282,8 @@ export function renderTornadoChart(
   legend.attr('transform', `translate(${innerWidth - 100}, -25)`);
 
   const legendData = [
-    { label: '-10%', color: '#22c55e' },
-    { label: '+10%', color: '#ef4444' },
+    { label: legendLabels[0], color: '#22c55e' },
+    { label: legendLabels[1], color: '#ef4444' },
   ];
 
   const legendItems = legend
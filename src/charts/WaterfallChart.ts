@@ -0,0 +1,264 @@
+/**
+ * Mine Closure Costing - Waterfall Chart (D3)
+ *
+ * Cost bridge from a prior to a current estimate: the prior total, a
+ * floating bar for each movement and the current total.
+ * Uses D3 enter/update/exit pattern for efficient updates.
+ */
+
+import * as d3 from 'd3';
+import type { CurrencyConfig, CostBridge } from '../domain/types';
+import { formatCurrency } from '../utils/formatting';
+
+export interface WaterfallChartConfig {
+  width: number;
+  height: number;
+  margin: { top: number; right: number; bottom: number; left: number };
+  currency: CurrencyConfig;
+  startLabel: string;
+  endLabel: string;
+}
+
+const DEFAULT_CONFIG: WaterfallChartConfig = {
+  width: 700,
+  height: 380,
+  margin: { top: 30, right: 20, bottom: 110, left: 80 },
+  currency: { symbol: '$', code: 'AUD', locale: 'en-AU' },
+  startLabel: 'Prior',
+  endLabel: 'Current',
+};
+
+const COLORS = {
+  total: '#3b82f6',
+  increase: '#ef4444',
+  decrease: '#10b981',
+};
+
+interface WaterfallBar {
+  key: string;
+  label: string;
+  from: number;
+  to: number;
+  kind: keyof typeof COLORS;
+}
+
+/**
+ * Render or update waterfall chart
+ *
+ * @param container - Element to render into
+ * @param bridge - Cost bridge to draw
+ * @param config - Chart configuration
+ */
+export function renderWaterfallChart(
+  container: HTMLElement,
+  bridge: CostBridge,
+  config: Partial<WaterfallChartConfig> = {}
+): void {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const { width, height, margin, currency, startLabel, endLabel } = cfg;
+
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+
+  // Running total through the movements
+  let running = bridge.startValue;
+  const bars: WaterfallBar[] = [
+    { key: 'start', label: startLabel, from: 0, to: bridge.startValue, kind: 'total' },
+    ...bridge.steps.map((step): WaterfallBar => {
+      const from = running;
+      running += step.delta;
+      return {
+        key: step.key,
+        label: step.label,
+        from,
+        to: running,
+        kind: step.delta >= 0 ? 'increase' : 'decrease',
+      };
+    }),
+    { key: 'end', label: endLabel, from: 0, to: bridge.endValue, kind: 'total' },
+  ];
+
+  // Select or create SVG
+  let svg = d3.select(container).select<SVGSVGElement>('svg');
+
+  if (svg.empty()) {
+    svg = d3
+      .select(container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('role', 'img')
+      .attr('aria-label', 'Cost bridge waterfall chart');
+
+    svg.append('g').attr('class', 'chart-area');
+  }
+
+  svg.attr('width', width).attr('height', height);
+
+  const chartArea = svg
+    .select<SVGGElement>('.chart-area')
+    .attr('transform', `translate(${margin.left},${margin.top})`);
+
+  // Scales
+  const xScale = d3
+    .scaleBand()
+    .domain(bars.map((b) => b.key))
+    .range([0, innerWidth])
+    .padding(0.25);
+
+  const minValue = Math.min(0, ...bars.map((b) => Math.min(b.from, b.to)));
+  const maxValue = Math.max(...bars.map((b) => Math.max(b.from, b.to)));
+
+  const yScale = d3
+    .scaleLinear()
+    .domain([minValue, maxValue * 1.08 || 1])
+    .nice()
+    .range([innerHeight, 0]);
+
+  // Grid lines
+  let gridLines = chartArea.select<SVGGElement>('.grid-lines');
+  if (gridLines.empty()) {
+    gridLines = chartArea.append('g').attr('class', 'grid-lines');
+  }
+
+  const grid = gridLines.selectAll<SVGLineElement, number>('.grid-line').data(yScale.ticks(5));
+
+  grid
+    .enter()
+    .append('line')
+    .attr('class', 'grid-line')
+    .merge(grid)
+    .attr('x1', 0)
+    .attr('x2', innerWidth)
+    .attr('y1', (d) => yScale(d))
+    .attr('y2', (d) => yScale(d))
+    .attr('stroke', '#e5e7eb')
+    .attr('stroke-dasharray', '3,3');
+
+  grid.exit().remove();
+
+  // Connectors from the top of each bar to the next
+  let connectorGroup = chartArea.select<SVGGElement>('.connectors');
+  if (connectorGroup.empty()) {
+    connectorGroup = chartArea.append('g').attr('class', 'connectors');
+  }
+
+  connectorGroup
+    .selectAll<SVGLineElement, WaterfallBar>('.connector')
+    .data(bars.slice(0, -1))
+    .join('line')
+    .attr('class', 'connector')
+    .attr('stroke', '#9ca3af')
+    .attr('stroke-dasharray', '2,2')
+    .attr('x1', (d) => (xScale(d.key) ?? 0) + xScale.bandwidth())
+    .attr('x2', (_, i) => xScale(bars[i + 1]?.key ?? '') ?? 0)
+    .attr('y1', (d) => yScale(d.to))
+    .attr('y2', (d) => yScale(d.to));
+
+  // Bars
+  let barGroup = chartArea.select<SVGGElement>('.bars');
+  if (barGroup.empty()) {
+    barGroup = chartArea.append('g').attr('class', 'bars');
+  }
+
+  const barItems = barGroup
+    .selectAll<SVGRectElement, WaterfallBar>('.bar')
+    .data(bars, (d) => d.key);
+
+  barItems
+    .enter()
+    .append('rect')
+    .attr('class', 'bar')
+    .attr('rx', 2)
+    .attr('y', yScale(0))
+    .attr('height', 0)
+    .merge(barItems)
+    .attr('fill', (d) => COLORS[d.kind])
+    .transition()
+    .duration(300)
+    .attr('x', (d) => xScale(d.key) ?? 0)
+    .attr('width', xScale.bandwidth())
+    .attr('y', (d) => yScale(Math.max(d.from, d.to)))
+    .attr('height', (d) => Math.max(1, Math.abs(yScale(d.from) - yScale(d.to))));
+
+  barItems.exit().remove();
+
+  barGroup
+    .selectAll<SVGRectElement, WaterfallBar>('.bar')
+    .selectAll('title')
+    .data((d) => [d])
+    .join('title')
+    .text((d) =>
+      d.kind === 'total'
+        ? `${d.label}: ${formatCurrency(d.to, currency)}`
+        : `${d.label}: ${d.to >= d.from ? '+' : '−'}${formatCurrency(Math.abs(d.to - d.from), currency)}`
+    );
+
+  // Value labels
+  const valueLabels = barGroup
+    .selectAll<SVGTextElement, WaterfallBar>('.value-label')
+    .data(bars, (d) => d.key);
+
+  valueLabels
+    .enter()
+    .append('text')
+    .attr('class', 'value-label')
+    .attr('text-anchor', 'middle')
+    .attr('font-size', '10px')
+    .attr('fill', '#374151')
+    .merge(valueLabels)
+    .attr('x', (d) => (xScale(d.key) ?? 0) + xScale.bandwidth() / 2)
+    .attr('y', (d) => yScale(Math.max(d.from, d.to)) - 4)
+    .text((d) => {
+      const value = d.kind === 'total' ? d.to : d.to - d.from;
+      const sign = d.kind === 'total' ? '' : value >= 0 ? '+' : '−';
+      return `${sign}${formatCurrency(Math.abs(value), currency, { compact: true })}`;
+    });
+
+  valueLabels.exit().remove();
+
+  // X Axis
+  let xAxis = chartArea.select<SVGGElement>('.x-axis');
+  if (xAxis.empty()) {
+    xAxis = chartArea.append('g').attr('class', 'x-axis');
+  }
+
+  const labels = new Map(bars.map((b) => [b.key, b.label]));
+
+  xAxis
+    .attr('transform', `translate(0,${yScale(0)})`)
+    .call(d3.axisBottom(xScale).tickFormat((key) => labels.get(key) ?? key));
+
+  xAxis
+    .selectAll('text')
+    .attr('font-size', '10px')
+    .attr('text-anchor', 'end')
+    .attr('transform', 'rotate(-35)')
+    .attr('dx', '-0.4em')
+    .attr('dy', '0.6em');
+
+  // Y Axis
+  let yAxis = chartArea.select<SVGGElement>('.y-axis');
+  if (yAxis.empty()) {
+    yAxis = chartArea.append('g').attr('class', 'y-axis');
+  }
+
+  yAxis
+    .transition()
+    .duration(300)
+    .call(
+      d3
+        .axisLeft(yScale)
+        .ticks(5)
+        .tickFormat((d) => formatCurrency(d as number, currency, { compact: true }))
+    );
+
+  yAxis.selectAll('text').attr('font-size', '11px');
+}
+
+/**
+ * Clear the chart
+ */
+export function clearWaterfallChart(container: HTMLElement): void {
+  d3.select(container).select('svg').remove();
+}
@@ -2,6 +2,21 @@
  * Mine Closure Costing - Charts Module Exports
  */
 
-export { renderBreakdownChart, clearBreakdownChart, type BreakdownChartConfig } from './BreakdownChart';
+export {
+  renderBreakdownChart,
+  clearBreakdownChart,
+  type BreakdownChartConfig,
+  type BreakdownGrouping,
+} from './BreakdownChart';
 export { renderCashflowChart, clearCashflowChart, type CashflowChartConfig } from './CashflowChart';
 export { renderTornadoChart, clearTornadoChart, type TornadoChartConfig } from './TornadoChart';
+export { renderProbabilityChart, clearProbabilityChart, type ProbabilityChartConfig } from './ProbabilityChart';
+export { renderGanttChart, clearGanttChart, type GanttChartConfig } from './GanttChart';
+export {
+  renderComparisonChart,
+  clearComparisonChart,
+  COMPARISON_COLORS,
+  type ComparisonChartConfig,
+  type ComparisonSeries,
+} from './ComparisonChart';
+export { renderWaterfallChart, clearWaterfallChart, type WaterfallChartConfig } from './WaterfallChart';
@@ -0,0 +1,131 @@
+/**
+ * Mine Closure Costing - Cost Index Panel Component
+ *
+ * Import published cost index series from CSV and rebase the unit rates from
+ * the year they are priced in to the rate base year.
+ */
+
+import { useRef } from 'react';
+import type { ChangeEvent } from 'react';
+import { useAppState } from '../state';
+import { getRateRebaseFactor } from '../domain';
+import { formatNumber } from '../utils/formatting';
+import styles from './CostIndexPanel.module.css';
+
+export function CostIndexPanel(): React.ReactElement {
+  const { state, importCostIndices, deleteCostIndex, updateRateRebase } = useAppState();
+  const { inputs } = state;
+  const { costIndices, rateRebase } = inputs;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rebaseFactor = getRateRebaseFactor(inputs);
+  const rebaseIndex = costIndices.find((s) => s.id === rateRebase.costIndexId);
+
+  const handleFileImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        const content = event.target?.result;
+        if (typeof content === 'string') {
+          importCostIndices(content, file.name.replace(/\.[^.]+$/, ''));
+        }
+      };
+      reader.readAsText(file);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      {costIndices.length === 0 && (
+        <p className={styles.empty}>
+          No cost indices - import a CSV with a year column and one column per index.
+        </p>
+      )}
+
+      {costIndices.map((series) => {
+        const first = series.points[0];
+        const last = series.points[series.points.length - 1];
+        return (
+          <div key={series.id} className={styles.series}>
+            <div className={styles.seriesText}>
+              <span className={styles.name}>{series.name}</span>
+              <span className={styles.summary}>
+                {first?.year}-{last?.year} · latest{' '}
+                {formatNumber(last?.value ?? 0, { decimals: 1 })}
+              </span>
+            </div>
+            <button
+              className={styles.removeButton}
+              onClick={() => deleteCostIndex(series.id)}
+              aria-label={`Remove ${series.name}`}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <button className={styles.button} onClick={() => fileInputRef.current?.click()}>
+        Import CSV
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.txt"
+        onChange={handleFileImport}
+        style={{ display: 'none' }}
+      />
+
+      {costIndices.length > 0 && (
+        <div className={styles.rebase}>
+          <div className={styles.row}>
+            <label className={styles.field}>
+              <span>Rebase rates by</span>
+              <select
+                className={styles.select}
+                value={rateRebase.costIndexId ?? ''}
+                onChange={(e) => updateRateRebase({ costIndexId: e.target.value || null })}
+              >
+                <option value="">No rebase</option>
+                {costIndices.map((series) => (
+                  <option key={series.id} value={series.id}>
+                    {series.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span>Rates priced in</span>
+              <input
+                type="number"
+                className={styles.input}
+                step={1}
+                value={rateRebase.ratesYear}
+                onChange={(e) => {
+                  const year = parseInt(e.target.value, 10);
+                  if (!isNaN(year)) updateRateRebase({ ratesYear: year });
+                }}
+              />
+            </label>
+          </div>
+          {rebaseIndex &&
+            (rebaseFactor !== null ? (
+              <p className={styles.summary}>
+                Rates × {rebaseFactor.toFixed(3)} from {rateRebase.ratesYear} to{' '}
+                {inputs.financialParams.rateBaseYear}
+              </p>
+            ) : (
+              <p className={`${styles.summary} ${styles.warning}`}>
+                {rebaseIndex.name} has no value for {rateRebase.ratesYear} or{' '}
+                {inputs.financialParams.rateBaseYear} - rates are used as entered.
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
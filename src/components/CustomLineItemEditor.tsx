@@ -0,0 +1,196 @@
+/**
+ * Mine Closure Costing - Custom Line Item Editor Component
+ *
+ * Add site-specific direct works items - description, category, phase,
+ * quantity, unit, rate and an optional spend profile.
+ */
+
+import { useCallback } from 'react';
+import { useAppState } from '../state';
+import {
+  CATEGORY_NAMES,
+  CLOSURE_PHASES,
+  CUSTOM_LINE_ITEM_CATEGORIES,
+  PHASE_NAMES,
+  SPEND_PROFILE_NAMES,
+  createCustomLineItem,
+} from '../domain';
+import type { ClosurePhase, CostCategory, CustomLineItem, SpendProfileType } from '../domain';
+import { formatCurrency } from '../utils/formatting';
+import styles from './CustomLineItemEditor.module.css';
+
+/** Spend profiles offered per item; custom percentages are set in the spend profile editor */
+const ITEM_PROFILE_TYPES = (Object.keys(SPEND_PROFILE_NAMES) as SpendProfileType[]).filter(
+  (type) => type !== 'custom'
+);
+
+/** Parse a number input, clamped at zero; null when the field is not a number */
+function parseAmount(value: string): number | null {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : Math.max(0, parsed);
+}
+
+export function CustomLineItemEditor(): React.ReactElement {
+  const { state, setCustomLineItems } = useAppState();
+  const { inputs, currency } = state;
+  const items = inputs.customLineItems;
+
+  const updateItem = useCallback(
+    (id: string, updates: Partial<CustomLineItem>) =>
+      setCustomLineItems(items.map((i) => (i.id === id ? { ...i, ...updates } : i))),
+    [items, setCustomLineItems]
+  );
+
+  const setItemProfile = useCallback(
+    (item: CustomLineItem, type: string) => {
+      // Rebuild the item so clearing the profile removes the key
+      const { spendProfile: _spendProfile, ...rest } = item;
+      void _spendProfile;
+      const updated: CustomLineItem = type
+        ? { ...rest, spendProfile: { type: type as Exclude<SpendProfileType, 'custom'> } }
+        : rest;
+      setCustomLineItems(items.map((i) => (i.id === item.id ? updated : i)));
+    },
+    [items, setCustomLineItems]
+  );
+
+  return (
+    <div className={styles.editor}>
+      {items.length === 0 && (
+        <p className={styles.empty}>
+          No custom items - add site-specific costs such as a conveyor, rail siding or power line.
+        </p>
+      )}
+
+      {items.map((item) => (
+        <div key={item.id} className={styles.item}>
+          <div className={styles.itemHeader}>
+            <input
+              type="text"
+              className={styles.descriptionInput}
+              value={item.description}
+              maxLength={200}
+              onChange={(e) => updateItem(item.id, { description: e.target.value })}
+              onBlur={(e) => {
+                // Spend profile overrides and exports key on the description, so keep one
+                if (!e.target.value.trim()) updateItem(item.id, { description: 'Custom item' });
+              }}
+              aria-label={`Description of ${item.description}`}
+            />
+            <button
+              className={styles.removeButton}
+              onClick={() => setCustomLineItems(items.filter((i) => i.id !== item.id))}
+              aria-label={`Remove ${item.description}`}
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className={styles.fields}>
+            <label className={styles.field}>
+              <span>Category</span>
+              <select
+                className={styles.select}
+                value={item.category}
+                onChange={(e) => updateItem(item.id, { category: e.target.value as CostCategory })}
+                aria-label={`${item.description} category`}
+              >
+                {CUSTOM_LINE_ITEM_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {CATEGORY_NAMES[category]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span>Phase</span>
+              <select
+                className={styles.select}
+                value={item.phase}
+                onChange={(e) => updateItem(item.id, { phase: e.target.value as ClosurePhase })}
+                aria-label={`${item.description} phase`}
+              >
+                {CLOSURE_PHASES.map((phase) => (
+                  <option key={phase} value={phase}>
+                    {PHASE_NAMES[phase]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className={styles.fields}>
+            <label className={styles.field}>
+              <span>Quantity</span>
+              <input
+                type="number"
+                className={styles.input}
+                min={0}
+                value={item.quantity}
+                onChange={(e) => {
+                  const value = parseAmount(e.target.value);
+                  if (value !== null) updateItem(item.id, { quantity: value });
+                }}
+                aria-label={`${item.description} quantity`}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Unit</span>
+              <input
+                type="text"
+                className={styles.input}
+                value={item.unit}
+                maxLength={30}
+                onChange={(e) => updateItem(item.id, { unit: e.target.value })}
+                aria-label={`${item.description} unit`}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Rate ($)</span>
+              <input
+                type="number"
+                className={styles.input}
+                min={0}
+                value={item.unitRate}
+                onChange={(e) => {
+                  const value = parseAmount(e.target.value);
+                  if (value !== null) updateItem(item.id, { unitRate: value });
+                }}
+                aria-label={`${item.description} unit rate`}
+              />
+            </label>
+          </div>
+
+          <div className={styles.footer}>
+            <select
+              className={styles.select}
+              value={item.spendProfile?.type ?? ''}
+              onChange={(e) => setItemProfile(item, e.target.value)}
+              aria-label={`Spend profile for ${item.description}`}
+            >
+              <option value="">Category spend profile</option>
+              {item.spendProfile?.type === 'custom' && (
+                <option value="custom">{SPEND_PROFILE_NAMES.custom}</option>
+              )}
+              {ITEM_PROFILE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {SPEND_PROFILE_NAMES[type]}
+                </option>
+              ))}
+            </select>
+            <span className={styles.cost}>
+              {formatCurrency(item.quantity * item.unitRate, currency, { compact: true })}
+            </span>
+          </div>
+        </div>
+      ))}
+
+      <button
+        className={styles.addButton}
+        onClick={() => setCustomLineItems([...items, createCustomLineItem(items)])}
+      >
+        + Add line item
+      </button>
+    </div>
+  );
+}
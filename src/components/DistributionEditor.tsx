@@ -0,0 +1,234 @@
+/**
+ * Mine Closure Costing - Distribution Editor Component
+ *
+ * Attach probability distributions to numeric inputs for the Monte Carlo simulation.
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppState } from '../state';
+import {
+  SITE_DOMAIN_SIMULATION_FIELDS,
+  getSimulationInputFields,
+  siteDomainDistributionKey,
+} from '../domain';
+import type {
+  DistributionGroup,
+  DistributionType,
+  InputDistributions,
+  InputState,
+  ProbabilityDistribution,
+} from '../domain';
+import { SelectInput, type SelectOption } from '../ui';
+import styles from './DistributionEditor.module.css';
+
+const TYPE_OPTIONS: SelectOption[] = [
+  { value: 'triangular', label: 'Triangular' },
+  { value: 'pert', label: 'PERT' },
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'lognormal', label: 'Lognormal' },
+];
+
+/** A distribution parameter shown in the editor */
+interface DistributionParam {
+  readonly key: string;
+  readonly label: string;
+  readonly value: number;
+  /** The distribution with this parameter set to a new value */
+  readonly withValue: (value: number) => ProbabilityDistribution;
+}
+
+function getDistributionParams(distribution: ProbabilityDistribution): DistributionParam[] {
+  switch (distribution.type) {
+    case 'triangular':
+    case 'pert':
+      return [
+        {
+          key: 'min',
+          label: 'Min',
+          value: distribution.min,
+          withValue: (min) => ({ ...distribution, min }),
+        },
+        {
+          key: 'mode',
+          label: 'Most likely',
+          value: distribution.mode,
+          withValue: (mode) => ({ ...distribution, mode }),
+        },
+        {
+          key: 'max',
+          label: 'Max',
+          value: distribution.max,
+          withValue: (max) => ({ ...distribution, max }),
+        },
+      ];
+    case 'uniform':
+      return [
+        {
+          key: 'min',
+          label: 'Min',
+          value: distribution.min,
+          withValue: (min) => ({ ...distribution, min }),
+        },
+        {
+          key: 'max',
+          label: 'Max',
+          value: distribution.max,
+          withValue: (max) => ({ ...distribution, max }),
+        },
+      ];
+    case 'lognormal':
+      return [
+        {
+          key: 'mean',
+          label: 'Mean',
+          value: distribution.mean,
+          withValue: (mean) => ({ ...distribution, mean }),
+        },
+        {
+          key: 'standardDeviation',
+          label: 'Std dev',
+          value: distribution.standardDeviation,
+          withValue: (standardDeviation) => ({ ...distribution, standardDeviation }),
+        },
+      ];
+  }
+}
+
+/**
+ * Build a starting distribution around the current deterministic value.
+ */
+function createDistribution(type: DistributionType, value: number): ProbabilityDistribution {
+  switch (type) {
+    case 'triangular':
+    case 'pert':
+      return { type, min: value * 0.8, mode: value, max: value * 1.3 };
+    case 'uniform':
+      return { type, min: value * 0.8, max: value * 1.2 };
+    case 'lognormal':
+      return { type, mean: value, standardDeviation: value * 0.2 };
+  }
+}
+
+function getInputValue(inputs: InputState, group: DistributionGroup, key: string): number {
+  if (group === 'siteDomains') {
+    for (const domain of inputs.siteDomains) {
+      for (const { field } of SITE_DOMAIN_SIMULATION_FIELDS) {
+        if (siteDomainDistributionKey(domain.id, field) === key) return domain[field];
+      }
+    }
+    return 0;
+  }
+  const value: unknown = new Map(Object.entries(inputs[group])).get(key);
+  return typeof value === 'number' ? value : 0;
+}
+
+export function DistributionEditor(): React.ReactElement {
+  const { state, updateSimulationSettings } = useAppState();
+  const { inputs } = state;
+  const { distributions } = inputs.simulation;
+  const fields = getSimulationInputFields(inputs.siteDomains);
+  const fieldOptions: SelectOption[] = fields.map((f) => ({
+    value: `${f.group}.${f.key}`,
+    label: `${f.label} (${f.unit})`,
+  }));
+
+  const [selectedField, setSelectedField] = useState(fieldOptions[0]?.value ?? '');
+  const [selectedType, setSelectedType] = useState<DistributionType>('triangular');
+
+  const setDistribution = useCallback(
+    (group: DistributionGroup, key: string, distribution: ProbabilityDistribution | null) => {
+      const groupDistributions: Record<string, ProbabilityDistribution | undefined> = {
+        ...distributions[group],
+      };
+      if (distribution) {
+        groupDistributions[key] = distribution;
+      } else {
+        delete groupDistributions[key];
+      }
+      const updated: InputDistributions = { ...distributions, [group]: groupDistributions };
+      updateSimulationSettings({ distributions: updated });
+    },
+    [distributions, updateSimulationSettings]
+  );
+
+  const handleAdd = useCallback(() => {
+    const field = fields.find((f) => `${f.group}.${f.key}` === selectedField);
+    if (!field) return;
+    const value = getInputValue(inputs, field.group, field.key);
+    setDistribution(field.group, field.key, createDistribution(selectedType, value));
+  }, [fields, inputs, selectedField, selectedType, setDistribution]);
+
+  const rows = fields.flatMap((field) => {
+    const groupDistributions: Record<string, ProbabilityDistribution | undefined> =
+      distributions[field.group];
+    const distribution = groupDistributions[field.key];
+    return distribution ? [{ field, distribution }] : [];
+  });
+
+  return (
+    <div className={styles.editor}>
+      <SelectInput
+        label="Uncertain Input"
+        value={selectedField}
+        options={fieldOptions}
+        onChange={setSelectedField}
+      />
+      <div className={styles.addRow}>
+        <select
+          className={styles.select}
+          value={selectedType}
+          onChange={(e) => setSelectedType(e.target.value as DistributionType)}
+          aria-label="Distribution type"
+        >
+          {TYPE_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <button className={styles.addButton} onClick={handleAdd}>
+          Add Distribution
+        </button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className={styles.empty}>No distributions defined - all inputs are point values.</p>
+      )}
+
+      {rows.map(({ field, distribution }) => (
+        <div key={`${field.group}.${field.key}`} className={styles.row}>
+          <div className={styles.rowHeader}>
+            <span className={styles.rowLabel}>
+              {field.label} <span className={styles.rowUnit}>({field.unit})</span>
+            </span>
+            <span className={styles.rowType}>{distribution.type}</span>
+            <button
+              className={styles.removeButton}
+              onClick={() => setDistribution(field.group, field.key, null)}
+              aria-label={`Remove distribution for ${field.label}`}
+            >
+              ✕
+            </button>
+          </div>
+          <div className={styles.params}>
+            {getDistributionParams(distribution).map(({ key, label, value, withValue }) => (
+              <label key={key} className={styles.param}>
+                <span>{label}</span>
+                <input
+                  type="number"
+                  className={styles.paramInput}
+                  value={value}
+                  onChange={(e) => {
+                    const updated = parseFloat(e.target.value);
+                    if (isNaN(updated)) return;
+                    setDistribution(field.group, field.key, withValue(updated));
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
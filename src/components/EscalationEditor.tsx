@@ -0,0 +1,192 @@
+/**
+ * Mine Closure Costing - Escalation Editor Component
+ *
+ * Edit the escalation indices - a long-term rate and optional year-by-year
+ * rates each, entered or taken from an imported cost index - and assign an
+ * index to each cost category.
+ */
+
+import { useAppState } from '../state';
+import { CATEGORY_NAMES, CostCategory, ESCALATION_INDEX_IDS, ESCALATION_INDICES } from '../domain';
+import type { EscalationIndex, EscalationIndexId, EscalationYearRate } from '../domain';
+import styles from './EscalationEditor.module.css';
+
+const CATEGORIES = Object.values(CostCategory);
+
+/** Parse a number input; null when the field is not a number */
+function parseRate(value: string): number | null {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function EscalationEditor(): React.ReactElement {
+  const { state, updateEscalation } = useAppState();
+  const { escalation, financialParams, costIndices } = state.inputs;
+
+  const updateIndex = (id: EscalationIndexId, updates: Partial<EscalationIndex>) =>
+    updateEscalation({
+      indices: { ...escalation.indices, [id]: { ...escalation.indices[id], ...updates } },
+    });
+
+  const updateSeries = (
+    id: EscalationIndexId,
+    index: number,
+    updates: Partial<EscalationYearRate> | null
+  ) => {
+    const series = escalation.indices[id].series;
+    updateIndex(id, {
+      series: updates
+        ? series
+            .map((s, i) => (i === index ? { ...s, ...updates } : s))
+            .sort((a, b) => a.year - b.year)
+        : series.filter((_, i) => i !== index),
+    });
+  };
+
+  const linkCostIndex = (id: EscalationIndexId, costIndexId: string) => {
+    const { costIndexId: _previous, ...index } = escalation.indices[id];
+    void _previous;
+    updateEscalation({
+      indices: {
+        ...escalation.indices,
+        [id]: costIndexId ? { ...index, costIndexId } : index,
+      },
+    });
+  };
+
+  const addYear = (id: EscalationIndexId) => {
+    const { ratePercent, series } = escalation.indices[id];
+    const year = (series[series.length - 1]?.year ?? financialParams.rateBaseYear) + 1;
+    updateIndex(id, { series: [...series, { year, ratePercent }] });
+  };
+
+  const assignCategory = (category: CostCategory, id: EscalationIndexId | '') => {
+    const { [category]: _previous, ...categoryIndices } = escalation.categoryIndices;
+    void _previous;
+    updateEscalation({
+      categoryIndices: id ? { ...categoryIndices, [category]: id } : categoryIndices,
+    });
+  };
+
+  return (
+    <div className={styles.editor}>
+      {ESCALATION_INDEX_IDS.map((id) => {
+        const index = escalation.indices[id];
+        const linked = costIndices.find((s) => s.id === index.costIndexId);
+        return (
+          <div key={id} className={styles.index}>
+            <div className={styles.header}>
+              <span className={styles.name} title={ESCALATION_INDICES[id].description}>
+                {ESCALATION_INDICES[id].name}
+              </span>
+              <input
+                type="number"
+                className={styles.rateInput}
+                min={0}
+                max={20}
+                step={0.25}
+                value={index.ratePercent}
+                onChange={(e) => {
+                  const value = parseRate(e.target.value);
+                  if (value !== null)
+                    updateIndex(id, { ratePercent: Math.min(20, Math.max(0, value)) });
+                }}
+                aria-label={`${ESCALATION_INDICES[id].name} long-term rate`}
+              />
+              <span className={styles.unit}>% p.a.</span>
+            </div>
+
+            {costIndices.length > 0 && (
+              <select
+                className={styles.select}
+                value={linked?.id ?? ''}
+                onChange={(e) => linkCostIndex(id, e.target.value)}
+                aria-label={`${ESCALATION_INDICES[id].name} year rates`}
+              >
+                <option value="">Entered year rates</option>
+                {costIndices.map((series) => (
+                  <option key={series.id} value={series.id}>
+                    Year rates from {series.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {linked ? (
+              <p className={styles.linked}>
+                {linked.points[0]?.year}-{linked.points[linked.points.length - 1]?.year} from the
+                index; other years at the long-term rate
+              </p>
+            ) : (
+              <>
+                {index.series.map((entry, i) => (
+                  <div key={i} className={styles.yearRow}>
+                    <input
+                      type="number"
+                      className={styles.input}
+                      step={1}
+                      value={entry.year}
+                      onChange={(e) => {
+                        const value = parseRate(e.target.value);
+                        if (
+                          value !== null &&
+                          !index.series.some((s) => s.year === Math.round(value))
+                        )
+                          updateSeries(id, i, { year: Math.round(value) });
+                      }}
+                      aria-label="Year"
+                    />
+                    <input
+                      type="number"
+                      className={styles.input}
+                      min={-20}
+                      max={30}
+                      step={0.1}
+                      value={entry.ratePercent}
+                      onChange={(e) => {
+                        const value = parseRate(e.target.value);
+                        if (value !== null)
+                          updateSeries(id, i, { ratePercent: Math.min(30, Math.max(-20, value)) });
+                      }}
+                      aria-label={`${entry.year} rate`}
+                    />
+                    <button
+                      className={styles.removeButton}
+                      onClick={() => updateSeries(id, i, null)}
+                      aria-label={`Remove ${entry.year}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button className={styles.addButton} onClick={() => addYear(id)}>
+                  + Add year
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div className={styles.assignments}>
+        {CATEGORIES.map((category) => (
+          <label key={category} className={styles.assignment}>
+            <span>{CATEGORY_NAMES[category]}</span>
+            <select
+              className={styles.select}
+              value={escalation.categoryIndices[category] ?? ''}
+              onChange={(e) => assignCategory(category, e.target.value as EscalationIndexId | '')}
+            >
+              <option value="">General rate</option>
+              {ESCALATION_INDEX_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {ESCALATION_INDICES[id].name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Mine Closure Costing - Input Diff Table Component
+ *
+ * Every input that differs between two scenarios, with its group, unit and
+ * old and new values, and a CSV export.
+ */
+
+import { useMemo } from 'react';
+import { diffInputStates } from '../domain';
+import type { InputDiffValue, InputState } from '../domain';
+import { downloadInputDiffCSV } from '../utils/export';
+import styles from './InputDiffTable.module.css';
+
+/** Format a diff value; absent values show as a dash */
+function formatValue(value: InputDiffValue): string {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number')
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return value;
+}
+
+export function InputDiffTable({
+  oldInputs,
+  newInputs,
+  oldName,
+  newName,
+}: {
+  oldInputs: InputState;
+  newInputs: InputState;
+  oldName: string;
+  newName: string;
+}): React.ReactElement {
+  const entries = useMemo(() => diffInputStates(oldInputs, newInputs), [oldInputs, newInputs]);
+
+  if (entries.length === 0) {
+    return (
+      <p className={styles.empty}>
+        No input differences between {oldName} and {newName}.
+      </p>
+    );
+  }
+
+  return (
+    <div className={styles.diff}>
+      <div className={styles.header}>
+        <span className={styles.summary}>
+          {entries.length} input{entries.length === 1 ? '' : 's'} differ
+        </span>
+        <button
+          className={styles.button}
+          onClick={() => downloadInputDiffCSV(entries, oldName, newName)}
+        >
+          Export CSV
+        </button>
+      </div>
+      <div className={styles.tableWrapper}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Group</th>
+              <th>Field</th>
+              <th>Unit</th>
+              <th className={styles.alignRight}>{oldName}</th>
+              <th className={styles.alignRight}>{newName}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, i) => (
+              <tr key={`${entry.path}-${i}`}>
+                <td className={styles.group}>
+                  {entries[i - 1]?.group === entry.group ? '' : entry.group}
+                </td>
+                <td>{entry.field}</td>
+                <td className={styles.unit}>{entry.unit}</td>
+                <td className={styles.alignRight}>{formatValue(entry.oldValue)}</td>
+                <td className={`${styles.alignRight} ${styles.newValue}`}>
+                  {formatValue(entry.newValue)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
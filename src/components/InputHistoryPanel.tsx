@@ -0,0 +1,126 @@
+/**
+ * Mine Closure Costing - Input History Panel Component
+ *
+ * Undo and redo of input changes, with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+ * and Ctrl+Y, and a history list to step back or forward to any change.
+ */
+
+import { useEffect, useState } from 'react';
+import { useAppState } from '../state';
+import styles from './InputHistoryPanel.module.css';
+
+/** Text fields keep the browser's own undo */
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return (
+    target instanceof HTMLInputElement &&
+    !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type)
+  );
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function InputHistoryPanel(): React.ReactElement {
+  const { state, undo, redo } = useAppState();
+  const { past, future } = state.history;
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const repeat = (step: () => void, times: number) => {
+    for (let i = 0; i < times; i++) step();
+  };
+
+  const nextUndo = past.at(-1);
+  const nextRedo = future.at(-1);
+
+  return (
+    <div className={styles.history}>
+      <div className={styles.toolbar}>
+        <button
+          className={styles.button}
+          onClick={undo}
+          disabled={!nextUndo}
+          title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          ↶ Undo
+        </button>
+        <button
+          className={styles.button}
+          onClick={redo}
+          disabled={!nextRedo}
+          title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          ↷ Redo
+        </button>
+        <button
+          className={styles.toggle}
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+        >
+          History ({past.length + future.length}) {expanded ? '▲' : '▼'}
+        </button>
+      </div>
+
+      {expanded && (
+        <ol className={styles.list}>
+          {/* Undone changes, latest first - click to redo up to and including the change */}
+          {future.map((entry, i) => (
+            <li key={`future-${i}`}>
+              <button
+                className={`${styles.entry} ${styles.undone}`}
+                onClick={() => repeat(redo, future.length - i)}
+                title="Redo to this change"
+              >
+                <span className={styles.label}>{entry.label}</span>
+                <span className={styles.time}>{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+          {/* Applied changes, latest (current) first - click to undo the changes after it */}
+          {[...past].reverse().map((entry, i) => (
+            <li key={`past-${past.length - 1 - i}`}>
+              <button
+                className={`${styles.entry} ${i === 0 ? styles.current : ''}`}
+                onClick={() => repeat(undo, i)}
+                title={i === 0 ? 'Current inputs' : 'Undo to this change'}
+              >
+                <span className={styles.label}>{entry.label}</span>
+                <span className={styles.time}>{formatTime(entry.timestamp)}</span>
+              </button>
+            </li>
+          ))}
+          <li>
+            <button
+              className={`${styles.entry} ${past.length === 0 ? styles.current : ''}`}
+              onClick={() => repeat(undo, past.length)}
+              title="Undo every change in the history"
+            >
+              <span className={styles.label}>Start of history</span>
+            </button>
+          </li>
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,23 @@
  * Left panel containing all input controls organized in collapsible sections.
  */
 
-import { useCallback, useRef, type ChangeEvent } from 'react';
+import { useCallback, useRef, useState, type ChangeEvent } from 'react';
 import { useAppState } from '../state';
-import { SCENARIO_PRESETS, getPresetInputs, ClosurePhase, PHASE_NAMES } from '../domain';
+import {
+  SCENARIO_PRESETS,
+  ClosurePhase,
+  PHASE_NAMES,
+  WATER_TREATMENT_TECHNOLOGIES,
+  WATER_TREATMENT_TECHNOLOGY_IDS,
+  applyWaterTreatmentTechnology,
+  COST_REGIONS,
+  COST_REGION_IDS,
+  applyCostRegion,
+  getEffectiveLocationFactors,
+  type CostRegion,
+  type UnitRates,
+  type WaterTreatmentTechnology,
+} from '../domain';
 import {
   SliderInput,
   CollapsibleSection,
@@ -15,6 +29,18 @@ import {
   type SelectOption,
 } from '../ui';
 import { downloadScenarioJSON } from '../utils/export';
+import { DistributionEditor } from './DistributionEditor';
+import { InputDiffTable } from './InputDiffTable';
+import { InputHistoryPanel } from './InputHistoryPanel';
+import { PhaseScheduleEditor } from './PhaseScheduleEditor';
+import { SiteDomainEditor } from './SiteDomainEditor';
+import { CustomLineItemEditor } from './CustomLineItemEditor';
+import { RateLibraryPanel } from './RateLibraryPanel';
+import { RateBuildUpEditor } from './RateBuildUpEditor';
+import { ScaleCurveEditor } from './ScaleCurveEditor';
+import { EscalationEditor } from './EscalationEditor';
+import { CostIndexPanel } from './CostIndexPanel';
+import { SpendProfileEditor } from './SpendProfileEditor';
 import styles from './InputPanel.module.css';
 
 const PRESET_OPTIONS: SelectOption[] = [
@@ -28,9 +54,24 @@ const MONITORING_OPTIONS: SelectOption[] = [
   { value: 'high', label: 'High' },
 ];
 
+const TECHNOLOGY_OPTIONS: SelectOption[] = WATER_TREATMENT_TECHNOLOGY_IDS.map((id) => ({
+  value: id,
+  label: WATER_TREATMENT_TECHNOLOGIES[id].name,
+}));
+
+const REGION_OPTIONS: SelectOption[] = COST_REGION_IDS.map((id) => ({
+  value: id,
+  label: COST_REGIONS[id].name,
+}));
+
+const PERPETUAL_MODE_OPTIONS: SelectOption[] = [
+  { value: 'perpetuity', label: 'Perpetuity (no end date)' },
+  { value: 'fixed_term', label: 'Fixed long-tail term' },
+];
+
 const DISCOUNT_MODE_OPTIONS: SelectOption[] = [
-  { value: 'real', label: 'Real' },
-  { value: 'nominal', label: 'Nominal' },
+  { value: 'real', label: "Real (today's dollars)" },
+  { value: 'nominal', label: 'Nominal (escalated)' },
 ];
 
 export function InputPanel(): React.ReactElement {
@@ -41,28 +82,31 @@ export function InputPanel(): React.ReactElement {
     updateUnitRates,
     updateIndirectRates,
     updateRiskFactors,
+    updateLocation,
     updateFinancialParams,
+    updateEscalation,
     updatePhaseDurations,
+    updatePerpetualTreatment,
+    updateSimulationSettings,
     setScenarioName,
     saveScenario,
     loadScenario,
+    loadPreset,
     deleteScenario,
     importScenario,
     resetToDefault,
   } = useAppState();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [diffScenarioId, setDiffScenarioId] = useState<string | null>(null);
 
   const handlePresetChange = useCallback(
     (presetId: string) => {
       if (presetId) {
-        const inputs = getPresetInputs(presetId);
-        if (inputs) {
-          setInputs(inputs);
-        }
+        loadPreset(presetId);
       }
     },
-    [setInputs]
+    [loadPreset]
   );
 
   const handleFileImport = useCallback(
@@ -88,12 +132,18 @@ export function InputPanel(): React.ReactElement {
 
   const { inputs, savedScenarios, error } = state;
 
+  /** Built-up rates are set from their build-up, not the slider */
+  const isBuiltUp = (key: keyof UnitRates) => inputs.rateBuildUps[key] !== undefined;
+  const effectiveLocation = getEffectiveLocationFactors(inputs.location);
+
   return (
     <div className={styles.panel}>
       <div className={styles.header}>
         <h2 className={styles.title}>Input Parameters</h2>
       </div>
 
+      <InputHistoryPanel />
+
       {error && <div className={styles.error}>{error}</div>}
 
       {/* Scenario Management */}
@@ -142,22 +192,47 @@ export function InputPanel(): React.ReactElement {
           <div className={styles.savedScenarios}>
             <label className={styles.fieldLabel}>Saved Scenarios</label>
             {savedScenarios.map((scenario) => (
-              <div key={scenario.id} className={styles.savedScenarioItem}>
-                <span className={styles.savedScenarioName}>{scenario.name}</span>
-                <div className={styles.savedScenarioActions}>
-                  <button
-                    className={styles.smallButton}
-                    onClick={() => loadScenario(scenario.id)}
-                  >
-                    Load
-                  </button>
-                  <button
-                    className={styles.smallButtonDanger}
-                    onClick={() => deleteScenario(scenario.id)}
-                  >
-                    ✕
-                  </button>
+              <div key={scenario.id}>
+                <div className={styles.savedScenarioItem}>
+                  <span className={styles.savedScenarioName}>{scenario.name}</span>
+                  <div className={styles.savedScenarioActions}>
+                    <button
+                      className={
+                        diffScenarioId === scenario.id
+                          ? styles.smallButtonActive
+                          : styles.smallButton
+                      }
+                      onClick={() =>
+                        setDiffScenarioId(diffScenarioId === scenario.id ? null : scenario.id)
+                      }
+                      title="Show inputs that loading this scenario would change"
+                    >
+                      Diff
+                    </button>
+                    <button
+                      className={styles.smallButton}
+                      onClick={() => loadScenario(scenario.id)}
+                    >
+                      Load
+                    </button>
+                    <button
+                      className={styles.smallButtonDanger}
+                      onClick={() => deleteScenario(scenario.id)}
+                    >
+                      ✕
+                    </button>
+                  </div>
                 </div>
+                {diffScenarioId === scenario.id && (
+                  <div className={styles.savedScenarioDiff}>
+                    <InputDiffTable
+                      oldInputs={inputs}
+                      newInputs={scenario.inputs}
+                      oldName="Current"
+                      newName={scenario.name}
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -168,6 +243,11 @@ export function InputPanel(): React.ReactElement {
         </button>
       </CollapsibleSection>
 
+      {/* Site Domains */}
+      <CollapsibleSection title="Site Domains" defaultExpanded={true}>
+        <SiteDomainEditor />
+      </CollapsibleSection>
+
       {/* Direct Works Quantities */}
       <CollapsibleSection title="Site Areas & Quantities" defaultExpanded={true}>
         <SliderInput
@@ -180,46 +260,6 @@ export function InputPanel(): React.ReactElement {
           tooltip="Total area requiring rehabilitation including all disturbed land"
           onChange={(v) => updateQuantities({ disturbedAreaHa: v })}
         />
-        <SliderInput
-          label="TSF Area"
-          value={inputs.quantities.tsfAreaHa}
-          min={0}
-          max={1000}
-          step={5}
-          unit="ha"
-          tooltip="Tailings Storage Facility footprint area"
-          onChange={(v) => updateQuantities({ tsfAreaHa: v })}
-        />
-        <SliderInput
-          label="TSF Cover Thickness"
-          value={inputs.quantities.tsfCoverThicknessM}
-          min={0.1}
-          max={2}
-          step={0.1}
-          unit="m"
-          tooltip="Thickness of cover/cap material for TSF"
-          onChange={(v) => updateQuantities({ tsfCoverThicknessM: v })}
-        />
-        <SliderInput
-          label="WRD Footprint"
-          value={inputs.quantities.wrdFootprintHa}
-          min={0}
-          max={2000}
-          step={10}
-          unit="ha"
-          tooltip="Waste Rock Dump footprint area"
-          onChange={(v) => updateQuantities({ wrdFootprintHa: v })}
-        />
-        <SliderInput
-          label="WRD Reshaping Depth"
-          value={inputs.quantities.wrdReshapingDepthM}
-          min={0.1}
-          max={5}
-          step={0.1}
-          unit="m"
-          tooltip="Average depth of WRD reshaping works"
-          onChange={(v) => updateQuantities({ wrdReshapingDepthM: v })}
-        />
         <SliderInput
           label="Recontouring Area"
           value={inputs.quantities.recontouringAreaHa}
@@ -266,6 +306,100 @@ export function InputPanel(): React.ReactElement {
         />
       </CollapsibleSection>
 
+      {/* Underground Workings */}
+      <CollapsibleSection title="Underground Workings" defaultExpanded={false}>
+        <SliderInput
+          label="Shafts"
+          value={inputs.quantities.shaftCount}
+          min={0}
+          max={20}
+          step={1}
+          unit="count"
+          tooltip="Number of shafts to cap"
+          onChange={(v) => updateQuantities({ shaftCount: Math.round(v) })}
+        />
+        <SliderInput
+          label="Shaft Diameter"
+          value={inputs.quantities.shaftDiameterM}
+          min={1}
+          max={12}
+          step={0.5}
+          unit="m"
+          tooltip="Average shaft diameter"
+          onChange={(v) => updateQuantities({ shaftDiameterM: v })}
+        />
+        <SliderInput
+          label="Raises"
+          value={inputs.quantities.raiseCount}
+          min={0}
+          max={50}
+          step={1}
+          unit="count"
+          tooltip="Number of ventilation and escape raises to cap"
+          onChange={(v) => updateQuantities({ raiseCount: Math.round(v) })}
+        />
+        <SliderInput
+          label="Raise Diameter"
+          value={inputs.quantities.raiseDiameterM}
+          min={1}
+          max={8}
+          step={0.5}
+          unit="m"
+          tooltip="Average raise diameter"
+          onChange={(v) => updateQuantities({ raiseDiameterM: v })}
+        />
+        <SliderInput
+          label="Portals & Adits"
+          value={inputs.quantities.portalCount}
+          min={0}
+          max={10}
+          step={1}
+          unit="count"
+          tooltip="Number of portals and adits to seal"
+          onChange={(v) => updateQuantities({ portalCount: Math.round(v) })}
+        />
+        <SliderInput
+          label="Decline Backfill Length"
+          value={inputs.quantities.declineBackfillLengthM}
+          min={0}
+          max={5000}
+          step={50}
+          unit="m"
+          tooltip="Length of decline to backfill from the portal"
+          onChange={(v) => updateQuantities({ declineBackfillLengthM: v })}
+        />
+        <SliderInput
+          label="Decline Cross-Section"
+          value={inputs.quantities.declineCrossSectionM2}
+          min={10}
+          max={60}
+          step={1}
+          unit="m²"
+          tooltip="Decline profile area, e.g. 5.5m × 5.5m ≈ 30 m²"
+          onChange={(v) => updateQuantities({ declineCrossSectionM2: v })}
+        />
+        <SliderInput
+          label="Ventilation Sites"
+          value={inputs.quantities.ventilationSiteCount}
+          min={0}
+          max={10}
+          step={1}
+          unit="count"
+          tooltip="Surface fan, heater and substation sites to remove"
+          onChange={(v) => updateQuantities({ ventilationSiteCount: Math.round(v) })}
+        />
+        <SliderInput
+          label="Subsidence Monitoring"
+          value={inputs.quantities.subsidenceMonitoringYears}
+          min={0}
+          max={50}
+          step={1}
+          unit="years"
+          tooltip="Duration of subsidence surveys over the workings"
+          onChange={(v) => updateQuantities({ subsidenceMonitoringYears: Math.round(v) })}
+        />
+      </CollapsibleSection>
+
       {/* Water Management */}
       <CollapsibleSection title="Water Management" defaultExpanded={false}>
         <SliderInput
@@ -288,16 +422,73 @@ export function InputPanel(): React.ReactElement {
           tooltip="Duration of water treatment operations"
           onChange={(v) => updateQuantities({ waterTreatmentDurationYears: Math.round(v) })}
         />
+        <SelectInput
+          label="Treatment Technology"
+          value={inputs.quantities.waterTreatmentTechnology}
+          options={TECHNOLOGY_OPTIONS}
+          onChange={(v) =>
+            setInputs(applyWaterTreatmentTechnology(inputs, v as WaterTreatmentTechnology))
+          }
+        />
         <SliderInput
-          label="Treatment Intensity"
-          value={inputs.quantities.waterTreatmentIntensityFactor}
-          min={0.5}
-          max={2.5}
-          step={0.1}
-          unit="factor"
-          tooltip="Treatment complexity factor (0.5=simple, 1.0=standard, 2.0+=complex)"
-          onChange={(v) => updateQuantities({ waterTreatmentIntensityFactor: v })}
+          label="Plant Asset Life"
+          value={inputs.unitRates.waterTreatmentAssetLifeYears}
+          min={5}
+          max={60}
+          step={1}
+          unit="years"
+          tooltip="Treatment plant life - replaced at end of life, refurbished at mid-life"
+          onChange={(v) => updateUnitRates({ waterTreatmentAssetLifeYears: Math.round(v) })}
+        />
+        <SliderInput
+          label="Refurbishment Cost"
+          value={inputs.unitRates.waterTreatmentRefurbishmentPercent}
+          min={0}
+          max={100}
+          step={5}
+          unit="% of plant"
+          tooltip="Mid-life refurbishment cost as a share of plant capex"
+          onChange={(v) => updateUnitRates({ waterTreatmentRefurbishmentPercent: v })}
+        />
+        <SliderInput
+          label="Replacement Cost"
+          value={inputs.unitRates.waterTreatmentReplacementPercent}
+          min={0}
+          max={150}
+          step={5}
+          unit="% of plant"
+          tooltip="End-of-life replacement cost as a share of plant capex"
+          onChange={(v) => updateUnitRates({ waterTreatmentReplacementPercent: v })}
+        />
+        <ToggleSwitch
+          label="Ongoing Treatment After Closure"
+          checked={inputs.perpetualTreatment.enabled}
+          onChange={(v) => updatePerpetualTreatment({ enabled: v })}
         />
+        {inputs.perpetualTreatment.enabled && (
+          <>
+            <SelectInput
+              label="Ongoing Treatment Basis"
+              value={inputs.perpetualTreatment.mode}
+              options={PERPETUAL_MODE_OPTIONS}
+              onChange={(v) =>
+                updatePerpetualTreatment({ mode: v as 'perpetuity' | 'fixed_term' })
+              }
+            />
+            {inputs.perpetualTreatment.mode === 'fixed_term' && (
+              <SliderInput
+                label="Long-tail Term"
+                value={inputs.perpetualTreatment.termYears}
+                min={10}
+                max={500}
+                step={10}
+                unit="years"
+                tooltip="Years of treatment after the water management phase"
+                onChange={(v) => updatePerpetualTreatment({ termYears: Math.round(v) })}
+              />
+            )}
+          </>
+        )}
       </CollapsibleSection>
 
       {/* Monitoring */}
@@ -344,6 +535,92 @@ export function InputPanel(): React.ReactElement {
         />
       </CollapsibleSection>
 
+      {/* Custom Line Items */}
+      <CollapsibleSection title="Custom Line Items" defaultExpanded={false}>
+        <CustomLineItemEditor />
+      </CollapsibleSection>
+
+      {/* Location */}
+      <CollapsibleSection title="Location" defaultExpanded={false}>
+        <p className={styles.sectionHint}>{COST_REGIONS[inputs.location.region].description}</p>
+        <SelectInput
+          label="Region"
+          value={inputs.location.region}
+          options={REGION_OPTIONS}
+          onChange={(v) => setInputs(applyCostRegion(inputs, v as CostRegion))}
+        />
+        <SliderInput
+          label="Labour Factor"
+          value={inputs.location.labourFactor}
+          min={0.8}
+          max={2}
+          step={0.01}
+          unit="×"
+          tooltip="Labour cost multiplier on metropolitan base rates"
+          onChange={(v) => updateLocation({ labourFactor: v })}
+        />
+        <SliderInput
+          label="Plant Factor"
+          value={inputs.location.plantFactor}
+          min={0.8}
+          max={2}
+          step={0.01}
+          unit="×"
+          tooltip="Plant and equipment cost multiplier on metropolitan base rates"
+          onChange={(v) => updateLocation({ plantFactor: v })}
+        />
+        <SliderInput
+          label="Materials Factor"
+          value={inputs.location.materialsFactor}
+          min={0.8}
+          max={2}
+          step={0.01}
+          unit="×"
+          tooltip="Materials cost multiplier on metropolitan base rates"
+          onChange={(v) => updateLocation({ materialsFactor: v })}
+        />
+        <SliderInput
+          label="FIFO Camp Cost"
+          value={inputs.location.campCostPerPersonDay}
+          min={0}
+          max={600}
+          step={10}
+          unit="$/person-day"
+          tooltip="Fly-in fly-out camp, flights and accommodation per person-day on site"
+          onChange={(v) => updateLocation({ campCostPerPersonDay: v })}
+        />
+        <SliderInput
+          label="Labour Cost per Person-Day"
+          value={inputs.location.labourCostPerPersonDay}
+          min={400}
+          max={3000}
+          step={50}
+          unit="$/day"
+          tooltip="Base labour cost per person-day, used to convert labour cost into person-days on site"
+          onChange={(v) => updateLocation({ labourCostPerPersonDay: v })}
+        />
+        <SliderInput
+          label="Freight"
+          value={inputs.location.freightPercent}
+          min={0}
+          max={30}
+          step={0.5}
+          unit="% of materials"
+          tooltip="Freight to site as a percentage of materials cost"
+          onChange={(v) => updateLocation({ freightPercent: v })}
+        />
+        <p className={styles.sectionHint}>
+          Effective multipliers: labour ×{effectiveLocation.labour.toFixed(2)} (incl. camp), plant ×
+          {effectiveLocation.plant.toFixed(2)}, materials ×{effectiveLocation.materials.toFixed(2)}{' '}
+          (incl. freight)
+        </p>
+      </CollapsibleSection>
+
+      {/* Rate Library */}
+      <CollapsibleSection title="Rate Library" defaultExpanded={false}>
+        <RateLibraryPanel />
+      </CollapsibleSection>
+
       {/* Unit Rates */}
       <CollapsibleSection title="Unit Rates" defaultExpanded={false}>
         <SliderInput
@@ -354,6 +631,7 @@ export function InputPanel(): React.ReactElement {
           step={0.5}
           unit="$/m³"
           tooltip="Cost per cubic meter for general earthworks"
+          disabled={isBuiltUp('earthworksPerM3')}
           onChange={(v) => updateUnitRates({ earthworksPerM3: v })}
         />
         <SliderInput
@@ -364,6 +642,7 @@ export function InputPanel(): React.ReactElement {
           step={1}
           unit="$/m²"
           tooltip="Base cost per square meter for capping"
+          disabled={isBuiltUp('cappingBasePerM2')}
           onChange={(v) => updateUnitRates({ cappingBasePerM2: v })}
         />
         <SliderInput
@@ -374,6 +653,7 @@ export function InputPanel(): React.ReactElement {
           step={1}
           unit="$/m³"
           tooltip="Cost per cubic meter for topsoil placement"
+          disabled={isBuiltUp('topsoilPerM3')}
           onChange={(v) => updateUnitRates({ topsoilPerM3: v })}
         />
         <SliderInput
@@ -384,6 +664,7 @@ export function InputPanel(): React.ReactElement {
           step={500}
           unit="$/ha"
           tooltip="Cost per hectare for revegetation works"
+          disabled={isBuiltUp('revegetationPerHa')}
           onChange={(v) => updateUnitRates({ revegetationPerHa: v })}
         />
         <SliderInput
@@ -394,6 +675,7 @@ export function InputPanel(): React.ReactElement {
           step={10000}
           unit="$/building"
           tooltip="Average cost per building for demolition"
+          disabled={isBuiltUp('demolitionPerBuilding')}
           onChange={(v) => updateUnitRates({ demolitionPerBuilding: v })}
         />
         <SliderInput
@@ -404,8 +686,129 @@ export function InputPanel(): React.ReactElement {
           step={5000}
           unit="$/km"
           tooltip="Cost per kilometer for road rehabilitation"
+          disabled={isBuiltUp('roadRehabPerKm')}
           onChange={(v) => updateUnitRates({ roadRehabPerKm: v })}
         />
+        <SliderInput
+          label="Abandonment Bund Rate"
+          value={inputs.unitRates.abandonmentBundPerM}
+          min={0}
+          max={1000}
+          step={10}
+          unit="$/m"
+          tooltip="Cost per metre of pit abandonment bund"
+          disabled={isBuiltUp('abandonmentBundPerM')}
+          onChange={(v) => updateUnitRates({ abandonmentBundPerM: v })}
+        />
+        <SliderInput
+          label="Pit Backfill Rate"
+          value={inputs.unitRates.pitBackfillPerM3}
+          min={0}
+          max={30}
+          step={0.5}
+          unit="$/m³"
+          tooltip="Load, haul and place cost per cubic metre of pit backfill"
+          disabled={isBuiltUp('pitBackfillPerM3')}
+          onChange={(v) => updateUnitRates({ pitBackfillPerM3: v })}
+        />
+        <SliderInput
+          label="Pit Wall Stabilisation Rate"
+          value={inputs.unitRates.pitWallStabilisationPerHa}
+          min={0}
+          max={300000}
+          step={5000}
+          unit="$/ha"
+          tooltip="Battering back or stabilising pit walls per hectare of wall"
+          disabled={isBuiltUp('pitWallStabilisationPerHa')}
+          onChange={(v) => updateUnitRates({ pitWallStabilisationPerHa: v })}
+        />
+        <SliderInput
+          label="Pit Lake Management Rate"
+          value={inputs.unitRates.pitLakeManagementPerHa}
+          min={0}
+          max={50000}
+          step={500}
+          unit="$/ha"
+          tooltip="Spillway, water quality works and lake edge rehabilitation per hectare of pit lake"
+          disabled={isBuiltUp('pitLakeManagementPerHa')}
+          onChange={(v) => updateUnitRates({ pitLakeManagementPerHa: v })}
+        />
+        <SliderInput
+          label="Safety Fencing Rate"
+          value={inputs.unitRates.safetyFencingPerM}
+          min={0}
+          max={200}
+          step={5}
+          unit="$/m"
+          tooltip="Cost per metre of pit safety fence"
+          disabled={isBuiltUp('safetyFencingPerM')}
+          onChange={(v) => updateUnitRates({ safetyFencingPerM: v })}
+        />
+        <SliderInput
+          label="Infrastructure Area Rate"
+          value={inputs.unitRates.infrastructureRehabPerHa}
+          min={0}
+          max={100000}
+          step={1000}
+          unit="$/ha"
+          tooltip="Hardstand and footing removal and ripping per hectare of infrastructure area"
+          disabled={isBuiltUp('infrastructureRehabPerHa')}
+          onChange={(v) => updateUnitRates({ infrastructureRehabPerHa: v })}
+        />
+        <SliderInput
+          label="Shaft Capping Rate"
+          value={inputs.unitRates.shaftCappingPerM2}
+          min={0}
+          max={40000}
+          step={500}
+          unit="$/m²"
+          tooltip="Reinforced concrete cap per square metre of shaft or raise opening"
+          disabled={isBuiltUp('shaftCappingPerM2')}
+          onChange={(v) => updateUnitRates({ shaftCappingPerM2: v })}
+        />
+        <SliderInput
+          label="Portal Sealing Rate"
+          value={inputs.unitRates.portalSealingPerPortal}
+          min={0}
+          max={2000000}
+          step={10000}
+          unit="$/portal"
+          tooltip="Plug or bulkhead and portal backfill per portal or adit"
+          disabled={isBuiltUp('portalSealingPerPortal')}
+          onChange={(v) => updateUnitRates({ portalSealingPerPortal: v })}
+        />
+        <SliderInput
+          label="Decline Backfill Rate"
+          value={inputs.unitRates.declineBackfillPerM3}
+          min={0}
+          max={100}
+          step={1}
+          unit="$/m³"
+          tooltip="Cost per cubic metre of decline backfill"
+          disabled={isBuiltUp('declineBackfillPerM3')}
+          onChange={(v) => updateUnitRates({ declineBackfillPerM3: v })}
+        />
+        <SliderInput
+          label="Ventilation Removal Rate"
+          value={inputs.unitRates.ventilationRemovalPerSite}
+          min={0}
+          max={1000000}
+          step={10000}
+          unit="$/site"
+          tooltip="Removal of fans, heaters and substations per ventilation site"
+          disabled={isBuiltUp('ventilationRemovalPerSite')}
+          onChange={(v) => updateUnitRates({ ventilationRemovalPerSite: v })}
+        />
+        <SliderInput
+          label="Subsidence Monitoring Rate"
+          value={inputs.unitRates.subsidenceMonitoringPerYear}
+          min={0}
+          max={500000}
+          step={5000}
+          unit="$/year"
+          tooltip="Annual cost of subsidence surveys"
+          onChange={(v) => updateUnitRates({ subsidenceMonitoringPerYear: v })}
+        />
         <SliderInput
           label="Water Treatment Capex"
           value={inputs.unitRates.waterTreatmentCapex}
@@ -413,19 +816,71 @@ export function InputPanel(): React.ReactElement {
           max={50000000}
           step={100000}
           unit="$"
-          tooltip="Capital cost for water treatment plant"
+          tooltip="Capital cost of the reference plant"
           onChange={(v) => updateUnitRates({ waterTreatmentCapex: v })}
         />
+        <SliderInput
+          label="Reference Plant Capacity"
+          value={inputs.unitRates.waterTreatmentReferenceFlowMLPerDay}
+          min={0.5}
+          max={50}
+          step={0.5}
+          unit="ML/day"
+          tooltip="Capacity of the plant the capex applies to - capex scales to the treatment flow"
+          onChange={(v) => updateUnitRates({ waterTreatmentReferenceFlowMLPerDay: v })}
+        />
+        <SliderInput
+          label="Capacity Exponent"
+          value={inputs.unitRates.waterTreatmentCapacityExponent}
+          min={0.3}
+          max={1}
+          step={0.05}
+          unit="exponent"
+          tooltip="Capex scaling exponent (0.6 = six-tenths rule, 1.0 = linear with flow)"
+          onChange={(v) => updateUnitRates({ waterTreatmentCapacityExponent: v })}
+        />
         <SliderInput
           label="Water Treatment Opex"
           value={inputs.unitRates.waterTreatmentOpexPerML}
-          min={100}
+          min={50}
           max={2000}
           step={50}
           unit="$/ML"
           tooltip="Operating cost per megalitre treated"
+          disabled={isBuiltUp('waterTreatmentOpexPerML')}
           onChange={(v) => updateUnitRates({ waterTreatmentOpexPerML: v })}
         />
+        <SliderInput
+          label="Residual Disposal"
+          value={inputs.unitRates.waterTreatmentResidualDisposalPerML}
+          min={0}
+          max={1000}
+          step={10}
+          unit="$/ML"
+          tooltip="Sludge or brine handling and disposal cost per megalitre treated"
+          disabled={isBuiltUp('waterTreatmentResidualDisposalPerML')}
+          onChange={(v) => updateUnitRates({ waterTreatmentResidualDisposalPerML: v })}
+        />
+        <SliderInput
+          label="Treatment Energy Use"
+          value={inputs.unitRates.waterTreatmentEnergyKWhPerML}
+          min={0}
+          max={5000}
+          step={10}
+          unit="kWh/ML"
+          tooltip="Electricity consumed per megalitre treated"
+          onChange={(v) => updateUnitRates({ waterTreatmentEnergyKWhPerML: v })}
+        />
+        <SliderInput
+          label="Electricity Price"
+          value={inputs.unitRates.electricityPerKWh}
+          min={0.05}
+          max={1}
+          step={0.01}
+          unit="$/kWh"
+          tooltip="Delivered electricity price for water treatment"
+          onChange={(v) => updateUnitRates({ electricityPerKWh: v })}
+        />
         <SliderInput
           label="Bulking Factor"
           value={inputs.unitRates.bulkingFactor}
@@ -438,6 +893,20 @@ export function InputPanel(): React.ReactElement {
         />
       </CollapsibleSection>
 
+      {/* Rate Build-ups */}
+      <CollapsibleSection title="Rate Build-ups" defaultExpanded={false}>
+        <RateBuildUpEditor />
+      </CollapsibleSection>
+
+      {/* Scale Curves */}
+      <CollapsibleSection title="Scale Curves" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Rates normally scale linearly with quantity. A curve makes large quantities cheaper per
+          unit: an exponent below 1, or lower rate factors for higher bands.
+        </p>
+        <ScaleCurveEditor />
+      </CollapsibleSection>
+
       {/* Indirect Costs */}
       <CollapsibleSection title="Indirect Costs & Margins" defaultExpanded={false}>
         <SliderInput
@@ -527,16 +996,6 @@ export function InputPanel(): React.ReactElement {
           tooltip="Uncertainty about regulatory requirements"
           onChange={(v) => updateRiskFactors({ regulatoryUncertainty: v })}
         />
-        <SliderInput
-          label="Logistics Complexity"
-          value={inputs.riskFactors.logisticsComplexity}
-          min={0}
-          max={100}
-          step={5}
-          unit="/100"
-          tooltip="Complexity due to remote location or access"
-          onChange={(v) => updateRiskFactors({ logisticsComplexity: v })}
-        />
       </CollapsibleSection>
 
       {/* Financial Parameters */}
@@ -551,6 +1010,26 @@ export function InputPanel(): React.ReactElement {
           tooltip="Year when closure activities commence"
           onChange={(v) => updateFinancialParams({ closureStartYear: Math.round(v) })}
         />
+        <SliderInput
+          label="Valuation Year"
+          value={inputs.financialParams.valuationYear}
+          min={2020}
+          max={2050}
+          step={1}
+          unit="year"
+          tooltip="Reporting date - cashflows are discounted back to this year"
+          onChange={(v) => updateFinancialParams({ valuationYear: Math.round(v) })}
+        />
+        <SliderInput
+          label="Rate Base Year"
+          value={inputs.financialParams.rateBaseYear}
+          min={2020}
+          max={2050}
+          step={1}
+          unit="year"
+          tooltip="Year the unit rates are priced in - escalation runs from this year"
+          onChange={(v) => updateFinancialParams({ rateBaseYear: Math.round(v) })}
+        />
         <SliderInput
           label="Escalation Rate"
           value={inputs.financialParams.escalationRatePercent}
@@ -558,7 +1037,7 @@ export function InputPanel(): React.ReactElement {
           max={10}
           step={0.25}
           unit="% p.a."
-          tooltip="Annual cost escalation rate (inflation)"
+          tooltip="General escalation (inflation) - applies to all costs unless escalating by category"
           onChange={(v) => updateFinancialParams({ escalationRatePercent: v })}
         />
         <SliderInput
@@ -568,7 +1047,7 @@ export function InputPanel(): React.ReactElement {
           max={15}
           step={0.25}
           unit="% p.a."
-          tooltip="Discount rate for NPV calculation"
+          tooltip="Discount rate for NPV calculation, real or nominal per the mode below"
           onChange={(v) => updateFinancialParams({ discountRatePercent: v })}
         />
         <SelectInput
@@ -581,6 +1060,30 @@ export function InputPanel(): React.ReactElement {
         />
       </CollapsibleSection>
 
+      {/* Cost Indices */}
+      <CollapsibleSection title="Cost Indices" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Published index series (producer price, construction cost) rebase unit rates priced in an
+          earlier year to the rate base year, and can supply escalation indices' year rates.
+        </p>
+        <CostIndexPanel />
+      </CollapsibleSection>
+
+      {/* Escalation Indices */}
+      <CollapsibleSection title="Escalation Indices" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Escalate each cost category by its own index from the rate base year. Years without a
+          series rate use the index's long-term rate; the general rate still converts between real
+          and nominal discount rates.
+        </p>
+        <ToggleSwitch
+          label="Escalate by Cost Category"
+          checked={inputs.escalation.enabled}
+          onChange={(v) => updateEscalation({ enabled: v })}
+        />
+        {inputs.escalation.enabled && <EscalationEditor />}
+      </CollapsibleSection>
+
       {/* Phase Durations */}
       <CollapsibleSection title="Phase Durations" defaultExpanded={false}>
         <p className={styles.sectionHint}>
@@ -675,6 +1178,56 @@ export function InputPanel(): React.ReactElement {
           }
         />
       </CollapsibleSection>
+
+      {/* Phase Dependencies */}
+      <CollapsibleSection title="Phase Dependencies" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Set which phases each phase waits for - start years and the critical path follow
+        </p>
+        <PhaseScheduleEditor />
+      </CollapsibleSection>
+
+      {/* Spend Profiles */}
+      <CollapsibleSection title="Spend Profiles" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Choose how each cost is spread across the years of its phase
+        </p>
+        <SpendProfileEditor />
+      </CollapsibleSection>
+
+      {/* Probabilistic Analysis */}
+      <CollapsibleSection title="Probabilistic Analysis" defaultExpanded={false}>
+        <p className={styles.sectionHint}>
+          Attach distributions to uncertain inputs to estimate P10/P50/P90 outcomes
+        </p>
+        <ToggleSwitch
+          label="Run Monte Carlo Simulation"
+          checked={inputs.simulation.enabled}
+          onChange={(v) => updateSimulationSettings({ enabled: v })}
+        />
+        <SliderInput
+          label="Iterations"
+          value={inputs.simulation.iterations}
+          min={100}
+          max={10000}
+          step={100}
+          unit="runs"
+          tooltip="Number of simulation iterations - more iterations give stabler percentiles"
+          onChange={(v) => updateSimulationSettings({ iterations: Math.round(v) })}
+        />
+        <SliderInput
+          label="Random Seed"
+          value={inputs.simulation.seed}
+          min={1}
+          max={99999}
+          step={1}
+          unit="seed"
+          tooltip="The same seed always reproduces the same samples"
+          showIndicator={false}
+          onChange={(v) => updateSimulationSettings({ seed: Math.round(v) })}
+        />
+        <DistributionEditor />
+      </CollapsibleSection>
     </div>
   );
 }
@@ -4,34 +4,111 @@
  * Right panel displaying results, KPIs, and charts.
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { useAppState } from '../state';
 import { KPICard } from '../ui';
-import { CATEGORY_NAMES, PHASE_NAMES } from '../domain';
+import {
+  CATEGORY_NAMES,
+  PHASE_NAMES,
+  WATER_TREATMENT_TECHNOLOGIES,
+  calculateProvisionRollForward,
+  calculateCategoryBridge,
+  calculateInputBridge,
+  calculateClosureCosts,
+  type SensitivityResult,
+  type TechnologyComparison,
+} from '../domain';
 import {
   renderBreakdownChart,
   renderCashflowChart,
   renderTornadoChart,
+  renderProbabilityChart,
+  renderGanttChart,
+  renderWaterfallChart,
+  type BreakdownGrouping,
 } from '../charts';
-import { downloadResultsCSV, downloadLineItemsCSV, downloadCashflowsCSV } from '../utils/export';
+import {
+  downloadResultsCSV,
+  downloadLineItemsCSV,
+  downloadCashflowsCSV,
+  downloadProvisionCSV,
+} from '../utils/export';
 import { formatCurrency, formatPercent } from '../utils/formatting';
+import { ScenarioComparisonView } from './ScenarioComparisonView';
 import styles from './OutputPanel.module.css';
 
-type ChartView = 'breakdown' | 'cashflow' | 'sensitivity';
+type ChartView = 'breakdown' | 'cashflow' | 'schedule' | 'sensitivity' | 'probability' | 'bridge';
+
+type BridgeGrouping = 'category' | 'input';
+
+const BREAKDOWN_GROUPINGS: { value: BreakdownGrouping; label: string }[] = [
+  { value: 'category', label: 'By Category' },
+  { value: 'phase', label: 'By Phase' },
+  { value: 'domain', label: 'By Domain' },
+];
+
+/**
+ * Express technology comparisons as tornado rows spanning the current estimate
+ * and each alternative technology.
+ */
+function technologyComparisonRows(
+  comparisons: readonly TechnologyComparison[],
+  baseTotalCost: number,
+  baseNPV: number
+): SensitivityResult[] {
+  return comparisons.map((c) => {
+    const spec = WATER_TREATMENT_TECHNOLOGIES[c.technology];
+    return {
+      driverName: c.isCurrent ? `${spec.name} (current)` : spec.name,
+      driverKey: c.technology,
+      baseValue: 0,
+      unit: 'technology',
+      lowValue: 0,
+      highValue: 0,
+      lowTotalCost: Math.min(baseTotalCost, c.totalCost),
+      highTotalCost: Math.max(baseTotalCost, c.totalCost),
+      lowNPV: Math.min(baseNPV, c.npv),
+      highNPV: Math.max(baseNPV, c.npv),
+      deltaCost: c.deltaCost,
+      deltaNPV: c.deltaNPV,
+    };
+  });
+}
 
 export function OutputPanel(): React.ReactElement {
   const { state } = useAppState();
-  const { results, currency, inputs, isCalculating } = state;
+  const { results, simulation, currency, inputs, isCalculating, isSimulating, savedScenarios } =
+    state;
 
   const [chartView, setChartView] = useState<ChartView>('breakdown');
-  const [showByPhase, setShowByPhase] = useState(false);
+  const [breakdownGrouping, setBreakdownGrouping] = useState<BreakdownGrouping>('category');
   const [showDiscounted, setShowDiscounted] = useState(true);
   const [showCumulative, setShowCumulative] = useState(false);
   const [showNPVSensitivity, setShowNPVSensitivity] = useState(false);
+  const [compareTechnologies, setCompareTechnologies] = useState(false);
+  const [showNPVProbability, setShowNPVProbability] = useState(false);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [priorScenarioId, setPriorScenarioId] = useState('');
+  const [comparing, setComparing] = useState(false);
+  const [bridgeGrouping, setBridgeGrouping] = useState<BridgeGrouping>('category');
+  const [showNPVBridge, setShowNPVBridge] = useState(false);
 
   const breakdownChartRef = useRef<HTMLDivElement>(null);
   const cashflowChartRef = useRef<HTMLDivElement>(null);
+  const ganttChartRef = useRef<HTMLDivElement>(null);
   const tornadoChartRef = useRef<HTMLDivElement>(null);
+  const probabilityChartRef = useRef<HTMLDivElement>(null);
+  const bridgeChartRef = useRef<HTMLDivElement>(null);
+
+  const priorScenario = savedScenarios.find((s) => s.id === priorScenarioId) ?? null;
+
+  // Bridge from the prior estimate to the current results
+  const bridge = useMemo(() => {
+    if (!results || !priorScenario || chartView !== 'bridge') return null;
+    return bridgeGrouping === 'category'
+      ? calculateCategoryBridge(calculateClosureCosts(priorScenario.inputs), results)
+      : calculateInputBridge(priorScenario.inputs, inputs, showNPVBridge ? 'npv' : 'total');
+  }, [results, priorScenario, chartView, bridgeGrouping, showNPVBridge, inputs]);
 
   // Render charts when results change
   useEffect(() => {
@@ -42,7 +119,8 @@ export function OutputPanel(): React.ReactElement {
         breakdownChartRef.current,
         results.categoryBreakdown,
         results.phaseBreakdown,
-        { currency, showByPhase, width: 580, height: 380 }
+        results.domainBreakdown,
+        { currency, groupBy: breakdownGrouping, width: 580, height: 380 }
       );
     }
 
@@ -56,21 +134,91 @@ export function OutputPanel(): React.ReactElement {
       });
     }
 
+    if (ganttChartRef.current && chartView === 'schedule') {
+      renderGanttChart(ganttChartRef.current, results.phaseTimings, results.annualCashflows, {
+        currency,
+        startYear: inputs.financialParams.closureStartYear,
+        highlightCriticalPath: showCriticalPath,
+        width: 620,
+        height: 340,
+      });
+    }
+
     if (tornadoChartRef.current && chartView === 'sensitivity') {
-      renderTornadoChart(
-        tornadoChartRef.current,
-        results.sensitivityResults,
-        results.totalNominalCost,
-        { currency, showNPV: showNPVSensitivity, width: 620, height: 340 }
+      if (compareTechnologies && results.technologyComparison.length > 0) {
+        renderTornadoChart(
+          tornadoChartRef.current,
+          technologyComparisonRows(
+            results.technologyComparison,
+            results.totalNominalCost,
+            results.totalDiscountedCost
+          ),
+          results.totalNominalCost,
+          {
+            currency,
+            showNPV: showNPVSensitivity,
+            title: 'Water Treatment Technology',
+            baseNPV: results.totalDiscountedCost,
+            legendLabels: ['Saving', 'Increase'],
+            width: 620,
+            height: 340,
+          }
+        );
+      } else {
+        renderTornadoChart(
+          tornadoChartRef.current,
+          results.sensitivityResults,
+          results.totalNominalCost,
+          { currency, showNPV: showNPVSensitivity, width: 620, height: 340 }
+        );
+      }
+    }
+
+    if (probabilityChartRef.current && chartView === 'probability' && simulation) {
+      renderProbabilityChart(
+        probabilityChartRef.current,
+        simulation.samples.map((s) => (showNPVProbability ? s.npv : s.totalCost)),
+        showNPVProbability ? results.totalDiscountedCost : results.totalNominalCost,
+        {
+          currency,
+          valueLabel: showNPVProbability ? 'NPV' : 'Total Nominal Cost',
+          width: 620,
+          height: 340,
+        }
       );
     }
-  }, [results, chartView, showByPhase, showDiscounted, showCumulative, showNPVSensitivity, currency]);
+
+    if (bridgeChartRef.current && chartView === 'bridge' && bridge && priorScenario) {
+      renderWaterfallChart(bridgeChartRef.current, bridge, {
+        currency,
+        startLabel: priorScenario.name,
+        endLabel: 'Current',
+        width: 620,
+        height: 380,
+      });
+    }
+  }, [
+    results,
+    simulation,
+    bridge,
+    priorScenario,
+    chartView,
+    breakdownGrouping,
+    showDiscounted,
+    showCumulative,
+    showCriticalPath,
+    showNPVSensitivity,
+    compareTechnologies,
+    showNPVProbability,
+    currency,
+    inputs.financialParams.closureStartYear,
+  ]);
 
   const handleExportResults = useCallback(() => {
     if (results) {
-      downloadResultsCSV(results, inputs, currency);
+      downloadResultsCSV(results, inputs, currency, simulation);
     }
-  }, [results, inputs, currency]);
+  }, [results, inputs, currency, simulation]);
 
   const handleExportLineItems = useCallback(() => {
     if (results) {
@@ -84,6 +232,22 @@ export function OutputPanel(): React.ReactElement {
     }
   }, [results, inputs, currency]);
 
+  const handleExportProvision = useCallback(() => {
+    // Without a saved prior estimate the roll-forward projects the current inputs
+    const prior = savedScenarios.find((s) => s.id === priorScenarioId)?.inputs ?? inputs;
+    downloadProvisionCSV(calculateProvisionRollForward(prior, inputs), inputs, currency);
+  }, [savedScenarios, priorScenarioId, inputs, currency]);
+
+  const perpetualTreatment = results?.perpetualTreatment ?? null;
+
+  if (comparing) {
+    return (
+      <div className={styles.panel}>
+        <ScenarioComparisonView onClose={() => setComparing(false)} />
+      </div>
+    );
+  }
+
   if (!results) {
     return (
       <div className={styles.panel}>
@@ -108,9 +272,37 @@ export function OutputPanel(): React.ReactElement {
           <button className={styles.exportButton} onClick={handleExportCashflows}>
             Cashflows
           </button>
+          <select
+            className={styles.exportSelect}
+            value={priorScenarioId}
+            onChange={(e) => setPriorScenarioId(e.target.value)}
+            title="Prior estimate for the provision roll-forward and cost bridge"
+            aria-label="Prior estimate"
+          >
+            <option value="">Prior: current inputs</option>
+            {savedScenarios.map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                Prior: {scenario.name}
+              </option>
+            ))}
+          </select>
+          <button className={styles.exportButton} onClick={handleExportProvision}>
+            Provision
+          </button>
+          <button className={styles.exportButton} onClick={() => setComparing(true)}>
+            Compare Scenarios
+          </button>
         </div>
       </div>
 
+      {results.rateRebaseFactor === null && (
+        <p className={styles.kpiNote}>
+          Unit rates are not rebased: the rebase index has no value for{' '}
+          {inputs.rateRebase.ratesYear} or {inputs.financialParams.rateBaseYear}. Add the missing
+          index values or turn off the rebase under Cost Indices.
+        </p>
+      )}
+
       {/* KPI Cards */}
       <div className={styles.kpiGrid}>
         <KPICard
@@ -123,7 +315,7 @@ export function OutputPanel(): React.ReactElement {
           title="Total NPV"
           value={results.totalDiscountedCost}
           currency={currency}
-          subtitle={`At ${inputs.financialParams.discountRatePercent}% discount rate`}
+          subtitle={`At ${inputs.financialParams.discountRatePercent}% ${inputs.financialParams.discountRateMode} discount rate to ${inputs.financialParams.valuationYear}`}
         />
         <KPICard
           title="Peak Annual Cashflow"
@@ -139,6 +331,63 @@ export function OutputPanel(): React.ReactElement {
         />
       </div>
 
+      {/* Ongoing water treatment after the schedule */}
+      {perpetualTreatment &&
+        (Number.isFinite(perpetualTreatment.presentValue) ? (
+          <div className={styles.kpiGrid}>
+            <KPICard
+              title="Ongoing Treatment PV"
+              value={perpetualTreatment.presentValue}
+              currency={currency}
+              subtitle={`${perpetualTreatment.mode === 'perpetuity' ? 'Perpetuity' : `${perpetualTreatment.termYears} years`} from ${perpetualTreatment.startYear}`}
+            />
+            <KPICard
+              title="NPV incl. Ongoing Treatment"
+              value={results.totalDiscountedCost + perpetualTreatment.presentValue}
+              currency={currency}
+              subtitle={`At ${formatPercent(perpetualTreatment.realDiscountRatePercent, 2)} real`}
+            />
+          </div>
+        ) : (
+          <p className={styles.kpiNote}>
+            Ongoing treatment in perpetuity has no finite value at a real discount rate of{' '}
+            {formatPercent(perpetualTreatment.realDiscountRatePercent, 2)}
+            {perpetualTreatment.realOpexEscalationPercent !== 0 &&
+              ` with treatment costs escalating ${formatPercent(perpetualTreatment.realOpexEscalationPercent, 2)} a year above inflation`}{' '}
+            - use a fixed long-tail term or a real rate above the real escalation.
+          </p>
+        ))}
+
+      {/* Probabilistic KPIs */}
+      {simulation && (
+        <div className={styles.kpiGrid}>
+          <KPICard
+            title="P50 Total Cost"
+            value={simulation.totalCost.p50}
+            currency={currency}
+            subtitle={`P10 ${formatCurrency(simulation.totalCost.p10, currency, { compact: true })}`}
+          />
+          <KPICard
+            title="P90 Total Cost"
+            value={simulation.totalCost.p90}
+            currency={currency}
+            subtitle={`${simulation.iterations.toLocaleString()} iterations`}
+          />
+          <KPICard
+            title="P50 NPV"
+            value={simulation.npv.p50}
+            currency={currency}
+            subtitle={`P10 ${formatCurrency(simulation.npv.p10, currency, { compact: true })}`}
+          />
+          <KPICard
+            title="P90 NPV"
+            value={simulation.npv.p90}
+            currency={currency}
+            subtitle={`Seed ${simulation.seed}`}
+          />
+        </div>
+      )}
+
       {/* Secondary metrics */}
       <div className={styles.metricsRow}>
         <div className={styles.metric}>
@@ -153,6 +402,17 @@ export function OutputPanel(): React.ReactElement {
             {formatCurrency(results.indirectCosts, currency, { compact: true })}
           </span>
         </div>
+        <div className={styles.metric}>
+          <span
+            className={styles.metricLabel}
+            title="Equivalent rate in the other mode via the Fisher relationship"
+          >
+            {inputs.financialParams.discountRateMode === 'real' ? 'Nominal' : 'Real'} Equiv. Rate:
+          </span>
+          <span className={styles.metricValue}>
+            {formatPercent(results.equivalentDiscountRatePercent, 2)}
+          </span>
+        </div>
         <div className={styles.metric}>
           <span className={styles.metricLabel}>Monitoring Share:</span>
           <span className={styles.metricValue}>{formatPercent(results.monitoringCostShare)}</span>
@@ -180,25 +440,46 @@ export function OutputPanel(): React.ReactElement {
           >
             Cashflow Profile
           </button>
+          <button
+            className={`${styles.chartTab} ${chartView === 'schedule' ? styles.chartTabActive : ''}`}
+            onClick={() => setChartView('schedule')}
+          >
+            Schedule
+          </button>
           <button
             className={`${styles.chartTab} ${chartView === 'sensitivity' ? styles.chartTabActive : ''}`}
             onClick={() => setChartView('sensitivity')}
           >
             Sensitivity
           </button>
+          <button
+            className={`${styles.chartTab} ${chartView === 'probability' ? styles.chartTabActive : ''}`}
+            onClick={() => setChartView('probability')}
+          >
+            Probability
+          </button>
+          <button
+            className={`${styles.chartTab} ${chartView === 'bridge' ? styles.chartTabActive : ''}`}
+            onClick={() => setChartView('bridge')}
+          >
+            Cost Bridge
+          </button>
         </div>
 
         {/* Chart options */}
         {chartView === 'breakdown' && (
           <div className={styles.chartOptions}>
-            <label className={styles.optionLabel}>
-              <input
-                type="checkbox"
-                checked={showByPhase}
-                onChange={(e) => setShowByPhase(e.target.checked)}
-              />
-              <span>Show by Phase</span>
-            </label>
+            {BREAKDOWN_GROUPINGS.map(({ value, label }) => (
+              <label key={value} className={styles.optionLabel}>
+                <input
+                  type="radio"
+                  name="breakdownGrouping"
+                  checked={breakdownGrouping === value}
+                  onChange={() => setBreakdownGrouping(value)}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
           </div>
         )}
 
@@ -223,6 +504,19 @@ export function OutputPanel(): React.ReactElement {
           </div>
         )}
 
+        {chartView === 'schedule' && (
+          <div className={styles.chartOptions}>
+            <label className={styles.optionLabel}>
+              <input
+                type="checkbox"
+                checked={showCriticalPath}
+                onChange={(e) => setShowCriticalPath(e.target.checked)}
+              />
+              <span>Highlight Critical Path</span>
+            </label>
+          </div>
+        )}
+
         {chartView === 'sensitivity' && (
           <div className={styles.chartOptions}>
             <label className={styles.optionLabel}>
@@ -233,6 +527,62 @@ export function OutputPanel(): React.ReactElement {
               />
               <span>Show NPV Impact</span>
             </label>
+            {results.technologyComparison.length > 0 && (
+              <label className={styles.optionLabel}>
+                <input
+                  type="checkbox"
+                  checked={compareTechnologies}
+                  onChange={(e) => setCompareTechnologies(e.target.checked)}
+                />
+                <span>Compare Treatment Technologies</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {chartView === 'probability' && (
+          <div className={styles.chartOptions}>
+            <label className={styles.optionLabel}>
+              <input
+                type="checkbox"
+                checked={showNPVProbability}
+                onChange={(e) => setShowNPVProbability(e.target.checked)}
+              />
+              <span>Show NPV Distribution</span>
+            </label>
+          </div>
+        )}
+
+        {chartView === 'bridge' && (
+          <div className={styles.chartOptions}>
+            <label className={styles.optionLabel}>
+              <input
+                type="radio"
+                name="bridgeGrouping"
+                checked={bridgeGrouping === 'category'}
+                onChange={() => setBridgeGrouping('category')}
+              />
+              <span>By Category</span>
+            </label>
+            <label className={styles.optionLabel}>
+              <input
+                type="radio"
+                name="bridgeGrouping"
+                checked={bridgeGrouping === 'input'}
+                onChange={() => setBridgeGrouping('input')}
+              />
+              <span>By Input Group</span>
+            </label>
+            {bridgeGrouping === 'input' && (
+              <label className={styles.optionLabel}>
+                <input
+                  type="checkbox"
+                  checked={showNPVBridge}
+                  onChange={(e) => setShowNPVBridge(e.target.checked)}
+                />
+                <span>Bridge NPV</span>
+              </label>
+            )}
           </div>
         )}
 
@@ -240,7 +590,31 @@ export function OutputPanel(): React.ReactElement {
         <div className={styles.chartContainer}>
           {chartView === 'breakdown' && <div ref={breakdownChartRef} className={styles.chart} />}
           {chartView === 'cashflow' && <div ref={cashflowChartRef} className={styles.chart} />}
+          {chartView === 'schedule' && <div ref={ganttChartRef} className={styles.chart} />}
           {chartView === 'sensitivity' && <div ref={tornadoChartRef} className={styles.chart} />}
+          {chartView === 'probability' &&
+            (simulation ? (
+              <div ref={probabilityChartRef} className={styles.chart} />
+            ) : isSimulating ? (
+              <p className={styles.chartHint}>Running the Monte Carlo simulation...</p>
+            ) : (
+              <p className={styles.chartHint}>
+                Enable Monte Carlo simulation and define at least one input distribution under
+                Probabilistic Analysis to see the confidence curve.
+              </p>
+            ))}
+          {chartView === 'bridge' &&
+            (!priorScenario ? (
+              <p className={styles.chartHint}>
+                Choose a saved prior estimate above to see how the estimate moved from it.
+              </p>
+            ) : bridge && bridge.steps.length === 0 ? (
+              <p className={styles.chartHint}>
+                The current estimate is unchanged from {priorScenario.name}.
+              </p>
+            ) : (
+              <div ref={bridgeChartRef} className={styles.chart} />
+            ))}
         </div>
       </div>
 
@@ -0,0 +1,156 @@
+/**
+ * Mine Closure Costing - Phase Schedule Editor Component
+ *
+ * Edit predecessor relationships between closure phases and show the
+ * resulting start years, float and critical path.
+ */
+
+import { useCallback } from 'react';
+import { useAppState } from '../state';
+import { CLOSURE_PHASES, PHASE_NAMES, wouldCreateCycle } from '../domain';
+import type { ClosurePhase, PhasePredecessor, PhaseRelationshipType } from '../domain';
+import styles from './PhaseScheduleEditor.module.css';
+
+const RELATIONSHIP_LABELS: Record<PhaseRelationshipType, string> = {
+  finish_to_start: 'Finish-to-start',
+  start_to_start: 'Start-to-start',
+};
+
+export function PhaseScheduleEditor(): React.ReactElement {
+  const { state, updatePhaseSchedule } = useAppState();
+  const { inputs, results } = state;
+  const schedule = inputs.phaseSchedule;
+
+  const setPredecessors = useCallback(
+    (phase: ClosurePhase, predecessors: readonly PhasePredecessor[]) =>
+      updatePhaseSchedule({ [phase]: predecessors }),
+    [updatePhaseSchedule]
+  );
+
+  const updatePredecessor = useCallback(
+    (phase: ClosurePhase, index: number, updates: Partial<PhasePredecessor>) =>
+      setPredecessors(
+        phase,
+        schedule[phase].map((pred, i) => (i === index ? { ...pred, ...updates } : pred))
+      ),
+    [schedule, setPredecessors]
+  );
+
+  return (
+    <div className={styles.editor}>
+      {CLOSURE_PHASES.map((phase) => {
+        const predecessors = schedule[phase];
+        const timing = results?.phaseTimings.find((t) => t.phase === phase);
+        const candidates = CLOSURE_PHASES.filter(
+          (candidate) =>
+            !predecessors.some((pred) => pred.phase === candidate) &&
+            !wouldCreateCycle(schedule, phase, candidate)
+        );
+
+        return (
+          <div key={phase} className={styles.phase}>
+            <div className={styles.phaseHeader}>
+              <span className={styles.phaseName}>{PHASE_NAMES[phase]}</span>
+              {timing && (
+                <span
+                  className={`${styles.timing} ${timing.isCritical ? styles.critical : ''}`}
+                  title={
+                    timing.isCritical
+                      ? 'On the critical path'
+                      : `${timing.totalFloatYears} years of float`
+                  }
+                >
+                  Yr {timing.startYear}–{timing.finishYear}
+                  {timing.isCritical ? ' · critical' : ` · float ${timing.totalFloatYears}`}
+                </span>
+              )}
+            </div>
+
+            {predecessors.length === 0 && (
+              <p className={styles.empty}>No predecessors - starts in year 0</p>
+            )}
+
+            {predecessors.map((pred, index) => (
+              <div key={pred.phase} className={styles.link}>
+                <span className={styles.linkPhase}>{PHASE_NAMES[pred.phase]}</span>
+                <select
+                  className={styles.select}
+                  value={pred.type}
+                  onChange={(e) =>
+                    updatePredecessor(phase, index, {
+                      type: e.target.value as PhaseRelationshipType,
+                    })
+                  }
+                  aria-label={`Relationship to ${PHASE_NAMES[pred.phase]}`}
+                >
+                  {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <label className={styles.lag}>
+                  <span>Lag</span>
+                  <input
+                    type="number"
+                    className={styles.lagInput}
+                    min={0}
+                    max={50}
+                    step={1}
+                    value={pred.lagYears}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (isNaN(value)) return;
+                      updatePredecessor(phase, index, {
+                        lagYears: Math.min(50, Math.max(0, value)),
+                      });
+                    }}
+                    aria-label={`Lag after ${PHASE_NAMES[pred.phase]} (years)`}
+                  />
+                </label>
+                <button
+                  className={styles.removeButton}
+                  onClick={() =>
+                    setPredecessors(
+                      phase,
+                      predecessors.filter((_, i) => i !== index)
+                    )
+                  }
+                  aria-label={`Remove dependency on ${PHASE_NAMES[pred.phase]}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+
+            {candidates.length > 0 && (
+              <select
+                className={styles.addSelect}
+                value=""
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setPredecessors(phase, [
+                    ...predecessors,
+                    {
+                      phase: e.target.value as ClosurePhase,
+                      type: 'finish_to_start',
+                      lagYears: 0,
+                    },
+                  ]);
+                }}
+                aria-label={`Add predecessor to ${PHASE_NAMES[phase]}`}
+              >
+                <option value="">+ Add predecessor…</option>
+                {candidates.map((candidate) => (
+                  <option key={candidate} value={candidate}>
+                    {PHASE_NAMES[candidate]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * Mine Closure Costing - Rate Build-Up Editor Component
+ *
+ * Derive unit rates from plant and labour hourly rates, productivity, haul
+ * distance and consumables instead of entering them directly.
+ */
+
+import { useAppState } from '../state';
+import {
+  BUILD_UP_RATES,
+  BUILD_UP_RATE_KEYS,
+  calculateRateBuildUp,
+  createRateBuildUp,
+} from '../domain';
+import type { BuildUpRateKey, RateBuildUp, RateBuildUpResource } from '../domain';
+import { formatCurrency } from '../utils/formatting';
+import styles from './RateBuildUpEditor.module.css';
+
+type ResourceList = 'equipment' | 'labour';
+
+const RESOURCE_LISTS: readonly {
+  key: ResourceList;
+  label: string;
+  newItem: string;
+  quantity: string;
+}[] = [
+  { key: 'equipment', label: 'Plant', newItem: 'Plant item', quantity: 'No.' },
+  { key: 'labour', label: 'Labour', newItem: 'Crew', quantity: 'Crew' },
+];
+
+interface BuildUpField {
+  key: 'productivityPerHour' | 'haulDistanceKm' | 'haulCostPerUnitKm' | 'consumablesPerUnit';
+  label: (unit: string) => string;
+}
+
+const BUILD_UP_FIELDS: readonly BuildUpField[] = [
+  { key: 'productivityPerHour', label: (unit) => `Output (${unit}/hr)` },
+  { key: 'haulDistanceKm', label: () => 'Haul (km)' },
+  { key: 'haulCostPerUnitKm', label: (unit) => `Haul ($/${unit}/km)` },
+  { key: 'consumablesPerUnit', label: (unit) => `Consumables ($/${unit})` },
+];
+
+/** Parse a number input, clamped at zero; null when the field is not a number */
+function parseAmount(value: string): number | null {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : Math.max(0, parsed);
+}
+
+export function RateBuildUpEditor(): React.ReactElement {
+  const { state, setRateBuildUp } = useAppState();
+  const { inputs, currency } = state;
+  const builtUp = BUILD_UP_RATE_KEYS.flatMap((key) => {
+    const buildUp = inputs.rateBuildUps[key];
+    return buildUp ? [{ key, buildUp }] : [];
+  });
+  const available = BUILD_UP_RATE_KEYS.filter((key) => !inputs.rateBuildUps[key]);
+  const rate = (value: number) => formatCurrency(value, currency, { decimals: 2 });
+
+  const updateResource = (
+    key: BuildUpRateKey,
+    buildUp: RateBuildUp,
+    list: ResourceList,
+    index: number,
+    updates: Partial<RateBuildUpResource> | null
+  ) =>
+    setRateBuildUp(key, {
+      ...buildUp,
+      [list]: updates
+        ? buildUp[list].map((r, i) => (i === index ? { ...r, ...updates } : r))
+        : buildUp[list].filter((_, i) => i !== index),
+    });
+
+  return (
+    <div className={styles.editor}>
+      {builtUp.length === 0 && (
+        <p className={styles.empty}>
+          No built-up rates - derive a rate from plant, labour, haul and consumables.
+        </p>
+      )}
+
+      {builtUp.map(({ key, buildUp }) => {
+        const { name, unit } = BUILD_UP_RATES[key];
+        const result = calculateRateBuildUp(buildUp);
+
+        return (
+          <div key={key} className={styles.buildUp}>
+            <div className={styles.header}>
+              <span className={styles.name}>{name}</span>
+              <span className={styles.rate}>
+                {rate(result.rate)}/{unit}
+              </span>
+              <button
+                className={styles.removeButton}
+                onClick={() => setRateBuildUp(key, null)}
+                aria-label={`Remove ${name} build-up`}
+              >
+                ✕
+              </button>
+            </div>
+
+            {RESOURCE_LISTS.map((list) => (
+              <div key={list.key} className={styles.resources}>
+                {buildUp[list.key].map((resource, index) => (
+                  <div key={index} className={styles.resource}>
+                    <input
+                      type="text"
+                      className={styles.descriptionInput}
+                      value={resource.description}
+                      maxLength={100}
+                      onChange={(e) =>
+                        updateResource(key, buildUp, list.key, index, {
+                          description: e.target.value,
+                        })
+                      }
+                      aria-label={`${name} ${list.label.toLowerCase()} description`}
+                    />
+                    <input
+                      type="number"
+                      className={styles.input}
+                      min={0}
+                      value={resource.quantity}
+                      onChange={(e) => {
+                        const value = parseAmount(e.target.value);
+                        if (value !== null)
+                          updateResource(key, buildUp, list.key, index, { quantity: value });
+                      }}
+                      aria-label={`${resource.description} ${list.quantity.toLowerCase()}`}
+                      title={list.quantity}
+                    />
+                    <input
+                      type="number"
+                      className={styles.input}
+                      min={0}
+                      value={resource.hourlyRate}
+                      onChange={(e) => {
+                        const value = parseAmount(e.target.value);
+                        if (value !== null)
+                          updateResource(key, buildUp, list.key, index, { hourlyRate: value });
+                      }}
+                      aria-label={`${resource.description} hourly rate`}
+                      title="$/hr"
+                    />
+                    <button
+                      className={styles.removeButton}
+                      onClick={() => updateResource(key, buildUp, list.key, index, null)}
+                      aria-label={`Remove ${resource.description}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  className={styles.addButton}
+                  onClick={() =>
+                    setRateBuildUp(key, {
+                      ...buildUp,
+                      [list.key]: [
+                        ...buildUp[list.key],
+                        { description: list.newItem, quantity: 1, hourlyRate: 0 },
+                      ],
+                    })
+                  }
+                >
+                  + {list.label} ($/hr)
+                </button>
+              </div>
+            ))}
+
+            <div className={styles.fields}>
+              {BUILD_UP_FIELDS.map((field) => (
+                <label key={field.key} className={styles.field}>
+                  <span>{field.label(unit)}</span>
+                  <input
+                    type="number"
+                    className={styles.input}
+                    min={0}
+                    value={buildUp[field.key]}
+                    onChange={(e) => {
+                      const value = parseAmount(e.target.value);
+                      if (value !== null) setRateBuildUp(key, { ...buildUp, [field.key]: value });
+                    }}
+                  />
+                </label>
+              ))}
+            </div>
+
+            <p className={styles.summary}>
+              Plant {rate(result.equipmentPerUnit)} + labour {rate(result.labourPerUnit)} + haul{' '}
+              {rate(result.haulPerUnit)} + consumables {rate(result.consumablesPerUnit)}
+            </p>
+          </div>
+        );
+      })}
+
+      {available.length > 0 && (
+        <select
+          className={styles.addSelect}
+          value=""
+          onChange={(e) => {
+            const key = available.find((k) => k === e.target.value);
+            if (key) setRateBuildUp(key, createRateBuildUp(inputs.unitRates[key]));
+          }}
+          aria-label="Build up a rate"
+        >
+          <option value="">+ Build up a rate...</option>
+          {available.map((key) => (
+            <option key={key} value={key}>
+              {BUILD_UP_RATES[key].name} ($/{BUILD_UP_RATES[key].unit})
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
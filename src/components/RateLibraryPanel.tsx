@@ -0,0 +1,181 @@
+/**
+ * Mine Closure Costing - Rate Library Panel Component
+ *
+ * Save the scenario's unit rates as a named, dated rate set or a new version
+ * of one, and apply a stored version to the scenario.
+ */
+
+import { useState } from 'react';
+import { useAppState } from '../state';
+import { findRateSetVersion, getLatestRateSetVersion, isRateSetModified } from '../domain';
+import styles from './RateLibraryPanel.module.css';
+
+/** Today's date as an ISO date string */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function RateLibraryPanel(): React.ReactElement {
+  const { state, saveRateSet, saveRateSetVersion, applyRateSet, deleteRateSet } = useAppState();
+  const { inputs, rateLibrary } = state;
+  const source = inputs.rateSource;
+
+  const [selectedId, setSelectedId] = useState<string>(source?.rateSetId ?? '');
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [notes, setNotes] = useState('');
+
+  const selected = rateLibrary.find((set) => set.id === selectedId);
+  const version =
+    selected?.versions.find((v) => v.version === selectedVersion) ??
+    (selected && getLatestRateSetVersion(selected));
+  const sourceVersion = source ? findRateSetVersion(rateLibrary, source) : undefined;
+  const details = { effectiveDate: effectiveDate || today(), notes: notes.trim() };
+
+  const selectSet = (id: string) => {
+    setSelectedId(id);
+    setSelectedVersion(null);
+  };
+
+  const handleSaveNew = () => {
+    if (!name.trim()) return;
+    saveRateSet(name.trim(), details);
+    setName('');
+    setNotes('');
+  };
+
+  const handleSaveVersion = () => {
+    if (!selected) return;
+    saveRateSetVersion(selected.id, details);
+    setSelectedVersion(null);
+    setNotes('');
+  };
+
+  return (
+    <div className={styles.panel}>
+      <p className={styles.source}>
+        {source ? (
+          <>
+            Rates from <strong>{source.name}</strong> v{source.version} (effective{' '}
+            {source.effectiveDate})
+            {!sourceVersion && <span className={styles.warning}> - not in library</span>}
+            {sourceVersion && isRateSetModified(inputs.unitRates, sourceVersion) && (
+              <span className={styles.warning}> - edited</span>
+            )}
+          </>
+        ) : (
+          'Rates entered directly'
+        )}
+      </p>
+
+      {rateLibrary.length > 0 && (
+        <>
+          <div className={styles.row}>
+            <select
+              className={styles.select}
+              value={selectedId}
+              onChange={(e) => selectSet(e.target.value)}
+              aria-label="Rate set"
+            >
+              <option value="">Select rate set...</option>
+              {rateLibrary.map((set) => (
+                <option key={set.id} value={set.id}>
+                  {set.name}
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <select
+                className={styles.versionSelect}
+                value={version?.version ?? ''}
+                onChange={(e) => setSelectedVersion(Number(e.target.value))}
+                aria-label="Rate set version"
+              >
+                {selected.versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {selected && version && (
+            <>
+              <div className={styles.row}>
+                <button
+                  className={styles.button}
+                  onClick={() => applyRateSet(selected.id, version.version)}
+                >
+                  Apply v{version.version}
+                </button>
+                <button
+                  className={styles.removeButton}
+                  onClick={() => {
+                    deleteRateSet(selected.id);
+                    selectSet('');
+                  }}
+                  aria-label={`Delete ${selected.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+              <ul className={styles.history}>
+                {selected.versions.map((v) => (
+                  <li key={v.version}>
+                    <strong>v{v.version}</strong> effective {v.effectiveDate}
+                    {v.notes && ` - ${v.notes}`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+
+      <div className={styles.form}>
+        <label className={styles.field}>
+          <span>Rate set name</span>
+          <input
+            type="text"
+            className={styles.input}
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Pilbara contractor rates"
+          />
+        </label>
+        <div className={styles.row}>
+          <label className={styles.field}>
+            <span>Effective date</span>
+            <input
+              type="date"
+              className={styles.input}
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+            />
+          </label>
+          <label className={styles.field}>
+            <span>Notes</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={notes}
+              maxLength={500}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </label>
+        </div>
+        <div className={styles.row}>
+          <button className={styles.button} onClick={handleSaveNew} disabled={!name.trim()}>
+            Save as new rate set
+          </button>
+          <button className={styles.button} onClick={handleSaveVersion} disabled={!selected}>
+            Save as new version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
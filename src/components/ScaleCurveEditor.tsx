@@ -0,0 +1,227 @@
+/**
+ * Mine Closure Costing - Scale Curve Editor Component
+ *
+ * Give unit rates economies of scale - a power curve or tiered rate bands -
+ * so large quantities cost less per unit.
+ */
+
+import { useAppState } from '../state';
+import {
+  BUILD_UP_RATES,
+  SCALABLE_RATES,
+  isBuildUpRate,
+  SCALE_CURVE_TYPE_NAMES,
+  createScaleCurve,
+  getScaleMultiplier,
+} from '../domain';
+import type { RateTier, ScaleCurve, UnitRates } from '../domain';
+import { formatNumber } from '../utils/formatting';
+import styles from './ScaleCurveEditor.module.css';
+
+const SCALABLE_KEYS = Object.keys(SCALABLE_RATES) as (keyof UnitRates)[];
+
+const CURVE_TYPES = Object.keys(SCALE_CURVE_TYPE_NAMES) as ScaleCurve['type'][];
+
+/** Quantities, as multiples of the reference, at which the rate is previewed */
+const PREVIEW_MULTIPLES = [0.1, 1, 10];
+
+/** Parse a number input, clamped at zero; null when the field is not a number */
+function parseAmount(value: string): number | null {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : Math.max(0, parsed);
+}
+
+export function ScaleCurveEditor(): React.ReactElement {
+  const { state, setScaleCurve } = useAppState();
+  const { scaleCurves } = state.inputs;
+  const curved = SCALABLE_KEYS.flatMap((key) => {
+    const curve = scaleCurves[key];
+    return curve ? [{ key, curve }] : [];
+  });
+  const available = SCALABLE_KEYS.filter((key) => !scaleCurves[key]);
+
+  const updateTier = (
+    key: keyof UnitRates,
+    tiers: readonly RateTier[],
+    index: number,
+    updates: Partial<RateTier> | null
+  ) =>
+    setScaleCurve(key, {
+      type: 'tiered',
+      tiers: updates
+        ? tiers.map((t, i) => (i === index ? { ...t, ...updates } : t))
+        : tiers.filter((_, i) => i !== index),
+    });
+
+  return (
+    <div className={styles.editor}>
+      {curved.length === 0 && (
+        <p className={styles.empty}>No scale curves - all rates scale linearly with quantity.</p>
+      )}
+
+      {curved.map(({ key, curve }) => {
+        const name = isBuildUpRate(key) ? BUILD_UP_RATES[key].name : key;
+        const unit = isBuildUpRate(key) ? BUILD_UP_RATES[key].unit : 'unit';
+        const reference =
+          curve.type === 'power' ? curve.referenceQuantity : (SCALABLE_RATES[key] ?? 1);
+
+        return (
+          <div key={key} className={styles.curve}>
+            <div className={styles.header}>
+              <span className={styles.name}>{name}</span>
+              <select
+                className={styles.select}
+                value={curve.type}
+                onChange={(e) =>
+                  setScaleCurve(
+                    key,
+                    createScaleCurve(e.target.value as ScaleCurve['type'], reference)
+                  )
+                }
+                aria-label={`${name} scale curve type`}
+              >
+                {CURVE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {SCALE_CURVE_TYPE_NAMES[type]}
+                  </option>
+                ))}
+              </select>
+              <button
+                className={styles.removeButton}
+                onClick={() => setScaleCurve(key, null)}
+                aria-label={`Remove ${name} scale curve`}
+              >
+                ✕
+              </button>
+            </div>
+
+            {curve.type === 'power' ? (
+              <div className={styles.fields}>
+                <label className={styles.field}>
+                  <span>Reference ({unit})</span>
+                  <input
+                    type="number"
+                    className={styles.input}
+                    min={0}
+                    value={curve.referenceQuantity}
+                    onChange={(e) => {
+                      const value = parseAmount(e.target.value);
+                      if (value) setScaleCurve(key, { ...curve, referenceQuantity: value });
+                    }}
+                  />
+                </label>
+                <label className={styles.field}>
+                  <span>Exponent</span>
+                  <input
+                    type="number"
+                    className={styles.input}
+                    min={0.5}
+                    max={1.5}
+                    step={0.01}
+                    value={curve.exponent}
+                    onChange={(e) => {
+                      const value = parseAmount(e.target.value);
+                      if (value !== null)
+                        setScaleCurve(key, {
+                          ...curve,
+                          exponent: Math.min(1.5, Math.max(0.5, value)),
+                        });
+                    }}
+                  />
+                </label>
+              </div>
+            ) : (
+              <div className={styles.tiers}>
+                {curve.tiers.map((tier, index) => (
+                  <div key={index} className={styles.tier}>
+                    <label className={styles.field}>
+                      <span>From ({unit})</span>
+                      <input
+                        type="number"
+                        className={styles.input}
+                        min={0}
+                        value={tier.fromQuantity}
+                        disabled={index === 0}
+                        onChange={(e) => {
+                          const value = parseAmount(e.target.value);
+                          if (value !== null)
+                            updateTier(key, curve.tiers, index, { fromQuantity: value });
+                        }}
+                      />
+                    </label>
+                    <label className={styles.field}>
+                      <span>Rate factor</span>
+                      <input
+                        type="number"
+                        className={styles.input}
+                        min={0}
+                        step={0.05}
+                        value={tier.rateFactor}
+                        onChange={(e) => {
+                          const value = parseAmount(e.target.value);
+                          if (value) updateTier(key, curve.tiers, index, { rateFactor: value });
+                        }}
+                      />
+                    </label>
+                    <button
+                      className={styles.removeButton}
+                      onClick={() => updateTier(key, curve.tiers, index, null)}
+                      disabled={index === 0}
+                      aria-label={`Remove band ${index + 1}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  className={styles.addButton}
+                  onClick={() => {
+                    const last = curve.tiers[curve.tiers.length - 1];
+                    setScaleCurve(key, {
+                      type: 'tiered',
+                      tiers: [
+                        ...curve.tiers,
+                        {
+                          fromQuantity: Math.max(reference, (last?.fromQuantity ?? 0) * 2),
+                          rateFactor: last?.rateFactor ?? 1,
+                        },
+                      ],
+                    });
+                  }}
+                >
+                  + Add band
+                </button>
+              </div>
+            )}
+
+            <p className={styles.preview}>
+              {PREVIEW_MULTIPLES.map((multiple) => {
+                const quantity = reference * multiple;
+                return `${formatNumber(quantity)} ${unit}: ×${getScaleMultiplier(curve, quantity).toFixed(2)}`;
+              }).join(' · ')}
+            </p>
+          </div>
+        );
+      })}
+
+      {available.length > 0 && (
+        <select
+          className={styles.addSelect}
+          value=""
+          onChange={(e) => {
+            const key = e.target.value as keyof UnitRates;
+            if (key) setScaleCurve(key, createScaleCurve('power', SCALABLE_RATES[key] ?? 1));
+          }}
+          aria-label="Add a scale curve"
+        >
+          <option value="">+ Add a scale curve...</option>
+          {available.map((key) => (
+            <option key={key} value={key}>
+              {isBuildUpRate(key) ? BUILD_UP_RATES[key].name : key}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * Mine Closure Costing - Scenario Comparison View Component
+ *
+ * Compare two to five saved scenarios, presets or the current inputs side by
+ * side - headline measures, category and phase totals with deltas against the
+ * base scenario, and overlaid cashflow curves.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppState } from '../state';
+import {
+  MAX_COMPARED_SCENARIOS,
+  MIN_COMPARED_SCENARIOS,
+  SCENARIO_PRESETS,
+  compareScenarios,
+} from '../domain';
+import type { ComparisonRow, ComparisonSource, ComparisonValue, CurrencyConfig } from '../domain';
+import { COMPARISON_COLORS, renderComparisonChart } from '../charts';
+import { formatCurrency, formatPercent } from '../utils/formatting';
+import { InputDiffTable } from './InputDiffTable';
+import styles from './ScenarioComparisonView.module.css';
+
+const CURRENT_KEY = 'current';
+
+interface SourceOption extends ComparisonSource {
+  group: string;
+}
+
+/** Format a measure value */
+function formatValue(value: number, unit: ComparisonRow['unit'], currency: CurrencyConfig): string {
+  return unit === 'years' ? `${value} yrs` : formatCurrency(value, currency, { compact: true });
+}
+
+/** Format a delta against the base scenario, signed */
+function formatDelta(
+  { delta, deltaPercent }: ComparisonValue,
+  unit: ComparisonRow['unit'],
+  currency: CurrencyConfig
+): string {
+  const sign = delta < 0 ? '−' : '+';
+  const amount = formatValue(Math.abs(delta), unit, currency);
+  return deltaPercent === null
+    ? `${sign}${amount}`
+    : `${sign}${amount} (${sign}${formatPercent(Math.abs(deltaPercent))})`;
+}
+
+function ComparisonTable({
+  title,
+  rows,
+  names,
+  currency,
+}: {
+  title: string;
+  rows: readonly ComparisonRow[];
+  names: readonly string[];
+  currency: CurrencyConfig;
+}): React.ReactElement {
+  return (
+    <div className={styles.tableSection}>
+      <h3 className={styles.sectionTitle}>{title}</h3>
+      <div className={styles.tableWrapper}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th></th>
+              {names.map((name, i) => (
+                <th key={i} className={styles.alignRight}>
+                  <span
+                    className={styles.swatch}
+                    style={{ background: COMPARISON_COLORS[i % COMPARISON_COLORS.length] }}
+                  />
+                  {name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td>{row.label}</td>
+                {row.values.map((v, i) => (
+                  <td key={i} className={styles.alignRight}>
+                    <div>{formatValue(v.value, row.unit, currency)}</div>
+                    {i > 0 && (
+                      <div
+                        className={`${styles.delta} ${
+                          v.delta > 0 ? styles.increase : v.delta < 0 ? styles.saving : ''
+                        }`}
+                      >
+                        {v.delta === 0 ? 'No change' : formatDelta(v, row.unit, currency)}
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function ScenarioComparisonView({ onClose }: { onClose: () => void }): React.ReactElement {
+  const { state } = useAppState();
+  const { inputs, savedScenarios, currency } = state;
+
+  // Selected source keys, the base scenario first
+  const [selected, setSelected] = useState<string[]>([CURRENT_KEY]);
+  const [showDiscounted, setShowDiscounted] = useState(false);
+  const [showCumulative, setShowCumulative] = useState(false);
+  // Compared scenario whose inputs are diffed against the base
+  const [diffIndex, setDiffIndex] = useState(1);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const options = useMemo(
+    () =>
+      new Map<string, SourceOption>([
+        [CURRENT_KEY, { id: CURRENT_KEY, name: 'Current inputs', inputs, group: 'Current' }],
+        ...savedScenarios.map((s): [string, SourceOption] => [
+          `saved:${s.id}`,
+          { ...s, group: 'Saved' },
+        ]),
+        ...SCENARIO_PRESETS.map((p): [string, SourceOption] => [
+          `preset:${p.id}`,
+          { ...p, group: 'Preset' },
+        ]),
+      ]),
+    [inputs, savedScenarios]
+  );
+
+  const comparison = useMemo(() => {
+    const sources = selected.flatMap((key) => {
+      const option = options.get(key);
+      return option ? [option] : [];
+    });
+    return sources.length >= MIN_COMPARED_SCENARIOS ? compareScenarios(sources) : null;
+  }, [selected, options]);
+
+  useEffect(() => {
+    if (!comparison || !chartRef.current) return;
+    renderComparisonChart(
+      chartRef.current,
+      comparison.scenarios.map((s) => ({ name: s.name, cashflows: s.results.annualCashflows })),
+      { currency, showDiscounted, showCumulative, width: 620, height: 340 }
+    );
+  }, [comparison, currency, showDiscounted, showCumulative]);
+
+  const toggle = (key: string) =>
+    setSelected((keys) =>
+      keys.includes(key)
+        ? keys.filter((k) => k !== key)
+        : keys.length < MAX_COMPARED_SCENARIOS
+          ? [...keys, key]
+          : keys
+    );
+
+  const makeBase = (key: string) => setSelected((keys) => [key, ...keys.filter((k) => k !== key)]);
+
+  const names = comparison?.scenarios.map((s) => s.name) ?? [];
+  const diffBase = comparison?.scenarios[0];
+  const diffTarget = comparison?.scenarios[diffIndex] ?? comparison?.scenarios[1];
+
+  return (
+    <div className={styles.view}>
+      <div className={styles.header}>
+        <h2 className={styles.title}>Scenario Comparison</h2>
+        <button className={styles.button} onClick={onClose}>
+          Back to Results
+        </button>
+      </div>
+
+      <div className={styles.picker}>
+        <p className={styles.hint}>
+          Select {MIN_COMPARED_SCENARIOS} to {MAX_COMPARED_SCENARIOS} scenarios. Deltas are against
+          the base scenario.
+        </p>
+        {[...options].map(([key, option]) => {
+          const isSelected = selected.includes(key);
+          return (
+            <div key={key} className={styles.option}>
+              <label className={styles.optionLabel}>
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  disabled={!isSelected && selected.length >= MAX_COMPARED_SCENARIOS}
+                  onChange={() => toggle(key)}
+                />
+                <span>{option.name}</span>
+                <span className={styles.group}>{option.group}</span>
+              </label>
+              {isSelected && (
+                <label className={styles.baseLabel}>
+                  <input
+                    type="radio"
+                    name="comparisonBase"
+                    checked={selected[0] === key}
+                    onChange={() => makeBase(key)}
+                  />
+                  <span>Base</span>
+                </label>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {comparison ? (
+        <>
+          <ComparisonTable
+            title="Headline Measures"
+            rows={comparison.kpis}
+            names={names}
+            currency={currency}
+          />
+
+          <div className={styles.chartSection}>
+            <h3 className={styles.sectionTitle}>Cashflow Profiles</h3>
+            <div className={styles.chartOptions}>
+              <label className={styles.optionLabel}>
+                <input
+                  type="checkbox"
+                  checked={showDiscounted}
+                  onChange={(e) => setShowDiscounted(e.target.checked)}
+                />
+                <span>Discounted</span>
+              </label>
+              <label className={styles.optionLabel}>
+                <input
+                  type="checkbox"
+                  checked={showCumulative}
+                  onChange={(e) => setShowCumulative(e.target.checked)}
+                />
+                <span>Cumulative</span>
+              </label>
+            </div>
+            <div ref={chartRef} className={styles.chart} />
+          </div>
+
+          <ComparisonTable
+            title="By Category"
+            rows={comparison.categories}
+            names={names}
+            currency={currency}
+          />
+          <ComparisonTable
+            title="By Phase"
+            rows={comparison.phases}
+            names={names}
+            currency={currency}
+          />
+
+          {diffBase && diffTarget && (
+            <div className={styles.tableSection}>
+              <h3 className={styles.sectionTitle}>Input Changes</h3>
+              <div className={styles.chartOptions}>
+                <label className={styles.optionLabel}>
+                  <span>Changes from {diffBase.name} to</span>
+                  <select
+                    className={styles.select}
+                    value={comparison.scenarios.indexOf(diffTarget)}
+                    onChange={(e) => setDiffIndex(Number(e.target.value))}
+                  >
+                    {comparison.scenarios.slice(1).map((s, i) => (
+                      <option key={i + 1} value={i + 1}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className={styles.diff}>
+                <InputDiffTable
+                  oldInputs={diffBase.inputs}
+                  newInputs={diffTarget.inputs}
+                  oldName={diffBase.name}
+                  newName={diffTarget.name}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className={styles.empty}>
+          Select at least {MIN_COMPARED_SCENARIOS} scenarios to compare - save the current inputs to
+          compare them with an option.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * Mine Closure Costing - Site Domain Editor Component
+ *
+ * Maintain the register of closure domains - each TSF, WRD, pit and
+ * infrastructure area with its own area, cover thickness and reshaping depth.
+ */
+
+import { useCallback } from 'react';
+import { useAppState } from '../state';
+import { SITE_DOMAIN_TYPES, SITE_DOMAIN_TYPE_NAMES, createSiteDomain } from '../domain';
+import type { PitVoidClosure, SiteDomain, SiteDomainType } from '../domain';
+import { formatCurrency } from '../utils/formatting';
+import styles from './SiteDomainEditor.module.css';
+
+interface QuantityField {
+  key: 'areaHa' | 'coverThicknessM' | 'reshapingDepthM';
+  label: string;
+  unit: string;
+  max: number;
+  step: number;
+}
+
+const QUANTITY_FIELDS: readonly QuantityField[] = [
+  { key: 'areaHa', label: 'Area', unit: 'ha', max: 50000, step: 5 },
+  { key: 'coverThicknessM', label: 'Cover', unit: 'm', max: 5, step: 0.1 },
+  { key: 'reshapingDepthM', label: 'Reshape', unit: 'm', max: 20, step: 0.1 },
+];
+
+interface PitVoidField {
+  key: keyof PitVoidClosure;
+  label: string;
+  unit: string;
+  max: number;
+  step: number;
+}
+
+const PIT_VOID_FIELDS: readonly PitVoidField[] = [
+  { key: 'abandonmentBundLengthM', label: 'Bund', unit: 'm', max: 100000, step: 100 },
+  { key: 'safetyFenceLengthM', label: 'Fence', unit: 'm', max: 100000, step: 100 },
+  { key: 'backfillVolumeM3', label: 'Backfill', unit: 'm³', max: 1000000000, step: 10000 },
+  { key: 'wallStabilisationAreaHa', label: 'Wall works', unit: 'ha', max: 10000, step: 1 },
+  { key: 'pitLakeAreaHa', label: 'Pit lake', unit: 'ha', max: 10000, step: 1 },
+];
+
+/** Parse a number input, clamped to 0..max; null when the field is not a number */
+function parseQuantity(value: string, max: number): number | null {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : Math.min(max, Math.max(0, parsed));
+}
+
+export function SiteDomainEditor(): React.ReactElement {
+  const { state, setSiteDomains } = useAppState();
+  const { inputs, results, currency } = state;
+  const domains = inputs.siteDomains;
+
+  const updateDomain = useCallback(
+    (id: string, updates: Partial<SiteDomain>) =>
+      setSiteDomains(domains.map((d) => (d.id === id ? { ...d, ...updates } : d))),
+    [domains, setSiteDomains]
+  );
+
+  return (
+    <div className={styles.editor}>
+      {domains.length === 0 && <p className={styles.empty}>No domains - add a TSF, WRD or pit.</p>}
+
+      {domains.map((domain) => {
+        const cost = results?.domainBreakdown.find((d) => d.domainId === domain.id)?.totalCost;
+
+        return (
+          <div key={domain.id} className={styles.domain}>
+            <div className={styles.domainHeader}>
+              <input
+                type="text"
+                className={styles.nameInput}
+                value={domain.name}
+                maxLength={100}
+                onChange={(e) => updateDomain(domain.id, { name: e.target.value })}
+                onBlur={(e) => {
+                  // Line items are labelled with the domain name, so keep one
+                  if (!e.target.value.trim()) {
+                    updateDomain(domain.id, { name: SITE_DOMAIN_TYPE_NAMES[domain.type] });
+                  }
+                }}
+                aria-label={`Name of ${domain.name}`}
+              />
+              <span className={styles.type}>{SITE_DOMAIN_TYPE_NAMES[domain.type]}</span>
+              <button
+                className={styles.removeButton}
+                onClick={() => setSiteDomains(domains.filter((d) => d.id !== domain.id))}
+                aria-label={`Remove ${domain.name}`}
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className={styles.fields}>
+              {QUANTITY_FIELDS.map((field) => (
+                <label key={field.key} className={styles.field}>
+                  <span>
+                    {field.label} ({field.unit})
+                  </span>
+                  <input
+                    type="number"
+                    className={styles.numberInput}
+                    min={0}
+                    max={field.max}
+                    step={field.step}
+                    value={domain[field.key]}
+                    onChange={(e) => {
+                      const value = parseQuantity(e.target.value, field.max);
+                      if (value !== null) updateDomain(domain.id, { [field.key]: value });
+                    }}
+                    aria-label={`${domain.name} ${field.label.toLowerCase()} (${field.unit})`}
+                  />
+                </label>
+              ))}
+            </div>
+
+            {domain.pitVoid && (
+              <div className={styles.fields}>
+                {PIT_VOID_FIELDS.map((field) => (
+                  <label key={field.key} className={styles.field}>
+                    <span>
+                      {field.label} ({field.unit})
+                    </span>
+                    <input
+                      type="number"
+                      className={styles.numberInput}
+                      min={0}
+                      max={field.max}
+                      step={field.step}
+                      value={domain.pitVoid?.[field.key] ?? 0}
+                      onChange={(e) => {
+                        const value = parseQuantity(e.target.value, field.max);
+                        if (value === null || !domain.pitVoid) return;
+                        updateDomain(domain.id, {
+                          pitVoid: { ...domain.pitVoid, [field.key]: value },
+                        });
+                      }}
+                      aria-label={`${domain.name} ${field.label.toLowerCase()} (${field.unit})`}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {cost !== undefined && (
+              <span className={styles.cost}>
+                Closure works: {formatCurrency(cost, currency, { compact: true })}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      <select
+        className={styles.addSelect}
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          setSiteDomains([...domains, createSiteDomain(e.target.value as SiteDomainType, domains)]);
+        }}
+        aria-label="Add site domain"
+      >
+        <option value="">+ Add domain…</option>
+        {SITE_DOMAIN_TYPES.map((type) => (
+          <option key={type} value={type}>
+            {SITE_DOMAIN_TYPE_NAMES[type]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Mine Closure Costing - Spend Profile Editor Component
+ *
+ * Choose how costs are spread across their phase years, per cost category
+ * or per individual line item.
+ */
+
+import { useCallback, useState } from 'react';
+import { useAppState } from '../state';
+import {
+  CATEGORY_NAMES,
+  SPEND_PROFILE_NAMES,
+  UNIFORM_SPEND_PROFILE,
+  resolveSpendProfile,
+} from '../domain';
+import type { CostCategory, SpendProfile, SpendProfileType } from '../domain';
+import type { SelectOption } from '../ui';
+import styles from './SpendProfileEditor.module.css';
+
+const PROFILE_OPTIONS: SelectOption[] = Object.entries(SPEND_PROFILE_NAMES).map(
+  ([value, label]) => ({ value, label })
+);
+
+/**
+ * Build a profile of the given type; custom profiles start as an even split.
+ */
+function createProfile(type: SpendProfileType, years: number): SpendProfile {
+  if (type !== 'custom') return { type };
+  const count = Math.max(1, years);
+  const share = Math.round((100 / count) * 10) / 10;
+  return { type, percentages: Array.from({ length: count }, () => share) };
+}
+
+interface ProfileFieldsProps {
+  profile: SpendProfile;
+  years: number;
+  label: string;
+  onChange: (profile: SpendProfile) => void;
+}
+
+function ProfileFields({
+  profile,
+  years,
+  label,
+  onChange,
+}: ProfileFieldsProps): React.ReactElement {
+  const percentages = profile.type === 'custom' ? profile.percentages.join(', ') : '';
+  const [draft, setDraft] = useState(percentages);
+  const [lastPercentages, setLastPercentages] = useState(percentages);
+
+  // Reset the draft when the stored percentages change elsewhere
+  if (percentages !== lastPercentages) {
+    setLastPercentages(percentages);
+    setDraft(percentages);
+  }
+
+  const commitDraft = () => {
+    const values = draft
+      .split(',')
+      .map((v) => parseFloat(v.trim()))
+      .filter((v) => !isNaN(v) && v >= 0);
+    if (values.length > 0 && values.some((v) => v > 0)) {
+      onChange({ type: 'custom', percentages: values });
+    } else {
+      setDraft(percentages);
+    }
+  };
+
+  return (
+    <div className={styles.fields}>
+      <select
+        className={styles.select}
+        value={profile.type}
+        onChange={(e) => onChange(createProfile(e.target.value as SpendProfileType, years))}
+        aria-label={`Spend profile for ${label}`}
+      >
+        {PROFILE_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+      {profile.type === 'custom' && (
+        <input
+          type="text"
+          className={styles.percentInput}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitDraft();
+          }}
+          placeholder="e.g. 50, 30, 20"
+          title="Percentage of cost in each phase year, comma separated"
+          aria-label={`Percentage per year for ${label}`}
+        />
+      )}
+    </div>
+  );
+}
+
+export function SpendProfileEditor(): React.ReactElement {
+  const { state, updateSpendProfiles } = useAppState();
+  const { inputs, results } = state;
+  const { spendProfiles } = inputs;
+  const lineItems = results?.lineItems ?? [];
+
+  const [selectedItem, setSelectedItem] = useState('');
+
+  // Categories present in the estimate, plus any with a profile already set
+  const categories = [
+    ...new Set<CostCategory>([
+      ...lineItems.map((item) => item.category),
+      ...(Object.keys(spendProfiles.categories) as CostCategory[]),
+    ]),
+  ];
+
+  const phaseYearsForCategory = (category: CostCategory): number => {
+    const item = lineItems.find((i) => i.category === category);
+    return item ? inputs.phaseDurations[item.phase] : 1;
+  };
+
+  const phaseYearsForItem = (id: string): number => {
+    const item = lineItems.find((i) => i.id === id);
+    return item ? inputs.phaseDurations[item.phase] : 1;
+  };
+
+  // Overrides keep their profile while the item is out of the estimate
+  const itemLabel = (id: string): string =>
+    lineItems.find((i) => i.id === id)?.description ?? `${id} (not in estimate)`;
+
+  const setCategoryProfile = useCallback(
+    (category: CostCategory, profile: SpendProfile) =>
+      updateSpendProfiles({
+        categories: { ...spendProfiles.categories, [category]: profile },
+      }),
+    [spendProfiles.categories, updateSpendProfiles]
+  );
+
+  const setLineItemProfile = useCallback(
+    (id: string, profile: SpendProfile | null) => {
+      const updated = { ...spendProfiles.lineItems };
+      if (profile) {
+        updated[id] = profile;
+      } else {
+        delete updated[id];
+      }
+      updateSpendProfiles({ lineItems: updated });
+    },
+    [spendProfiles.lineItems, updateSpendProfiles]
+  );
+
+  const availableItems = lineItems.filter((item) => !(item.id in spendProfiles.lineItems));
+  const itemToAdd = selectedItem || availableItems[0]?.id || '';
+
+  return (
+    <div className={styles.editor}>
+      <h4 className={styles.heading}>By Category</h4>
+      {categories.map((category) => (
+        <div key={category} className={styles.row}>
+          <span className={styles.rowLabel}>{CATEGORY_NAMES[category]}</span>
+          <ProfileFields
+            profile={spendProfiles.categories[category] ?? UNIFORM_SPEND_PROFILE}
+            years={phaseYearsForCategory(category)}
+            label={CATEGORY_NAMES[category]}
+            onChange={(profile) => setCategoryProfile(category, profile)}
+          />
+        </div>
+      ))}
+
+      <h4 className={styles.heading}>Line Item Overrides</h4>
+      {availableItems.length > 0 && (
+        <div className={styles.addRow}>
+          <select
+            className={styles.select}
+            value={itemToAdd}
+            onChange={(e) => setSelectedItem(e.target.value)}
+            aria-label="Line item"
+          >
+            {availableItems.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.description}
+              </option>
+            ))}
+          </select>
+          <button
+            className={styles.addButton}
+            onClick={() => {
+              const item = availableItems.find((i) => i.id === itemToAdd);
+              if (!item) return;
+              // Start from the profile the item currently uses
+              setLineItemProfile(item.id, resolveSpendProfile(item, spendProfiles));
+              setSelectedItem('');
+            }}
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {Object.keys(spendProfiles.lineItems).length === 0 && (
+        <p className={styles.empty}>No line item overrides - category profiles apply.</p>
+      )}
+
+      {Object.entries(spendProfiles.lineItems).map(([id, profile]) => (
+        <div key={id} className={styles.row}>
+          <span className={styles.rowLabel}>{itemLabel(id)}</span>
+          <ProfileFields
+            profile={profile}
+            years={phaseYearsForItem(id)}
+            label={itemLabel(id)}
+            onChange={(updated) => setLineItemProfile(id, updated)}
+          />
+          <button
+            className={styles.removeButton}
+            onClick={() => setLineItemProfile(id, null)}
+            aria-label={`Remove spend profile override for ${itemLabel(id)}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@
  * - Cashflow generation
  * - NPV calculations
  * - Sensitivity analysis
+ * - Underground closure
  * - Edge cases and boundary conditions
  */
 
@@ -20,10 +21,18 @@ import {
   riskScoreToUplift,
   haToM2,
   m2ToHa,
+  realToNominalRate,
+  nominalToRealRate,
+  calculateWaterTreatmentAnnualOpex,
+  calculateWaterTreatmentPlantCost,
+  getWaterTreatmentLifecycleYears,
+  calculateUndergroundClosureCosts,
 } from './calcEngine';
 import { createDefaultInputState } from './defaults';
+import { PRESET_UNDERGROUND } from './presets';
+import { getDomainAreaHa, getDomainAverageDepthM } from './siteDomains';
 import type { InputState, Results } from './types';
-import { CostCategory } from './types';
+import { ClosurePhase, CostCategory } from './types';
 
 describe('calculateClosureCosts', () => {
   let defaultInputs: InputState;
@@ -69,22 +78,23 @@ describe('calculateClosureCosts', () => {
   describe('Derived quantity calculations', () => {
     it('should calculate TSF area in m²', () => {
       const derived = results.derivedQuantities;
-      const expectedTsfAreaM2 = defaultInputs.quantities.tsfAreaHa * 10000;
+      const expectedTsfAreaM2 = getDomainAreaHa(defaultInputs.siteDomains, 'tsf') * 10000;
       expect(derived.tsfAreaM2).toBeCloseTo(expectedTsfAreaM2, 0);
     });
 
     it('should calculate WRD area in m²', () => {
       const derived = results.derivedQuantities;
-      const expectedWrdAreaM2 = defaultInputs.quantities.wrdFootprintHa * 10000;
+      const expectedWrdAreaM2 = getDomainAreaHa(defaultInputs.siteDomains, 'wrd') * 10000;
       expect(derived.wrdAreaM2).toBeCloseTo(expectedWrdAreaM2, 0);
     });
 
-    it('should calculate TSF capping volume', () => {
+    it('should calculate cover volume across domains', () => {
       const derived = results.derivedQuantities;
-      const expectedVolume = 
-        defaultInputs.quantities.tsfAreaHa * 10000 * 
-        defaultInputs.quantities.tsfCoverThicknessM;
-      expect(derived.tsfCappingVolumeM3).toBeCloseTo(expectedVolume, 0);
+      const expectedVolume = defaultInputs.siteDomains.reduce(
+        (sum, d) => sum + d.areaHa * 10000 * d.coverThicknessM,
+        0
+      );
+      expect(derived.coverVolumeM3).toBeCloseTo(expectedVolume, 0);
     });
 
     it('should calculate total water treatment volume', () => {
@@ -250,6 +260,94 @@ describe('calculateClosureCosts', () => {
     });
   });
 
+  describe('Real vs nominal discounting', () => {
+    const withFinancials = (overrides: Partial<InputState['financialParams']>): InputState => ({
+      ...defaultInputs,
+      financialParams: { ...defaultInputs.financialParams, ...overrides },
+    });
+
+    it('should not apply escalation to discounted flows in real mode', () => {
+      const noEscalation = calculateClosureCosts(withFinancials({ discountRateMode: 'real', escalationRatePercent: 0 }));
+      const highEscalation = calculateClosureCosts(withFinancials({ discountRateMode: 'real', escalationRatePercent: 8 }));
+
+      expect(highEscalation.totalDiscountedCost).toBeCloseTo(noEscalation.totalDiscountedCost, 2);
+    });
+
+    it('should discount escalated flows in nominal mode', () => {
+      const noEscalation = calculateClosureCosts(withFinancials({ discountRateMode: 'nominal', escalationRatePercent: 0 }));
+      const highEscalation = calculateClosureCosts(withFinancials({ discountRateMode: 'nominal', escalationRatePercent: 8 }));
+
+      expect(highEscalation.totalDiscountedCost).toBeGreaterThan(noEscalation.totalDiscountedCost);
+    });
+
+    it('should give a different NPV when only the mode changes', () => {
+      const real = calculateClosureCosts(withFinancials({ discountRateMode: 'real' }));
+      const nominal = calculateClosureCosts(withFinancials({ discountRateMode: 'nominal' }));
+
+      expect(nominal.totalDiscountedCost).not.toBeCloseTo(real.totalDiscountedCost, 0);
+    });
+
+    it('should give the same NPV for a real rate and its Fisher-equivalent nominal rate', () => {
+      const real = calculateClosureCosts(withFinancials({ discountRateMode: 'real', discountRatePercent: 5, escalationRatePercent: 3 }));
+      const nominalRatePercent = realToNominalRate(0.05, 0.03) * 100;
+      const nominal = calculateClosureCosts(withFinancials({ discountRateMode: 'nominal', discountRatePercent: nominalRatePercent, escalationRatePercent: 3 }));
+
+      expect(nominal.totalDiscountedCost).toBeCloseTo(real.totalDiscountedCost, 0);
+      expect(real.equivalentDiscountRatePercent).toBeCloseTo(nominalRatePercent, 10);
+    });
+
+    it('should convert between real and nominal rates', () => {
+      expect(realToNominalRate(0.05, 0.03)).toBeCloseTo(0.0815, 10);
+      expect(nominalToRealRate(0.0815, 0.03)).toBeCloseTo(0.05, 10);
+    });
+
+    it('should report the real equivalent rate in nominal mode', () => {
+      const nominal = calculateClosureCosts(withFinancials({ discountRateMode: 'nominal', discountRatePercent: 8.15, escalationRatePercent: 3 }));
+      expect(nominal.equivalentDiscountRatePercent).toBeCloseTo(5, 10);
+    });
+  });
+
+  describe('Valuation and rate base years', () => {
+    const withFinancials = (overrides: Partial<InputState['financialParams']>): InputState => ({
+      ...defaultInputs,
+      financialParams: { ...defaultInputs.financialParams, ...overrides },
+    });
+
+    it('should be unchanged when valuation and rate base years equal closure start', () => {
+      const startYear = defaultInputs.financialParams.closureStartYear;
+      const base = calculateClosureCosts(defaultInputs);
+      const explicit = calculateClosureCosts(withFinancials({ valuationYear: startYear, rateBaseYear: startYear }));
+
+      expect(explicit.totalDiscountedCost).toBeCloseTo(base.totalDiscountedCost, 6);
+    });
+
+    it('should discount a later closure back to the valuation year', () => {
+      const now = calculateClosureCosts(withFinancials({ closureStartYear: 2026, valuationYear: 2026 }));
+      const later = calculateClosureCosts(withFinancials({ closureStartYear: 2040, valuationYear: 2026 }));
+
+      expect(later.totalDiscountedCost).toBeCloseTo(now.totalDiscountedCost / Math.pow(1.07, 14), 0);
+    });
+
+    it('should escalate from the rate base year', () => {
+      const results = calculateClosureCosts(withFinancials({ closureStartYear: 2040, rateBaseYear: 2026, escalationRatePercent: 3 }));
+      const first = results.annualCashflows[0];
+
+      expect(first?.escalatedCost).toBeCloseTo((first?.nominalCost ?? 0) * Math.pow(1.03, 14), 2);
+    });
+
+    it('should give the same NPV in both modes with Fisher-equivalent rates', () => {
+      const timing = { closureStartYear: 2040, valuationYear: 2026, rateBaseYear: 2024, escalationRatePercent: 3 };
+      const real = calculateClosureCosts(withFinancials({ ...timing, discountRateMode: 'real', discountRatePercent: 5 }));
+      const nominal = calculateClosureCosts(withFinancials({
+        ...timing,
+        discountRateMode: 'nominal',
+        discountRatePercent: realToNominalRate(0.05, 0.03) * 100,
+      }));
+
+      expect(nominal.totalDiscountedCost).toBeCloseTo(real.totalDiscountedCost, 0);
+    });
+  });
+
   describe('Sensitivity analysis', () => {
     it('should include sensitivity results for key parameters', () => {
       expect(results.sensitivityResults.length).toBeGreaterThan(0);
@@ -274,11 +372,7 @@ describe('calculateClosureCosts', () => {
     it('should handle zero TSF area', () => {
       const zeroTsfInputs: InputState = {
         ...defaultInputs,
-        quantities: {
-          ...defaultInputs.quantities,
-          tsfAreaHa: 0,
-          tsfCoverThicknessM: 0,
-        },
+        siteDomains: defaultInputs.siteDomains.filter(d => d.type !== 'tsf'),
       };
       const zeroTsfResults = calculateClosureCosts(zeroTsfInputs);
       
@@ -289,11 +383,7 @@ describe('calculateClosureCosts', () => {
     it('should handle zero WRD dimensions', () => {
       const zeroWrdInputs: InputState = {
         ...defaultInputs,
-        quantities: {
-          ...defaultInputs.quantities,
-          wrdFootprintHa: 0,
-          wrdReshapingDepthM: 0,
-        },
+        siteDomains: defaultInputs.siteDomains.filter(d => d.type !== 'wrd'),
       };
       const zeroWrdResults = calculateClosureCosts(zeroWrdInputs);
       
@@ -307,9 +397,8 @@ describe('calculateClosureCosts', () => {
         quantities: {
           ...defaultInputs.quantities,
           disturbedAreaHa: 5000,
-          tsfAreaHa: 2000,
-          wrdFootprintHa: 3000,
         },
+        siteDomains: defaultInputs.siteDomains.map(d => ({ ...d, areaHa: d.type === 'tsf' ? 2000 : 3000 })),
       };
       const largeSiteResults = calculateClosureCosts(largeSiteInputs);
       
@@ -354,7 +443,6 @@ describe('calculateClosureCosts', () => {
           geotechUncertainty: 80,
           waterQualityUncertainty: 80,
           regulatoryUncertainty: 80,
-          logisticsComplexity: 80,
         },
       };
       const highRiskResults = calculateClosureCosts(highRiskInputs);
@@ -415,22 +503,22 @@ describe('calculateDerivedQuantities', () => {
 
   it('should calculate correct TSF area in m²', () => {
     const derived = calculateDerivedQuantities(defaultInputs);
-    const expectedArea = defaultInputs.quantities.tsfAreaHa * 10000;
+    const expectedArea = getDomainAreaHa(defaultInputs.siteDomains, 'tsf') * 10000;
     expect(derived.tsfAreaM2).toBeCloseTo(expectedArea, 0);
   });
 
   it('should calculate correct WRD area in m²', () => {
     const derived = calculateDerivedQuantities(defaultInputs);
-    const expectedArea = defaultInputs.quantities.wrdFootprintHa * 10000;
+    const expectedArea = getDomainAreaHa(defaultInputs.siteDomains, 'wrd') * 10000;
     expect(derived.wrdAreaM2).toBeCloseTo(expectedArea, 0);
   });
 
   it('should calculate correct TSF capping volume', () => {
     const derived = calculateDerivedQuantities(defaultInputs);
-    const expectedVolume = 
-      defaultInputs.quantities.tsfAreaHa * 10000 * 
-      defaultInputs.quantities.tsfCoverThicknessM;
-    expect(derived.tsfCappingVolumeM3).toBeCloseTo(expectedVolume, 0);
+    const expectedVolume =
+      getDomainAreaHa(defaultInputs.siteDomains, 'tsf') * 10000 *
+      getDomainAverageDepthM(defaultInputs.siteDomains, 'tsf', 'coverThicknessM');
+    expect(derived.coverVolumeM3).toBeCloseTo(expectedVolume, 0);
   });
 
   it('should calculate risk score within valid range', () => {
@@ -473,7 +561,6 @@ describe('Risk calculation functions', () => {
         geotechUncertainty: 0,
         waterQualityUncertainty: 0,
         regulatoryUncertainty: 0,
-        logisticsComplexity: 0,
       };
       expect(calculateRiskScore(factors)).toBe(0);
     });
@@ -484,7 +571,6 @@ describe('Risk calculation functions', () => {
         geotechUncertainty: 100,
         waterQualityUncertainty: 100,
         regulatoryUncertainty: 100,
-        logisticsComplexity: 100,
       };
       expect(calculateRiskScore(factors)).toBe(100);
     });
@@ -495,10 +581,20 @@ describe('Risk calculation functions', () => {
         geotechUncertainty: 50,
         waterQualityUncertainty: 50,
         regulatoryUncertainty: 50,
-        logisticsComplexity: 50,
       };
       expect(calculateRiskScore(factors)).toBe(50);
     });
+
+    it('should weight contamination and water quality above geotechnical and regulatory', () => {
+      const factors = {
+        contaminationUncertainty: 80,
+        geotechUncertainty: 40,
+        waterQualityUncertainty: 60,
+        regulatoryUncertainty: 10,
+      };
+      // 80×0.3 + 40×0.2 + 60×0.3 + 10×0.2 = 24 + 8 + 18 + 2
+      expect(calculateRiskScore(factors)).toBe(52);
+    });
   });
 
   describe('riskScoreToUplift', () => {
@@ -560,3 +656,279 @@ describe('Regression snapshot test', () => {
     expect(results.totalDurationYears).toBeLessThan(100);
   });
 });
+
+describe('Perpetual water treatment', () => {
+  let inputs: InputState;
+
+  const withTreatment = (
+    overrides: Partial<InputState['perpetualTreatment']>,
+    unitRates: Partial<InputState['unitRates']> = {}
+  ): InputState => ({
+    ...inputs,
+    unitRates: { ...inputs.unitRates, ...unitRates },
+    perpetualTreatment: { ...inputs.perpetualTreatment, enabled: true, ...overrides },
+  });
+
+  const noLifecycleCosts = { waterTreatmentReplacementPercent: 0, waterTreatmentRefurbishmentPercent: 0 };
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should be off by default and not change the NPV', () => {
+    const base = calculateClosureCosts(inputs);
+    const enabled = calculateClosureCosts(withTreatment({}));
+
+    expect(base.perpetualTreatment).toBeNull();
+    expect(enabled.totalDiscountedCost).toBeCloseTo(base.totalDiscountedCost, 6);
+  });
+
+  it('should start after the water management phase', () => {
+    const results = calculateClosureCosts(withTreatment({}));
+    const water = results.phaseTimings.find(t => t.phase === ClosurePhase.WaterManagement);
+
+    expect(results.perpetualTreatment?.startYear).toBe(
+      inputs.financialParams.closureStartYear + (water?.finishYear ?? 0)
+    );
+  });
+
+  it('should value opex as a perpetuity-due at the real rate', () => {
+    const results = calculateClosureCosts(withTreatment({}, noLifecycleCosts));
+    const treatment = results.perpetualTreatment;
+    const r = inputs.financialParams.discountRatePercent / 100;
+    const yearsToStart = (treatment?.startYear ?? 0) - inputs.financialParams.valuationYear;
+    const expected = (calculateWaterTreatmentAnnualOpex(inputs) * (1 + r)) / r / Math.pow(1 + r, yearsToStart);
+
+    expect(treatment?.replacementPresentValue).toBe(0);
+    expect(treatment?.opexPresentValue).toBeCloseTo(expected, 0);
+    expect(treatment?.termYears).toBe(Infinity);
+  });
+
+  it('should continue plant replacements from the end of the treatment duration', () => {
+    // 10 treatment years into a 20 year life - first replacement 10 years into the tail
+    const results = calculateClosureCosts(withTreatment({}, {
+      waterTreatmentAssetLifeYears: 20,
+      waterTreatmentReplacementPercent: 50,
+      waterTreatmentRefurbishmentPercent: 0,
+    }));
+    const treatment = results.perpetualTreatment;
+    const r = inputs.financialParams.discountRatePercent / 100;
+    const yearsToStart = (treatment?.startYear ?? 0) - inputs.financialParams.valuationYear;
+    const replacement = calculateWaterTreatmentPlantCost(inputs) * 0.5;
+    const expected = (replacement * Math.pow(1 + r, -10)) / (1 - Math.pow(1 + r, -20)) / Math.pow(1 + r, yearsToStart);
+
+    expect(treatment?.replacementCost).toBeCloseTo(replacement, 6);
+    expect(treatment?.replacementPresentValue).toBeCloseTo(expected, 0);
+  });
+
+  it('should approach the perpetuity as the fixed term lengthens', () => {
+    const perpetuity = calculateClosureCosts(withTreatment({})).perpetualTreatment?.presentValue ?? 0;
+    const shortTerm = calculateClosureCosts(withTreatment({ mode: 'fixed_term', termYears: 30 })).perpetualTreatment?.presentValue ?? 0;
+    const longTerm = calculateClosureCosts(withTreatment({ mode: 'fixed_term', termYears: 1000 })).perpetualTreatment?.presentValue ?? 0;
+
+    expect(shortTerm).toBeLessThan(longTerm);
+    expect(longTerm).toBeCloseTo(perpetuity, 0);
+  });
+
+  it('should give the same value in real and nominal modes with Fisher-equivalent rates', () => {
+    const real = calculateClosureCosts(withTreatment({})).perpetualTreatment?.presentValue ?? 0;
+    const nominalInputs = withTreatment({});
+    const nominal = calculateClosureCosts({
+      ...nominalInputs,
+      financialParams: {
+        ...nominalInputs.financialParams,
+        discountRateMode: 'nominal',
+        discountRatePercent: realToNominalRate(0.07, 0.03) * 100,
+      },
+    }).perpetualTreatment?.presentValue ?? 0;
+
+    expect(nominal).toBeCloseTo(real, 0);
+  });
+
+  it('should be unbounded in perpetuity at a zero real rate', () => {
+    const zeroRate = withTreatment({});
+    const results = calculateClosureCosts({
+      ...zeroRate,
+      financialParams: { ...zeroRate.financialParams, discountRatePercent: 0 },
+    });
+    const fixedTerm = calculateClosureCosts({
+      ...zeroRate,
+      unitRates: { ...zeroRate.unitRates, ...noLifecycleCosts },
+      perpetualTreatment: { ...zeroRate.perpetualTreatment, mode: 'fixed_term', termYears: 50 },
+      financialParams: { ...zeroRate.financialParams, discountRatePercent: 0 },
+    });
+
+    expect(results.perpetualTreatment?.presentValue).toBe(Infinity);
+    expect(fixedTerm.perpetualTreatment?.presentValue).toBeCloseTo(calculateWaterTreatmentAnnualOpex(inputs) * 50, 0);
+  });
+
+  it('should be null without a treatment flow', () => {
+    const noFlow = withTreatment({});
+    const results = calculateClosureCosts({
+      ...noFlow,
+      quantities: { ...noFlow.quantities, waterTreatmentFlowMLPerDay: 0 },
+    });
+
+    expect(results.perpetualTreatment).toBeNull();
+  });
+});
+
+describe('Water treatment plant sizing and lifecycle', () => {
+  let inputs: InputState;
+
+  const withWater = (
+    quantities: Partial<InputState['quantities']>,
+    unitRates: Partial<InputState['unitRates']> = {}
+  ): InputState => ({
+    ...inputs,
+    quantities: { ...inputs.quantities, ...quantities },
+    unitRates: { ...inputs.unitRates, ...unitRates },
+  });
+
+  const findItem = (results: Results, description: string) =>
+    results.lineItems.find(item => item.description.startsWith(description));
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should cost the reference plant at the reference flow', () => {
+    const scenario = withWater({ waterTreatmentFlowMLPerDay: 4 }, { waterTreatmentReferenceFlowMLPerDay: 4 });
+    expect(calculateWaterTreatmentPlantCost(scenario)).toBeCloseTo(scenario.unitRates.waterTreatmentCapex, 6);
+  });
+
+  it('should scale plant capex to flow with the capacity exponent', () => {
+    const small = calculateWaterTreatmentPlantCost(withWater({ waterTreatmentFlowMLPerDay: 0.5 }));
+    const large = calculateWaterTreatmentPlantCost(withWater({ waterTreatmentFlowMLPerDay: 20 }));
+
+    expect(large / small).toBeCloseTo(Math.pow(40, 0.6), 6);
+  });
+
+  it('should scale linearly with an exponent of 1', () => {
+    const base = calculateWaterTreatmentPlantCost(withWater({ waterTreatmentFlowMLPerDay: 2 }, { waterTreatmentCapacityExponent: 1 }));
+    const doubled = calculateWaterTreatmentPlantCost(withWater({ waterTreatmentFlowMLPerDay: 4 }, { waterTreatmentCapacityExponent: 1 }));
+
+    expect(doubled).toBeCloseTo(base * 2, 6);
+  });
+
+  it('should list replacements at end of life and refurbishments at mid-life', () => {
+    expect(getWaterTreatmentLifecycleYears(45, 20)).toEqual({
+      replacementYears: [20, 40],
+      refurbishmentYears: [10, 30],
+    });
+    expect(getWaterTreatmentLifecycleYears(10, 20)).toEqual({
+      replacementYears: [],
+      refurbishmentYears: [],
+    });
+  });
+
+  it('should add replacement and refurbishment capex within the treatment duration', () => {
+    const scenario = withWater({ waterTreatmentDurationYears: 45 });
+    const results = calculateClosureCosts(scenario);
+    const plantCost = calculateWaterTreatmentPlantCost(scenario);
+
+    const replacement = findItem(results, 'Water treatment plant replacement');
+    const refurbishment = findItem(results, 'Water treatment plant refurbishment');
+
+    expect(replacement?.quantity).toBe(2);
+    expect(replacement?.subtotal).toBeCloseTo(plantCost * 2, 6);
+    expect(refurbishment?.quantity).toBe(2);
+    expect(refurbishment?.subtotal).toBeCloseTo(plantCost * 0.3 * 2, 6);
+  });
+
+  it('should not add lifecycle capex when treatment is shorter than the refurbishment age', () => {
+    const results = calculateClosureCosts(withWater({ waterTreatmentDurationYears: 8 }));
+
+    expect(findItem(results, 'Water treatment plant replacement')).toBeUndefined();
+    expect(findItem(results, 'Water treatment plant refurbishment')).toBeUndefined();
+  });
+
+  it('should spend replacement capex in the matching water management year', () => {
+    const scenario: InputState = {
+      ...withWater({ waterTreatmentDurationYears: 30 }, { waterTreatmentRefurbishmentPercent: 0 }),
+      phaseDurations: { ...inputs.phaseDurations, [ClosurePhase.WaterManagement]: 30 },
+    };
+    const results = calculateClosureCosts(scenario);
+    const replacement = findItem(results, 'Water treatment plant replacement');
+
+    expect(replacement?.spendProfile).toEqual({
+      type: 'custom',
+      percentages: Array.from({ length: 30 }, (_, i) => (i === 20 ? 100 : 0)),
+    });
+  });
+});
+
+describe('Underground closure', () => {
+  let inputs: InputState;
+
+  const withUnderground = (quantities: Partial<InputState['quantities']>): InputState => ({
+    ...inputs,
+    quantities: { ...inputs.quantities, ...quantities },
+  });
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should add no underground items for an open pit site', () => {
+    const results = calculateClosureCosts(inputs);
+
+    expect(results.lineItems.some(item => item.category === CostCategory.UndergroundClosure)).toBe(false);
+  });
+
+  it('should cap shafts and raises on their opening area', () => {
+    const items = calculateUndergroundClosureCosts(
+      withUnderground({ shaftCount: 2, shaftDiameterM: 6, raiseCount: 3, raiseDiameterM: 3 }).quantities,
+      inputs.unitRates
+    );
+    const shaft = items.find(item => item.description === 'Shaft capping');
+    const raise = items.find(item => item.description === 'Raise capping');
+
+    expect(shaft?.quantity).toBeCloseTo(2 * Math.PI * 9, 6);
+    expect(raise?.quantity).toBeCloseTo(3 * Math.PI * 2.25, 6);
+    expect(shaft?.subtotal).toBeCloseTo(2 * Math.PI * 9 * inputs.unitRates.shaftCappingPerM2, 4);
+  });
+
+  it('should backfill the decline by length and cross-section', () => {
+    const items = calculateUndergroundClosureCosts(
+      withUnderground({ declineBackfillLengthM: 400, declineCrossSectionM2: 25 }).quantities,
+      inputs.unitRates
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]?.quantity).toBe(10000);
+    expect(items[0]?.subtotal).toBe(10000 * inputs.unitRates.declineBackfillPerM3);
+  });
+
+  it('should cost portals, ventilation sites and subsidence monitoring in their phases', () => {
+    const items = calculateUndergroundClosureCosts(
+      withUnderground({ portalCount: 2, ventilationSiteCount: 3, subsidenceMonitoringYears: 10 }).quantities,
+      inputs.unitRates
+    );
+    const byDescription = new Map(items.map(item => [item.description, item]));
+
+    expect(byDescription.get('Portal and adit sealing')?.subtotal).toBe(2 * inputs.unitRates.portalSealingPerPortal);
+    expect(byDescription.get('Ventilation infrastructure removal')?.phase).toBe(ClosurePhase.DecommissioningDemolition);
+    expect(byDescription.get('Subsidence monitoring')?.phase).toBe(ClosurePhase.MonitoringMaintenance);
+    expect(byDescription.get('Subsidence monitoring')?.subtotal).toBe(10 * inputs.unitRates.subsidenceMonitoringPerYear);
+  });
+
+  it('should apply a scale curve to subsidence monitoring like the other underground rates', () => {
+    const { quantities } = withUnderground({ subsidenceMonitoringYears: 40 });
+    const curve = { type: 'power', referenceQuantity: 10, exponent: 0.8 } as const;
+    const items = calculateUndergroundClosureCosts(quantities, inputs.unitRates, { subsidenceMonitoringPerYear: curve });
+    const monitoring = items.find(item => item.description === 'Subsidence monitoring');
+    const scaledRate = inputs.unitRates.subsidenceMonitoringPerYear * Math.pow(40 / 10, 0.8 - 1);
+
+    expect(monitoring?.unitRate).toBeCloseTo(scaledRate, 6);
+    expect(monitoring?.subtotal).toBeCloseTo(40 * scaledRate, 4);
+  });
+
+  it('should include every underground element in the underground preset', () => {
+    const results = calculateClosureCosts(PRESET_UNDERGROUND.inputs);
+    const underground = results.lineItems.filter(item => item.category === CostCategory.UndergroundClosure);
+
+    expect(underground).toHaveLength(6);
+    expect(results.categoryBreakdown.find(c => c.category === CostCategory.UndergroundClosure)?.totalCost).toBeGreaterThan(0);
+  });
+});
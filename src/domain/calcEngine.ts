@@ -9,18 +9,48 @@
 
 import type {
   InputState,
+  DirectWorksQuantities,
   DerivedQuantities,
   LineItemCost,
   AnnualCashflow,
   Results,
   PhaseCostSummary,
   CategoryCostSummary,
+  DomainCostSummary,
   SensitivityResult,
+  TechnologyComparison,
   RiskFactors,
+  FinancialParams,
   PhaseDurations,
+  PhaseSchedule,
+  PhaseTiming,
+  PerpetualTreatmentResult,
+  SpendProfile,
   MonitoringIntensity,
+  PitVoidClosure,
+  SiteDomain,
+  UnitRates,
 } from './types';
 import { ClosurePhase, CostCategory, CLOSURE_PHASES } from './types';
+import { DEFAULT_PHASE_SCHEDULE } from './defaults';
+import { scheduleClosurePhases } from './scheduler';
+import { getSpendProfileWeights, resolveSpendProfile } from './spendProfiles';
+import { getDomainAreaHa, getDomainAverageDepthM, scaleSiteDomains } from './siteDomains';
+import { customLineItemCost } from './customLineItems';
+import { applyLocationFactor, getLocationFactor } from './location';
+import { scaleUnitRate } from './scaleCurves';
+import { getRateRebaseFactor, rebaseLineItem } from './costIndices';
+import {
+  getCategoryEscalationIndex,
+  getCategoryEscalationIndexId,
+  getEscalationFactor,
+  getGeneralEscalationIndex,
+} from './escalation';
+import {
+  WATER_TREATMENT_TECHNOLOGIES,
+  WATER_TREATMENT_TECHNOLOGY_IDS,
+  applyWaterTreatmentTechnology,
+} from './waterTreatment';
 
 // ============================================================================
 // Unit Conversions
@@ -50,26 +80,27 @@ export function m2ToHa(m2: number): number {
 
 /**
  * Calculate risk score from individual risk factors.
- * Uses weighted average with equal weights.
+ * Uses a weighted average: contamination 30%, geotechnical 20%, water quality 30%
+ * and regulatory 20%. Logistics moved to the location model, and its share was
+ * redistributed so contamination and water quality - the long-tail liabilities
+ * most likely to blow out a closure estimate - carry the most weight.
  *
  * @param factors - Risk factor values (0-100 each)
  * @returns Composite risk score (0-100)
  */
 export function calculateRiskScore(factors: RiskFactors): number {
   const weights = {
-    contaminationUncertainty: 0.25,
+    contaminationUncertainty: 0.3,
     geotechUncertainty: 0.2,
-    waterQualityUncertainty: 0.25,
-    regulatoryUncertainty: 0.15,
-    logisticsComplexity: 0.15,
+    waterQualityUncertainty: 0.3,
+    regulatoryUncertainty: 0.2,
   };
 
   const score =
     factors.contaminationUncertainty * weights.contaminationUncertainty +
     factors.geotechUncertainty * weights.geotechUncertainty +
     factors.waterQualityUncertainty * weights.waterQualityUncertainty +
-    factors.regulatoryUncertainty * weights.regulatoryUncertainty +
-    factors.logisticsComplexity * weights.logisticsComplexity;
+    factors.regulatoryUncertainty * weights.regulatoryUncertainty;
 
   return Math.round(score * 10) / 10;
 }
@@ -108,23 +139,28 @@ export function riskScoreToUplift(riskScore: number): number {
  * @returns Derived quantities
  */
 export function calculateDerivedQuantities(inputs: InputState): DerivedQuantities {
-  const { quantities, unitRates, riskFactors } = inputs;
+  const { quantities, siteDomains, unitRates, riskFactors } = inputs;
 
   // Area conversions
-  const tsfAreaM2 = haToM2(quantities.tsfAreaHa);
-  const wrdAreaM2 = haToM2(quantities.wrdFootprintHa);
+  const tsfAreaM2 = haToM2(getDomainAreaHa(siteDomains, 'tsf'));
+  const wrdAreaM2 = haToM2(getDomainAreaHa(siteDomains, 'wrd'));
   const disturbedAreaM2 = haToM2(quantities.disturbedAreaHa);
   const recontouringAreaM2 = haToM2(quantities.recontouringAreaHa);
 
-  // Volume calculations
-  const tsfCappingVolumeM3 = tsfAreaM2 * quantities.tsfCoverThicknessM;
-  const wrdEarthworksVolumeM3 = wrdAreaM2 * quantities.wrdReshapingDepthM * unitRates.bulkingFactor;
+  // Volume calculations: cover placement and bulked reshaping across all domains
+  let coverVolumeM3 = 0;
+  let reshapingVolumeM3 = 0;
+  for (const domain of siteDomains) {
+    const areaM2 = haToM2(domain.areaHa);
+    coverVolumeM3 += areaM2 * domain.coverThicknessM;
+    reshapingVolumeM3 += areaM2 * domain.reshapingDepthM * unitRates.bulkingFactor;
+  }
 
   // Total earthworks: use override if provided, otherwise sum components
   const totalEarthworksVolumeM3 =
     quantities.earthworksVolumeM3Override !== null
       ? quantities.earthworksVolumeM3Override
-      : tsfCappingVolumeM3 + wrdEarthworksVolumeM3;
+      : coverVolumeM3 + reshapingVolumeM3;
 
   // Topsoil volume
   const topsoilVolumeM3 = disturbedAreaM2 * quantities.topsoilThicknessM;
@@ -140,8 +176,8 @@ export function calculateDerivedQuantities(inputs: InputState): DerivedQuantitie
   return {
     tsfAreaM2,
     wrdAreaM2,
-    tsfCappingVolumeM3,
-    wrdEarthworksVolumeM3,
+    coverVolumeM3,
+    reshapingVolumeM3,
     totalEarthworksVolumeM3,
     topsoilVolumeM3,
     disturbedAreaM2,
@@ -173,8 +209,388 @@ function getMonitoringRate(
   }
 }
 
+/** Scale curves by unit rate */
+type ScaleCurves = InputState['scaleCurves'];
+
+/**
+ * Unit rate for a line item quantity, after the rate's scale curve.
+ */
+function rateFor(
+  unitRates: UnitRates,
+  scaleCurves: ScaleCurves,
+  key: keyof UnitRates,
+  quantity: number
+): number {
+  return scaleUnitRate(unitRates[key], quantity, scaleCurves[key]);
+}
+
+/** A pit void closure work, its rate and the phase it is carried out in */
+interface PitVoidWork {
+  id: string;
+  description: string;
+  quantity: (pitVoid: PitVoidClosure) => number;
+  unit: string;
+  rateKey: keyof UnitRates;
+  phase: ClosurePhase;
+}
+
+/** Pit void closure works, in line item order */
+const PIT_VOID_WORKS: readonly PitVoidWork[] = [
+  {
+    id: 'abandonment-bund',
+    description: 'abandonment bund',
+    quantity: (p) => p.abandonmentBundLengthM,
+    unit: 'm',
+    rateKey: 'abandonmentBundPerM',
+    phase: ClosurePhase.EarthworksLandform,
+  },
+  {
+    id: 'backfill',
+    description: 'backfill',
+    quantity: (p) => p.backfillVolumeM3,
+    unit: 'm³',
+    rateKey: 'pitBackfillPerM3',
+    phase: ClosurePhase.EarthworksLandform,
+  },
+  {
+    id: 'wall-stabilisation',
+    description: 'wall battering and stabilisation',
+    quantity: (p) => p.wallStabilisationAreaHa,
+    unit: 'ha',
+    rateKey: 'pitWallStabilisationPerHa',
+    phase: ClosurePhase.EarthworksLandform,
+  },
+  {
+    id: 'pit-lake',
+    description: 'pit lake management',
+    quantity: (p) => p.pitLakeAreaHa,
+    unit: 'ha',
+    rateKey: 'pitLakeManagementPerHa',
+    phase: ClosurePhase.WaterManagement,
+  },
+  {
+    id: 'safety-fencing',
+    description: 'safety fencing',
+    quantity: (p) => p.safetyFenceLengthM,
+    unit: 'm',
+    rateKey: 'safetyFencingPerM',
+    phase: ClosurePhase.EarthworksLandform,
+  },
+];
+
+/**
+ * Closure works line items for one site domain. TSFs, WRDs and infrastructure
+ * areas are costed on their footprint; pits on their void closure works.
+ *
+ * @param domain - Site domain
+ * @param unitRates - Unit rates
+ * @param scaleCurves - Scale curves by unit rate
+ * @returns Line items - empty for a domain with nothing to close
+ */
+export function calculateDomainClosureCosts(
+  domain: SiteDomain,
+  unitRates: UnitRates,
+  scaleCurves: ScaleCurves = {}
+): LineItemCost[] {
+  if (domain.type === 'pit') {
+    const { pitVoid } = domain;
+    if (!pitVoid) return [];
+
+    return PIT_VOID_WORKS.filter((work) => work.quantity(pitVoid) > 0).map((work) => {
+      const quantity = work.quantity(pitVoid);
+      const unitRate = rateFor(unitRates, scaleCurves, work.rateKey, quantity);
+      return {
+        id: `${domain.id}.${work.id}`,
+        domainId: domain.id,
+        category: CostCategory.PitClosure,
+        description: `${domain.name} - ${work.description}`,
+        quantity,
+        unit: work.unit,
+        unitRate,
+        subtotal: quantity * unitRate,
+        phase: work.phase,
+      };
+    });
+  }
+
+  if (domain.areaHa <= 0) return [];
+
+  const areaM2 = haToM2(domain.areaHa);
+  const base = { domainId: domain.id };
+
+  switch (domain.type) {
+    case 'tsf': {
+      const cappingCostPerM2 =
+        rateFor(unitRates, scaleCurves, 'cappingBasePerM2', areaM2) *
+        (domain.coverThicknessM * unitRates.cappingThicknessFactor);
+      return [
+        {
+          ...base,
+          id: `${domain.id}.capping`,
+          category: CostCategory.TSFClosure,
+          description: `${domain.name} - capping and closure`,
+          quantity: areaM2,
+          unit: 'm²',
+          unitRate: cappingCostPerM2,
+          subtotal: areaM2 * cappingCostPerM2,
+          phase: ClosurePhase.TailingsWRDRehabilitation,
+        },
+      ];
+    }
+
+    case 'wrd': {
+      const wrdCostPerM2 =
+        rateFor(unitRates, scaleCurves, 'cappingBasePerM2', areaM2) *
+        (domain.reshapingDepthM * unitRates.cappingThicknessFactor * 0.5);
+      return [
+        {
+          ...base,
+          id: `${domain.id}.reshaping`,
+          category: CostCategory.WRDRehabilitation,
+          description: `${domain.name} - reshaping and cover`,
+          quantity: areaM2,
+          unit: 'm²',
+          unitRate: wrdCostPerM2,
+          subtotal: areaM2 * wrdCostPerM2,
+          phase: ClosurePhase.TailingsWRDRehabilitation,
+        },
+      ];
+    }
+
+    case 'infrastructure': {
+      const rehabRate = rateFor(unitRates, scaleCurves, 'infrastructureRehabPerHa', domain.areaHa);
+      return [
+        {
+          ...base,
+          id: `${domain.id}.rehabilitation`,
+          category: CostCategory.InfrastructureRehabilitation,
+          description: `${domain.name} - hardstand removal and ripping`,
+          quantity: domain.areaHa,
+          unit: 'ha',
+          unitRate: rehabRate,
+          subtotal: domain.areaHa * rehabRate,
+          phase: ClosurePhase.EarthworksLandform,
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * Plan area of a circular shaft or raise opening (m²).
+ */
+function openingAreaM2(diameterM: number): number {
+  return Math.PI * Math.pow(diameterM / 2, 2);
+}
+
+/**
+ * Closure line items for underground workings - shaft and raise capping, portal
+ * sealing, decline backfill, ventilation removal and subsidence monitoring.
+ *
+ * @param quantities - Direct works quantities
+ * @param unitRates - Unit rates
+ * @param scaleCurves - Scale curves by unit rate
+ * @returns Line items - empty for a site with no underground workings
+ */
+export function calculateUndergroundClosureCosts(
+  quantities: DirectWorksQuantities,
+  unitRates: UnitRates,
+  scaleCurves: ScaleCurves = {}
+): LineItemCost[] {
+  const items: LineItemCost[] = [];
+  const rate = (key: keyof UnitRates, quantity: number) =>
+    rateFor(unitRates, scaleCurves, key, quantity);
+
+  const openings = [
+    {
+      id: 'shaft',
+      label: 'Shaft',
+      count: quantities.shaftCount,
+      diameterM: quantities.shaftDiameterM,
+    },
+    {
+      id: 'raise',
+      label: 'Raise',
+      count: quantities.raiseCount,
+      diameterM: quantities.raiseDiameterM,
+    },
+  ];
+  for (const opening of openings) {
+    const capAreaM2 = opening.count * openingAreaM2(opening.diameterM);
+    if (capAreaM2 > 0) {
+      const cappingRate = rate('shaftCappingPerM2', capAreaM2);
+      items.push({
+        id: `${opening.id}-capping`,
+        category: CostCategory.UndergroundClosure,
+        description: `${opening.label} capping`,
+        quantity: capAreaM2,
+        unit: 'm²',
+        unitRate: cappingRate,
+        subtotal: capAreaM2 * cappingRate,
+        phase: ClosurePhase.EarthworksLandform,
+      });
+    }
+  }
+
+  if (quantities.portalCount > 0) {
+    const sealingRate = rate('portalSealingPerPortal', quantities.portalCount);
+    items.push({
+      id: 'portal-sealing',
+      category: CostCategory.UndergroundClosure,
+      description: 'Portal and adit sealing',
+      quantity: quantities.portalCount,
+      unit: 'portals',
+      unitRate: sealingRate,
+      subtotal: quantities.portalCount * sealingRate,
+      phase: ClosurePhase.EarthworksLandform,
+    });
+  }
+
+  const declineBackfillM3 = quantities.declineBackfillLengthM * quantities.declineCrossSectionM2;
+  if (declineBackfillM3 > 0) {
+    const backfillRate = rate('declineBackfillPerM3', declineBackfillM3);
+    items.push({
+      id: 'decline-backfill',
+      category: CostCategory.UndergroundClosure,
+      description: 'Decline backfill',
+      quantity: declineBackfillM3,
+      unit: 'm³',
+      unitRate: backfillRate,
+      subtotal: declineBackfillM3 * backfillRate,
+      phase: ClosurePhase.EarthworksLandform,
+    });
+  }
+
+  if (quantities.ventilationSiteCount > 0) {
+    const removalRate = rate('ventilationRemovalPerSite', quantities.ventilationSiteCount);
+    items.push({
+      id: 'ventilation-removal',
+      category: CostCategory.UndergroundClosure,
+      description: 'Ventilation infrastructure removal',
+      quantity: quantities.ventilationSiteCount,
+      unit: 'sites',
+      unitRate: removalRate,
+      subtotal: quantities.ventilationSiteCount * removalRate,
+      phase: ClosurePhase.DecommissioningDemolition,
+    });
+  }
+
+  if (quantities.subsidenceMonitoringYears > 0) {
+    const monitoringRate = rate(
+      'subsidenceMonitoringPerYear',
+      quantities.subsidenceMonitoringYears
+    );
+    items.push({
+      id: 'subsidence-monitoring',
+      category: CostCategory.UndergroundClosure,
+      description: 'Subsidence monitoring',
+      quantity: quantities.subsidenceMonitoringYears,
+      unit: 'years',
+      unitRate: monitoringRate,
+      subtotal: quantities.subsidenceMonitoringYears * monitoringRate,
+      phase: ClosurePhase.MonitoringMaintenance,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Water treatment plant capital cost, scaled from the reference plant to the
+ * treatment flow with the capacity exponent.
+ */
+export function calculateWaterTreatmentPlantCost(inputs: InputState): number {
+  const { quantities, unitRates } = inputs;
+  const capacityRatio =
+    unitRates.waterTreatmentReferenceFlowMLPerDay > 0
+      ? quantities.waterTreatmentFlowMLPerDay / unitRates.waterTreatmentReferenceFlowMLPerDay
+      : 1;
+  return (
+    unitRates.waterTreatmentCapex *
+    Math.pow(capacityRatio, unitRates.waterTreatmentCapacityExponent)
+  );
+}
+
+/**
+ * Mid-life refurbishment point of a treatment plant (years after commissioning).
+ */
+function getRefurbishmentAge(assetLifeYears: number): number {
+  return Math.round(assetLifeYears / 2);
+}
+
+/**
+ * Plant replacement and refurbishment years within a treatment duration.
+ * Years count from commissioning at the start of treatment; the plant is
+ * replaced at the end of each asset life and refurbished at mid-life.
+ *
+ * @param durationYears - Treatment duration (years)
+ * @param assetLifeYears - Plant asset life (years)
+ */
+export function getWaterTreatmentLifecycleYears(
+  durationYears: number,
+  assetLifeYears: number
+): { replacementYears: number[]; refurbishmentYears: number[] } {
+  const replacementYears: number[] = [];
+  const refurbishmentYears: number[] = [];
+  if (assetLifeYears <= 0) return { replacementYears, refurbishmentYears };
+
+  for (let year = assetLifeYears; year < durationYears; year += assetLifeYears) {
+    replacementYears.push(year);
+  }
+  const refurbishmentAge = getRefurbishmentAge(assetLifeYears);
+  if (refurbishmentAge > 0) {
+    for (let year = refurbishmentAge; year < durationYears; year += assetLifeYears) {
+      refurbishmentYears.push(year);
+    }
+  }
+  return { replacementYears, refurbishmentYears };
+}
+
+/**
+ * Spend profile placing equal shares of a cost in the phase years matching
+ * treatment years, rescaling treatment years to the phase duration.
+ */
+function getLifecycleSpendProfile(
+  eventYears: readonly number[],
+  treatmentYears: number,
+  phaseYears: number
+): SpendProfile {
+  const years = Math.max(1, Math.round(phaseYears));
+  const percentages = Array.from({ length: years }, () => 0);
+  for (const eventYear of eventYears) {
+    const index = Math.min(years - 1, Math.floor((eventYear * years) / treatmentYears));
+    percentages[index] = (percentages[index] ?? 0) + 100 / eventYears.length;
+  }
+  return { type: 'custom', percentages };
+}
+
+/**
+ * Annual water treatment operating costs: operations, residual disposal and power.
+ */
+export function calculateWaterTreatmentAnnualCosts(inputs: InputState): {
+  operations: number;
+  residualDisposal: number;
+  energy: number;
+} {
+  const { quantities, unitRates } = inputs;
+  const annualVolumeML = quantities.waterTreatmentFlowMLPerDay * 365;
+  return {
+    operations: annualVolumeML * unitRates.waterTreatmentOpexPerML,
+    residualDisposal: annualVolumeML * unitRates.waterTreatmentResidualDisposalPerML,
+    energy: annualVolumeML * unitRates.waterTreatmentEnergyKWhPerML * unitRates.electricityPerKWh,
+  };
+}
+
+/**
+ * Total annual water treatment operating cost, including residual disposal and power.
+ */
+export function calculateWaterTreatmentAnnualOpex(inputs: InputState): number {
+  const { operations, residualDisposal, energy } = calculateWaterTreatmentAnnualCosts(inputs);
+  return operations + residualDisposal + energy;
+}
+
 /**
- * Calculate all direct works line item costs.
+ * Calculate all direct works line item costs, adjusted to the site location.
  *
  * @param inputs - Complete input state
  * @param derived - Derived quantities
@@ -184,11 +600,14 @@ export function calculateDirectWorksCosts(
   inputs: InputState,
   derived: DerivedQuantities
 ): LineItemCost[] {
-  const { quantities, unitRates } = inputs;
+  const { quantities, unitRates, scaleCurves } = inputs;
   const items: LineItemCost[] = [];
+  const rate = (key: keyof UnitRates, quantity: number) =>
+    rateFor(unitRates, scaleCurves, key, quantity);
 
   // Mobilisation/Demobilisation
   items.push({
+    id: 'mobilisation',
     category: CostCategory.Mobilisation,
     description: 'Site mobilisation and demobilisation',
     quantity: 1,
@@ -200,82 +619,62 @@ export function calculateDirectWorksCosts(
 
   // Demolition
   if (quantities.numberOfBuildings > 0) {
+    const demolitionRate = rate('demolitionPerBuilding', quantities.numberOfBuildings);
     items.push({
+      id: 'demolition',
       category: CostCategory.Demolition,
       description: 'Building and structure demolition',
       quantity: quantities.numberOfBuildings,
       unit: 'buildings',
-      unitRate: unitRates.demolitionPerBuilding,
-      subtotal: quantities.numberOfBuildings * unitRates.demolitionPerBuilding,
+      unitRate: demolitionRate,
+      subtotal: quantities.numberOfBuildings * demolitionRate,
       phase: ClosurePhase.DecommissioningDemolition,
     });
   }
 
   // Earthworks
   if (derived.totalEarthworksVolumeM3 > 0) {
+    const earthworksRate = rate('earthworksPerM3', derived.totalEarthworksVolumeM3);
     items.push({
+      id: 'earthworks',
       category: CostCategory.Earthworks,
       description: 'General earthworks (recontouring, reshaping)',
       quantity: derived.totalEarthworksVolumeM3,
       unit: 'm³',
-      unitRate: unitRates.earthworksPerM3,
-      subtotal: derived.totalEarthworksVolumeM3 * unitRates.earthworksPerM3,
+      unitRate: earthworksRate,
+      subtotal: derived.totalEarthworksVolumeM3 * earthworksRate,
       phase: ClosurePhase.EarthworksLandform,
     });
   }
 
   // Topsoil placement
   if (derived.topsoilVolumeM3 > 0) {
+    const topsoilRate = rate('topsoilPerM3', derived.topsoilVolumeM3);
     items.push({
+      id: 'topsoil',
       category: CostCategory.Earthworks,
       description: 'Topsoil placement',
       quantity: derived.topsoilVolumeM3,
       unit: 'm³',
-      unitRate: unitRates.topsoilPerM3,
-      subtotal: derived.topsoilVolumeM3 * unitRates.topsoilPerM3,
+      unitRate: topsoilRate,
+      subtotal: derived.topsoilVolumeM3 * topsoilRate,
       phase: ClosurePhase.EarthworksLandform,
     });
   }
 
-  // TSF Closure (capping)
-  if (quantities.tsfAreaHa > 0) {
-    const cappingCostPerM2 =
-      unitRates.cappingBasePerM2 *
-      (quantities.tsfCoverThicknessM * unitRates.cappingThicknessFactor);
-    items.push({
-      category: CostCategory.TSFClosure,
-      description: 'TSF capping and closure',
-      quantity: derived.tsfAreaM2,
-      unit: 'm²',
-      unitRate: cappingCostPerM2,
-      subtotal: derived.tsfAreaM2 * cappingCostPerM2,
-      phase: ClosurePhase.TailingsWRDRehabilitation,
-    });
-  }
-
-  // WRD Rehabilitation
-  if (quantities.wrdFootprintHa > 0) {
-    const wrdCostPerM2 =
-      unitRates.cappingBasePerM2 *
-      (quantities.wrdReshapingDepthM * unitRates.cappingThicknessFactor * 0.5);
-    items.push({
-      category: CostCategory.WRDRehabilitation,
-      description: 'WRD reshaping and cover',
-      quantity: derived.wrdAreaM2,
-      unit: 'm²',
-      unitRate: wrdCostPerM2,
-      subtotal: derived.wrdAreaM2 * wrdCostPerM2,
-      phase: ClosurePhase.TailingsWRDRehabilitation,
-    });
+  // Site domains - TSF capping, WRD reshaping, pit void and infrastructure area closure
+  for (const domain of inputs.siteDomains) {
+    items.push(...calculateDomainClosureCosts(domain, unitRates, scaleCurves));
   }
 
   // Water Treatment - Capex
   if (quantities.waterTreatmentDurationYears > 0 && quantities.waterTreatmentFlowMLPerDay > 0) {
-    const capexAdjusted =
-      unitRates.waterTreatmentCapex * quantities.waterTreatmentIntensityFactor;
+    const technology = WATER_TREATMENT_TECHNOLOGIES[quantities.waterTreatmentTechnology];
+    const capexAdjusted = calculateWaterTreatmentPlantCost(inputs);
     items.push({
+      id: 'water-treatment-capex',
       category: CostCategory.WaterTreatmentCapex,
-      description: 'Water treatment plant (capex)',
+      description: `Water treatment plant (capex) - ${technology.name}`,
       quantity: 1,
       unit: 'plant',
       unitRate: capexAdjusted,
@@ -283,27 +682,96 @@ export function calculateDirectWorksCosts(
       phase: ClosurePhase.WaterManagement,
     });
 
-    // Water Treatment - Opex
-    const annualOpex =
-      quantities.waterTreatmentFlowMLPerDay *
-      365 *
-      unitRates.waterTreatmentOpexPerML *
-      quantities.waterTreatmentIntensityFactor;
+    // Water Treatment - Replacement and refurbishment within the treatment duration
+    const { replacementYears, refurbishmentYears } = getWaterTreatmentLifecycleYears(
+      quantities.waterTreatmentDurationYears,
+      unitRates.waterTreatmentAssetLifeYears
+    );
+    const waterPhaseYears = inputs.phaseDurations[ClosurePhase.WaterManagement];
+    const replacementCost = capexAdjusted * (unitRates.waterTreatmentReplacementPercent / 100);
+    if (replacementYears.length > 0 && replacementCost > 0) {
+      items.push({
+        id: 'water-treatment-replacement',
+        category: CostCategory.WaterTreatmentCapex,
+        description: `Water treatment plant replacement - ${technology.name}`,
+        quantity: replacementYears.length,
+        unit: 'replacements',
+        unitRate: replacementCost,
+        subtotal: replacementCost * replacementYears.length,
+        phase: ClosurePhase.WaterManagement,
+        spendProfile: getLifecycleSpendProfile(
+          replacementYears,
+          quantities.waterTreatmentDurationYears,
+          waterPhaseYears
+        ),
+      });
+    }
+    const refurbishmentCost = capexAdjusted * (unitRates.waterTreatmentRefurbishmentPercent / 100);
+    if (refurbishmentYears.length > 0 && refurbishmentCost > 0) {
+      items.push({
+        id: 'water-treatment-refurbishment',
+        category: CostCategory.WaterTreatmentCapex,
+        description: `Water treatment plant refurbishment - ${technology.name}`,
+        quantity: refurbishmentYears.length,
+        unit: 'refurbishments',
+        unitRate: refurbishmentCost,
+        subtotal: refurbishmentCost * refurbishmentYears.length,
+        phase: ClosurePhase.WaterManagement,
+        spendProfile: getLifecycleSpendProfile(
+          refurbishmentYears,
+          quantities.waterTreatmentDurationYears,
+          waterPhaseYears
+        ),
+      });
+    }
+
+    // Water Treatment - Opex, residual disposal and power
+    const annualCosts = calculateWaterTreatmentAnnualCosts(inputs);
+    const treatmentYears = quantities.waterTreatmentDurationYears;
+    const totalVolumeML = derived.totalWaterTreatmentML;
     items.push({
+      id: 'water-treatment-opex',
       category: CostCategory.WaterTreatmentOpex,
-      description: 'Water treatment operations (opex)',
-      quantity: quantities.waterTreatmentDurationYears,
+      description: `Water treatment operations (opex) - ${technology.name}`,
+      quantity: treatmentYears,
       unit: 'years',
-      unitRate: annualOpex,
-      subtotal: annualOpex * quantities.waterTreatmentDurationYears,
+      unitRate: annualCosts.operations,
+      subtotal: annualCosts.operations * treatmentYears,
       phase: ClosurePhase.WaterManagement,
     });
+    if (annualCosts.residualDisposal > 0) {
+      items.push({
+        id: 'water-treatment-residual-disposal',
+        category: CostCategory.WaterTreatmentOpex,
+        description: `Water treatment ${technology.residualName} disposal - ${technology.name}`,
+        quantity: totalVolumeML,
+        unit: 'ML',
+        unitRate: unitRates.waterTreatmentResidualDisposalPerML,
+        subtotal: annualCosts.residualDisposal * treatmentYears,
+        phase: ClosurePhase.WaterManagement,
+      });
+    }
+    if (annualCosts.energy > 0) {
+      items.push({
+        id: 'water-treatment-power',
+        category: CostCategory.WaterTreatmentOpex,
+        description: `Water treatment power - ${technology.name}`,
+        quantity: totalVolumeML * unitRates.waterTreatmentEnergyKWhPerML,
+        unit: 'kWh',
+        unitRate: unitRates.electricityPerKWh,
+        subtotal: annualCosts.energy * treatmentYears,
+        phase: ClosurePhase.WaterManagement,
+      });
+    }
   }
 
   // Revegetation
   if (quantities.disturbedAreaHa > 0) {
-    const revegRate = unitRates.revegetationPerHa * unitRates.revegetationComplexityFactor;
+    const revegRate =
+      rate('revegetationPerHa', quantities.disturbedAreaHa) *
+      unitRates.revegetationComplexityFactor;
     items.push({
+      id: 'revegetation',
       category: CostCategory.Revegetation,
       description: 'Revegetation and ecosystem establishment',
       quantity: quantities.disturbedAreaHa,
@@ -316,43 +784,52 @@ export function calculateDirectWorksCosts(
 
   // Erosion controls
   if (quantities.disturbedAreaHa > 0) {
+    const erosionRate = rate('erosionControlsPerHa', quantities.disturbedAreaHa);
     items.push({
+      id: 'erosion-controls',
       category: CostCategory.ErosionControls,
       description: 'Erosion and sediment controls',
       quantity: quantities.disturbedAreaHa,
       unit: 'ha',
-      unitRate: unitRates.erosionControlsPerHa,
-      subtotal: quantities.disturbedAreaHa * unitRates.erosionControlsPerHa,
+      unitRate: erosionRate,
+      subtotal: quantities.disturbedAreaHa * erosionRate,
       phase: ClosurePhase.EarthworksLandform,
     });
   }
 
   // Road rehabilitation
   if (quantities.roadLengthKm > 0) {
+    const roadRate = rate('roadRehabPerKm', quantities.roadLengthKm);
     items.push({
+      id: 'road-rehabilitation',
       category: CostCategory.RoadRehabilitation,
       description: 'Road and access rehabilitation',
       quantity: quantities.roadLengthKm,
       unit: 'km',
-      unitRate: unitRates.roadRehabPerKm,
-      subtotal: quantities.roadLengthKm * unitRates.roadRehabPerKm,
+      unitRate: roadRate,
+      subtotal: quantities.roadLengthKm * roadRate,
       phase: ClosurePhase.EarthworksLandform,
     });
   }
 
   // Hazardous materials
   if (quantities.hazardousMaterialsEnabled && quantities.hazardousMaterialsAreaHa > 0) {
+    const hazardousRate = rate('hazardousMaterialsPerHa', quantities.hazardousMaterialsAreaHa);
     items.push({
+      id: 'hazardous-materials',
       category: CostCategory.HazardousMaterials,
       description: 'Hazardous materials handling and disposal',
       quantity: quantities.hazardousMaterialsAreaHa,
       unit: 'ha',
-      unitRate: unitRates.hazardousMaterialsPerHa,
-      subtotal: quantities.hazardousMaterialsAreaHa * unitRates.hazardousMaterialsPerHa,
+      unitRate: hazardousRate,
+      subtotal: quantities.hazardousMaterialsAreaHa * hazardousRate,
       phase: ClosurePhase.DecommissioningDemolition,
     });
   }
 
+  // Underground workings
+  items.push(...calculateUndergroundClosureCosts(quantities, unitRates, scaleCurves));
+
   // Monitoring
   const monitoringRate = getMonitoringRate(quantities.monitoringIntensity, {
     low: unitRates.monitoringPerYearLow,
@@ -360,6 +837,7 @@ export function calculateDirectWorksCosts(
     high: unitRates.monitoringPerYearHigh,
   });
   items.push({
+    id: 'monitoring',
     category: CostCategory.Monitoring,
     description: `Environmental monitoring (${quantities.monitoringIntensity} intensity)`,
     quantity: quantities.monitoringDurationYears,
@@ -372,6 +850,7 @@ export function calculateDirectWorksCosts(
   // Community/Heritage
   if (quantities.communityHeritageEnabled) {
     items.push({
+      id: 'community-heritage',
       category: CostCategory.CommunityHeritage,
       description: 'Community and heritage management',
       quantity: 1,
@@ -382,7 +861,21 @@ export function calculateDirectWorksCosts(
     });
   }
 
-  return items;
+  // Unit rates are metropolitan base rates priced in the rates year; rebase them
+  // to the rate base year (as entered without index values for both years) and
+  // adjust to the site location
+  const rebaseFactor = getRateRebaseFactor(inputs) ?? 1;
+  const adjustedItems = items.map((item) =>
+    applyLocationFactor(rebaseLineItem(item, rebaseFactor), inputs.location)
+  );
+
+  // User-defined items - priced for the site in rate base year money, so
+  // neither rebased nor adjusted to the location
+  for (const customItem of inputs.customLineItems) {
+    if (customItem.quantity > 0) adjustedItems.push(customLineItemCost(customItem));
+  }
+
+  return adjustedItems;
 }
 
 /**
@@ -404,6 +897,7 @@ export function calculateIndirectCosts(
   // Site establishment / Project management
   const siteEstCost = directWorksTotal * (indirectRates.siteEstablishmentPercent / 100);
   items.push({
+    id: 'site-establishment',
     category: CostCategory.SiteEstablishment,
     description: 'Site establishment, HSE, and project management',
     quantity: indirectRates.siteEstablishmentPercent,
@@ -417,6 +911,7 @@ export function calculateIndirectCosts(
   const subtotalForMargin = directWorksTotal + siteEstCost;
   const contractorMargin = subtotalForMargin * (indirectRates.contractorMarginPercent / 100);
   items.push({
+    id: 'contractor-margin',
     category: CostCategory.ContractorMargin,
     description: 'Contractor margin',
     quantity: indirectRates.contractorMarginPercent,
@@ -432,6 +927,7 @@ export function calculateIndirectCosts(
   // Base contingency
   const contingency = subtotalForContingency * (indirectRates.contingencyPercent / 100);
   items.push({
+    id: 'contingency',
     category: CostCategory.Contingency,
     description: 'Base contingency',
     quantity: indirectRates.contingencyPercent,
@@ -444,6 +940,7 @@ export function calculateIndirectCosts(
   // Risk uplift
   const riskUplift = subtotalForContingency * (derived.riskUpliftPercent / 100);
   items.push({
+    id: 'risk-uplift',
     category: CostCategory.RiskUplift,
     description: `Risk-based uplift (score: ${derived.riskScore})`,
     quantity: derived.riskUpliftPercent,
@@ -458,6 +955,7 @@ export function calculateIndirectCosts(
     directWorksTotal + siteEstCost + contractorMargin + contingency + riskUplift;
   const ownersCosts = totalBeforeOwners * (indirectRates.ownersCostsPercent / 100);
   items.push({
+    id: 'owners-costs',
     category: CostCategory.OwnersCosts,
     description: "Owner's costs and overheads",
     quantity: indirectRates.ownersCostsPercent,
@@ -475,76 +973,69 @@ export function calculateIndirectCosts(
 // ============================================================================
 
 /**
- * Calculate total project duration based on phase durations.
- * Phases are assumed to run sequentially with some overlap.
+ * Calculate total project duration from phase durations and dependencies.
+ *
+ * @param phaseDurations - Phase durations (years)
+ * @param schedule - Phase predecessors (defaults to the standard closure sequence)
+ * @returns Years from closure start to the last phase finish
  */
-export function calculateTotalDuration(phaseDurations: PhaseDurations): number {
-  // Simplified: planning overlaps with nothing, others have some overlap
-  const planningYears = phaseDurations[ClosurePhase.PlanningApprovals];
-  const decommYears = phaseDurations[ClosurePhase.DecommissioningDemolition];
-  const earthworksYears = phaseDurations[ClosurePhase.EarthworksLandform];
-  const tsfWrdYears = phaseDurations[ClosurePhase.TailingsWRDRehabilitation];
-  const waterYears = phaseDurations[ClosurePhase.WaterManagement];
-  const revegYears = phaseDurations[ClosurePhase.RevegetationEcosystem];
-  const monitoringYears = phaseDurations[ClosurePhase.MonitoringMaintenance];
-  const relinquishmentYears = phaseDurations[ClosurePhase.RelinquishmentPostClosure];
-
-  // Simple sequential with parallel activities
-  // Earthworks and TSF/WRD run in parallel, water overlaps with monitoring
-  const activeWorks =
-    planningYears +
-    decommYears +
-    Math.max(earthworksYears, tsfWrdYears) +
-    revegYears;
-
-  // Water and monitoring can extend beyond
-  const waterMonitoring = Math.max(waterYears, monitoringYears);
-
-  return activeWorks + waterMonitoring + relinquishmentYears;
+export function calculateTotalDuration(
+  phaseDurations: PhaseDurations,
+  schedule: PhaseSchedule = DEFAULT_PHASE_SCHEDULE
+): number {
+  return scheduleClosurePhases(phaseDurations, schedule).totalDurationYears;
 }
 
 /**
  * Get phase start year (relative to project start = year 0).
+ *
+ * @param phase - Closure phase
+ * @param durations - Phase durations (years)
+ * @param schedule - Phase predecessors (defaults to the standard closure sequence)
  */
 export function getPhaseStartYear(
   phase: ClosurePhase,
-  durations: PhaseDurations
+  durations: PhaseDurations,
+  schedule: PhaseSchedule = DEFAULT_PHASE_SCHEDULE
 ): number {
-  const d = durations;
-
-  switch (phase) {
-    case ClosurePhase.PlanningApprovals:
-      return 0;
-    case ClosurePhase.DecommissioningDemolition:
-      return d[ClosurePhase.PlanningApprovals];
-    case ClosurePhase.EarthworksLandform:
-      return d[ClosurePhase.PlanningApprovals] + d[ClosurePhase.DecommissioningDemolition];
-    case ClosurePhase.TailingsWRDRehabilitation:
-      return d[ClosurePhase.PlanningApprovals] + d[ClosurePhase.DecommissioningDemolition];
-    case ClosurePhase.WaterManagement:
-      return d[ClosurePhase.PlanningApprovals] + d[ClosurePhase.DecommissioningDemolition];
-    case ClosurePhase.RevegetationEcosystem:
-      return (
-        d[ClosurePhase.PlanningApprovals] +
-        d[ClosurePhase.DecommissioningDemolition] +
-        Math.max(d[ClosurePhase.EarthworksLandform], d[ClosurePhase.TailingsWRDRehabilitation])
-      );
-    case ClosurePhase.MonitoringMaintenance:
-      return (
-        d[ClosurePhase.PlanningApprovals] +
-        d[ClosurePhase.DecommissioningDemolition] +
-        Math.max(d[ClosurePhase.EarthworksLandform], d[ClosurePhase.TailingsWRDRehabilitation]) +
-        d[ClosurePhase.RevegetationEcosystem]
-      );
-    case ClosurePhase.RelinquishmentPostClosure:
-      return (
-        d[ClosurePhase.PlanningApprovals] +
-        d[ClosurePhase.DecommissioningDemolition] +
-        Math.max(d[ClosurePhase.EarthworksLandform], d[ClosurePhase.TailingsWRDRehabilitation]) +
-        d[ClosurePhase.RevegetationEcosystem] +
-        Math.max(d[ClosurePhase.WaterManagement], d[ClosurePhase.MonitoringMaintenance])
-      );
-  }
+  const timing = scheduleClosurePhases(durations, schedule).timings.find((t) => t.phase === phase);
+  return timing?.startYear ?? 0;
+}
+
+/**
+ * Convert a real discount rate to its nominal equivalent (Fisher relationship).
+ *
+ * @param realRate - Real rate (decimal)
+ * @param inflationRate - Inflation/escalation rate (decimal)
+ * @returns Nominal rate (decimal)
+ */
+export function realToNominalRate(realRate: number, inflationRate: number): number {
+  return (1 + realRate) * (1 + inflationRate) - 1;
+}
+
+/**
+ * Convert a nominal discount rate to its real equivalent (Fisher relationship).
+ *
+ * @param nominalRate - Nominal rate (decimal)
+ * @param inflationRate - Inflation/escalation rate (decimal)
+ * @returns Real rate (decimal)
+ */
+export function nominalToRealRate(nominalRate: number, inflationRate: number): number {
+  return (1 + nominalRate) / (1 + inflationRate) - 1;
+}
+
+/**
+ * Discount rate equivalent to the input rate in the other mode (%).
+ * A real rate is shown as nominal and a nominal rate as real.
+ */
+export function calculateEquivalentDiscountRatePercent(financialParams: FinancialParams): number {
+  const rate = financialParams.discountRatePercent / 100;
+  const escalation = financialParams.escalationRatePercent / 100;
+  const equivalent =
+    financialParams.discountRateMode === 'real'
+      ? realToNominalRate(rate, escalation)
+      : nominalToRealRate(rate, escalation);
+  return equivalent * 100;
 }
 
 /**
@@ -558,12 +1049,17 @@ export function calculateAnnualCashflows(
   lineItems: readonly LineItemCost[],
   inputs: InputState
 ): AnnualCashflow[] {
-  const { financialParams, phaseDurations } = inputs;
-  const totalDuration = calculateTotalDuration(phaseDurations);
+  const { financialParams, phaseDurations, phaseSchedule } = inputs;
+  const { timings, totalDurationYears: totalDuration } = scheduleClosurePhases(
+    phaseDurations,
+    phaseSchedule
+  );
+  const phaseStartYears = new Map(timings.map((t) => [t.phase, t.startYear]));
 
   // Initialize cashflows for each year
   const cashflows: AnnualCashflow[] = [];
   const yearlyPhaseBreakdown: Record<ClosurePhase, number>[] = [];
+  const yearlyEscalated: number[] = [];
 
   for (let i = 0; i <= totalDuration; i++) {
     const phaseBreakdown = {} as Record<ClosurePhase, number>;
@@ -571,38 +1067,65 @@ export function calculateAnnualCashflows(
       phaseBreakdown[phase] = 0;
     }
     yearlyPhaseBreakdown.push(phaseBreakdown);
+    yearlyEscalated.push(0);
   }
 
-  // Distribute each line item across its phase duration
+  // Escalation from the rate base year for each index, by cashflow year
+  const escalationFactors = new Map<string, number[]>();
+  const getEscalation = (category: CostCategory, i: number): number => {
+    const key = getCategoryEscalationIndexId(inputs.escalation, category) ?? 'general';
+    let factors = escalationFactors.get(key);
+    if (!factors) {
+      const index = getCategoryEscalationIndex(inputs, category);
+      factors = yearlyEscalated.map((_, y) =>
+        getEscalationFactor(
+          index,
+          financialParams.rateBaseYear,
+          financialParams.closureStartYear + y
+        )
+      );
+      escalationFactors.set(key, factors);
+    }
+    return factors[i] ?? 1;
+  };
+
+  // Distribute each line item across its phase duration using its spend profile
   for (const item of lineItems) {
-    const phaseStart = getPhaseStartYear(item.phase, phaseDurations);
+    const phaseStart = phaseStartYears.get(item.phase) ?? 0;
     const phaseDuration = phaseDurations[item.phase];
 
     if (phaseDuration > 0) {
-      const annualCost = item.subtotal / phaseDuration;
-      for (let y = 0; y < phaseDuration; y++) {
+      const weights = getSpendProfileWeights(
+        resolveSpendProfile(item, inputs.spendProfiles),
+        phaseDuration
+      );
+      weights.forEach((weight, y) => {
         const year = phaseStart + y;
         if (year <= totalDuration && yearlyPhaseBreakdown[year]) {
-          yearlyPhaseBreakdown[year][item.phase] += annualCost;
+          yearlyPhaseBreakdown[year][item.phase] += item.subtotal * weight;
+          yearlyEscalated[year] =
+            (yearlyEscalated[year] ?? 0) +
+            item.subtotal * weight * getEscalation(item.category, year);
         }
-      }
+      });
     } else if (yearlyPhaseBreakdown[phaseStart]) {
       // Zero duration phase - allocate to start year
       yearlyPhaseBreakdown[phaseStart][item.phase] += item.subtotal;
+      yearlyEscalated[phaseStart] =
+        (yearlyEscalated[phaseStart] ?? 0) +
+        item.subtotal * getEscalation(item.category, phaseStart);
     }
   }
 
   // Build cashflow entries with escalation and discounting
   let cumulativeNominal = 0;
   let cumulativeDiscounted = 0;
-  const escalationRate = financialParams.escalationRatePercent / 100;
   const discountRate = financialParams.discountRatePercent / 100;
 
-  // Adjust discount rate for nominal/real mode
-  const effectiveDiscountRate =
-    financialParams.discountRateMode === 'nominal'
-      ? discountRate
-      : discountRate; // Real rate already accounts for inflation separately
+  // Real mode discounts today's-dollar flows at the real rate;
+  // nominal mode discounts escalated flows at the nominal rate
+  const discountEscalatedFlows = financialParams.discountRateMode === 'nominal';
+  const generalIndex = getGeneralEscalationIndex(financialParams);
 
   for (let i = 0; i <= totalDuration; i++) {
     const phaseBreakdown = yearlyPhaseBreakdown[i];
@@ -613,17 +1136,24 @@ export function calculateAnnualCashflows(
       nominalCost += phaseBreakdown[phase];
     }
 
-    // Apply escalation
-    const escalatedCost = nominalCost * Math.pow(1 + escalationRate, i);
+    const year = financialParams.closureStartYear + i;
 
-    // Apply discounting
-    const discountedCost = escalatedCost / Math.pow(1 + effectiveDiscountRate, i);
+    // Escalated from the rate base year by each category's index
+    const escalatedCost = yearlyEscalated[i] ?? 0;
+
+    // Real flows are escalated flows deflated to valuation year dollars at the
+    // general rate, so only escalation above general inflation remains
+    const flowToDiscount = discountEscalatedFlows
+      ? escalatedCost
+      : escalatedCost / getEscalationFactor(generalIndex, financialParams.valuationYear, year);
+    const discountedCost =
+      flowToDiscount / Math.pow(1 + discountRate, year - financialParams.valuationYear);
 
     cumulativeNominal += nominalCost;
     cumulativeDiscounted += discountedCost;
 
     cashflows.push({
-      year: financialParams.closureStartYear + i,
+      year,
       nominalCost,
       escalatedCost,
       discountedCost,
@@ -694,6 +1224,50 @@ export function calculateCategoryBreakdown(
   return summaries.sort((a, b) => b.totalCost - a.totalCost);
 }
 
+/**
+ * Calculate cost breakdown by site domain. Items not tied to a domain, including
+ * indirect costs, are reported together as site-wide.
+ */
+export function calculateDomainBreakdown(
+  lineItems: readonly LineItemCost[],
+  siteDomains: readonly SiteDomain[],
+  totalCost: number
+): DomainCostSummary[] {
+  const domainTotals = new Map<string, number>();
+  let siteWideCost = 0;
+
+  for (const item of lineItems) {
+    if (item.domainId !== undefined) {
+      domainTotals.set(item.domainId, (domainTotals.get(item.domainId) ?? 0) + item.subtotal);
+    } else {
+      siteWideCost += item.subtotal;
+    }
+  }
+
+  const percentOf = (cost: number) => (totalCost > 0 ? (cost / totalCost) * 100 : 0);
+
+  const summaries: DomainCostSummary[] = siteDomains.map((domain) => {
+    const cost = domainTotals.get(domain.id) ?? 0;
+    return {
+      domainId: domain.id,
+      name: domain.name,
+      type: domain.type,
+      totalCost: cost,
+      percentOfTotal: percentOf(cost),
+    };
+  });
+
+  summaries.push({
+    domainId: null,
+    name: 'Site-wide & indirect',
+    type: null,
+    totalCost: siteWideCost,
+    percentOfTotal: percentOf(siteWideCost),
+  });
+
+  return summaries;
+}
+
 // ============================================================================
 // Sensitivity Analysis
 // ============================================================================
@@ -732,20 +1306,30 @@ const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
   {
     name: 'TSF Area',
     key: 'tsfArea',
-    getValue: (i) => i.quantities.tsfAreaHa,
+    getValue: (i) => getDomainAreaHa(i.siteDomains, 'tsf'),
     setValue: (i, v) => ({
       ...i,
-      quantities: { ...i.quantities, tsfAreaHa: v },
+      siteDomains: scaleSiteDomains(
+        i.siteDomains,
+        'tsf',
+        'areaHa',
+        v / getDomainAreaHa(i.siteDomains, 'tsf')
+      ),
     }),
     unit: 'ha',
   },
   {
     name: 'TSF Cover Thickness',
     key: 'tsfThickness',
-    getValue: (i) => i.quantities.tsfCoverThicknessM,
+    getValue: (i) => getDomainAverageDepthM(i.siteDomains, 'tsf', 'coverThicknessM'),
     setValue: (i, v) => ({
       ...i,
-      quantities: { ...i.quantities, tsfCoverThicknessM: v },
+      siteDomains: scaleSiteDomains(
+        i.siteDomains,
+        'tsf',
+        'coverThicknessM',
+        v / getDomainAverageDepthM(i.siteDomains, 'tsf', 'coverThicknessM')
+      ),
     }),
     unit: 'm',
   },
@@ -792,9 +1376,10 @@ const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
 ];
 
 /**
- * Calculate total cost for sensitivity analysis (simplified calculation).
+ * Calculate total cost and NPV only (simplified calculation).
+ * Used where many evaluations are needed, e.g. sensitivity analysis and simulation.
  */
-function calculateTotalForSensitivity(inputs: InputState): { total: number; npv: number } {
+export function calculateCostTotals(inputs: InputState): { total: number; npv: number } {
   const derived = calculateDerivedQuantities(inputs);
   const directItems = calculateDirectWorksCosts(inputs, derived);
   const directTotal = directItems.reduce((sum, item) => sum + item.subtotal, 0);
@@ -821,7 +1406,7 @@ export function calculateSensitivity(
   variationPercent: number = 10
 ): SensitivityResult[] {
   // Calculate base results for comparison (used to identify base case)
-  const _baseResults = calculateTotalForSensitivity(inputs);
+  const _baseResults = calculateCostTotals(inputs);
   void _baseResults; // Suppress unused variable warning - base case used implicitly
   
   const results: SensitivityResult[] = [];
@@ -838,8 +1423,8 @@ export function calculateSensitivity(
     const lowInputs = driver.setValue(inputs, lowValue);
     const highInputs = driver.setValue(inputs, highValue);
 
-    const lowResults = calculateTotalForSensitivity(lowInputs);
-    const highResults = calculateTotalForSensitivity(highInputs);
+    const lowResults = calculateCostTotals(lowInputs);
+    const highResults = calculateCostTotals(highInputs);
 
     results.push({
       driverName: driver.name,
@@ -861,6 +1446,194 @@ export function calculateSensitivity(
   return results.sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost));
 }
 
+/**
+ * Compare the estimate across water treatment technologies. Alternative
+ * technologies use their library rates; the current technology keeps the
+ * rates in the inputs.
+ *
+ * @param inputs - Base input state
+ * @returns One result per technology, or empty when no water is treated
+ */
+export function compareWaterTreatmentTechnologies(inputs: InputState): TechnologyComparison[] {
+  const { quantities } = inputs;
+  if (quantities.waterTreatmentDurationYears <= 0 || quantities.waterTreatmentFlowMLPerDay <= 0) {
+    return [];
+  }
+
+  const base = calculateCostTotals(inputs);
+
+  return WATER_TREATMENT_TECHNOLOGY_IDS.map((technology) => {
+    const isCurrent = technology === quantities.waterTreatmentTechnology;
+    const totals = isCurrent
+      ? base
+      : calculateCostTotals(applyWaterTreatmentTechnology(inputs, technology));
+    return {
+      technology,
+      isCurrent,
+      totalCost: totals.total,
+      npv: totals.npv,
+      deltaCost: totals.total - base.total,
+      deltaNPV: totals.npv - base.npv,
+    };
+  });
+}
+
+// ============================================================================
+// Perpetual Water Treatment
+// ============================================================================
+
+/**
+ * Present value, at the start of the first payment year, of an annual payment
+ * made at the start of each year (annuity-due).
+ *
+ * @param rate - Discount rate per year (decimal)
+ * @param years - Number of payments (Infinity for a perpetuity)
+ */
+function annuityDueFactor(rate: number, years: number): number {
+  if (!Number.isFinite(years)) return rate > 0 ? (1 + rate) / rate : Infinity;
+  if (rate === 0) return years;
+  return ((1 - Math.pow(1 + rate, -years)) / rate) * (1 + rate);
+}
+
+/**
+ * Present value, at the start of the first year, of a payment recurring every
+ * `interval` years from year `first` onwards, within `years` years.
+ *
+ * @param rate - Discount rate per year (decimal)
+ * @param first - Year of the first payment
+ * @param interval - Years between payments
+ * @param years - Term (Infinity for a perpetuity)
+ */
+function recurringPaymentFactor(
+  rate: number,
+  first: number,
+  interval: number,
+  years: number
+): number {
+  if (!Number.isFinite(years)) {
+    if (rate <= 0) return Infinity;
+    return Math.pow(1 + rate, -first) / (1 - Math.pow(1 + rate, -interval));
+  }
+  const count = first < years ? Math.floor((years - 1 - first) / interval) + 1 : 0;
+  if (rate === 0) return count;
+  const v = Math.pow(1 + rate, -interval);
+  return (Math.pow(1 + rate, -first) * (1 - Math.pow(v, count))) / (1 - v);
+}
+
+/**
+ * Value water treatment continuing after the water management phase.
+ *
+ * Treatment opex continues each year from the end of the phase, and the plant
+ * lifecycle of mid-life refurbishments and end-of-life replacements carries on
+ * from the scheduled treatment duration, either in perpetuity or for a fixed
+ * long-tail term. Flows are in rate base dollars, restated to valuation year
+ * dollars and discounted at the real rate, so the value is the same in either
+ * discount rate mode. With category escalation on, opex and plant costs also
+ * grow by their index's escalation above the general rate.
+ *
+ * @param inputs - Complete input state
+ * @param phaseTimings - Scheduled phase timings
+ * @returns Ongoing treatment value, or null when off or there is no treatment flow
+ */
+export function calculatePerpetualTreatment(
+  inputs: InputState,
+  phaseTimings: readonly PhaseTiming[]
+): PerpetualTreatmentResult | null {
+  const { perpetualTreatment: settings, financialParams } = inputs;
+  if (!settings.enabled || inputs.quantities.waterTreatmentFlowMLPerDay <= 0) return null;
+
+  const waterTiming = phaseTimings.find((t) => t.phase === ClosurePhase.WaterManagement);
+  const startYear = financialParams.closureStartYear + (waterTiming?.finishYear ?? 0);
+  const termYears = settings.mode === 'perpetuity' ? Infinity : settings.termYears;
+
+  const escalationRate = financialParams.escalationRatePercent / 100;
+  const discountRate = financialParams.discountRatePercent / 100;
+  const realRate =
+    financialParams.discountRateMode === 'real'
+      ? discountRate
+      : nominalToRealRate(discountRate, escalationRate);
+
+  // Restate to valuation year dollars and discount from the start year to the valuation year
+  const toValuationYear =
+    Math.pow(1 + escalationRate, financialParams.valuationYear - financialParams.rateBaseYear) /
+    Math.pow(1 + realRate, startYear - financialParams.valuationYear);
+
+  // Costs whose index outpaces general inflation grow in real terms - by the
+  // index's excess to the start year, then at its long-term rate thereafter,
+  // which nets off the real discount rate
+  const generalIndex = getGeneralEscalationIndex(financialParams);
+  const realEscalation = (category: CostCategory) => {
+    const index = getCategoryEscalationIndex(inputs, category);
+    const growth = (1 + index.ratePercent / 100) / (1 + escalationRate);
+    return {
+      toStart:
+        getEscalationFactor(index, financialParams.rateBaseYear, startYear) /
+        getEscalationFactor(generalIndex, financialParams.rateBaseYear, startYear),
+      growth,
+      netRate: (1 + realRate) / growth - 1,
+    };
+  };
+  const opexEscalation = realEscalation(CostCategory.WaterTreatmentOpex);
+  const capexEscalation = realEscalation(CostCategory.WaterTreatmentCapex);
+
+  const rebaseFactor = getRateRebaseFactor(inputs) ?? 1;
+  const annualOpex =
+    calculateWaterTreatmentAnnualOpex(inputs) *
+    rebaseFactor *
+    getLocationFactor(CostCategory.WaterTreatmentOpex, inputs.location);
+  const plantCost =
+    calculateWaterTreatmentPlantCost(inputs) *
+    rebaseFactor *
+    getLocationFactor(CostCategory.WaterTreatmentCapex, inputs.location);
+  const replacementCost = plantCost * (inputs.unitRates.waterTreatmentReplacementPercent / 100);
+  const refurbishmentCost =
+    plantCost * (inputs.unitRates.waterTreatmentRefurbishmentPercent / 100);
+
+  // The plant lifecycle continues from the end of the scheduled treatment duration
+  const assetLifeYears = inputs.unitRates.waterTreatmentAssetLifeYears;
+  const treatedYears = inputs.quantities.waterTreatmentDurationYears;
+  const refurbishmentAge = getRefurbishmentAge(assetLifeYears);
+  const firstReplacement = Math.ceil(treatedYears / assetLifeYears) * assetLifeYears - treatedYears;
+  const firstRefurbishment =
+    refurbishmentAge +
+    Math.max(0, Math.ceil((treatedYears - refurbishmentAge) / assetLifeYears)) * assetLifeYears -
+    treatedYears;
+  const lifecycleCost = (cost: number, first: number): number =>
+    cost > 0
+      ? cost *
+        capexEscalation.toStart *
+        recurringPaymentFactor(capexEscalation.netRate, first, assetLifeYears, termYears) *
+        toValuationYear
+      : 0;
+
+  // Zero costs stay zero even when an unbounded perpetuity factor is infinite
+  const opexPresentValue =
+    annualOpex > 0
+      ? annualOpex *
+        opexEscalation.toStart *
+        annuityDueFactor(opexEscalation.netRate, termYears) *
+        toValuationYear
+      : 0;
+  const replacementPresentValue =
+    lifecycleCost(replacementCost, firstReplacement) +
+    (refurbishmentAge > 0 ? lifecycleCost(refurbishmentCost, firstRefurbishment) : 0);
+
+  return {
+    mode: settings.mode,
+    startYear,
+    termYears,
+    annualOpex,
+    replacementCost,
+    refurbishmentCost,
+    assetLifeYears,
+    realDiscountRatePercent: realRate * 100,
+    realOpexEscalationPercent: (opexEscalation.growth - 1) * 100,
+    opexPresentValue,
+    replacementPresentValue,
+    presentValue: opexPresentValue + replacementPresentValue,
+  };
+}
+
 // ============================================================================
 // Main Calculation Entry Point
 // ============================================================================
@@ -910,6 +1683,11 @@ export function calculateClosureCosts(inputs: InputState): Results {
   // 8. Calculate breakdowns
   const phaseBreakdown = calculatePhaseBreakdown(lineItems, totalNominalCost);
   const categoryBreakdown = calculateCategoryBreakdown(lineItems, totalNominalCost);
+  const domainBreakdown = calculateDomainBreakdown(
+    lineItems,
+    inputs.siteDomains,
+    totalNominalCost
+  );
 
   // 9. Calculate sensitivity
   const sensitivityResults = calculateSensitivity(inputs);
@@ -920,8 +1698,11 @@ export function calculateClosureCosts(inputs: InputState): Results {
     .reduce((sum, item) => sum + item.subtotal, 0);
   const monitoringCostShare = totalNominalCost > 0 ? (monitoringCost / totalNominalCost) * 100 : 0;
 
-  // 11. Calculate total duration
-  const totalDurationYears = calculateTotalDuration(inputs.phaseDurations);
+  // 11. Schedule phases and total duration
+  const { timings: phaseTimings, totalDurationYears } = scheduleClosurePhases(
+    inputs.phaseDurations,
+    inputs.phaseSchedule
+  );
 
   return {
     derivedQuantities,
@@ -935,8 +1716,14 @@ export function calculateClosureCosts(inputs: InputState): Results {
     annualCashflows,
     phaseBreakdown,
     categoryBreakdown,
+    domainBreakdown,
     sensitivityResults,
+    technologyComparison: compareWaterTreatmentTechnologies(inputs),
     monitoringCostShare,
     totalDurationYears,
+    phaseTimings,
+    equivalentDiscountRatePercent: calculateEquivalentDiscountRatePercent(inputs.financialParams),
+    perpetualTreatment: calculatePerpetualTreatment(inputs, phaseTimings),
+    rateRebaseFactor: getRateRebaseFactor(inputs),
   };
 }
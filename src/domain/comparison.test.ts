@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the Scenario Comparison
+ *
+ * Tests cover:
+ * - Absolute and percentage deltas against the base scenario
+ * - Headline, category and phase rows matching each scenario's results
+ * - Limits on the number of compared scenarios
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareScenarios, compareValue, MAX_COMPARED_SCENARIOS } from './comparison';
+import { calculateClosureCosts } from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import { PRESET_HIGH_WATER, PRESET_SMALL_OPEN_PIT } from './presets';
+import { CostCategory } from './types';
+import type { ComparisonSource, InputState } from './types';
+
+const source = (id: string, inputs: InputState): ComparisonSource => ({ id, name: id, inputs });
+
+describe('compareValue', () => {
+  it('should give the delta and percentage against the base', () => {
+    expect(compareValue(120, 100)).toEqual({ value: 120, delta: 20, deltaPercent: 20 });
+    expect(compareValue(75, 100)).toEqual({ value: 75, delta: -25, deltaPercent: -25 });
+  });
+
+  it('should have no percentage when the base is zero', () => {
+    expect(compareValue(50, 0)).toEqual({ value: 50, delta: 50, deltaPercent: null });
+  });
+});
+
+describe('compareScenarios', () => {
+  const base = createDefaultInputState();
+
+  it('should compare each scenario with the first', () => {
+    const comparison = compareScenarios([
+      source('base', base),
+      source('small', PRESET_SMALL_OPEN_PIT.inputs),
+      source('water', PRESET_HIGH_WATER.inputs),
+    ]);
+
+    const baseTotal = calculateClosureCosts(base).totalNominalCost;
+    const smallTotal = calculateClosureCosts(PRESET_SMALL_OPEN_PIT.inputs).totalNominalCost;
+    const total = comparison.kpis.find(r => r.key === 'totalNominalCost');
+
+    expect(comparison.scenarios.map(s => s.id)).toEqual(['base', 'small', 'water']);
+    expect(total?.values).toHaveLength(3);
+    expect(total?.values[0]).toEqual({ value: baseTotal, delta: 0, deltaPercent: 0 });
+    expect(total?.values[1]?.value).toBeCloseTo(smallTotal, 6);
+    expect(total?.values[1]?.delta).toBeCloseTo(smallTotal - baseTotal, 6);
+    expect(total?.values[1]?.deltaPercent).toBeCloseTo(((smallTotal - baseTotal) / baseTotal) * 100, 6);
+  });
+
+  it('should show no change between identical scenarios', () => {
+    const comparison = compareScenarios([source('a', base), source('b', createDefaultInputState())]);
+
+    for (const row of [...comparison.kpis, ...comparison.categories, ...comparison.phases]) {
+      expect(row.values[1]?.delta).toBe(0);
+    }
+  });
+
+  it('should sum category and phase rows to the total cost', () => {
+    const comparison = compareScenarios([source('base', base), source('water', PRESET_HIGH_WATER.inputs)]);
+
+    comparison.scenarios.forEach((scenario, i) => {
+      const categoryTotal = comparison.categories.reduce((sum, row) => sum + (row.values[i]?.value ?? 0), 0);
+      const phaseTotal = comparison.phases.reduce((sum, row) => sum + (row.values[i]?.value ?? 0), 0);
+      expect(categoryTotal).toBeCloseTo(scenario.results.totalNominalCost, 2);
+      expect(phaseTotal).toBeCloseTo(scenario.results.totalNominalCost, 2);
+    });
+  });
+
+  it('should list a category with cost in only one scenario', () => {
+    const withHazmat: InputState = {
+      ...base,
+      quantities: { ...base.quantities, hazardousMaterialsEnabled: true, hazardousMaterialsAreaHa: 10 },
+    };
+    const comparison = compareScenarios([source('without', base), source('with', withHazmat)]);
+    const hazmat = comparison.categories.find(r => r.key === CostCategory.HazardousMaterials);
+
+    expect(hazmat?.values[0]?.value).toBe(0);
+    expect(hazmat?.values[0]?.deltaPercent).toBeNull();
+    expect(hazmat?.values[1]?.value).toBeGreaterThan(0);
+  });
+
+  it('should reject fewer than two or more than five scenarios', () => {
+    expect(() => compareScenarios([source('base', base)])).toThrow('between 2 and 5');
+    const many = Array.from({ length: MAX_COMPARED_SCENARIOS + 1 }, (_, i) => source(`s${i}`, base));
+    expect(() => compareScenarios(many)).toThrow('between 2 and 5');
+  });
+});
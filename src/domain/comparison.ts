@@ -0,0 +1,145 @@
+/**
+ * Mine Closure Costing - Scenario Comparison
+ *
+ * Side-by-side comparison of two to five scenarios - saved scenarios, presets
+ * or the current inputs - for option studies such as cover design A vs B.
+ * Each scenario is costed in full and its headline measures, category totals
+ * and phase totals are set against the first (base) scenario:
+ *
+ *   delta   = value - base value
+ *   delta % = delta / base value × 100
+ *
+ * @module comparison
+ */
+
+import type {
+  ComparedScenario,
+  ComparisonRow,
+  ComparisonSource,
+  ComparisonValue,
+  Results,
+  ScenarioComparison,
+} from './types';
+import { CATEGORY_NAMES, ClosurePhase, CostCategory, PHASE_NAMES } from './types';
+import { calculateClosureCosts } from './calcEngine';
+
+/** Fewest scenarios in a comparison */
+export const MIN_COMPARED_SCENARIOS = 2;
+
+/** Most scenarios in a comparison */
+export const MAX_COMPARED_SCENARIOS = 5;
+
+/** Headline measures, in display order */
+const KPI_MEASURES: readonly {
+  key: string;
+  label: string;
+  unit: ComparisonRow['unit'];
+  value: (results: Results) => number;
+}[] = [
+  {
+    key: 'totalNominalCost',
+    label: 'Total Nominal Cost',
+    unit: 'currency',
+    value: (r) => r.totalNominalCost,
+  },
+  {
+    key: 'totalDiscountedCost',
+    label: 'Total NPV',
+    unit: 'currency',
+    value: (r) => r.totalDiscountedCost,
+  },
+  {
+    key: 'peakAnnualCashflow',
+    label: 'Peak Annual Cashflow',
+    unit: 'currency',
+    value: (r) => r.peakAnnualCashflow,
+  },
+  {
+    key: 'directWorksCost',
+    label: 'Direct Works',
+    unit: 'currency',
+    value: (r) => r.directWorksCost,
+  },
+  {
+    key: 'indirectCosts',
+    label: 'Indirect Costs',
+    unit: 'currency',
+    value: (r) => r.indirectCosts,
+  },
+  {
+    key: 'totalDurationYears',
+    label: 'Duration',
+    unit: 'years',
+    value: (r) => r.totalDurationYears,
+  },
+];
+
+/**
+ * Value against the base value.
+ */
+export function compareValue(value: number, baseValue: number): ComparisonValue {
+  const delta = value - baseValue;
+  return { value, delta, deltaPercent: baseValue !== 0 ? (delta / baseValue) * 100 : null };
+}
+
+/**
+ * Row of values in scenario order, compared with the first.
+ */
+function comparisonRow(
+  key: string,
+  label: string,
+  unit: ComparisonRow['unit'],
+  values: readonly number[]
+): ComparisonRow {
+  const baseValue = values[0] ?? 0;
+  return { key, label, unit, values: values.map((v) => compareValue(v, baseValue)) };
+}
+
+/**
+ * Cost and compare scenarios side by side.
+ *
+ * @param sources - Scenarios to compare, the base scenario first
+ * @returns Comparison against the base scenario
+ * @throws Error when there are fewer than two or more than five scenarios
+ */
+export function compareScenarios(sources: readonly ComparisonSource[]): ScenarioComparison {
+  if (sources.length < MIN_COMPARED_SCENARIOS || sources.length > MAX_COMPARED_SCENARIOS) {
+    throw new Error(
+      `Compare between ${MIN_COMPARED_SCENARIOS} and ${MAX_COMPARED_SCENARIOS} scenarios`
+    );
+  }
+
+  const scenarios: ComparedScenario[] = sources.map((source) => ({
+    ...source,
+    results: calculateClosureCosts(source.inputs),
+  }));
+
+  const kpis = KPI_MEASURES.map(({ key, label, unit, value }) =>
+    comparisonRow(
+      key,
+      label,
+      unit,
+      scenarios.map((s) => value(s.results))
+    )
+  );
+
+  const categories = Object.values(CostCategory).flatMap((category) => {
+    const values = scenarios.map(
+      (s) => s.results.categoryBreakdown.find((c) => c.category === category)?.totalCost ?? 0
+    );
+    return values.some((v) => v !== 0)
+      ? [comparisonRow(category, CATEGORY_NAMES[category], 'currency', values)]
+      : [];
+  });
+
+  const phases = Object.values(ClosurePhase).flatMap((phase) => {
+    const values = scenarios.map(
+      (s) => s.results.phaseBreakdown.find((p) => p.phase === phase)?.totalCost ?? 0
+    );
+    return values.some((v) => v !== 0)
+      ? [comparisonRow(phase, PHASE_NAMES[phase], 'currency', values)]
+      : [];
+  });
+
+  return { scenarios, kpis, categories, phases };
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the Cost Bridge
+ *
+ * Tests cover:
+ * - Category movements reconciling prior to current total cost
+ * - Input group substitution, including the remaining inputs step
+ * - Bridging NPV as well as total cost
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateCategoryBridge, calculateInputBridge } from './costBridge';
+import { calculateClosureCosts, calculateCostTotals } from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import { createCustomLineItem } from './customLineItems';
+import { PRESET_HIGH_WATER } from './presets';
+import { ClosurePhase, CostCategory } from './types';
+import type { CostBridge, InputState } from './types';
+
+const stepTotal = (bridge: CostBridge) => bridge.steps.reduce((sum, s) => sum + s.delta, 0);
+
+describe('calculateCategoryBridge', () => {
+  it('should reconcile the prior total to the current total', () => {
+    const prior = calculateClosureCosts(createDefaultInputState());
+    const current = calculateClosureCosts(PRESET_HIGH_WATER.inputs);
+    const bridge = calculateCategoryBridge(prior, current);
+
+    expect(bridge.startValue).toBe(prior.totalNominalCost);
+    expect(bridge.endValue).toBe(current.totalNominalCost);
+    expect(bridge.startValue + stepTotal(bridge)).toBeCloseTo(bridge.endValue, 2);
+  });
+
+  it('should only list categories that moved', () => {
+    const inputs = createDefaultInputState();
+    const current: InputState = {
+      ...inputs,
+      unitRates: { ...inputs.unitRates, revegetationPerHa: inputs.unitRates.revegetationPerHa * 2 },
+    };
+    const bridge = calculateCategoryBridge(calculateClosureCosts(inputs), calculateClosureCosts(current));
+    const keys = bridge.steps.map(s => s.key);
+
+    expect(keys).toContain(CostCategory.Revegetation);
+    expect(keys).not.toContain(CostCategory.Demolition);
+    expect(bridge.steps.find(s => s.key === CostCategory.Revegetation)?.delta).toBeGreaterThan(0);
+  });
+
+  it('should have no steps between identical estimates', () => {
+    const results = calculateClosureCosts(createDefaultInputState());
+    expect(calculateCategoryBridge(results, results).steps).toEqual([]);
+  });
+});
+
+describe('calculateInputBridge', () => {
+  const prior = createDefaultInputState();
+
+  it('should attribute a single changed group in full', () => {
+    const current: InputState = {
+      ...prior,
+      indirectRates: { ...prior.indirectRates, contingencyPercent: prior.indirectRates.contingencyPercent + 10 },
+    };
+    const bridge = calculateInputBridge(prior, current);
+
+    expect(bridge.steps).toHaveLength(1);
+    expect(bridge.steps[0]?.key).toBe('indirectRates');
+    expect(bridge.steps[0]?.delta).toBeCloseTo(calculateCostTotals(current).total - calculateCostTotals(prior).total, 2);
+  });
+
+  it('should substitute groups in order and reconcile to the current total', () => {
+    const current: InputState = {
+      ...prior,
+      quantities: { ...prior.quantities, disturbedAreaHa: prior.quantities.disturbedAreaHa * 1.5 },
+      unitRates: { ...prior.unitRates, revegetationPerHa: prior.unitRates.revegetationPerHa * 1.2 },
+      phaseDurations: {
+        ...prior.phaseDurations,
+        [ClosurePhase.MonitoringMaintenance]: prior.phaseDurations[ClosurePhase.MonitoringMaintenance] + 5,
+      },
+    };
+    const bridge = calculateInputBridge(prior, current, 'npv');
+
+    expect(bridge.steps.map(s => s.key)).toEqual(['quantities', 'unitRates', 'phaseDurations']);
+    expect(bridge.startValue).toBeCloseTo(calculateCostTotals(prior).npv, 2);
+    expect(bridge.startValue + stepTotal(bridge)).toBeCloseTo(calculateCostTotals(current).npv, 2);
+  });
+
+  it('should report site domain and custom item changes as their own steps', () => {
+    const current: InputState = {
+      ...prior,
+      siteDomains: prior.siteDomains.map(d => ({ ...d, areaHa: d.areaHa * 1.2 })),
+      customLineItems: [{ ...createCustomLineItem([]), unitRate: 500000 }],
+    };
+    const bridge = calculateInputBridge(prior, current);
+
+    expect(bridge.steps.map(s => s.key)).toEqual(['siteDomains', 'customLineItems']);
+    expect(bridge.steps[1]?.label).toBe('Custom Items');
+    expect(bridge.startValue + stepTotal(bridge)).toBeCloseTo(bridge.endValue, 2);
+  });
+
+  it('should report changes outside the input groups as other inputs', () => {
+    const current: InputState = {
+      ...prior,
+      location: { ...prior.location, labourFactor: prior.location.labourFactor * 1.3 },
+    };
+    const bridge = calculateInputBridge(prior, current);
+
+    expect(bridge.steps.map(s => s.key)).toEqual(['other']);
+    expect(bridge.steps[0]?.delta).toBeGreaterThan(0);
+  });
+
+  it('should reconcile between unrelated scenarios', () => {
+    const bridge = calculateInputBridge(prior, PRESET_HIGH_WATER.inputs);
+    expect(bridge.startValue + stepTotal(bridge)).toBeCloseTo(bridge.endValue, 2);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Mine Closure Costing - Cost Bridge
+ *
+ * Explains why an estimate moved from a prior estimate - last year's, or
+ * option A against option B - as a bridge of movements from the prior total
+ * to the current total:
+ *
+ * - By category: the change in each cost category's total
+ * - By input group: the prior inputs take the current values one group at a
+ *   time (quantities, site domains, custom items, unit rates, indirect rates,
+ *   risk factors, financial parameters, phase durations) and each
+ *   substitution's change in cost is that group's movement. Changes to any
+ *   other inputs are the final step.
+ *
+ * Substitution is cumulative, so a movement includes its interaction with
+ * the groups substituted before it; the steps always sum to the total change.
+ *
+ * @module costBridge
+ */
+
+import type {
+  BridgeInputGroup,
+  CostBridge,
+  CostBridgeMeasure,
+  CostBridgeStep,
+  InputState,
+  Results,
+} from './types';
+import { CATEGORY_NAMES, CostCategory } from './types';
+import { calculateCostTotals } from './calcEngine';
+
+/** Input groups in substitution order, with display labels */
+export const BRIDGE_INPUT_GROUPS: Record<BridgeInputGroup, string> = {
+  quantities: 'Quantities',
+  siteDomains: 'Site Domains',
+  customLineItems: 'Custom Items',
+  unitRates: 'Unit Rates',
+  indirectRates: 'Indirect Rates',
+  riskFactors: 'Risk Factors',
+  financialParams: 'Financial Parameters',
+  phaseDurations: 'Phase Durations',
+};
+
+/**
+ * Bridge total nominal cost by cost category.
+ *
+ * @param prior - Prior estimate results
+ * @param current - Current estimate results
+ * @returns Movement in each category with a change, in category order
+ */
+export function calculateCategoryBridge(prior: Results, current: Results): CostBridge {
+  const categoryTotal = (results: Results, category: CostCategory) =>
+    results.categoryBreakdown.find((c) => c.category === category)?.totalCost ?? 0;
+
+  const steps = Object.values(CostCategory).flatMap((category): CostBridgeStep[] => {
+    const delta = categoryTotal(current, category) - categoryTotal(prior, category);
+    return delta !== 0 ? [{ key: category, label: CATEGORY_NAMES[category], delta }] : [];
+  });
+
+  return { startValue: prior.totalNominalCost, endValue: current.totalNominalCost, steps };
+}
+
+/**
+ * Bridge total cost or NPV by input group, substituting the current inputs
+ * into the prior inputs one group at a time.
+ *
+ * @param prior - Prior estimate inputs
+ * @param current - Current estimate inputs
+ * @param measure - Total nominal cost or NPV
+ * @returns Movement for each changed input group, then any other inputs
+ */
+export function calculateInputBridge(
+  prior: InputState,
+  current: InputState,
+  measure: CostBridgeMeasure = 'total'
+): CostBridge {
+  const value = (inputs: InputState) => calculateCostTotals(inputs)[measure];
+
+  const startValue = value(prior);
+  const steps: CostBridgeStep[] = [];
+  let inputs = prior;
+  let previous = startValue;
+
+  for (const group of Object.keys(BRIDGE_INPUT_GROUPS) as BridgeInputGroup[]) {
+    if (JSON.stringify(prior[group]) === JSON.stringify(current[group])) continue;
+    inputs = { ...inputs, [group]: current[group] };
+    const next = value(inputs);
+    if (next !== previous) {
+      steps.push({ key: group, label: BRIDGE_INPUT_GROUPS[group], delta: next - previous });
+    }
+    previous = next;
+  }
+
+  // Location, escalation, schedule links and the like
+  const endValue = value(current);
+  if (endValue !== previous) {
+    steps.push({ key: 'other', label: 'Other Inputs', delta: endValue - previous });
+  }
+
+  return { startValue, endValue, steps };
+}
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for Cost Indices
+ *
+ * Tests cover:
+ * - Parsing index series from CSV
+ * - Year-on-year escalation rates of a series
+ * - Rebasing unit rates to the rate base year, reporting a missing index year
+ * - Escalation indices taking their year rates from a series
+ * - Removing a series and cost index validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getCostIndexRates,
+  getRateRebaseFactor,
+  parseCostIndexCsv,
+  removeCostIndex,
+} from './costIndices';
+import { getCategoryEscalationIndex, getEscalationFactor } from './escalation';
+import { calculateClosureCosts, calculateDerivedQuantities, calculateDirectWorksCosts } from './calcEngine';
+import { DEFAULT_RATE_REBASE, createDefaultInputState, normalizeInputState } from './defaults';
+import { createCustomLineItem } from './customLineItems';
+import { CostIndexSeriesSchema, InputStateSchema } from './validation';
+import { CostCategory } from './types';
+import type { CostIndexSeries, InputState } from './types';
+
+const PPI: CostIndexSeries = {
+  id: 'ppi',
+  name: 'Producer price index',
+  points: [
+    { year: 2022, value: 100 },
+    { year: 2023, value: 106 },
+    { year: 2024, value: 110.24 },
+    { year: 2025, value: 113.5 },
+    { year: 2026, value: 117.2 },
+  ],
+};
+
+const withPpi = (overrides: Partial<InputState> = {}): InputState => ({
+  ...createDefaultInputState(),
+  costIndices: [PPI],
+  ...overrides,
+});
+
+describe('parseCostIndexCsv', () => {
+  it('should read one series per column with names from the header', () => {
+    const series = parseCostIndexCsv('Year,PPI,Construction\n2024,110.2,98.5\n2023,106,\n2025,113.5,101.2\n', 'indices');
+
+    expect(series).toHaveLength(2);
+    expect(series[0]).toEqual({ name: 'PPI', points: [{ year: 2023, value: 106 }, { year: 2024, value: 110.2 }, { year: 2025, value: 113.5 }] });
+    expect(series[1]?.name).toBe('Construction');
+    expect(series[1]?.points.map(p => p.year)).toEqual([2024, 2025]);
+  });
+
+  it('should name a series without a header after the file and accept other delimiters', () => {
+    expect(parseCostIndexCsv('2023;106\r\n2024;110\r\n', 'wpi')).toEqual([{ name: 'wpi', points: [{ year: 2023, value: 106 }, { year: 2024, value: 110 }] }]);
+    expect(parseCostIndexCsv('Year,CCI\n2024,"1,204.5"\n', 'cci')[0]?.points[0]?.value).toBe(1204.5);
+  });
+
+  it('should reject files it cannot read as index series', () => {
+    expect(() => parseCostIndexCsv('', 'x')).toThrow('empty');
+    expect(() => parseCostIndexCsv('Year,PPI\n', 'x')).toThrow('no index values');
+    expect(() => parseCostIndexCsv('Year,PPI\nFY24,110\n', 'x')).toThrow('Line 2: "FY24" is not a year');
+    expect(() => parseCostIndexCsv('2023,106\n2023,107\n', 'x')).toThrow('2023 appears more than once');
+    expect(() => parseCostIndexCsv('2023,-1\n', 'x')).toThrow('not a positive index value');
+  });
+});
+
+describe('getCostIndexRates', () => {
+  it('should give the change from each consecutive year', () => {
+    const rates = getCostIndexRates({ ...PPI, points: [{ year: 2020, value: 90 }, ...PPI.points] });
+
+    expect(rates.map(r => r.year)).toEqual([2023, 2024, 2025, 2026]);
+    expect(rates[0]?.ratePercent).toBeCloseTo(6, 10);
+    expect(rates[1]?.ratePercent).toBeCloseTo(4, 10);
+  });
+});
+
+describe('Rate rebase', () => {
+  it('should rebase rates from the year they are priced in to the rate base year', () => {
+    const inputs = withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2022 } });
+    const factor = getRateRebaseFactor(inputs);
+    const base = calculateDirectWorksCosts(createDefaultInputState(), calculateDerivedQuantities(inputs));
+    const rebased = calculateDirectWorksCosts(inputs, calculateDerivedQuantities(inputs));
+
+    expect(factor).toBeCloseTo(1.172, 10);
+    rebased.forEach((item, i) => {
+      expect(item.unitRate).toBeCloseTo((base[i]?.unitRate ?? 0) * 1.172, 6);
+    });
+    expect(calculateClosureCosts(inputs).totalNominalCost).toBeCloseTo(calculateClosureCosts(createDefaultInputState()).totalNominalCost * 1.172, 2);
+  });
+
+  it('should use rates as entered when not rebasing or the index lacks a year', () => {
+    expect(getRateRebaseFactor(withPpi())).toBe(1);
+    expect(getRateRebaseFactor(withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2015 } }))).toBeNull();
+
+    const missing = withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2015 } });
+    expect(calculateClosureCosts(missing).totalNominalCost).toBe(calculateClosureCosts(createDefaultInputState()).totalNominalCost);
+  });
+
+  it('should report the rebase factor in the results, null when the index lacks a year', () => {
+    expect(calculateClosureCosts(createDefaultInputState()).rateRebaseFactor).toBe(1);
+    expect(calculateClosureCosts(withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2022 } })).rateRebaseFactor).toBeCloseTo(1.172, 10);
+    expect(calculateClosureCosts(withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2015 } })).rateRebaseFactor).toBeNull();
+  });
+
+  it('should not rebase custom items, which are entered in rate base year money', () => {
+    const custom = { ...createCustomLineItem([]), unitRate: 250000 };
+    const inputs = withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2022 }, customLineItems: [custom] });
+    const items = calculateDirectWorksCosts(inputs, calculateDerivedQuantities(inputs));
+    const unrebased = calculateDirectWorksCosts({ ...inputs, rateRebase: DEFAULT_RATE_REBASE }, calculateDerivedQuantities(inputs));
+    const customItem = (list: typeof items) => list.find(i => i.id === `custom.${custom.id}`);
+
+    expect(customItem(items)?.subtotal).toBeGreaterThan(0);
+    expect(customItem(items)?.subtotal).toBe(customItem(unrebased)?.subtotal);
+  });
+});
+
+describe('Escalation from a cost index', () => {
+  const linked = (): InputState => {
+    const inputs = withPpi();
+    return {
+      ...inputs,
+      escalation: {
+        ...inputs.escalation,
+        enabled: true,
+        indices: { ...inputs.escalation.indices, materials: { ratePercent: 3, series: [], costIndexId: 'ppi' } },
+      },
+    };
+  };
+
+  it('should escalate by the index levels in its years and the long-term rate after', () => {
+    const index = getCategoryEscalationIndex(linked(), CostCategory.WaterTreatmentCapex);
+
+    expect(getEscalationFactor(index, 2022, 2026)).toBeCloseTo(1.172, 10);
+    expect(getEscalationFactor(index, 2024, 2028)).toBeCloseTo((117.2 / 110.24) * 1.03 * 1.03, 10);
+  });
+
+  it('should unlink the rebase and escalation indices when the series is removed', () => {
+    const inputs = removeCostIndex({ ...linked(), rateRebase: { costIndexId: 'ppi', ratesYear: 2022 } }, 'ppi');
+
+    expect(inputs.costIndices).toEqual([]);
+    expect(inputs.rateRebase.costIndexId).toBeNull();
+    expect(inputs.escalation.indices.materials).toEqual({ ratePercent: 3, series: [] });
+  });
+});
+
+describe('CostIndexSeriesSchema', () => {
+  it('should default to no indices and validate a scenario holding them', () => {
+    expect(normalizeInputState({}).costIndices).toEqual([]);
+    expect(normalizeInputState({}).rateRebase).toEqual(DEFAULT_RATE_REBASE);
+    expect(InputStateSchema.safeParse(withPpi({ rateRebase: { costIndexId: 'ppi', ratesYear: 2022 } })).success).toBe(true);
+  });
+
+  it('should reject unordered years and non-positive values', () => {
+    expect(CostIndexSeriesSchema.safeParse({ ...PPI, points: [...PPI.points].reverse() }).success).toBe(false);
+    expect(CostIndexSeriesSchema.safeParse({ ...PPI, points: [{ year: 2024, value: 0 }] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Mine Closure Costing - Cost Indices
+ *
+ * Published cost index series - producer price indices, construction cost
+ * indices - imported from CSV and saved with the scenario. A series can rebase
+ * unit rates priced in an earlier year to the rate base year, and can supply
+ * an escalation index's year-by-year rates from its year-on-year changes:
+ *
+ *   rebase factor = index(rate base year) / index(rates year)
+ *   escalation_y  = index(y) / index(y - 1) - 1
+ *
+ * @module costIndices
+ */
+
+import type {
+  CostIndexPoint,
+  CostIndexSeries,
+  EscalationIndex,
+  EscalationSettings,
+  EscalationYearRate,
+  InputState,
+  LineItemCost,
+} from './types';
+
+/** Cost index series as read from a file, before it is given an id */
+export type ParsedCostIndex = Omit<CostIndexSeries, 'id'>;
+
+/** Split a CSV line on the delimiter, honouring double-quoted fields */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse cost index series from CSV - a year column followed by one column per
+ * series. An optional header row names the series; without one a single
+ * series takes the default name. Blank cells are skipped.
+ *
+ * @param csv - File contents (comma, semicolon or tab delimited)
+ * @param defaultName - Series name when the file has no header row
+ * @returns Parsed series
+ * @throws Error describing the first problem found
+ */
+export function parseCostIndexCsv(csv: string, defaultName: string): ParsedCostIndex[] {
+  const lines = csv
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const firstLine = lines[0];
+  if (firstLine === undefined) throw new Error('The file is empty');
+
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(';') ? ';' : ',';
+  const rows = lines.map((line) => splitCsvLine(line, delimiter));
+  const hasHeader = !/^\d{4}$/.test(rows[0]?.[0] ?? '');
+  const header = hasHeader ? (rows[0] ?? []) : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = Math.max(...rows.map((row) => row.length));
+
+  if (columnCount < 2) throw new Error('Expected a year column and at least one index column');
+  if (dataRows.length === 0) throw new Error('The file has no index values');
+
+  const columns: CostIndexPoint[][] = Array.from({ length: columnCount - 1 }, () => []);
+  const years = new Set<number>();
+  dataRows.forEach((row, r) => {
+    const lineNumber = r + (hasHeader ? 2 : 1);
+    const yearCell = row[0] ?? '';
+    if (!/^\d{4}$/.test(yearCell)) {
+      throw new Error(`Line ${lineNumber}: "${yearCell}" is not a year`);
+    }
+    const year = Number(yearCell);
+    if (years.has(year)) throw new Error(`Line ${lineNumber}: ${year} appears more than once`);
+    years.add(year);
+
+    row.slice(1).forEach((cell, c) => {
+      if (cell === '') return;
+      const value = Number(cell.replace(/,/g, ''));
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`Line ${lineNumber}: "${cell}" is not a positive index value`);
+      }
+      columns[c]?.push({ year, value });
+    });
+  });
+
+  return columns.flatMap((points, c) => {
+    if (points.length === 0) return [];
+    const name = header[c + 1] || (columnCount === 2 ? defaultName : `${defaultName} ${c + 1}`);
+    return [{ name, points: [...points].sort((a, b) => a.year - b.year) }];
+  });
+}
+
+/**
+ * Index level in a year.
+ *
+ * @returns Value, or null when the series has no value for the year
+ */
+export function getCostIndexValue(series: CostIndexSeries, year: number): number | null {
+  return series.points.find((p) => p.year === year)?.value ?? null;
+}
+
+/**
+ * Year-on-year escalation rates of a series, for each year that follows a
+ * year with a value.
+ */
+export function getCostIndexRates(series: CostIndexSeries): EscalationYearRate[] {
+  return series.points.flatMap((point, i) => {
+    const previous = series.points[i - 1];
+    return previous && previous.year === point.year - 1
+      ? [{ year: point.year, ratePercent: (point.value / previous.value - 1) * 100 }]
+      : [];
+  });
+}
+
+/**
+ * Escalation index with its year-by-year rates taken from its linked cost
+ * index, if it has one.
+ */
+export function resolveEscalationIndex(
+  index: EscalationIndex,
+  costIndices: readonly CostIndexSeries[]
+): EscalationIndex {
+  const series = index.costIndexId && costIndices.find((s) => s.id === index.costIndexId);
+  return series ? { ...index, series: getCostIndexRates(series) } : index;
+}
+
+/**
+ * Factor rebasing the unit rates from the year they are priced in to the
+ * rate base year.
+ *
+ * @param inputs - Input state
+ * @returns Factor (1 when not rebasing), or null when the index has no value for either year
+ */
+export function getRateRebaseFactor(inputs: InputState): number | null {
+  const { costIndexId, ratesYear } = inputs.rateRebase;
+  if (costIndexId === null) return 1;
+
+  const series = inputs.costIndices.find((s) => s.id === costIndexId);
+  if (!series) return null;
+  const from = getCostIndexValue(series, ratesYear);
+  const to = getCostIndexValue(series, inputs.financialParams.rateBaseYear);
+  return from !== null && to !== null ? to / from : null;
+}
+
+/**
+ * Rebase a direct works item's rate and cost to the rate base year.
+ */
+export function rebaseLineItem(item: LineItemCost, factor: number): LineItemCost {
+  if (factor === 1) return item;
+  return { ...item, unitRate: item.unitRate * factor, subtotal: item.subtotal * factor };
+}
+
+/**
+ * Remove a cost index from a scenario, unlinking the rebase and any
+ * escalation indices that used it.
+ *
+ * @param inputs - Input state
+ * @param id - Cost index id
+ * @returns Input state without the cost index
+ */
+export function removeCostIndex(inputs: InputState, id: string): InputState {
+  const unlink = (index: EscalationIndex): EscalationIndex => {
+    if (index.costIndexId !== id) return index;
+    const { costIndexId: _costIndexId, ...rest } = index;
+    void _costIndexId;
+    return rest;
+  };
+  const { indices } = inputs.escalation;
+
+  return {
+    ...inputs,
+    costIndices: inputs.costIndices.filter((s) => s.id !== id),
+    rateRebase:
+      inputs.rateRebase.costIndexId === id
+        ? { ...inputs.rateRebase, costIndexId: null }
+        : inputs.rateRebase,
+    escalation: {
+      ...inputs.escalation,
+      indices: Object.fromEntries(
+        Object.entries(indices).map(([key, index]) => [key, unlink(index)])
+      ) as EscalationSettings['indices'],
+    },
+  };
+}
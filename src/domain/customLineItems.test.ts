@@ -0,0 +1,134 @@
+/**
+ * Unit tests for Custom Line Items
+ *
+ * Tests cover:
+ * - Adding custom items with unique ids
+ * - Custom items as direct works line items
+ * - Indirect costs and breakdowns including custom items
+ * - Custom item spend profiles in cashflows
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CUSTOM_LINE_ITEM_CATEGORIES, createCustomLineItem } from './customLineItems';
+import { calculateClosureCosts } from './calcEngine';
+import { createDefaultInputState, normalizeInputState } from './defaults';
+import { CustomLineItemsSchema } from './validation';
+import type { CustomLineItem, InputState } from './types';
+import { ClosurePhase, CostCategory } from './types';
+
+describe('createCustomLineItem', () => {
+  it('should give each new item the next free id', () => {
+    const first = createCustomLineItem([]);
+    const second = createCustomLineItem([first]);
+
+    expect(first.id).toBe('custom-1');
+    expect(second.id).toBe('custom-2');
+    expect(createCustomLineItem([second]).id).toBe('custom-1');
+  });
+
+  it('should offer only direct works categories', () => {
+    expect(CUSTOM_LINE_ITEM_CATEGORIES).toContain(CostCategory.Demolition);
+    expect(CUSTOM_LINE_ITEM_CATEGORIES).not.toContain(CostCategory.Contingency);
+    expect(CUSTOM_LINE_ITEM_CATEGORIES).not.toContain(CostCategory.SiteEstablishment);
+  });
+});
+
+describe('Custom line items in the estimate', () => {
+  let inputs: InputState;
+  let conveyor: CustomLineItem;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+    conveyor = {
+      id: 'custom-1',
+      description: 'Overland conveyor removal',
+      category: CostCategory.Demolition,
+      phase: ClosurePhase.DecommissioningDemolition,
+      quantity: 4.5,
+      unit: 'km',
+      unitRate: 400000,
+    };
+  });
+
+  it('should default to no custom items, including for older scenarios', () => {
+    expect(inputs.customLineItems).toEqual([]);
+
+    const { customLineItems: _customLineItems, ...saved } = inputs;
+    void _customLineItems;
+    expect(normalizeInputState(saved).customLineItems).toEqual([]);
+  });
+
+  it('should cost a custom item as quantity times unit rate', () => {
+    const results = calculateClosureCosts({ ...inputs, customLineItems: [conveyor] });
+    const item = results.lineItems.find(i => i.description === conveyor.description);
+
+    expect(item?.subtotal).toBe(4.5 * 400000);
+    expect(item?.category).toBe(CostCategory.Demolition);
+    expect(item?.phase).toBe(ClosurePhase.DecommissioningDemolition);
+    expect(item?.unit).toBe('km');
+  });
+
+  it('should add to direct works and carry indirect costs', () => {
+    const base = calculateClosureCosts(inputs);
+    const withItem = calculateClosureCosts({ ...inputs, customLineItems: [conveyor] });
+
+    expect(withItem.directWorksCost - base.directWorksCost).toBeCloseTo(1800000, 4);
+    expect(withItem.indirectCosts).toBeGreaterThan(base.indirectCosts);
+    expect(withItem.totalNominalCost - base.totalNominalCost).toBeGreaterThan(1800000);
+  });
+
+  it('should appear in the category breakdown and site-wide domain costs', () => {
+    const base = calculateClosureCosts(inputs);
+    const withItem = calculateClosureCosts({ ...inputs, customLineItems: [conveyor] });
+    const demolition = (r: typeof base) =>
+      r.categoryBreakdown.find(c => c.category === CostCategory.Demolition)?.totalCost ?? 0;
+    const siteWide = (r: typeof base) => r.domainBreakdown.find(d => d.domainId === null)?.totalCost ?? 0;
+
+    expect(demolition(withItem) - demolition(base)).toBeCloseTo(1800000, 4);
+    expect(siteWide(withItem)).toBeGreaterThan(siteWide(base));
+  });
+
+  it('should omit items with no quantity', () => {
+    const results = calculateClosureCosts({ ...inputs, customLineItems: [{ ...conveyor, quantity: 0 }] });
+
+    expect(results.lineItems.some(i => i.description === conveyor.description)).toBe(false);
+  });
+
+  it('should spend the item on its own spend profile', () => {
+    const scenario: InputState = {
+      ...inputs,
+      phaseDurations: { ...inputs.phaseDurations, [ClosurePhase.EarthworksLandform]: 3 },
+    };
+    const item: CustomLineItem = {
+      ...conveyor,
+      phase: ClosurePhase.EarthworksLandform,
+      spendProfile: { type: 'lump_sum_end' },
+    };
+    const base = calculateClosureCosts(scenario);
+    const withItem = calculateClosureCosts({ ...scenario, customLineItems: [item] });
+    const timing = base.phaseTimings.find(t => t.phase === ClosurePhase.EarthworksLandform);
+    const earthworksIn = (r: typeof base, year: number) =>
+      r.annualCashflows[year]?.phaseBreakdown[ClosurePhase.EarthworksLandform] ?? 0;
+
+    const start = timing?.startYear ?? 0;
+    expect(earthworksIn(withItem, start) - earthworksIn(base, start)).toBeCloseTo(0, 4);
+    expect(earthworksIn(withItem, start + 2) - earthworksIn(base, start + 2)).toBeCloseTo(1800000, 4);
+  });
+});
+
+describe('CustomLineItemsSchema', () => {
+  const item = createCustomLineItem([]);
+
+  it('should validate a new custom item', () => {
+    expect(CustomLineItemsSchema.safeParse([item]).success).toBe(true);
+  });
+
+  it('should reject indirect categories', () => {
+    expect(CustomLineItemsSchema.safeParse([{ ...item, category: CostCategory.Contingency }]).success).toBe(false);
+  });
+
+  it('should reject duplicate ids and negative rates', () => {
+    expect(CustomLineItemsSchema.safeParse([item, { ...item }]).success).toBe(false);
+    expect(CustomLineItemsSchema.safeParse([{ ...item, unitRate: -1 }]).success).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Mine Closure Costing - Custom Line Items
+ *
+ * User-defined direct works items for site-specific costs - a conveyor, a rail
+ * siding, a power line - that the built-in items do not cover. Custom items are
+ * costed as quantity × unit rate and flow through indirects, cashflows and
+ * breakdowns like any other direct works item.
+ *
+ * @module customLineItems
+ */
+
+import type { CustomLineItem, LineItemCost } from './types';
+import { ClosurePhase, CostCategory } from './types';
+
+/** Categories calculated as a percentage of the direct works, which cannot hold custom items */
+const CALCULATED_CATEGORIES: readonly CostCategory[] = [
+  CostCategory.SiteEstablishment,
+  CostCategory.ContractorMargin,
+  CostCategory.Contingency,
+  CostCategory.RiskUplift,
+  CostCategory.OwnersCosts,
+];
+
+/** Direct works categories a custom item can be assigned to */
+export const CUSTOM_LINE_ITEM_CATEGORIES: readonly CostCategory[] = Object.values(
+  CostCategory
+).filter((category) => !CALCULATED_CATEGORIES.includes(category));
+
+/**
+ * Create a new custom item with a unique id, costed as a lump sum.
+ *
+ * @param existing - Custom items already in the scenario
+ */
+export function createCustomLineItem(existing: readonly CustomLineItem[]): CustomLineItem {
+  const ids = new Set(existing.map((item) => item.id));
+  let n = 1;
+  while (ids.has(`custom-${n}`)) n++;
+
+  return {
+    id: `custom-${n}`,
+    description: `Custom item ${n}`,
+    category: CostCategory.Demolition,
+    phase: ClosurePhase.DecommissioningDemolition,
+    quantity: 1,
+    unit: 'lump sum',
+    unitRate: 0,
+  };
+}
+
+/** Prefix of custom item line item ids - custom.custom-1 */
+export const CUSTOM_LINE_ITEM_ID_PREFIX = 'custom';
+
+/**
+ * Line item cost for a custom item.
+ */
+export function customLineItemCost(item: CustomLineItem): LineItemCost {
+  return {
+    id: `${CUSTOM_LINE_ITEM_ID_PREFIX}.${item.id}`,
+    category: item.category,
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    unitRate: item.unitRate,
+    subtotal: item.quantity * item.unitRate,
+    phase: item.phase,
+    ...(item.spendProfile && { spendProfile: item.spendProfile }),
+  };
+}
@@ -8,14 +8,27 @@
 import type {
   InputState,
   DirectWorksQuantities,
+  SiteDomain,
   UnitRates,
   IndirectCostRates,
   RiskFactors,
+  LocationSettings,
   FinancialParams,
+  EscalationSettings,
+  RateRebaseSettings,
   PhaseDurations,
+  PhaseSchedule,
+  SpendProfileSettings,
+  PerpetualTreatmentSettings,
+  SimulationSettings,
   CurrencyConfig,
 } from './types';
-import { ClosurePhase } from './types';
+import { ClosurePhase, CostCategory } from './types';
+import { DEFAULT_WATER_TREATMENT_TECHNOLOGY, getWaterTreatmentRates } from './waterTreatment';
+import { legacySiteDomains, type LegacyDomainQuantities } from './siteDomains';
+import { applyRateBuildUps } from './rateBuildUp';
+import { DEFAULT_COST_REGION, getRegionFactors } from './location';
+import { DEFAULT_CATEGORY_ESCALATION_INDICES, DEFAULT_ESCALATION_INDICES } from './escalation';
 
 /** Default currency configuration (AUD) */
 export const DEFAULT_CURRENCY: CurrencyConfig = {
@@ -27,10 +40,6 @@ export const DEFAULT_CURRENCY: CurrencyConfig = {
 /** Default direct works quantities */
 export const DEFAULT_QUANTITIES: DirectWorksQuantities = {
   disturbedAreaHa: 500,
-  tsfAreaHa: 100,
-  tsfCoverThicknessM: 0.5,
-  wrdFootprintHa: 200,
-  wrdReshapingDepthM: 1.0,
   earthworksVolumeM3Override: null,
   topsoilThicknessM: 0.15,
   recontouringAreaHa: 300,
@@ -38,14 +47,43 @@ export const DEFAULT_QUANTITIES: DirectWorksQuantities = {
   numberOfBuildings: 15,
   waterTreatmentFlowMLPerDay: 2,
   waterTreatmentDurationYears: 10,
-  waterTreatmentIntensityFactor: 1.0,
+  waterTreatmentTechnology: DEFAULT_WATER_TREATMENT_TECHNOLOGY,
   monitoringDurationYears: 15,
   monitoringIntensity: 'medium',
   hazardousMaterialsEnabled: false,
   hazardousMaterialsAreaHa: 0,
   communityHeritageEnabled: true,
+  shaftCount: 0,
+  shaftDiameterM: 5,
+  raiseCount: 0,
+  raiseDiameterM: 3,
+  portalCount: 0,
+  declineBackfillLengthM: 0,
+  declineCrossSectionM2: 30,
+  ventilationSiteCount: 0,
+  subsidenceMonitoringYears: 0,
 };
 
+/** Default site domain register - one TSF and one WRD */
+export const DEFAULT_SITE_DOMAINS: readonly SiteDomain[] = [
+  {
+    id: 'tsf-1',
+    name: 'TSF 1',
+    type: 'tsf',
+    areaHa: 100,
+    coverThicknessM: 0.5,
+    reshapingDepthM: 0,
+  },
+  {
+    id: 'wrd-1',
+    name: 'WRD 1',
+    type: 'wrd',
+    areaHa: 200,
+    coverThicknessM: 0,
+    reshapingDepthM: 1.0,
+  },
+];
+
 /** Default unit rates (AUD, 2024 basis) */
 export const DEFAULT_UNIT_RATES: UnitRates = {
   // Earthworks
@@ -64,9 +102,28 @@ export const DEFAULT_UNIT_RATES: UnitRates = {
   // Roads
   roadRehabPerKm: 50000,
 
+  // Pit voids
+  abandonmentBundPerM: 150,
+  pitBackfillPerM3: 6,
+  pitWallStabilisationPerHa: 60000,
+  pitLakeManagementPerHa: 5000,
+  safetyFencingPerM: 45,
+
+  // Infrastructure areas
+  infrastructureRehabPerHa: 10000,
+
+  // Underground workings
+  shaftCappingPerM2: 12000,
+  portalSealingPerPortal: 250000,
+  declineBackfillPerM3: 20,
+  ventilationRemovalPerSite: 150000,
+  subsidenceMonitoringPerYear: 60000,
+
   // Water treatment
-  waterTreatmentCapex: 5000000,
-  waterTreatmentOpexPerML: 500,
+  ...getWaterTreatmentRates(DEFAULT_WATER_TREATMENT_TECHNOLOGY),
+  waterTreatmentRefurbishmentPercent: 30,
+  waterTreatmentReplacementPercent: 100,
+  electricityPerKWh: 0.25,
 
   // Monitoring
   monitoringPerYearLow: 200000,
@@ -99,17 +156,38 @@ export const DEFAULT_RISK_FACTORS: RiskFactors = {
   geotechUncertainty: 25,
   waterQualityUncertainty: 35,
   regulatoryUncertainty: 20,
-  logisticsComplexity: 25,
+};
+
+/** Default site location - metropolitan, so base unit rates apply unadjusted */
+export const DEFAULT_LOCATION: LocationSettings = {
+  region: DEFAULT_COST_REGION,
+  ...getRegionFactors(DEFAULT_COST_REGION),
+  labourCostPerPersonDay: 1200,
 };
 
 /** Default financial parameters */
 export const DEFAULT_FINANCIAL_PARAMS: FinancialParams = {
   closureStartYear: 2026,
+  valuationYear: 2026,
+  rateBaseYear: 2026,
   escalationRatePercent: 3.0,
   discountRatePercent: 7.0,
   discountRateMode: 'real',
 };
 
+/** Default category escalation - off, so all costs escalate at the general rate */
+export const DEFAULT_ESCALATION: EscalationSettings = {
+  enabled: false,
+  indices: DEFAULT_ESCALATION_INDICES,
+  categoryIndices: DEFAULT_CATEGORY_ESCALATION_INDICES,
+};
+
+/** Default rate rebase - rates used as entered */
+export const DEFAULT_RATE_REBASE: RateRebaseSettings = {
+  costIndexId: null,
+  ratesYear: DEFAULT_FINANCIAL_PARAMS.rateBaseYear,
+};
+
 /** Default phase durations (years) */
 export const DEFAULT_PHASE_DURATIONS: PhaseDurations = {
   [ClosurePhase.PlanningApprovals]: 2,
@@ -122,14 +200,88 @@ export const DEFAULT_PHASE_DURATIONS: PhaseDurations = {
   [ClosurePhase.RelinquishmentPostClosure]: 2,
 };
 
+/**
+ * Default phase dependencies.
+ * Earthworks, TSF/WRD rehabilitation and water management follow decommissioning
+ * in parallel; revegetation follows the landform works, then monitoring;
+ * relinquishment waits for both monitoring and water management.
+ */
+export const DEFAULT_PHASE_SCHEDULE: PhaseSchedule = {
+  [ClosurePhase.PlanningApprovals]: [],
+  [ClosurePhase.DecommissioningDemolition]: [
+    { phase: ClosurePhase.PlanningApprovals, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.EarthworksLandform]: [
+    { phase: ClosurePhase.DecommissioningDemolition, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.TailingsWRDRehabilitation]: [
+    { phase: ClosurePhase.DecommissioningDemolition, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.WaterManagement]: [
+    { phase: ClosurePhase.DecommissioningDemolition, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.RevegetationEcosystem]: [
+    { phase: ClosurePhase.EarthworksLandform, type: 'finish_to_start', lagYears: 0 },
+    { phase: ClosurePhase.TailingsWRDRehabilitation, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.MonitoringMaintenance]: [
+    { phase: ClosurePhase.RevegetationEcosystem, type: 'finish_to_start', lagYears: 0 },
+  ],
+  [ClosurePhase.RelinquishmentPostClosure]: [
+    { phase: ClosurePhase.MonitoringMaintenance, type: 'finish_to_start', lagYears: 0 },
+    { phase: ClosurePhase.WaterManagement, type: 'finish_to_start', lagYears: 0 },
+  ],
+};
+
+/** Default spend profiles - treatment plant capex is spent up front, everything else evenly */
+export const DEFAULT_SPEND_PROFILES: SpendProfileSettings = {
+  categories: {
+    [CostCategory.WaterTreatmentCapex]: { type: 'lump_sum_start' },
+  },
+  lineItems: {},
+};
+
+/** Default Monte Carlo simulation settings (disabled, no distributions) */
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  enabled: false,
+  iterations: 1000,
+  seed: 12345,
+  distributions: {
+    quantities: {},
+    unitRates: {},
+    indirectRates: {},
+    siteDomains: {},
+  },
+};
+
+/** Default ongoing water treatment - off, valued as a perpetuity when enabled */
+export const DEFAULT_PERPETUAL_TREATMENT: PerpetualTreatmentSettings = {
+  enabled: false,
+  mode: 'perpetuity',
+  termYears: 100,
+};
+
 /** Complete default input state */
 export const DEFAULT_INPUT_STATE: InputState = {
   quantities: DEFAULT_QUANTITIES,
+  siteDomains: DEFAULT_SITE_DOMAINS,
+  customLineItems: [],
+  location: DEFAULT_LOCATION,
   unitRates: DEFAULT_UNIT_RATES,
+  rateSource: null,
+  rateBuildUps: {},
+  scaleCurves: {},
   indirectRates: DEFAULT_INDIRECT_RATES,
   riskFactors: DEFAULT_RISK_FACTORS,
   financialParams: DEFAULT_FINANCIAL_PARAMS,
+  escalation: DEFAULT_ESCALATION,
+  costIndices: [],
+  rateRebase: DEFAULT_RATE_REBASE,
   phaseDurations: DEFAULT_PHASE_DURATIONS,
+  phaseSchedule: DEFAULT_PHASE_SCHEDULE,
+  spendProfiles: DEFAULT_SPEND_PROFILES,
+  perpetualTreatment: DEFAULT_PERPETUAL_TREATMENT,
+  simulation: DEFAULT_SIMULATION_SETTINGS,
   scenarioName: 'Default Scenario',
 };
 
@@ -139,3 +291,69 @@ export const DEFAULT_INPUT_STATE: InputState = {
 export function createDefaultInputState(): InputState {
   return structuredClone(DEFAULT_INPUT_STATE);
 }
+
+
+/**
+ * Fill in any input groups or fields missing from a stored or imported scenario.
+ * Scenarios saved by earlier versions of the tool lack newer inputs; these take
+ * their default values so the calculation engine always sees a complete state.
+ */
+export function normalizeInputState(inputs: Partial<InputState>): InputState {
+  const defaults = createDefaultInputState();
+  const simulation: Partial<SimulationSettings> = inputs.simulation ?? {};
+  const spendProfiles: Partial<SpendProfileSettings> = inputs.spendProfiles ?? {};
+  // Scenarios saved before valuation and rate base years existed valued and
+  // escalated from closure start; keep their results unchanged
+  const closureStartYear =
+    inputs.financialParams?.closureStartYear ?? defaults.financialParams.closureStartYear;
+  // Scenarios saved before the domain register held a single TSF and WRD
+  const { tsfAreaHa, tsfCoverThicknessM, wrdFootprintHa, wrdReshapingDepthM, ...quantities } =
+    (inputs.quantities ?? {}) as Partial<DirectWorksQuantities> & LegacyDomainQuantities;
+  const siteDomains =
+    inputs.siteDomains ??
+    legacySiteDomains({ tsfAreaHa, tsfCoverThicknessM, wrdFootprintHa, wrdReshapingDepthM }) ??
+    defaults.siteDomains;
+  // Remote logistics were a risk factor before the location model replaced them
+  const { logisticsComplexity: _logisticsComplexity, ...riskFactors } = (inputs.riskFactors ??
+    {}) as Partial<RiskFactors> & { logisticsComplexity?: number };
+  void _logisticsComplexity;
+
+  return {
+    ...defaults,
+    ...inputs,
+    quantities: { ...defaults.quantities, ...quantities },
+    siteDomains,
+    // Built-up rates are recalculated so they always match their build-ups
+    unitRates: applyRateBuildUps(
+      { ...defaults.unitRates, ...inputs.unitRates },
+      inputs.rateBuildUps ?? {}
+    ),
+    indirectRates: { ...defaults.indirectRates, ...inputs.indirectRates },
+    location: { ...defaults.location, ...inputs.location },
+    riskFactors: { ...defaults.riskFactors, ...riskFactors },
+    financialParams: {
+      ...defaults.financialParams,
+      valuationYear: closureStartYear,
+      rateBaseYear: closureStartYear,
+      ...inputs.financialParams,
+    },
+    escalation: {
+      ...defaults.escalation,
+      ...inputs.escalation,
+      indices: { ...defaults.escalation.indices, ...inputs.escalation?.indices },
+    },
+    rateRebase: { ...defaults.rateRebase, ...inputs.rateRebase },
+    phaseDurations: { ...defaults.phaseDurations, ...inputs.phaseDurations },
+    phaseSchedule: { ...defaults.phaseSchedule, ...inputs.phaseSchedule },
+    spendProfiles: {
+      categories: { ...defaults.spendProfiles.categories, ...spendProfiles.categories },
+      lineItems: { ...defaults.spendProfiles.lineItems, ...spendProfiles.lineItems },
+    },
+    perpetualTreatment: { ...defaults.perpetualTreatment, ...inputs.perpetualTreatment },
+    simulation: {
+      ...defaults.simulation,
+      ...simulation,
+      distributions: { ...defaults.simulation.distributions, ...simulation.distributions },
+    },
+  };
+}
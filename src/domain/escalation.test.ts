@@ -0,0 +1,162 @@
+/**
+ * Unit tests for Escalation
+ *
+ * Tests cover:
+ * - Index escalation from a long-term rate and year-by-year rates
+ * - Category index assignment
+ * - Escalated and discounted cashflows by category
+ * - Ongoing treatment escalating above general inflation
+ * - Escalation validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ESCALATION_INDICES,
+  getCategoryEscalationIndex,
+  getEscalationFactor,
+} from './escalation';
+import { calculateClosureCosts, realToNominalRate } from './calcEngine';
+import { DEFAULT_ESCALATION, createDefaultInputState, normalizeInputState } from './defaults';
+import { EscalationSettingsSchema, InputStateSchema } from './validation';
+import { CostCategory } from './types';
+import type { EscalationIndex, EscalationSettings, InputState } from './types';
+
+/** Default inputs with category escalation, each index at the given rate */
+const withIndices = (ratePercent: number, overrides: Partial<EscalationSettings> = {}): InputState => {
+  const inputs = createDefaultInputState();
+  const index: EscalationIndex = { ratePercent, series: [] };
+  return {
+    ...inputs,
+    escalation: {
+      ...inputs.escalation,
+      enabled: true,
+      indices: { labour: index, plant_fuel: index, materials: index, professional_services: index },
+      ...overrides,
+    },
+  };
+};
+
+describe('getEscalationFactor', () => {
+  it('should compound the long-term rate from the base year', () => {
+    const index: EscalationIndex = { ratePercent: 4, series: [] };
+
+    expect(getEscalationFactor(index, 2026, 2036)).toBeCloseTo(Math.pow(1.04, 10), 10);
+    expect(getEscalationFactor(index, 2026, 2026)).toBe(1);
+    expect(getEscalationFactor(index, 2026, 2024)).toBeCloseTo(1 / Math.pow(1.04, 2), 10);
+  });
+
+  it('should use series rates in their years and the long-term rate otherwise', () => {
+    const index: EscalationIndex = { ratePercent: 3, series: [{ year: 2027, ratePercent: 10 }, { year: 2028, ratePercent: -2 }] };
+
+    expect(getEscalationFactor(index, 2026, 2027)).toBeCloseTo(1.1, 10);
+    expect(getEscalationFactor(index, 2026, 2029)).toBeCloseTo(1.1 * 0.98 * 1.03, 10);
+    expect(getEscalationFactor(index, 2028, 2026)).toBeCloseTo(1 / (1.1 * 0.98), 10);
+  });
+});
+
+describe('Category indices', () => {
+  it('should escalate every category at the general rate when off', () => {
+    const inputs = createDefaultInputState();
+
+    expect(inputs.escalation.enabled).toBe(false);
+    expect(getCategoryEscalationIndex(inputs, CostCategory.Earthworks).ratePercent).toBe(inputs.financialParams.escalationRatePercent);
+  });
+
+  it('should escalate assigned categories by their index and others at the general rate', () => {
+    const inputs = { ...createDefaultInputState(), escalation: { ...DEFAULT_ESCALATION, enabled: true } };
+
+    expect(getCategoryEscalationIndex(inputs, CostCategory.Earthworks)).toEqual(DEFAULT_ESCALATION_INDICES.plant_fuel);
+    expect(getCategoryEscalationIndex(inputs, CostCategory.Monitoring)).toEqual(DEFAULT_ESCALATION_INDICES.labour);
+    expect(getCategoryEscalationIndex(inputs, CostCategory.Contingency).ratePercent).toBe(inputs.financialParams.escalationRatePercent);
+  });
+});
+
+describe('Escalated cashflows', () => {
+  const general = createDefaultInputState().financialParams.escalationRatePercent;
+
+  it('should match the general rate when every index equals it', () => {
+    const base = calculateClosureCosts(createDefaultInputState());
+    const indexed = calculateClosureCosts(withIndices(general));
+
+    indexed.annualCashflows.forEach((cf, i) => {
+      expect(cf.escalatedCost).toBeCloseTo(base.annualCashflows[i]?.escalatedCost ?? 0, 4);
+    });
+    expect(indexed.totalDiscountedCost).toBeCloseTo(base.totalDiscountedCost, 4);
+  });
+
+  it('should escalate a category by its own index', () => {
+    const monitoringOnly = (ratePercent: number): InputState =>
+      withIndices(general, {
+        indices: { ...withIndices(general).escalation.indices, labour: { ratePercent, series: [] } },
+        categoryIndices: { [CostCategory.Monitoring]: 'labour' },
+      });
+    const base = calculateClosureCosts(monitoringOnly(general));
+    const labourHigh = calculateClosureCosts(monitoringOnly(general + 3));
+    const totalEscalated = (results: typeof base) => results.annualCashflows.reduce((sum, cf) => sum + cf.escalatedCost, 0);
+
+    expect(labourHigh.totalNominalCost).toBe(base.totalNominalCost);
+    expect(totalEscalated(labourHigh)).toBeGreaterThan(totalEscalated(base));
+    expect(labourHigh.annualCashflows[0]?.escalatedCost).toBeCloseTo(base.annualCashflows[0]?.escalatedCost ?? 0, 6);
+  });
+
+  it('should carry escalation above general inflation into the real NPV', () => {
+    const base = calculateClosureCosts(withIndices(general));
+    const higher = calculateClosureCosts(withIndices(general + 2));
+
+    expect(higher.totalDiscountedCost).toBeGreaterThan(base.totalDiscountedCost);
+  });
+
+  it('should give the same NPV in both modes with Fisher-equivalent rates', () => {
+    const inputs = withIndices(general + 2);
+    const real = calculateClosureCosts({ ...inputs, financialParams: { ...inputs.financialParams, closureStartYear: 2035, discountRateMode: 'real', discountRatePercent: 5 } });
+    const nominal = calculateClosureCosts({
+      ...inputs,
+      financialParams: {
+        ...inputs.financialParams,
+        closureStartYear: 2035,
+        discountRateMode: 'nominal',
+        discountRatePercent: realToNominalRate(0.05, general / 100) * 100,
+      },
+    });
+
+    expect(nominal.totalDiscountedCost).toBeCloseTo(real.totalDiscountedCost, 0);
+  });
+});
+
+describe('Ongoing treatment escalation', () => {
+  const perpetual = (inputs: InputState): InputState => ({
+    ...inputs,
+    perpetualTreatment: { ...inputs.perpetualTreatment, enabled: true },
+  });
+  const general = createDefaultInputState().financialParams.escalationRatePercent;
+
+  it('should grow treatment costs escalating above general inflation', () => {
+    const base = calculateClosureCosts(perpetual(withIndices(general))).perpetualTreatment;
+    const higher = calculateClosureCosts(perpetual(withIndices(general + 1))).perpetualTreatment;
+
+    expect(base?.realOpexEscalationPercent).toBeCloseTo(0, 10);
+    expect(higher?.realOpexEscalationPercent).toBeCloseTo(((1 + (general + 1) / 100) / (1 + general / 100) - 1) * 100, 10);
+    expect(higher?.opexPresentValue).toBeGreaterThan(base?.opexPresentValue ?? 0);
+  });
+
+  it('should have no finite perpetuity value when costs outgrow the real discount rate', () => {
+    const inputs = perpetual(withIndices(general + 10));
+
+    expect(calculateClosureCosts(inputs).perpetualTreatment?.presentValue).toBe(Infinity);
+  });
+});
+
+describe('EscalationSettingsSchema', () => {
+  it('should default to off and validate a scenario using it', () => {
+    expect(normalizeInputState({}).escalation).toEqual(DEFAULT_ESCALATION);
+    expect(InputStateSchema.safeParse(withIndices(4)).success).toBe(true);
+  });
+
+  it('should reject unordered series and unknown indices', () => {
+    const series = [{ year: 2030, ratePercent: 3 }, { year: 2028, ratePercent: 3 }];
+    const indices = { ...DEFAULT_ESCALATION.indices, labour: { ratePercent: 3, series } };
+
+    expect(EscalationSettingsSchema.safeParse({ ...DEFAULT_ESCALATION, indices }).success).toBe(false);
+    expect(EscalationSettingsSchema.safeParse({ ...DEFAULT_ESCALATION, categoryIndices: { earthworks: 'diesel' } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Mine Closure Costing - Escalation
+ *
+ * Cost escalation by category. The general escalation rate in the financial
+ * parameters is the inflation rate used to convert between real and nominal
+ * discount rates; with category escalation on, each cost category escalates
+ * from the rate base year by its assigned index instead - labour, plant and
+ * fuel, construction materials or professional services - each with a
+ * long-term rate and optional year-by-year rates. Categories with no index
+ * escalate at the general rate.
+ *
+ * @module escalation
+ */
+
+import type {
+  EscalationIndex,
+  EscalationIndexId,
+  EscalationSettings,
+  FinancialParams,
+  InputState,
+} from './types';
+import { CostCategory } from './types';
+import { resolveEscalationIndex } from './costIndices';
+
+/** Escalation index names and descriptions */
+export const ESCALATION_INDICES: Record<
+  EscalationIndexId,
+  { readonly name: string; readonly description: string }
+> = {
+  labour: {
+    name: 'Labour',
+    description: 'Wage price index - site crews, monitoring and rehabilitation labour',
+  },
+  plant_fuel: {
+    name: 'Plant & fuel',
+    description: 'Equipment hire, maintenance and diesel - earthworks-heavy categories',
+  },
+  materials: {
+    name: 'Construction materials',
+    description: 'Liners, cover materials, concrete, steel and treatment reagents',
+  },
+  professional_services: {
+    name: 'Professional services',
+    description: 'Engineering, project management and owner overheads',
+  },
+};
+
+/** Escalation indices in display order */
+export const ESCALATION_INDEX_IDS = Object.keys(ESCALATION_INDICES) as EscalationIndexId[];
+
+/** Default long-term index rates (% per year, indicative) */
+export const DEFAULT_ESCALATION_INDICES: Record<EscalationIndexId, EscalationIndex> = {
+  labour: { ratePercent: 3.5, series: [] },
+  plant_fuel: { ratePercent: 4.0, series: [] },
+  materials: { ratePercent: 3.0, series: [] },
+  professional_services: { ratePercent: 3.5, series: [] },
+};
+
+/**
+ * Default index for each cost category. Contingency, risk uplift and
+ * contractor margin span all categories and escalate at the general rate.
+ */
+export const DEFAULT_CATEGORY_ESCALATION_INDICES: Partial<Record<CostCategory, EscalationIndexId>> =
+  {
+    [CostCategory.Mobilisation]: 'plant_fuel',
+    [CostCategory.SiteEstablishment]: 'professional_services',
+    [CostCategory.Demolition]: 'plant_fuel',
+    [CostCategory.Earthworks]: 'plant_fuel',
+    [CostCategory.TSFClosure]: 'plant_fuel',
+    [CostCategory.WRDRehabilitation]: 'plant_fuel',
+    [CostCategory.PitClosure]: 'plant_fuel',
+    [CostCategory.InfrastructureRehabilitation]: 'plant_fuel',
+    [CostCategory.UndergroundClosure]: 'materials',
+    [CostCategory.WaterTreatmentCapex]: 'materials',
+    [CostCategory.WaterTreatmentOpex]: 'materials',
+    [CostCategory.Revegetation]: 'labour',
+    [CostCategory.ErosionControls]: 'plant_fuel',
+    [CostCategory.RoadRehabilitation]: 'plant_fuel',
+    [CostCategory.HazardousMaterials]: 'labour',
+    [CostCategory.Monitoring]: 'labour',
+    [CostCategory.CommunityHeritage]: 'labour',
+    [CostCategory.OwnersCosts]: 'professional_services',
+  };
+
+/**
+ * General escalation as an index - the general rate in every year.
+ */
+export function getGeneralEscalationIndex(financialParams: FinancialParams): EscalationIndex {
+  return { ratePercent: financialParams.escalationRatePercent, series: [] };
+}
+
+/**
+ * Index a cost category escalates by.
+ *
+ * @param escalation - Escalation settings
+ * @param category - Cost category
+ * @returns Index id, or null for the general rate
+ */
+export function getCategoryEscalationIndexId(
+  escalation: EscalationSettings,
+  category: CostCategory
+): EscalationIndexId | null {
+  return escalation.enabled ? (escalation.categoryIndices[category] ?? null) : null;
+}
+
+/**
+ * Escalation index for a cost category, the general rate when it has none.
+ * An index linked to a cost index takes its year-by-year rates from it.
+ */
+export function getCategoryEscalationIndex(
+  inputs: InputState,
+  category: CostCategory
+): EscalationIndex {
+  const id = getCategoryEscalationIndexId(inputs.escalation, category);
+  return id
+    ? resolveEscalationIndex(inputs.escalation.indices[id], inputs.costIndices)
+    : getGeneralEscalationIndex(inputs.financialParams);
+}
+
+/**
+ * Escalation rate of an index in a calendar year (%).
+ */
+export function getEscalationRatePercent(index: EscalationIndex, year: number): number {
+  return index.series.find((s) => s.year === year)?.ratePercent ?? index.ratePercent;
+}
+
+/**
+ * Cumulative escalation of an index from the base year to a year - below 1
+ * for years before the base year.
+ *
+ * @param index - Escalation index
+ * @param baseYear - Year costs are priced in
+ * @param year - Year costs are incurred
+ * @returns Escalation factor
+ */
+export function getEscalationFactor(
+  index: EscalationIndex,
+  baseYear: number,
+  year: number
+): number {
+  if (index.series.length === 0) return Math.pow(1 + index.ratePercent / 100, year - baseYear);
+
+  let factor = 1;
+  for (let y = baseYear + 1; y <= year; y++) factor *= 1 + getEscalationRatePercent(index, y) / 100;
+  for (let y = baseYear; y > year; y--) factor /= 1 + getEscalationRatePercent(index, y) / 100;
+  return factor;
+}
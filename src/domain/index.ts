@@ -6,4 +6,21 @@ export * from './types';
 export * from './validation';
 export * from './defaults';
 export * from './calcEngine';
+export * from './scheduler';
+export * from './spendProfiles';
+export * from './siteDomains';
+export * from './customLineItems';
+export * from './rateLibrary';
+export * from './rateBuildUp';
+export * from './scaleCurves';
+export * from './waterTreatment';
+export * from './location';
+export * from './escalation';
+export * from './costIndices';
 export * from './presets';
+export * from './monteCarlo';
+export * from './provision';
+export * from './comparison';
+export * from './costBridge';
+export * from './inputDiff';
+export * from './inputHistory';
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the Input Diff
+ *
+ * Tests cover:
+ * - Field labels and units from input field names
+ * - Changed fields with old and new values and their input group
+ * - Register items matched by id, added and removed
+ * - Nested settings and rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeInputField, diffInputStates } from './inputDiff';
+import { createDefaultInputState } from './defaults';
+import { PRESET_SMALL_OPEN_PIT } from './presets';
+import { ClosurePhase } from './types';
+import type { InputState } from './types';
+
+describe('describeInputField', () => {
+  it('should read the unit from the field name', () => {
+    expect(describeInputField('earthworksPerM3')).toEqual({ label: 'Earthworks', unit: '$/m³' });
+    expect(describeInputField('disturbedAreaHa')).toEqual({ label: 'Disturbed area', unit: 'ha' });
+    expect(describeInputField('contingencyPercent')).toEqual({ label: 'Contingency', unit: '%' });
+    expect(describeInputField('waterTreatmentFlowMLPerDay')).toEqual({ label: 'Water treatment flow', unit: 'ML/day' });
+    expect(describeInputField('shaftCount')).toEqual({ label: 'Shaft count', unit: 'count' });
+  });
+
+  it('should name phases and fields without a unit', () => {
+    expect(describeInputField(ClosurePhase.WaterManagement).label).toBe('Water Management & Treatment');
+    expect(describeInputField('discountRateMode')).toEqual({ label: 'Discount rate mode', unit: '' });
+  });
+});
+
+describe('diffInputStates', () => {
+  const base = createDefaultInputState();
+
+  it('should find no differences between identical inputs', () => {
+    expect(diffInputStates(base, createDefaultInputState())).toEqual([]);
+  });
+
+  it('should list a changed field with its group, unit and values', () => {
+    const changed: InputState = {
+      ...base,
+      unitRates: { ...base.unitRates, earthworksPerM3: base.unitRates.earthworksPerM3 + 2 },
+    };
+    expect(diffInputStates(base, changed)).toEqual([
+      {
+        path: 'unitRates.earthworksPerM3',
+        group: 'Unit Rates',
+        field: 'Earthworks',
+        unit: '$/m³',
+        oldValue: base.unitRates.earthworksPerM3,
+        newValue: base.unitRates.earthworksPerM3 + 2,
+      },
+    ]);
+  });
+
+  it('should give phase durations in years', () => {
+    const changed: InputState = {
+      ...base,
+      phaseDurations: { ...base.phaseDurations, [ClosurePhase.MonitoringMaintenance]: 20 },
+    };
+    const [entry] = diffInputStates(base, changed);
+    expect(entry).toMatchObject({ group: 'Phase Durations', field: 'Monitoring & Maintenance', unit: 'years', newValue: 20 });
+  });
+
+  it('should match site domains by id', () => {
+    const [first, ...rest] = base.siteDomains;
+    if (!first) throw new Error('Default inputs have no site domains');
+    const changed: InputState = {
+      ...base,
+      siteDomains: [
+        { ...first, name: 'Main TSF', areaHa: first.areaHa + 10 },
+        ...rest,
+        { ...first, id: 'new-domain', name: 'TSF 2' },
+      ],
+    };
+    const entries = diffInputStates(base, changed);
+
+    expect(entries).toContainEqual(expect.objectContaining({ field: 'TSF 1 › Name', oldValue: 'TSF 1', newValue: 'Main TSF' }));
+    expect(entries).toContainEqual(expect.objectContaining({ field: 'TSF 1 › Area', unit: 'ha', newValue: first.areaHa + 10 }));
+    expect(entries).toContainEqual(expect.objectContaining({ group: 'Site Domains', field: 'TSF 2', oldValue: null, newValue: 'TSF 2' }));
+  });
+
+  it('should list removed items by name', () => {
+    const [first, ...rest] = base.siteDomains;
+    const entries = diffInputStates(base, { ...base, siteDomains: rest });
+    expect(entries).toEqual([expect.objectContaining({ field: first?.name, oldValue: first?.name, newValue: null })]);
+  });
+
+  it('should compare added settings field by field', () => {
+    const changed: InputState = {
+      ...base,
+      scaleCurves: { earthworksPerM3: { type: 'power', referenceQuantity: 100000, exponent: 0.9 } },
+    };
+    const entries = diffInputStates(base, changed);
+
+    expect(entries.map(e => e.field)).toEqual(['Earthworks › Type', 'Earthworks › Reference quantity', 'Earthworks › Exponent']);
+    expect(entries.every(e => e.oldValue === null && e.group === 'Scale Curves' && e.unit === '')).toBe(true);
+  });
+
+  it("should list what a scenario changed from its preset", () => {
+    const preset = PRESET_SMALL_OPEN_PIT.inputs;
+    const edited: InputState = {
+      ...preset,
+      scenarioName: 'Cover option B',
+      indirectRates: { ...preset.indirectRates, contingencyPercent: 25 },
+    };
+
+    expect(diffInputStates(preset, edited).map(e => e.path)).toEqual(['scenarioName', 'indirectRates.contingencyPercent']);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Mine Closure Costing - Input Diff
+ *
+ * Field-by-field differences between the inputs of two scenarios - a
+ * colleague's scenario against the preset it started from, or a saved
+ * scenario against the current inputs. Nested settings are compared down to
+ * their fields; site domains, custom line items and cost indices are matched
+ * by id, so a renamed or edited domain shows as changed fields rather than a
+ * removal and an addition.
+ *
+ * Field labels and units follow the input naming convention - the unit is
+ * read from the field name's suffix (earthworksPerM3 is $/m³,
+ * disturbedAreaHa is ha, contingencyPercent is %).
+ *
+ * @module inputDiff
+ */
+
+import type { InputDiffEntry, InputDiffValue, InputState } from './types';
+import { CATEGORY_NAMES, ClosurePhase, CostCategory, PHASE_NAMES } from './types';
+import { ESCALATION_INDICES } from './escalation';
+
+/** Input group names, in diff order */
+export const INPUT_GROUP_NAMES: Record<keyof InputState, string> = {
+  scenarioName: 'Scenario',
+  quantities: 'Quantities',
+  siteDomains: 'Site Domains',
+  customLineItems: 'Custom Line Items',
+  location: 'Location',
+  unitRates: 'Unit Rates',
+  rateSource: 'Rate Source',
+  rateBuildUps: 'Rate Build-ups',
+  scaleCurves: 'Scale Curves',
+  indirectRates: 'Indirect Rates',
+  riskFactors: 'Risk Factors',
+  financialParams: 'Financial Parameters',
+  escalation: 'Escalation',
+  costIndices: 'Cost Indices',
+  rateRebase: 'Rate Rebase',
+  phaseDurations: 'Phase Durations',
+  phaseSchedule: 'Phase Schedule',
+  spendProfiles: 'Spend Profiles',
+  perpetualTreatment: 'Ongoing Treatment',
+  simulation: 'Simulation',
+};
+
+/** Unit suffixes of input field names, longest first; strip removes the suffix from the label */
+const UNIT_SUFFIXES: readonly { suffix: string; unit: string; strip: boolean }[] = [
+  { suffix: 'MLPerDay', unit: 'ML/day', strip: true },
+  { suffix: 'KWhPerML', unit: 'kWh/ML', strip: true },
+  { suffix: 'PerPersonDay', unit: '$/person-day', strip: true },
+  { suffix: 'PerBuilding', unit: '$/building', strip: true },
+  { suffix: 'PerPortal', unit: '$/portal', strip: true },
+  { suffix: 'PerSite', unit: '$/site', strip: true },
+  { suffix: 'PerYear', unit: '$/year', strip: true },
+  { suffix: 'PerKWh', unit: '$/kWh', strip: true },
+  { suffix: 'PerM3', unit: '$/m³', strip: true },
+  { suffix: 'PerM2', unit: '$/m²', strip: true },
+  { suffix: 'PerHa', unit: '$/ha', strip: true },
+  { suffix: 'PerKm', unit: '$/km', strip: true },
+  { suffix: 'PerML', unit: '$/ML', strip: true },
+  { suffix: 'PerM', unit: '$/m', strip: true },
+  { suffix: 'LumpSum', unit: '$', strip: true },
+  { suffix: 'Percent', unit: '%', strip: true },
+  { suffix: 'Years', unit: 'years', strip: true },
+  { suffix: 'Ha', unit: 'ha', strip: true },
+  { suffix: 'M3', unit: 'm³', strip: true },
+  { suffix: 'M2', unit: 'm²', strip: true },
+  { suffix: 'Km', unit: 'km', strip: true },
+  { suffix: 'M', unit: 'm', strip: true },
+  { suffix: 'Capex', unit: '$', strip: false },
+  { suffix: 'Count', unit: 'count', strip: false },
+  { suffix: 'Factor', unit: '×', strip: false },
+];
+
+/** Fields whose names do not follow the suffix convention */
+const FIELD_OVERRIDES: Readonly<Record<string, { label: string; unit: string }>> = {
+  monitoringPerYearLow: { label: 'Monitoring (low intensity)', unit: '$/year' },
+  monitoringPerYearMedium: { label: 'Monitoring (medium intensity)', unit: '$/year' },
+  monitoringPerYearHigh: { label: 'Monitoring (high intensity)', unit: '$/year' },
+  earthworksVolumeM3Override: { label: 'Earthworks volume override', unit: 'm³' },
+  hourlyRate: { label: 'Hourly rate', unit: '$/hr' },
+  productivityPerHour: { label: 'Productivity', unit: 'units/hr' },
+  haulCostPerUnitKm: { label: 'Haul cost', unit: '$/unit/km' },
+  consumablesPerUnit: { label: 'Consumables', unit: '$/unit' },
+  unitRate: { label: 'Unit rate', unit: '$' },
+};
+
+const PHASES = new Set<string>(Object.values(ClosurePhase));
+const CATEGORIES = new Set<string>(Object.values(CostCategory));
+
+/** "disturbedArea" → "Disturbed area" */
+function humanise(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Display label and unit of an input field from its key.
+ *
+ * @param key - Field key, phase, cost category or escalation index id
+ * @returns Label and unit ('' when the field has none)
+ */
+export function describeInputField(key: string): { label: string; unit: string } {
+  const override = FIELD_OVERRIDES[key];
+  if (override) return override;
+  if (PHASES.has(key)) return { label: PHASE_NAMES[key as ClosurePhase], unit: '' };
+  if (CATEGORIES.has(key)) return { label: CATEGORY_NAMES[key as CostCategory], unit: '' };
+  if (key in ESCALATION_INDICES) {
+    return { label: ESCALATION_INDICES[key as keyof typeof ESCALATION_INDICES].name, unit: '' };
+  }
+
+  for (const { suffix, unit, strip } of UNIT_SUFFIXES) {
+    if (key.endsWith(suffix) && key.length > suffix.length) {
+      return { label: humanise(strip ? key.slice(0, -suffix.length) : key), unit };
+    }
+  }
+  return { label: humanise(key), unit: '' };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Array items matched by id */
+function hasIds(items: readonly unknown[]): boolean {
+  return items.length > 0 && items.every((item) => isRecord(item) && typeof item.id === 'string');
+}
+
+/** Display name of an array item */
+function itemName(item: Record<string, unknown>, fallback: string): string {
+  const name = item.name ?? item.description;
+  return typeof name === 'string' && name !== '' ? name : fallback;
+}
+
+/** Leaf value as shown in the diff */
+function leafValue(value: unknown): InputDiffValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((v) => String(leafValue(v))).join(', ');
+  return JSON.stringify(value);
+}
+
+interface DiffContext {
+  group: string;
+  entries: InputDiffEntry[];
+}
+
+/** Compare two values at a path, adding an entry for each differing field */
+function diffValue(
+  context: DiffContext,
+  path: readonly string[],
+  labels: readonly string[],
+  unit: string,
+  oldValue: unknown,
+  newValue: unknown
+): void {
+  if (oldValue === newValue) return;
+
+  // Settings objects - compare field by field; a missing object has no fields
+  const oldIsRecord = isRecord(oldValue);
+  const newIsRecord = isRecord(newValue);
+  if ((oldIsRecord || oldValue == null) && (newIsRecord || newValue == null)) {
+    if (oldIsRecord || newIsRecord) {
+      const oldRecord = oldIsRecord ? oldValue : {};
+      const newRecord = newIsRecord ? newValue : {};
+      const keys = [...new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)])];
+      for (const key of keys) {
+        if (key === 'id') continue;
+        const field = describeInputField(key);
+        diffValue(
+          context,
+          [...path, key],
+          [...labels, field.label],
+          // Only a whole group's unit (phase durations) carries down to its fields
+          field.unit || (path.length === 1 ? unit : ''),
+          oldRecord[key],
+          newRecord[key]
+        );
+      }
+      return;
+    }
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    // Registers - match items by id, listing additions and removals by name
+    if (hasIds(oldValue) || hasIds(newValue)) {
+      const oldItems = oldValue as readonly Record<string, unknown>[];
+      const newItems = newValue as readonly Record<string, unknown>[];
+      for (const item of oldItems) {
+        const match = newItems.find((n) => n.id === item.id);
+        const name = itemName(item, String(item.id));
+        if (match) {
+          diffValue(context, [...path, String(item.id)], [...labels, name], '', item, match);
+        } else {
+          pushEntry(context, path, [...labels, name], '', name, null);
+        }
+      }
+      for (const item of newItems) {
+        if (!oldItems.some((o) => o.id === item.id)) {
+          const name = itemName(item, String(item.id));
+          pushEntry(context, path, [...labels, name], '', null, name);
+        }
+      }
+      return;
+    }
+
+    // Rows such as year rates and tiers - compare row by row
+    if (oldValue.some(isRecord) || newValue.some(isRecord)) {
+      const length = Math.max(oldValue.length, newValue.length);
+      for (let i = 0; i < length; i++) {
+        diffValue(
+          context,
+          [...path, String(i)],
+          [...labels, `Row ${i + 1}`],
+          unit,
+          oldValue[i],
+          newValue[i]
+        );
+      }
+      return;
+    }
+  }
+
+  const oldLeaf = leafValue(oldValue);
+  const newLeaf = leafValue(newValue);
+  if (oldLeaf !== newLeaf) pushEntry(context, path, labels, unit, oldLeaf, newLeaf);
+}
+
+/** Add a differing field to the diff */
+function pushEntry(
+  context: DiffContext,
+  path: readonly string[],
+  labels: readonly string[],
+  unit: string,
+  oldValue: InputDiffValue,
+  newValue: InputDiffValue
+): void {
+  context.entries.push({
+    path: path.join('.'),
+    group: context.group,
+    field: labels.join(' › '),
+    unit,
+    oldValue,
+    newValue,
+  });
+}
+
+/**
+ * List every input field that differs between two scenarios.
+ *
+ * @param oldInputs - Inputs compared from, e.g. the preset
+ * @param newInputs - Inputs compared to, e.g. the colleague's scenario
+ * @returns Differing fields, in input group order
+ */
+export function diffInputStates(oldInputs: InputState, newInputs: InputState): InputDiffEntry[] {
+  const entries: InputDiffEntry[] = [];
+  for (const key of Object.keys(INPUT_GROUP_NAMES) as (keyof InputState)[]) {
+    const context = { group: INPUT_GROUP_NAMES[key], entries };
+    const unit = key === 'phaseDurations' ? 'years' : '';
+    if (key === 'scenarioName') {
+      diffValue(context, [key], ['Name'], unit, oldInputs[key], newInputs[key]);
+    } else {
+      diffValue(context, [key], [], unit, oldInputs[key], newInputs[key]);
+    }
+  }
+  return entries;
+}
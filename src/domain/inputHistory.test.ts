@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the Input History
+ *
+ * Tests cover:
+ * - Labels from the changed fields
+ * - Recording, undo and redo
+ * - Merging repeated updates of the same field
+ * - Labelled changes and the history limit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createInputHistory,
+  describeInputChange,
+  recordInputChange,
+  undoInputChange,
+  redoInputChange,
+  MAX_INPUT_HISTORY,
+  INPUT_HISTORY_MERGE_MS,
+} from './inputHistory';
+import { diffInputStates } from './inputDiff';
+import { createDefaultInputState } from './defaults';
+import type { InputState } from './types';
+
+const base = createDefaultInputState();
+
+function withEarthworks(inputs: InputState, rate: number): InputState {
+  return { ...inputs, unitRates: { ...inputs.unitRates, earthworksPerM3: rate } };
+}
+
+function withContingency(inputs: InputState, percent: number): InputState {
+  return { ...inputs, indirectRates: { ...inputs.indirectRates, contingencyPercent: percent } };
+}
+
+describe('describeInputChange', () => {
+  it('should name a single changed field with its group', () => {
+    expect(describeInputChange(diffInputStates(base, withEarthworks(base, 20)))).toBe('Unit Rates › Earthworks');
+  });
+
+  it('should name the groups of several changes', () => {
+    const changed = withContingency(withEarthworks({ ...base, scenarioName: 'Option B' }, 20), 30);
+    expect(describeInputChange(diffInputStates(base, changed))).toBe('Scenario, Unit Rates +1 more (3 changes)');
+  });
+});
+
+describe('input history', () => {
+  it('should undo and redo a change', () => {
+    const changed = withEarthworks(base, 20);
+    const history = recordInputChange(createInputHistory(), base, changed, 0);
+    expect(history.past.map(e => e.label)).toEqual(['Unit Rates › Earthworks']);
+
+    const undone = undoInputChange(history, changed);
+    expect(undone?.inputs).toBe(base);
+    expect(undone?.history.past).toEqual([]);
+
+    const redone = redoInputChange(undone!.history, undone!.inputs);
+    expect(redone?.inputs).toBe(changed);
+    expect(redone?.history.future).toEqual([]);
+  });
+
+  it('should have nothing to undo or redo when empty', () => {
+    expect(undoInputChange(createInputHistory(), base)).toBeNull();
+    expect(redoInputChange(createInputHistory(), base)).toBeNull();
+  });
+
+  it('should not record a change that leaves the inputs the same', () => {
+    const history = createInputHistory();
+    expect(recordInputChange(history, base, { ...base }, 0)).toBe(history);
+  });
+
+  it('should merge quick updates of the same field into one change', () => {
+    const first = withEarthworks(base, 15);
+    const second = withEarthworks(base, 20);
+    let history = recordInputChange(createInputHistory(), base, first, 0);
+    history = recordInputChange(history, first, second, INPUT_HISTORY_MERGE_MS / 2);
+
+    expect(history.past).toHaveLength(1);
+    expect(undoInputChange(history, second)?.inputs).toBe(base);
+  });
+
+  it('should keep separate changes to different fields or after a pause', () => {
+    const rate = withEarthworks(base, 15);
+    const contingency = withContingency(rate, 30);
+    const later = withContingency(rate, 35);
+    let history = recordInputChange(createInputHistory(), base, rate, 0);
+    history = recordInputChange(history, rate, contingency, 10);
+    history = recordInputChange(history, contingency, later, 10 + INPUT_HISTORY_MERGE_MS);
+
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('should drop a change dragged back to where it started', () => {
+    const moved = withEarthworks(base, 15);
+    let history = recordInputChange(createInputHistory(), base, moved, 0);
+    history = recordInputChange(history, moved, withEarthworks(base, base.unitRates.earthworksPerM3), 100);
+
+    expect(history.past).toEqual([]);
+  });
+
+  it('should label a reset and undo it whole', () => {
+    const edited = withContingency(withEarthworks(base, 20), 30);
+    let history = recordInputChange(createInputHistory(), base, edited, 0);
+    const reset = createDefaultInputState();
+    history = recordInputChange(history, edited, reset, 10, 'Reset to defaults');
+
+    expect(history.past.map(e => e.label)).toEqual(['Unit Rates, Indirect Rates (2 changes)', 'Reset to defaults']);
+    expect(undoInputChange(history, reset)?.inputs).toBe(edited);
+  });
+
+  it('should clear the redo stack on a new change', () => {
+    const changed = withEarthworks(base, 20);
+    const undone = undoInputChange(recordInputChange(createInputHistory(), base, changed, 0), changed)!;
+    const history = recordInputChange(undone.history, base, withContingency(base, 30), 5000);
+
+    expect(history.future).toEqual([]);
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('should keep only the most recent changes', () => {
+    let history = createInputHistory();
+    let inputs = base;
+    for (let i = 1; i <= MAX_INPUT_HISTORY + 5; i++) {
+      const next = withEarthworks(inputs, i);
+      history = recordInputChange(history, inputs, next, i * INPUT_HISTORY_MERGE_MS);
+      inputs = next;
+    }
+
+    expect(history.past).toHaveLength(MAX_INPUT_HISTORY);
+    expect(history.past[0]?.inputs.unitRates.earthworksPerM3).toBe(5);
+  });
+});
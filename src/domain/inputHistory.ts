@@ -0,0 +1,143 @@
+/**
+ * Mine Closure Costing - Input History
+ *
+ * Undo and redo stacks for the input state. Each entry holds the inputs from
+ * before a change and a label naming what changed, taken from the input diff
+ * unless the change names itself (loading a scenario, reset to defaults).
+ *
+ * A slider drag or typing a name dispatches many updates to the same field;
+ * updates to the same fields in quick succession merge into one entry, so one
+ * undo reverts the whole drag.
+ *
+ * @module inputHistory
+ */
+
+import type {
+  InputDiffEntry,
+  InputHistory,
+  InputHistoryEntry,
+  InputHistoryStep,
+  InputState,
+} from './types';
+import { diffInputStates } from './inputDiff';
+
+/** Changes kept for undo; older changes are dropped */
+export const MAX_INPUT_HISTORY = 100;
+
+/** Updates to the same fields within this time merge into one change (ms) */
+export const INPUT_HISTORY_MERGE_MS = 1000;
+
+/** Empty input history */
+export function createInputHistory(): InputHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Label a change from its differing fields.
+ *
+ * @param entries - Input diff of the change
+ * @returns "Unit Rates › Earthworks" for one field, otherwise the groups changed
+ */
+export function describeInputChange(entries: readonly InputDiffEntry[]): string {
+  const [first] = entries;
+  if (!first) return 'No changes';
+  if (entries.length === 1) return `${first.group} › ${first.field}`;
+
+  const groups = [...new Set(entries.map((e) => e.group))];
+  const shown =
+    groups.length > 2 ? `${groups[0]}, ${groups[1]} +${groups.length - 2} more` : groups.join(', ');
+  return `${shown} (${entries.length} changes)`;
+}
+
+/**
+ * Record a change to the inputs. Clears the redo stack.
+ *
+ * @param history - Current history
+ * @param previous - Inputs before the change
+ * @param next - Inputs after the change
+ * @param timestamp - Time of the change (ms)
+ * @param label - Label for changes that name themselves; labelled changes never merge
+ * @returns Updated history, unchanged when the inputs do not differ
+ */
+export function recordInputChange(
+  history: InputHistory,
+  previous: InputState,
+  next: InputState,
+  timestamp: number,
+  label?: string
+): InputHistory {
+  const diff = diffInputStates(previous, next);
+  if (diff.length === 0) return history;
+  const paths = diff.map((e) => e.path).join(',');
+
+  // Repeated update of the same fields - extend the last change
+  const last = history.past.at(-1);
+  if (
+    last &&
+    label === undefined &&
+    last.paths === paths &&
+    timestamp - last.timestamp < INPUT_HISTORY_MERGE_MS
+  ) {
+    const merged = diffInputStates(last.inputs, next);
+    const past = history.past.slice(0, -1);
+    // Dragged back to where it started - nothing left to undo
+    if (merged.length === 0) return { past, future: [] };
+    return {
+      past: [...past, { ...last, label: describeInputChange(merged), timestamp }],
+      future: [],
+    };
+  }
+
+  const entry: InputHistoryEntry = {
+    label: label ?? describeInputChange(diff),
+    inputs: previous,
+    // Labelled changes have no paths to merge on
+    paths: label === undefined ? paths : '',
+    timestamp,
+  };
+  return { past: [...history.past, entry].slice(-MAX_INPUT_HISTORY), future: [] };
+}
+
+/**
+ * Undo the last change.
+ *
+ * @param history - Current history
+ * @param current - Current inputs, kept for redo
+ * @returns Inputs before the change and the updated history, or null when there is nothing to undo
+ */
+export function undoInputChange(
+  history: InputHistory,
+  current: InputState
+): InputHistoryStep | null {
+  const last = history.past.at(-1);
+  if (!last) return null;
+  return {
+    inputs: last.inputs,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...last, inputs: current }],
+    },
+  };
+}
+
+/**
+ * Redo the last undone change.
+ *
+ * @param history - Current history
+ * @param current - Current inputs, kept for undo
+ * @returns Inputs after the change and the updated history, or null when there is nothing to redo
+ */
+export function redoInputChange(
+  history: InputHistory,
+  current: InputState
+): InputHistoryStep | null {
+  const next = history.future.at(-1);
+  if (!next) return null;
+  return {
+    inputs: next.inputs,
+    history: {
+      past: [...history.past, { ...next, inputs: current }],
+      future: history.future.slice(0, -1),
+    },
+  };
+}
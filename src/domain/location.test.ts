@@ -0,0 +1,150 @@
+/**
+ * Unit tests for Location
+ *
+ * Tests cover:
+ * - Region library and applying a region
+ * - Category multipliers from labour, plant and materials factors
+ * - Camp and freight add-ons
+ * - Location-adjusted direct works and ongoing treatment, custom items unadjusted
+ * - Migrating scenarios saved with a logistics risk factor
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CATEGORY_COST_COMPOSITION,
+  COST_REGIONS,
+  COST_REGION_IDS,
+  applyCostRegion,
+  getEffectiveLocationFactors,
+  getLocationFactor,
+} from './location';
+import { calculateClosureCosts, calculateDirectWorksCosts, calculateDerivedQuantities } from './calcEngine';
+import { DEFAULT_LOCATION, createDefaultInputState, normalizeInputState } from './defaults';
+import { createCustomLineItem } from './customLineItems';
+import { InputStateSchema, LocationSettingsSchema } from './validation';
+import { CostCategory } from './types';
+import type { InputState, LocationSettings } from './types';
+
+describe('Cost regions', () => {
+  it('should leave base rates unadjusted in a metropolitan location', () => {
+    expect(DEFAULT_LOCATION.region).toBe('metropolitan');
+    for (const category of Object.values(CostCategory)) {
+      expect(getLocationFactor(category, DEFAULT_LOCATION)).toBe(1);
+    }
+  });
+
+  it('should load a region and increase costs with remoteness', () => {
+    const inputs = createDefaultInputState();
+    const totals = COST_REGION_IDS.map(region => calculateClosureCosts(applyCostRegion(inputs, region)).totalNominalCost);
+
+    expect(applyCostRegion(inputs, 'remote').location).toMatchObject({
+      region: 'remote',
+      labourFactor: COST_REGIONS.remote.labourFactor,
+      freightPercent: COST_REGIONS.remote.freightPercent,
+      labourCostPerPersonDay: DEFAULT_LOCATION.labourCostPerPersonDay,
+    });
+    for (let i = 1; i < totals.length; i++) {
+      expect(totals[i]).toBeGreaterThan(totals[i - 1] ?? 0);
+    }
+  });
+
+  it('should split each direct works category into labour, plant and materials', () => {
+    for (const composition of Object.values(CATEGORY_COST_COMPOSITION)) {
+      expect(composition.labour + composition.plant + composition.materials).toBeCloseTo(1, 10);
+    }
+  });
+});
+
+describe('Location factors', () => {
+  const location: LocationSettings = {
+    region: 'very_remote',
+    labourFactor: 1.4,
+    plantFactor: 1.2,
+    materialsFactor: 1.1,
+    campCostPerPersonDay: 300,
+    freightPercent: 10,
+    labourCostPerPersonDay: 1200,
+  };
+
+  it('should add camp costs to labour and freight to materials', () => {
+    const effective = getEffectiveLocationFactors(location);
+
+    expect(effective.labour).toBeCloseTo(1.4 + 300 / 1200, 10);
+    expect(effective.plant).toBe(1.2);
+    expect(effective.materials).toBeCloseTo(1.1 * 1.1, 10);
+  });
+
+  it('should weight the multipliers by the category cost split', () => {
+    const { labour, plant, materials } = CATEGORY_COST_COMPOSITION[CostCategory.Earthworks]!;
+    const expected = labour * 1.65 + plant * 1.2 + materials * 1.21;
+
+    expect(getLocationFactor(CostCategory.Earthworks, location)).toBeCloseTo(expected, 10);
+  });
+
+  it('should not adjust calculated categories', () => {
+    expect(getLocationFactor(CostCategory.Contingency, location)).toBe(1);
+    expect(getLocationFactor(CostCategory.ContractorMargin, location)).toBe(1);
+  });
+});
+
+describe('Location-adjusted costs', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should adjust each direct works rate and cost by its category factor', () => {
+    const remote = applyCostRegion(inputs, 'remote');
+    const base = calculateDirectWorksCosts(inputs, calculateDerivedQuantities(inputs));
+    const adjusted = calculateDirectWorksCosts(remote, calculateDerivedQuantities(remote));
+
+    expect(adjusted).toHaveLength(base.length);
+    adjusted.forEach((item, i) => {
+      const factor = getLocationFactor(item.category, remote.location);
+      expect(item.unitRate).toBeCloseTo((base[i]?.unitRate ?? 0) * factor, 6);
+      expect(item.subtotal).toBeCloseTo((base[i]?.subtotal ?? 0) * factor, 6);
+    });
+  });
+
+  it('should not adjust custom items, which are priced for the site', () => {
+    const custom = { ...createCustomLineItem([]), unitRate: 250000 };
+    const remote = applyCostRegion({ ...inputs, customLineItems: [custom] }, 'remote');
+    const items = calculateDirectWorksCosts(remote, calculateDerivedQuantities(remote));
+    const customItem = items.find(i => i.id === `custom.${custom.id}`);
+
+    expect(getLocationFactor(custom.category, remote.location)).toBeGreaterThan(1);
+    expect(customItem?.unitRate).toBe(250000);
+    expect(customItem?.subtotal).toBe(250000);
+  });
+
+  it('should adjust ongoing treatment after closure', () => {
+    const perpetual = { ...inputs, perpetualTreatment: { ...inputs.perpetualTreatment, enabled: true } };
+    const base = calculateClosureCosts(perpetual).perpetualTreatment;
+    const remote = calculateClosureCosts(applyCostRegion(perpetual, 'remote')).perpetualTreatment;
+    const opexFactor = getLocationFactor(CostCategory.WaterTreatmentOpex, applyCostRegion(perpetual, 'remote').location);
+
+    expect(remote?.annualOpex).toBeCloseTo((base?.annualOpex ?? 0) * opexFactor, 6);
+  });
+});
+
+describe('Saved scenarios', () => {
+  it('should drop the logistics risk factor and default to a metropolitan location', () => {
+    const { location: _location, ...saved } = createDefaultInputState();
+    void _location;
+    const normalized = normalizeInputState({
+      ...saved,
+      riskFactors: { ...saved.riskFactors, logisticsComplexity: 60 } as InputState['riskFactors'],
+    });
+
+    expect(normalized.riskFactors).not.toHaveProperty('logisticsComplexity');
+    expect(normalized.location).toEqual(DEFAULT_LOCATION);
+    expect(InputStateSchema.safeParse(normalized).success).toBe(true);
+  });
+
+  it('should reject out-of-range location factors', () => {
+    expect(LocationSettingsSchema.safeParse({ ...DEFAULT_LOCATION, labourFactor: 0.2 }).success).toBe(false);
+    expect(LocationSettingsSchema.safeParse({ ...DEFAULT_LOCATION, region: 'offshore' }).success).toBe(false);
+    expect(LocationSettingsSchema.safeParse({ ...DEFAULT_LOCATION, labourCostPerPersonDay: 0 }).success).toBe(false);
+  });
+});
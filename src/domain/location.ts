@@ -0,0 +1,164 @@
+/**
+ * Mine Closure Costing - Location
+ *
+ * Regional cost factors and remoteness add-ons. Unit rates are base rates for
+ * a metropolitan location; each direct works item is adjusted by the
+ * location's labour, plant and materials multipliers, weighted by its cost
+ * category's labour/plant/materials split, plus fly-in fly-out camp costs on
+ * the labour share and freight on the materials share. Selecting a region
+ * loads its factors, which remain editable for site-specific values.
+ *
+ * @module location
+ */
+
+import type {
+  CostComposition,
+  CostRegion,
+  CostRegionSpec,
+  InputState,
+  LineItemCost,
+  LocationFactors,
+  LocationSettings,
+} from './types';
+import { CostCategory } from './types';
+
+/** Region library (AUD, indicative) */
+export const COST_REGIONS: Record<CostRegion, CostRegionSpec> = {
+  metropolitan: {
+    name: 'Metropolitan',
+    description: 'Within about 100 km of a city - local workforce and suppliers',
+    labourFactor: 1,
+    plantFactor: 1,
+    materialsFactor: 1,
+    campCostPerPersonDay: 0,
+    freightPercent: 0,
+  },
+  regional: {
+    name: 'Regional',
+    description: 'Up to about 300 km from a regional town - drive-in drive-out workforce',
+    labourFactor: 1.08,
+    plantFactor: 1.05,
+    materialsFactor: 1.05,
+    campCostPerPersonDay: 60,
+    freightPercent: 3,
+  },
+  remote: {
+    name: 'Remote',
+    description: '300-800 km from the nearest town - fly-in fly-out workforce in a camp',
+    labourFactor: 1.2,
+    plantFactor: 1.12,
+    materialsFactor: 1.1,
+    campCostPerPersonDay: 200,
+    freightPercent: 8,
+  },
+  very_remote: {
+    name: 'Very remote',
+    description: 'Over 800 km from the nearest town - fly-in fly-out camp, long freight routes',
+    labourFactor: 1.35,
+    plantFactor: 1.25,
+    materialsFactor: 1.2,
+    campCostPerPersonDay: 300,
+    freightPercent: 15,
+  },
+};
+
+/** Regions in display order */
+export const COST_REGION_IDS = Object.keys(COST_REGIONS) as CostRegion[];
+
+/** Region for new estimates */
+export const DEFAULT_COST_REGION: CostRegion = 'metropolitan';
+
+/**
+ * Labour, plant and materials split of direct works costs by category.
+ * Categories not listed are calculated from the direct works and are not adjusted.
+ */
+export const CATEGORY_COST_COMPOSITION: Partial<Record<CostCategory, CostComposition>> = {
+  [CostCategory.Mobilisation]: { labour: 0.3, plant: 0.6, materials: 0.1 },
+  [CostCategory.Demolition]: { labour: 0.45, plant: 0.45, materials: 0.1 },
+  [CostCategory.Earthworks]: { labour: 0.25, plant: 0.65, materials: 0.1 },
+  [CostCategory.TSFClosure]: { labour: 0.25, plant: 0.55, materials: 0.2 },
+  [CostCategory.WRDRehabilitation]: { labour: 0.25, plant: 0.6, materials: 0.15 },
+  [CostCategory.PitClosure]: { labour: 0.25, plant: 0.6, materials: 0.15 },
+  [CostCategory.InfrastructureRehabilitation]: { labour: 0.3, plant: 0.55, materials: 0.15 },
+  [CostCategory.UndergroundClosure]: { labour: 0.35, plant: 0.3, materials: 0.35 },
+  [CostCategory.WaterTreatmentCapex]: { labour: 0.3, plant: 0.1, materials: 0.6 },
+  [CostCategory.WaterTreatmentOpex]: { labour: 0.35, plant: 0.15, materials: 0.5 },
+  [CostCategory.Revegetation]: { labour: 0.45, plant: 0.25, materials: 0.3 },
+  [CostCategory.ErosionControls]: { labour: 0.35, plant: 0.35, materials: 0.3 },
+  [CostCategory.RoadRehabilitation]: { labour: 0.25, plant: 0.6, materials: 0.15 },
+  [CostCategory.HazardousMaterials]: { labour: 0.5, plant: 0.2, materials: 0.3 },
+  [CostCategory.Monitoring]: { labour: 0.7, plant: 0.1, materials: 0.2 },
+  [CostCategory.CommunityHeritage]: { labour: 0.9, plant: 0, materials: 0.1 },
+};
+
+/**
+ * Location factors for a region.
+ *
+ * @param region - Cost region
+ */
+export function getRegionFactors(region: CostRegion): LocationFactors {
+  const { labourFactor, plantFactor, materialsFactor, campCostPerPersonDay, freightPercent } =
+    COST_REGIONS[region];
+  return { labourFactor, plantFactor, materialsFactor, campCostPerPersonDay, freightPercent };
+}
+
+/**
+ * Move an estimate to a region, replacing the location factors with the
+ * region's library factors.
+ *
+ * @param inputs - Input state
+ * @param region - Cost region
+ * @returns Input state in the region
+ */
+export function applyCostRegion(inputs: InputState, region: CostRegion): InputState {
+  return {
+    ...inputs,
+    location: { ...inputs.location, region, ...getRegionFactors(region) },
+  };
+}
+
+/**
+ * Effective labour, plant and materials multipliers, including camp costs on
+ * labour and freight on materials.
+ */
+export function getEffectiveLocationFactors(location: LocationSettings): CostComposition {
+  const campFactor =
+    location.labourCostPerPersonDay > 0
+      ? location.campCostPerPersonDay / location.labourCostPerPersonDay
+      : 0;
+  return {
+    labour: location.labourFactor + campFactor,
+    plant: location.plantFactor,
+    materials: location.materialsFactor * (1 + location.freightPercent / 100),
+  };
+}
+
+/**
+ * Location multiplier for a cost category.
+ *
+ * @param category - Cost category
+ * @param location - Location settings
+ * @returns Multiplier on base rates (1 for categories with no cost split)
+ */
+export function getLocationFactor(category: CostCategory, location: LocationSettings): number {
+  const composition = CATEGORY_COST_COMPOSITION[category];
+  if (!composition) return 1;
+
+  // Expressed as adjustments on 1 so a metropolitan location leaves costs exactly unchanged
+  const effective = getEffectiveLocationFactors(location);
+  return (
+    1 +
+    composition.labour * (effective.labour - 1) +
+    composition.plant * (effective.plant - 1) +
+    composition.materials * (effective.materials - 1)
+  );
+}
+
+/**
+ * Adjust a direct works item's rate and cost to the site location.
+ */
+export function applyLocationFactor(item: LineItemCost, location: LocationSettings): LineItemCost {
+  const factor = getLocationFactor(item.category, location);
+  if (factor === 1) return item;
+  return { ...item, unitRate: item.unitRate * factor, subtotal: item.subtotal * factor };
+}
@@ -0,0 +1,307 @@
+/**
+ * Unit tests for the Monte Carlo simulation
+ *
+ * Tests cover:
+ * - Seeded random number generation
+ * - Distribution sampling bounds and means
+ * - Percentile statistics
+ * - Simulation determinism and ordering of P-values
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createSeededRandom,
+  sampleDistribution,
+  sampleInputs,
+  countDistributions,
+  percentile,
+  summariseSamples,
+  runMonteCarloSimulation,
+  getSimulationInputFields,
+  removeStaleDomainDistributions,
+  SIMULATION_INPUT_FIELDS,
+} from './monteCarlo';
+import { calculateClosureCosts } from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import type { InputState, ProbabilityDistribution, SimulationSettings } from './types';
+
+function sampleMany(dist: ProbabilityDistribution, count: number, seed = 42): number[] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => sampleDistribution(dist, random));
+}
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom(123);
+    const b = createSeededRandom(123);
+    for (let i = 0; i < 10; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    expect(a()).not.toBe(b());
+  });
+
+  it('should return values in [0, 1)', () => {
+    const random = createSeededRandom(99);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('sampleDistribution', () => {
+  it('should keep triangular samples within bounds with the expected mean', () => {
+    const samples = sampleMany({ type: 'triangular', min: 10, mode: 20, max: 60 }, 5000);
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(10);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(60);
+
+    const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+    expect(mean).toBeCloseTo(30, 0);
+  });
+
+  it('should keep PERT samples within bounds with the expected mean', () => {
+    const samples = sampleMany({ type: 'pert', min: 10, mode: 20, max: 60 }, 5000);
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(10);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(60);
+
+    // PERT mean = (min + 4 * mode + max) / 6
+    const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+    expect(Math.abs(mean - 25)).toBeLessThan(0.5);
+  });
+
+  it('should keep uniform samples within bounds', () => {
+    const samples = sampleMany({ type: 'uniform', min: 5, max: 7 }, 2000);
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(5);
+    expect(Math.max(...samples)).toBeLessThan(7);
+  });
+
+  it('should match the lognormal mean and stay positive', () => {
+    const samples = sampleMany({ type: 'lognormal', mean: 100, standardDeviation: 20 }, 10000);
+    expect(Math.min(...samples)).toBeGreaterThan(0);
+
+    const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+    expect(Math.abs(mean - 100)).toBeLessThan(1);
+  });
+
+  it('should return the mode for a zero-width range', () => {
+    const samples = sampleMany({ type: 'triangular', min: 8, mode: 8, max: 8 }, 10);
+    samples.forEach(value => expect(value).toBe(8));
+  });
+});
+
+describe('percentile and summariseSamples', () => {
+  it('should interpolate between ranks', () => {
+    const sorted = [0, 10, 20, 30, 40];
+    expect(percentile(sorted, 0)).toBe(0);
+    expect(percentile(sorted, 50)).toBe(20);
+    expect(percentile(sorted, 90)).toBeCloseTo(36);
+    expect(percentile(sorted, 100)).toBe(40);
+  });
+
+  it('should return 0 for an empty array', () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('should summarise unsorted values', () => {
+    const summary = summariseSamples([5, 1, 4, 2, 3]);
+    expect(summary.min).toBe(1);
+    expect(summary.max).toBe(5);
+    expect(summary.mean).toBe(3);
+    expect(summary.p50).toBe(3);
+  });
+});
+
+describe('sampleInputs', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should leave fields without distributions unchanged', () => {
+    const sampled = sampleInputs(
+      inputs,
+      { quantities: {}, unitRates: { earthworksPerM3: { type: 'uniform', min: 1, max: 2 } }, indirectRates: {}, siteDomains: {} },
+      createSeededRandom(1)
+    );
+
+    expect(sampled.unitRates.earthworksPerM3).toBeGreaterThanOrEqual(1);
+    expect(sampled.unitRates.earthworksPerM3).toBeLessThan(2);
+    expect(sampled.unitRates.revegetationPerHa).toBe(inputs.unitRates.revegetationPerHa);
+    expect(sampled.quantities).toEqual(inputs.quantities);
+  });
+
+  it('should not mutate the base inputs', () => {
+    const original = inputs.unitRates.earthworksPerM3;
+    sampleInputs(
+      inputs,
+      { quantities: {}, unitRates: { earthworksPerM3: { type: 'uniform', min: 100, max: 200 } }, indirectRates: {}, siteDomains: {} },
+      createSeededRandom(1)
+    );
+    expect(inputs.unitRates.earthworksPerM3).toBe(original);
+  });
+
+  it('should clamp negative samples to zero', () => {
+    const sampled = sampleInputs(
+      inputs,
+      { quantities: {}, unitRates: { earthworksPerM3: { type: 'uniform', min: -10, max: -5 } }, indirectRates: {}, siteDomains: {} },
+      createSeededRandom(1)
+    );
+    expect(sampled.unitRates.earthworksPerM3).toBe(0);
+  });
+
+  it('should round sampled counts to whole numbers', () => {
+    const distributions = {
+      quantities: {
+        numberOfBuildings: { type: 'uniform', min: 2, max: 3 },
+        shaftCount: { type: 'uniform', min: 0, max: 4 },
+        roadLengthKm: { type: 'uniform', min: 2, max: 3 },
+      },
+      unitRates: {},
+      indirectRates: {},
+      siteDomains: {},
+    } as const;
+    const random = createSeededRandom(7);
+
+    for (let i = 0; i < 20; i++) {
+      const sampled = sampleInputs(inputs, distributions, random);
+      expect(Number.isInteger(sampled.quantities.numberOfBuildings)).toBe(true);
+      expect(Number.isInteger(sampled.quantities.shaftCount)).toBe(true);
+      expect(Number.isInteger(sampled.quantities.roadLengthKm)).toBe(false);
+    }
+  });
+
+  it('should sample site domain quantities by domain id', () => {
+    const [tsf, wrd] = inputs.siteDomains;
+    const sampled = sampleInputs(
+      inputs,
+      { quantities: {}, unitRates: {}, indirectRates: {}, siteDomains: { [`${tsf!.id}.areaHa` as const]: { type: 'uniform', min: 1000, max: 1001 } } },
+      createSeededRandom(1)
+    );
+
+    expect(sampled.siteDomains[0]?.areaHa).toBeGreaterThanOrEqual(1000);
+    expect(sampled.siteDomains[0]?.coverThicknessM).toBe(tsf?.coverThicknessM);
+    expect(sampled.siteDomains[1]).toEqual(wrd);
+  });
+
+  it('should count distributions across groups', () => {
+    expect(countDistributions(inputs.simulation.distributions)).toBe(0);
+    expect(countDistributions({
+      quantities: { disturbedAreaHa: { type: 'uniform', min: 1, max: 2 } },
+      unitRates: { earthworksPerM3: { type: 'uniform', min: 1, max: 2 } },
+      indirectRates: {},
+      siteDomains: { 'tsf-1.areaHa': { type: 'uniform', min: 1, max: 2 } },
+    })).toBe(3);
+  });
+});
+
+describe('SIMULATION_INPUT_FIELDS', () => {
+  it('should list every numeric quantity, unit rate and indirect rate once', () => {
+    const inputs = createDefaultInputState();
+    const numericKeys = (group: 'quantities' | 'unitRates' | 'indirectRates') =>
+      Object.entries(inputs[group]).filter(([, value]) => typeof value === 'number').map(([key]) => `${group}.${key}`);
+    const expected = [...numericKeys('quantities'), ...numericKeys('unitRates'), ...numericKeys('indirectRates')];
+    const listed = SIMULATION_INPUT_FIELDS.map(f => `${f.group}.${f.key}`);
+
+    expect([...listed].sort()).toEqual([...expected].sort());
+  });
+});
+
+describe('site domain distributions', () => {
+  it('should offer each domain quantity after the quantities', () => {
+    const inputs = createDefaultInputState();
+    const fields = getSimulationInputFields(inputs.siteDomains);
+    const domainFields = fields.filter(f => f.group === 'siteDomains');
+
+    expect(domainFields).toHaveLength(inputs.siteDomains.length * 3);
+    expect(domainFields[0]).toEqual({ group: 'siteDomains', key: `${inputs.siteDomains[0]?.id}.areaHa`, label: `${inputs.siteDomains[0]?.name} Area`, unit: 'ha' });
+    expect(fields.findIndex(f => f.group === 'siteDomains')).toBeGreaterThan(fields.findIndex(f => f.group === 'quantities'));
+    expect(fields.findIndex(f => f.group === 'siteDomains')).toBeLessThan(fields.findIndex(f => f.group === 'unitRates'));
+  });
+
+  it('should drop distributions on removed domains', () => {
+    const inputs = createDefaultInputState();
+    const [tsf, ...rest] = inputs.siteDomains;
+    const distributions = {
+      ...inputs.simulation.distributions,
+      siteDomains: {
+        [`${tsf!.id}.areaHa`]: { type: 'uniform', min: 1, max: 2 },
+        [`${rest[0]!.id}.reshapingDepthM`]: { type: 'uniform', min: 1, max: 2 },
+      },
+    } as const;
+
+    expect(Object.keys(removeStaleDomainDistributions(distributions, rest).siteDomains)).toEqual([`${rest[0]!.id}.reshapingDepthM`]);
+    expect(removeStaleDomainDistributions(distributions, inputs.siteDomains)).toBe(distributions);
+  });
+});
+
+describe('runMonteCarloSimulation', () => {
+  let inputs: InputState;
+  let settings: SimulationSettings;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+    settings = {
+      enabled: true,
+      iterations: 200,
+      seed: 2024,
+      distributions: {
+        quantities: {
+          disturbedAreaHa: { type: 'pert', min: inputs.quantities.disturbedAreaHa * 0.9, mode: inputs.quantities.disturbedAreaHa, max: inputs.quantities.disturbedAreaHa * 1.4 },
+        },
+        unitRates: {
+          earthworksPerM3: { type: 'triangular', min: 8, mode: 12, max: 20 },
+        },
+        indirectRates: {},
+        siteDomains: {},
+      },
+    };
+  });
+
+  it('should return one sample per iteration', () => {
+    const results = runMonteCarloSimulation(inputs, settings);
+    expect(results.iterations).toBe(200);
+    expect(results.samples).toHaveLength(200);
+    expect(results.seed).toBe(2024);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    const first = runMonteCarloSimulation(inputs, settings);
+    const second = runMonteCarloSimulation(inputs, settings);
+    expect(second.totalCost).toEqual(first.totalCost);
+    expect(second.npv).toEqual(first.npv);
+  });
+
+  it('should change with a different seed', () => {
+    const first = runMonteCarloSimulation(inputs, settings);
+    const second = runMonteCarloSimulation(inputs, { ...settings, seed: 7 });
+    expect(second.totalCost.p50).not.toBe(first.totalCost.p50);
+  });
+
+  it('should order P10 <= P50 <= P90 for cost and NPV', () => {
+    const results = runMonteCarloSimulation(inputs, settings);
+    expect(results.totalCost.p10).toBeLessThanOrEqual(results.totalCost.p50);
+    expect(results.totalCost.p50).toBeLessThanOrEqual(results.totalCost.p90);
+    expect(results.npv.p10).toBeLessThanOrEqual(results.npv.p50);
+    expect(results.npv.p50).toBeLessThanOrEqual(results.npv.p90);
+  });
+
+  it('should reproduce the deterministic result when no distributions are defined', () => {
+    const deterministic = calculateClosureCosts(inputs);
+    const results = runMonteCarloSimulation(inputs, {
+      ...settings,
+      iterations: 10,
+      distributions: { quantities: {}, unitRates: {}, indirectRates: {}, siteDomains: {} },
+    });
+
+    expect(results.totalCost.p10).toBeCloseTo(deterministic.totalNominalCost, 0);
+    expect(results.totalCost.p90).toBeCloseTo(deterministic.totalNominalCost, 0);
+    expect(results.npv.p50).toBeCloseTo(deterministic.totalDiscountedCost, 0);
+  });
+});
@@ -0,0 +1,629 @@
+/**
+ * Mine Closure Costing - Monte Carlo Simulation
+ *
+ * Probabilistic mode for the calculation engine. Numeric inputs can carry a
+ * probability distribution; each iteration samples every distribution, runs the
+ * deterministic engine on the sampled inputs and records total cost and NPV.
+ * Runs are seeded, so the same inputs and seed always give the same samples.
+ *
+ * @module monteCarlo
+ */
+
+import type {
+  InputState,
+  ProbabilityDistribution,
+  InputDistributions,
+  DistributionGroup,
+  DirectWorksQuantities,
+  UnitRates,
+  IndirectCostRates,
+  NumericKeys,
+  SimulationSettings,
+  SimulationResults,
+  SimulationSample,
+  PercentileSummary,
+  SiteDomain,
+  SiteDomainDistributionKey,
+  SiteDomainQuantityKey,
+} from './types';
+import { calculateCostTotals } from './calcEngine';
+
+// ============================================================================
+// Input Field Metadata
+// ============================================================================
+
+/** Numeric input of one group that can carry a distribution */
+interface GroupSimulationField<G extends DistributionGroup, K extends string> {
+  readonly group: G;
+  readonly key: K;
+  readonly label: string;
+  readonly unit: string;
+}
+
+/** Numeric input that can carry a distribution */
+export type SimulationInputField =
+  | GroupSimulationField<'quantities', NumericKeys<DirectWorksQuantities>>
+  | GroupSimulationField<'siteDomains', SiteDomainDistributionKey>
+  | GroupSimulationField<'unitRates', NumericKeys<UnitRates>>
+  | GroupSimulationField<'indirectRates', NumericKeys<IndirectCostRates>>;
+
+/** Unit of inputs that are whole numbers - sampled values are rounded */
+const COUNT_UNIT = 'count';
+
+/**
+ * Quantities and rates that can carry a distribution, in display order - every
+ * numeric quantity, unit rate and indirect rate
+ */
+export const SIMULATION_INPUT_FIELDS: readonly Exclude<
+  SimulationInputField,
+  { group: 'siteDomains' }
+>[] = [
+  // Quantities
+  { group: 'quantities', key: 'disturbedAreaHa', label: 'Disturbed Area', unit: 'ha' },
+  { group: 'quantities', key: 'topsoilThicknessM', label: 'Topsoil Thickness', unit: 'm' },
+  { group: 'quantities', key: 'recontouringAreaHa', label: 'Recontouring Area', unit: 'ha' },
+  { group: 'quantities', key: 'roadLengthKm', label: 'Road Length', unit: 'km' },
+  { group: 'quantities', key: 'numberOfBuildings', label: 'Number of Buildings', unit: 'count' },
+  {
+    group: 'quantities',
+    key: 'waterTreatmentFlowMLPerDay',
+    label: 'Treatment Flow Rate',
+    unit: 'ML/day',
+  },
+  {
+    group: 'quantities',
+    key: 'waterTreatmentDurationYears',
+    label: 'Treatment Duration',
+    unit: 'years',
+  },
+  {
+    group: 'quantities',
+    key: 'monitoringDurationYears',
+    label: 'Monitoring Duration',
+    unit: 'years',
+  },
+  {
+    group: 'quantities',
+    key: 'hazardousMaterialsAreaHa',
+    label: 'Hazardous Materials Area',
+    unit: 'ha',
+  },
+  { group: 'quantities', key: 'shaftCount', label: 'Shafts', unit: 'count' },
+  { group: 'quantities', key: 'shaftDiameterM', label: 'Shaft Diameter', unit: 'm' },
+  { group: 'quantities', key: 'raiseCount', label: 'Raises', unit: 'count' },
+  { group: 'quantities', key: 'raiseDiameterM', label: 'Raise Diameter', unit: 'm' },
+  { group: 'quantities', key: 'portalCount', label: 'Portals and Adits', unit: 'count' },
+  {
+    group: 'quantities',
+    key: 'declineBackfillLengthM',
+    label: 'Decline Backfill Length',
+    unit: 'm',
+  },
+  { group: 'quantities', key: 'declineCrossSectionM2', label: 'Decline Cross-Section', unit: 'm²' },
+  { group: 'quantities', key: 'ventilationSiteCount', label: 'Ventilation Sites', unit: 'count' },
+  {
+    group: 'quantities',
+    key: 'subsidenceMonitoringYears',
+    label: 'Subsidence Monitoring Duration',
+    unit: 'years',
+  },
+
+  // Unit rates
+  { group: 'unitRates', key: 'earthworksPerM3', label: 'Earthworks Rate', unit: '$/m³' },
+  { group: 'unitRates', key: 'cappingBasePerM2', label: 'Capping Base Rate', unit: '$/m²' },
+  {
+    group: 'unitRates',
+    key: 'cappingThicknessFactor',
+    label: 'Capping Thickness Factor',
+    unit: 'factor',
+  },
+  { group: 'unitRates', key: 'topsoilPerM3', label: 'Topsoil Rate', unit: '$/m³' },
+  { group: 'unitRates', key: 'revegetationPerHa', label: 'Revegetation Rate', unit: '$/ha' },
+  {
+    group: 'unitRates',
+    key: 'revegetationComplexityFactor',
+    label: 'Revegetation Complexity',
+    unit: 'factor',
+  },
+  {
+    group: 'unitRates',
+    key: 'demolitionPerBuilding',
+    label: 'Demolition Rate',
+    unit: '$/building',
+  },
+  { group: 'unitRates', key: 'roadRehabPerKm', label: 'Road Rehab Rate', unit: '$/km' },
+  { group: 'unitRates', key: 'abandonmentBundPerM', label: 'Abandonment Bund Rate', unit: '$/m' },
+  { group: 'unitRates', key: 'pitBackfillPerM3', label: 'Pit Backfill Rate', unit: '$/m³' },
+  {
+    group: 'unitRates',
+    key: 'pitWallStabilisationPerHa',
+    label: 'Pit Wall Stabilisation Rate',
+    unit: '$/ha',
+  },
+  {
+    group: 'unitRates',
+    key: 'pitLakeManagementPerHa',
+    label: 'Pit Lake Management Rate',
+    unit: '$/ha',
+  },
+  { group: 'unitRates', key: 'safetyFencingPerM', label: 'Safety Fencing Rate', unit: '$/m' },
+  {
+    group: 'unitRates',
+    key: 'infrastructureRehabPerHa',
+    label: 'Infrastructure Area Rehab Rate',
+    unit: '$/ha',
+  },
+  { group: 'unitRates', key: 'shaftCappingPerM2', label: 'Shaft Capping Rate', unit: '$/m²' },
+  {
+    group: 'unitRates',
+    key: 'portalSealingPerPortal',
+    label: 'Portal Sealing Rate',
+    unit: '$/portal',
+  },
+  { group: 'unitRates', key: 'declineBackfillPerM3', label: 'Decline Backfill Rate', unit: '$/m³' },
+  {
+    group: 'unitRates',
+    key: 'ventilationRemovalPerSite',
+    label: 'Ventilation Removal Rate',
+    unit: '$/site',
+  },
+  {
+    group: 'unitRates',
+    key: 'subsidenceMonitoringPerYear',
+    label: 'Subsidence Monitoring Rate',
+    unit: '$/year',
+  },
+  { group: 'unitRates', key: 'waterTreatmentCapex', label: 'Water Treatment Capex', unit: '$' },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentReferenceFlowMLPerDay',
+    label: 'Reference Plant Flow',
+    unit: 'ML/day',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentCapacityExponent',
+    label: 'Plant Capacity Exponent',
+    unit: 'factor',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentAssetLifeYears',
+    label: 'Plant Asset Life',
+    unit: 'years',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentRefurbishmentPercent',
+    label: 'Plant Refurbishment',
+    unit: '%',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentReplacementPercent',
+    label: 'Plant Replacement',
+    unit: '%',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentOpexPerML',
+    label: 'Water Treatment Opex',
+    unit: '$/ML',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentResidualDisposalPerML',
+    label: 'Residual Disposal',
+    unit: '$/ML',
+  },
+  {
+    group: 'unitRates',
+    key: 'waterTreatmentEnergyKWhPerML',
+    label: 'Treatment Energy Use',
+    unit: 'kWh/ML',
+  },
+  { group: 'unitRates', key: 'electricityPerKWh', label: 'Electricity Price', unit: '$/kWh' },
+  {
+    group: 'unitRates',
+    key: 'monitoringPerYearLow',
+    label: 'Monitoring Rate (Low)',
+    unit: '$/year',
+  },
+  {
+    group: 'unitRates',
+    key: 'monitoringPerYearMedium',
+    label: 'Monitoring Rate (Medium)',
+    unit: '$/year',
+  },
+  {
+    group: 'unitRates',
+    key: 'monitoringPerYearHigh',
+    label: 'Monitoring Rate (High)',
+    unit: '$/year',
+  },
+  {
+    group: 'unitRates',
+    key: 'hazardousMaterialsPerHa',
+    label: 'Hazardous Materials Rate',
+    unit: '$/ha',
+  },
+  {
+    group: 'unitRates',
+    key: 'communityHeritageLumpSum',
+    label: 'Community/Heritage Lump Sum',
+    unit: '$',
+  },
+  { group: 'unitRates', key: 'bulkingFactor', label: 'Bulking Factor', unit: 'factor' },
+  {
+    group: 'unitRates',
+    key: 'erosionControlsPerHa',
+    label: 'Erosion Controls Rate',
+    unit: '$/ha',
+  },
+  {
+    group: 'unitRates',
+    key: 'mobilisationLumpSum',
+    label: 'Mobilisation Lump Sum',
+    unit: '$',
+  },
+
+  // Indirect rates
+  {
+    group: 'indirectRates',
+    key: 'siteEstablishmentPercent',
+    label: 'Site Establishment',
+    unit: '%',
+  },
+  {
+    group: 'indirectRates',
+    key: 'contractorMarginPercent',
+    label: 'Contractor Margin',
+    unit: '%',
+  },
+  { group: 'indirectRates', key: 'contingencyPercent', label: 'Base Contingency', unit: '%' },
+  { group: 'indirectRates', key: 'ownersCostsPercent', label: "Owner's Costs", unit: '%' },
+];
+
+/** Site domain quantities that can carry a distribution, for every domain */
+export const SITE_DOMAIN_SIMULATION_FIELDS: readonly {
+  readonly field: SiteDomainQuantityKey;
+  readonly label: string;
+  readonly unit: string;
+}[] = [
+  { field: 'areaHa', label: 'Area', unit: 'ha' },
+  { field: 'coverThicknessM', label: 'Cover Thickness', unit: 'm' },
+  { field: 'reshapingDepthM', label: 'Reshaping Depth', unit: 'm' },
+];
+
+/**
+ * Distribution key of a site domain quantity.
+ *
+ * @param domainId - Site domain id
+ * @param field - Domain quantity
+ */
+export function siteDomainDistributionKey(
+  domainId: string,
+  field: SiteDomainQuantityKey
+): SiteDomainDistributionKey {
+  return `${domainId}.${field}`;
+}
+
+/**
+ * All inputs of a scenario that can carry a distribution, in display order -
+ * the quantities, each site domain's quantities, then the rates.
+ *
+ * @param domains - The scenario's site domain register
+ */
+export function getSimulationInputFields(domains: readonly SiteDomain[]): SimulationInputField[] {
+  const domainFields = domains.flatMap((domain) =>
+    SITE_DOMAIN_SIMULATION_FIELDS.map(({ field, label, unit }) => ({
+      group: 'siteDomains' as const,
+      key: siteDomainDistributionKey(domain.id, field),
+      label: `${domain.name} ${label}`,
+      unit,
+    }))
+  );
+  const quantityFields = SIMULATION_INPUT_FIELDS.filter((f) => f.group === 'quantities');
+  const rateFields = SIMULATION_INPUT_FIELDS.filter((f) => f.group !== 'quantities');
+  return [...quantityFields, ...domainFields, ...rateFields];
+}
+
+/**
+ * Drop distributions on site domains no longer in the register.
+ *
+ * @param distributions - Input distributions
+ * @param domains - Current site domain register
+ * @returns Distributions, unchanged when none are stale
+ */
+export function removeStaleDomainDistributions(
+  distributions: InputDistributions,
+  domains: readonly SiteDomain[]
+): InputDistributions {
+  const keys = new Set(
+    domains.flatMap((d) =>
+      SITE_DOMAIN_SIMULATION_FIELDS.map(({ field }) => siteDomainDistributionKey(d.id, field))
+    )
+  );
+  const entries = Object.entries(distributions.siteDomains);
+  const kept = entries.filter(([key]) => keys.has(key as SiteDomainDistributionKey));
+  return kept.length === entries.length
+    ? distributions
+    : { ...distributions, siteDomains: Object.fromEntries(kept) };
+}
+
+// ============================================================================
+// Random Number Generation
+// ============================================================================
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32).
+ *
+ * @param seed - Integer seed
+ * @returns Function returning uniform values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Sample a standard normal variate (Box-Muller transform).
+ */
+function sampleStandardNormal(random: () => number): number {
+  // 1 - u keeps the argument of log strictly positive
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Sample a gamma variate with unit scale (Marsaglia-Tsang method).
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    // Boost small shapes: Gamma(a) = Gamma(a + 1) × U^(1/a)
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    const x = sampleStandardNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+/**
+ * Sample a beta variate from two gamma variates.
+ */
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+// ============================================================================
+// Distribution Sampling
+// ============================================================================
+
+/**
+ * Draw a single value from a probability distribution.
+ *
+ * @param distribution - Distribution definition
+ * @param random - Uniform random source in [0, 1)
+ * @returns Sampled value
+ */
+export function sampleDistribution(
+  distribution: ProbabilityDistribution,
+  random: () => number
+): number {
+  switch (distribution.type) {
+    case 'uniform': {
+      const { min, max } = distribution;
+      return min + random() * (max - min);
+    }
+
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      const range = max - min;
+      if (range <= 0) return mode;
+
+      // Inverse CDF of the triangular distribution
+      const u = random();
+      const split = (mode - min) / range;
+      if (u < split) {
+        return min + Math.sqrt(u * range * (mode - min));
+      }
+      return max - Math.sqrt((1 - u) * range * (max - mode));
+    }
+
+    case 'pert': {
+      const { min, mode, max } = distribution;
+      const range = max - min;
+      if (range <= 0) return mode;
+
+      // Standard PERT shape parameters (lambda = 4)
+      const alpha = 1 + (4 * (mode - min)) / range;
+      const beta = 1 + (4 * (max - mode)) / range;
+      return min + sampleBeta(alpha, beta, random) * range;
+    }
+
+    case 'lognormal': {
+      const { mean, standardDeviation } = distribution;
+      if (mean <= 0) return 0;
+      if (standardDeviation <= 0) return mean;
+
+      // Convert arithmetic mean/SD to parameters of the underlying normal
+      const sigmaSquared = Math.log(1 + (standardDeviation * standardDeviation) / (mean * mean));
+      const mu = Math.log(mean) - sigmaSquared / 2;
+      return Math.exp(mu + Math.sqrt(sigmaSquared) * sampleStandardNormal(random));
+    }
+  }
+}
+
+/**
+ * Apply one set of sampled values to the inputs.
+ * Fields without a distribution keep their deterministic value.
+ *
+ * @param inputs - Base input state
+ * @param distributions - Input distributions
+ * @param random - Uniform random source in [0, 1)
+ * @returns Input state with sampled values
+ */
+export function sampleInputs(
+  inputs: InputState,
+  distributions: InputDistributions,
+  random: () => number
+): InputState {
+  const sample = (distribution: ProbabilityDistribution, unit: string): number => {
+    const value = Math.max(0, sampleDistribution(distribution, random));
+    // An iteration prices 2 or 3 buildings, not 2.37
+    return unit === COUNT_UNIT ? Math.round(value) : value;
+  };
+
+  let { quantities, unitRates, indirectRates } = inputs;
+  for (const field of SIMULATION_INPUT_FIELDS) {
+    switch (field.group) {
+      case 'quantities': {
+        const distribution = distributions.quantities[field.key];
+        if (distribution) {
+          quantities = { ...quantities, [field.key]: sample(distribution, field.unit) };
+        }
+        break;
+      }
+      case 'unitRates': {
+        const distribution = distributions.unitRates[field.key];
+        if (distribution) {
+          unitRates = { ...unitRates, [field.key]: sample(distribution, field.unit) };
+        }
+        break;
+      }
+      case 'indirectRates': {
+        const distribution = distributions.indirectRates[field.key];
+        if (distribution) {
+          indirectRates = { ...indirectRates, [field.key]: sample(distribution, field.unit) };
+        }
+        break;
+      }
+    }
+  }
+
+  const sampleDomain = (domain: SiteDomain): SiteDomain => {
+    let sampled = domain;
+    for (const { field, unit } of SITE_DOMAIN_SIMULATION_FIELDS) {
+      const distribution = distributions.siteDomains[siteDomainDistributionKey(domain.id, field)];
+      if (distribution) {
+        sampled = { ...sampled, [field]: sample(distribution, unit) };
+      }
+    }
+    return sampled;
+  };
+
+  return {
+    ...inputs,
+    quantities,
+    siteDomains: inputs.siteDomains.map(sampleDomain),
+    unitRates,
+    indirectRates,
+  };
+}
+
+/**
+ * Count the distributions defined across all input groups.
+ */
+export function countDistributions(distributions: InputDistributions): number {
+  return (
+    Object.keys(distributions.quantities).length +
+    Object.keys(distributions.unitRates).length +
+    Object.keys(distributions.indirectRates).length +
+    Object.keys(distributions.siteDomains).length
+  );
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Percentile of sorted values using linear interpolation between ranks.
+ *
+ * @param sortedValues - Values sorted ascending
+ * @param p - Percentile (0-100)
+ * @returns Percentile value (0 for an empty array)
+ */
+export function percentile(sortedValues: readonly number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sortedValues[lower] ?? 0;
+  const upperValue = sortedValues[upper] ?? lowerValue;
+
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+}
+
+/**
+ * Summarise sampled values as P10/P50/P90, mean and range.
+ */
+export function summariseSamples(values: readonly number[]): PercentileSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0;
+
+  return {
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    mean,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+// ============================================================================
+// Simulation Entry Point
+// ============================================================================
+
+/**
+ * Run a seeded Monte Carlo simulation of total cost and NPV.
+ *
+ * @param inputs - Base input state
+ * @param settings - Simulation settings (defaults to the scenario's own settings)
+ * @returns Percentile summaries and per-iteration samples
+ */
+export function runMonteCarloSimulation(
+  inputs: InputState,
+  settings: SimulationSettings = inputs.simulation
+): SimulationResults {
+  const random = createSeededRandom(settings.seed);
+  const iterations = Math.max(1, Math.round(settings.iterations));
+  const samples: SimulationSample[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sampledInputs = sampleInputs(inputs, settings.distributions, random);
+    const { total, npv } = calculateCostTotals(sampledInputs);
+    samples.push({ iteration, totalCost: total, npv });
+  }
+
+  return {
+    iterations,
+    seed: settings.seed,
+    totalCost: summariseSamples(samples.map((s) => s.totalCost)),
+    npv: summariseSamples(samples.map((s) => s.npv)),
+    samples,
+  };
+}
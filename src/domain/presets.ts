@@ -8,6 +8,7 @@
 import type { ScenarioPreset, InputState } from './types';
 import { ClosurePhase } from './types';
 import { DEFAULT_INPUT_STATE } from './defaults';
+import { getWaterTreatmentRates } from './waterTreatment';
 
 /**
  * Small open pit with low water risk
@@ -24,10 +25,6 @@ export const PRESET_SMALL_OPEN_PIT: ScenarioPreset = {
     quantities: {
       ...DEFAULT_INPUT_STATE.quantities,
       disturbedAreaHa: 150,
-      tsfAreaHa: 30,
-      tsfCoverThicknessM: 0.3,
-      wrdFootprintHa: 50,
-      wrdReshapingDepthM: 0.5,
       earthworksVolumeM3Override: null,
       topsoilThicknessM: 0.15,
       recontouringAreaHa: 80,
@@ -35,19 +32,55 @@ export const PRESET_SMALL_OPEN_PIT: ScenarioPreset = {
       numberOfBuildings: 8,
       waterTreatmentFlowMLPerDay: 0.5,
       waterTreatmentDurationYears: 5,
-      waterTreatmentIntensityFactor: 0.8,
+      waterTreatmentTechnology: 'passive_wetland',
       monitoringDurationYears: 10,
       monitoringIntensity: 'low',
       hazardousMaterialsEnabled: false,
       hazardousMaterialsAreaHa: 0,
       communityHeritageEnabled: false,
     },
+    siteDomains: [
+      {
+        id: 'tsf-1',
+        name: 'TSF 1',
+        type: 'tsf',
+        areaHa: 30,
+        coverThicknessM: 0.3,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'wrd-1',
+        name: 'WRD 1',
+        type: 'wrd',
+        areaHa: 50,
+        coverThicknessM: 0,
+        reshapingDepthM: 0.5,
+      },
+      {
+        id: 'pit-1',
+        name: 'Pit 1',
+        type: 'pit',
+        areaHa: 25,
+        coverThicknessM: 0,
+        reshapingDepthM: 0,
+        pitVoid: {
+          abandonmentBundLengthM: 1800,
+          backfillVolumeM3: 0,
+          wallStabilisationAreaHa: 5,
+          pitLakeAreaHa: 0,
+          safetyFenceLengthM: 1800,
+        },
+      },
+    ],
+    unitRates: {
+      ...DEFAULT_INPUT_STATE.unitRates,
+      ...getWaterTreatmentRates('passive_wetland'),
+    },
     riskFactors: {
       contaminationUncertainty: 15,
       geotechUncertainty: 20,
       waterQualityUncertainty: 15,
       regulatoryUncertainty: 15,
-      logisticsComplexity: 20,
     },
     phaseDurations: {
       [ClosurePhase.PlanningApprovals]: 1,
@@ -70,17 +103,13 @@ export const PRESET_LARGE_OPEN_PIT_WRD: ScenarioPreset = {
   id: 'large-open-pit-wrd',
   name: 'Large Open Pit + WRD',
   description:
-    'A large-scale open pit operation with significant waste rock dump requiring extensive reshaping. Moderate water treatment needs and standard monitoring.',
+    'A large-scale open pit operation with significant waste rock dump requiring extensive reshaping. The main pit is partly backfilled and left to form a pit lake. Moderate water treatment needs and standard monitoring.',
   inputs: {
     ...DEFAULT_INPUT_STATE,
     scenarioName: 'Large Open Pit + WRD',
     quantities: {
       ...DEFAULT_INPUT_STATE.quantities,
       disturbedAreaHa: 800,
-      tsfAreaHa: 150,
-      tsfCoverThicknessM: 0.5,
-      wrdFootprintHa: 400,
-      wrdReshapingDepthM: 1.5,
       earthworksVolumeM3Override: null,
       topsoilThicknessM: 0.2,
       recontouringAreaHa: 500,
@@ -88,13 +117,62 @@ export const PRESET_LARGE_OPEN_PIT_WRD: ScenarioPreset = {
       numberOfBuildings: 25,
       waterTreatmentFlowMLPerDay: 3,
       waterTreatmentDurationYears: 12,
-      waterTreatmentIntensityFactor: 1.0,
+      waterTreatmentTechnology: 'lime_hds',
       monitoringDurationYears: 20,
       monitoringIntensity: 'medium',
       hazardousMaterialsEnabled: true,
       hazardousMaterialsAreaHa: 5,
       communityHeritageEnabled: true,
     },
+    siteDomains: [
+      {
+        id: 'tsf-1',
+        name: 'TSF 1',
+        type: 'tsf',
+        areaHa: 150,
+        coverThicknessM: 0.5,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'wrd-1',
+        name: 'North WRD',
+        type: 'wrd',
+        areaHa: 250,
+        coverThicknessM: 0,
+        reshapingDepthM: 1.5,
+      },
+      {
+        id: 'wrd-2',
+        name: 'South WRD',
+        type: 'wrd',
+        areaHa: 150,
+        coverThicknessM: 0,
+        reshapingDepthM: 1.2,
+      },
+      {
+        id: 'pit-1',
+        name: 'Main Pit',
+        type: 'pit',
+        areaHa: 120,
+        coverThicknessM: 0,
+        reshapingDepthM: 0,
+        pitVoid: {
+          abandonmentBundLengthM: 3900,
+          backfillVolumeM3: 2500000,
+          wallStabilisationAreaHa: 30,
+          pitLakeAreaHa: 60,
+          safetyFenceLengthM: 3900,
+        },
+      },
+      {
+        id: 'infrastructure-1',
+        name: 'Process Plant Area',
+        type: 'infrastructure',
+        areaHa: 40,
+        coverThicknessM: 0,
+        reshapingDepthM: 0.3,
+      },
+    ],
     unitRates: {
       ...DEFAULT_INPUT_STATE.unitRates,
       mobilisationLumpSum: 3500000,
@@ -105,7 +183,6 @@ export const PRESET_LARGE_OPEN_PIT_WRD: ScenarioPreset = {
       geotechUncertainty: 35,
       waterQualityUncertainty: 30,
       regulatoryUncertainty: 25,
-      logisticsComplexity: 30,
     },
     phaseDurations: {
       [ClosurePhase.PlanningApprovals]: 2,
@@ -135,10 +212,6 @@ export const PRESET_TSF_DOMINANT: ScenarioPreset = {
     quantities: {
       ...DEFAULT_INPUT_STATE.quantities,
       disturbedAreaHa: 600,
-      tsfAreaHa: 350,
-      tsfCoverThicknessM: 0.8,
-      wrdFootprintHa: 100,
-      wrdReshapingDepthM: 0.8,
       earthworksVolumeM3Override: null,
       topsoilThicknessM: 0.15,
       recontouringAreaHa: 400,
@@ -146,25 +219,50 @@ export const PRESET_TSF_DOMINANT: ScenarioPreset = {
       numberOfBuildings: 18,
       waterTreatmentFlowMLPerDay: 2,
       waterTreatmentDurationYears: 15,
-      waterTreatmentIntensityFactor: 1.2,
+      waterTreatmentTechnology: 'biological_sulphate',
       monitoringDurationYears: 25,
       monitoringIntensity: 'medium',
       hazardousMaterialsEnabled: true,
       hazardousMaterialsAreaHa: 10,
       communityHeritageEnabled: true,
     },
+    siteDomains: [
+      {
+        id: 'tsf-1',
+        name: 'TSF 1 (Upstream)',
+        type: 'tsf',
+        areaHa: 220,
+        coverThicknessM: 0.8,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'tsf-2',
+        name: 'TSF 2 (Paddock)',
+        type: 'tsf',
+        areaHa: 130,
+        coverThicknessM: 1.2,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'wrd-1',
+        name: 'WRD 1',
+        type: 'wrd',
+        areaHa: 100,
+        coverThicknessM: 0,
+        reshapingDepthM: 0.8,
+      },
+    ],
     unitRates: {
       ...DEFAULT_INPUT_STATE.unitRates,
+      ...getWaterTreatmentRates('biological_sulphate'),
       cappingBasePerM2: 30,
       cappingThicknessFactor: 1.6,
-      waterTreatmentCapex: 8000000,
     },
     riskFactors: {
       contaminationUncertainty: 40,
       geotechUncertainty: 45,
       waterQualityUncertainty: 50,
       regulatoryUncertainty: 35,
-      logisticsComplexity: 25,
     },
     phaseDurations: {
       [ClosurePhase.PlanningApprovals]: 2,
@@ -194,10 +292,6 @@ export const PRESET_HIGH_WATER: ScenarioPreset = {
     quantities: {
       ...DEFAULT_INPUT_STATE.quantities,
       disturbedAreaHa: 450,
-      tsfAreaHa: 120,
-      tsfCoverThicknessM: 0.6,
-      wrdFootprintHa: 180,
-      wrdReshapingDepthM: 1.0,
       earthworksVolumeM3Override: null,
       topsoilThicknessM: 0.2,
       recontouringAreaHa: 300,
@@ -205,17 +299,34 @@ export const PRESET_HIGH_WATER: ScenarioPreset = {
       numberOfBuildings: 15,
       waterTreatmentFlowMLPerDay: 8,
       waterTreatmentDurationYears: 30,
-      waterTreatmentIntensityFactor: 1.8,
+      waterTreatmentTechnology: 'reverse_osmosis',
       monitoringDurationYears: 40,
       monitoringIntensity: 'high',
       hazardousMaterialsEnabled: true,
       hazardousMaterialsAreaHa: 8,
       communityHeritageEnabled: true,
     },
+    siteDomains: [
+      {
+        id: 'tsf-1',
+        name: 'TSF 1',
+        type: 'tsf',
+        areaHa: 120,
+        coverThicknessM: 0.6,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'wrd-1',
+        name: 'WRD 1',
+        type: 'wrd',
+        areaHa: 180,
+        coverThicknessM: 0,
+        reshapingDepthM: 1.0,
+      },
+    ],
     unitRates: {
       ...DEFAULT_INPUT_STATE.unitRates,
-      waterTreatmentCapex: 15000000,
-      waterTreatmentOpexPerML: 800,
+      ...getWaterTreatmentRates('reverse_osmosis'),
       monitoringPerYearHigh: 1500000,
     },
     riskFactors: {
@@ -223,7 +334,6 @@ export const PRESET_HIGH_WATER: ScenarioPreset = {
       geotechUncertainty: 30,
       waterQualityUncertainty: 70,
       regulatoryUncertainty: 45,
-      logisticsComplexity: 30,
     },
     phaseDurations: {
       [ClosurePhase.PlanningApprovals]: 2,
@@ -238,12 +348,96 @@ export const PRESET_HIGH_WATER: ScenarioPreset = {
   },
 };
 
+/**
+ * Underground mine
+ * Typical: decline-accessed underground operation with a small surface footprint
+ */
+export const PRESET_UNDERGROUND: ScenarioPreset = {
+  id: 'underground',
+  name: 'Underground Mine',
+  description:
+    'A decline-accessed underground operation with a hoisting shaft, ventilation raises and a small surface footprint. Openings are capped, the portal sealed and the upper decline backfilled, with subsidence monitoring over the workings.',
+  inputs: {
+    ...DEFAULT_INPUT_STATE,
+    scenarioName: 'Underground Mine',
+    quantities: {
+      ...DEFAULT_INPUT_STATE.quantities,
+      disturbedAreaHa: 90,
+      earthworksVolumeM3Override: null,
+      topsoilThicknessM: 0.15,
+      recontouringAreaHa: 40,
+      roadLengthKm: 6,
+      numberOfBuildings: 12,
+      waterTreatmentFlowMLPerDay: 1,
+      waterTreatmentDurationYears: 5,
+      waterTreatmentTechnology: 'lime_hds',
+      monitoringDurationYears: 10,
+      monitoringIntensity: 'medium',
+      hazardousMaterialsEnabled: false,
+      hazardousMaterialsAreaHa: 0,
+      communityHeritageEnabled: false,
+      shaftCount: 1,
+      shaftDiameterM: 6,
+      raiseCount: 4,
+      raiseDiameterM: 3.5,
+      portalCount: 1,
+      declineBackfillLengthM: 300,
+      declineCrossSectionM2: 30,
+      ventilationSiteCount: 3,
+      subsidenceMonitoringYears: 15,
+    },
+    siteDomains: [
+      {
+        id: 'tsf-1',
+        name: 'TSF 1',
+        type: 'tsf',
+        areaHa: 35,
+        coverThicknessM: 0.5,
+        reshapingDepthM: 0,
+      },
+      {
+        id: 'wrd-1',
+        name: 'Waste Stockpile',
+        type: 'wrd',
+        areaHa: 15,
+        coverThicknessM: 0,
+        reshapingDepthM: 0.5,
+      },
+      {
+        id: 'infrastructure-1',
+        name: 'Portal and Shaft Area',
+        type: 'infrastructure',
+        areaHa: 12,
+        coverThicknessM: 0,
+        reshapingDepthM: 0.3,
+      },
+    ],
+    riskFactors: {
+      contaminationUncertainty: 20,
+      geotechUncertainty: 35,
+      waterQualityUncertainty: 25,
+      regulatoryUncertainty: 20,
+    },
+    phaseDurations: {
+      [ClosurePhase.PlanningApprovals]: 1,
+      [ClosurePhase.DecommissioningDemolition]: 1,
+      [ClosurePhase.EarthworksLandform]: 2,
+      [ClosurePhase.TailingsWRDRehabilitation]: 2,
+      [ClosurePhase.WaterManagement]: 5,
+      [ClosurePhase.RevegetationEcosystem]: 2,
+      [ClosurePhase.MonitoringMaintenance]: 15,
+      [ClosurePhase.RelinquishmentPostClosure]: 1,
+    },
+  },
+};
+
 /** All available presets */
 export const SCENARIO_PRESETS: readonly ScenarioPreset[] = [
   PRESET_SMALL_OPEN_PIT,
   PRESET_LARGE_OPEN_PIT_WRD,
   PRESET_TSF_DOMINANT,
   PRESET_HIGH_WATER,
+  PRESET_UNDERGROUND,
 ] as const;
 
 /**
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the Provision Roll-Forward
+ *
+ * Tests cover:
+ * - Provision measurement against the reported NPV
+ * - Reconciliation of opening to closing provision
+ * - Splitting remeasurement into rate and estimate changes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  calculateProvisionBalance,
+  calculateProvisionRollForward,
+  getProvisionDiscountRate,
+} from './provision';
+import { calculateClosureCosts } from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import type { InputState, ProvisionMovement } from './types';
+
+const withFinancials = (
+  inputs: InputState,
+  overrides: Partial<InputState['financialParams']>
+): InputState => ({
+  ...inputs,
+  financialParams: { ...inputs.financialParams, ...overrides },
+});
+
+const reconciles = (m: ProvisionMovement) =>
+  m.openingProvision + m.rateChange + m.estimateChange - m.utilisation + m.unwindingOfDiscount;
+
+describe('Provision measurement', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should use the Fisher-equivalent nominal rate in real mode', () => {
+    const rate = getProvisionDiscountRate({
+      ...inputs.financialParams,
+      discountRateMode: 'real',
+      discountRatePercent: 5,
+      escalationRatePercent: 3,
+    });
+    expect(rate).toBeCloseTo(0.0815, 10);
+  });
+
+  it('should equal the reported NPV at the valuation year in either mode', () => {
+    for (const discountRateMode of ['real', 'nominal'] as const) {
+      const scenario = withFinancials(inputs, { discountRateMode, closureStartYear: 2030, rateBaseYear: 2024 });
+      const results = calculateClosureCosts(scenario);
+      const balance = calculateProvisionBalance(
+        results.annualCashflows,
+        scenario.financialParams.valuationYear,
+        getProvisionDiscountRate(scenario.financialParams)
+      );
+      expect(balance).toBeCloseTo(results.totalDiscountedCost, 0);
+    }
+  });
+
+  it('should exclude spend before the measurement year', () => {
+    const results = calculateClosureCosts(inputs);
+    const rate = getProvisionDiscountRate(inputs.financialParams);
+    const lastYear = results.annualCashflows[results.annualCashflows.length - 1]?.year ?? 0;
+
+    expect(calculateProvisionBalance(results.annualCashflows, lastYear + 1, rate)).toBe(0);
+  });
+});
+
+describe('Provision roll-forward', () => {
+  let prior: InputState;
+
+  beforeEach(() => {
+    prior = withFinancials(createDefaultInputState(), { closureStartYear: 2030, valuationYear: 2025 });
+  });
+
+  it('should have no remeasurement when the estimate is unchanged', () => {
+    const current = withFinancials(prior, { valuationYear: 2026 });
+    const rollForward = calculateProvisionRollForward(prior, current);
+
+    expect(rollForward.rateChange).toBeCloseTo(0, 6);
+    expect(rollForward.estimateChange).toBeCloseTo(0, 6);
+    expect(rollForward.expectedProvision).toBeCloseTo(rollForward.currentProvision, 6);
+  });
+
+  it('should unwind the prior provision at the prior rate', () => {
+    const current = withFinancials(prior, { valuationYear: 2026 });
+    const rollForward = calculateProvisionRollForward(prior, current);
+    const first = rollForward.movements[0];
+    const rate = getProvisionDiscountRate(prior.financialParams);
+
+    expect(first?.year).toBe(2025);
+    expect(first?.isForecast).toBe(false);
+    expect(first?.utilisation).toBe(0);
+    expect(first?.unwindingOfDiscount).toBeCloseTo(rollForward.priorProvision * rate, 6);
+  });
+
+  it('should reconcile every year and run off to zero', () => {
+    const current = withFinancials(prior, { valuationYear: 2027, discountRatePercent: 5 });
+    const rollForward = calculateProvisionRollForward(prior, current);
+
+    rollForward.movements.forEach((m, i) => {
+      expect(reconciles(m)).toBeCloseTo(m.closingProvision, 4);
+      const next = rollForward.movements[i + 1];
+      if (next) expect(next.openingProvision).toBeCloseTo(m.closingProvision, 6);
+    });
+    expect(rollForward.movements[rollForward.movements.length - 1]?.closingProvision).toBeCloseTo(0, 2);
+  });
+
+  it('should show a lower discount rate as a rate change increase', () => {
+    const current = withFinancials(prior, { valuationYear: 2026, discountRatePercent: 5 });
+    const rollForward = calculateProvisionRollForward(prior, current);
+
+    expect(rollForward.rateChange).toBeGreaterThan(0);
+    expect(rollForward.estimateChange).toBeCloseTo(0, 6);
+  });
+
+  it('should show higher quantities as an estimate change increase', () => {
+    const current = withFinancials(
+      { ...prior, quantities: { ...prior.quantities, disturbedAreaHa: prior.quantities.disturbedAreaHa * 2 } },
+      { valuationYear: 2026 }
+    );
+    const rollForward = calculateProvisionRollForward(prior, current);
+
+    expect(rollForward.rateChange).toBeCloseTo(0, 6);
+    expect(rollForward.estimateChange).toBeGreaterThan(0);
+    expect(rollForward.expectedProvision + rollForward.rateChange + rollForward.estimateChange)
+      .toBeCloseTo(rollForward.currentProvision, 4);
+  });
+
+  it('should remeasure in the current year when valuation years are equal', () => {
+    const current = withFinancials(prior, { discountRatePercent: 6 });
+    const rollForward = calculateProvisionRollForward(prior, current);
+
+    expect(rollForward.movements[0]?.year).toBe(2025);
+    expect(rollForward.movements[0]?.isForecast).toBe(true);
+    expect(rollForward.expectedProvision).toBeCloseTo(rollForward.priorProvision, 6);
+  });
+});
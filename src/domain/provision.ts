@@ -0,0 +1,181 @@
+/**
+ * Mine Closure Costing - Provision Roll-Forward
+ *
+ * IAS 37 / AASB 137 style rehabilitation provision schedule built from the
+ * annual cashflows of a prior and a current estimate. The provision is the
+ * present value of remaining escalated closure spend at the nominal discount
+ * rate, which matches the reported NPV in either discount rate mode.
+ *
+ * Cashflows follow the NPV timing convention: a year's spend is undiscounted
+ * in that year, so utilisation is charged before the year's unwinding.
+ *
+ * @module provision
+ */
+
+import type {
+  AnnualCashflow,
+  FinancialParams,
+  InputState,
+  ProvisionMovement,
+  ProvisionRollForward,
+} from './types';
+import { calculateClosureCosts, realToNominalRate } from './calcEngine';
+
+// ============================================================================
+// Provision Measurement
+// ============================================================================
+
+/**
+ * Nominal discount rate used to measure the provision.
+ * A real input rate is converted with the Fisher relationship.
+ *
+ * @param financialParams - Financial parameters
+ * @returns Nominal rate (decimal)
+ */
+export function getProvisionDiscountRate(financialParams: FinancialParams): number {
+  const rate = financialParams.discountRatePercent / 100;
+  return financialParams.discountRateMode === 'nominal'
+    ? rate
+    : realToNominalRate(rate, financialParams.escalationRatePercent / 100);
+}
+
+/**
+ * Present value at the start of a year of escalated spend from that year on.
+ * Spend before the year has already been incurred and is excluded.
+ *
+ * @param cashflows - Annual cashflows
+ * @param year - Measurement year
+ * @param rate - Nominal discount rate (decimal)
+ */
+export function calculateProvisionBalance(
+  cashflows: readonly AnnualCashflow[],
+  year: number,
+  rate: number
+): number {
+  let balance = 0;
+  for (const cf of cashflows) {
+    if (cf.year >= year) {
+      balance += cf.escalatedCost / Math.pow(1 + rate, cf.year - year);
+    }
+  }
+  return balance;
+}
+
+// ============================================================================
+// Roll-Forward
+// ============================================================================
+
+/**
+ * Escalated spend in a calendar year.
+ */
+function spendInYear(cashflows: readonly AnnualCashflow[], year: number): number {
+  return cashflows.find((cf) => cf.year === year)?.escalatedCost ?? 0;
+}
+
+/**
+ * Roll the provision forward from a prior estimate to the current estimate.
+ *
+ * Years from the prior to the current valuation year unwind and utilise the
+ * prior estimate at the prior rate. At the current valuation year the
+ * provision is remeasured: first for the current discount rate (prior
+ * cashflows), then for the current cashflows. Later years are projected from
+ * the current estimate until the last closure spend.
+ *
+ * A current valuation year at or before the prior one has no roll-forward
+ * period; the remeasurement is applied in the current valuation year.
+ *
+ * @param prior - Prior estimate inputs
+ * @param current - Current estimate inputs
+ * @returns Provision roll-forward
+ */
+export function calculateProvisionRollForward(
+  prior: InputState,
+  current: InputState
+): ProvisionRollForward {
+  const priorCashflows = calculateClosureCosts(prior).annualCashflows;
+  const currentCashflows = calculateClosureCosts(current).annualCashflows;
+  const priorRate = getProvisionDiscountRate(prior.financialParams);
+  const currentRate = getProvisionDiscountRate(current.financialParams);
+  const priorValuationYear = prior.financialParams.valuationYear;
+  const currentValuationYear = current.financialParams.valuationYear;
+
+  const movements: ProvisionMovement[] = [];
+  let opening = calculateProvisionBalance(priorCashflows, priorValuationYear, priorRate);
+  const priorProvision = opening;
+
+  // Unwind and utilise the prior estimate up to the current valuation year
+  for (let year = priorValuationYear; year < currentValuationYear; year++) {
+    const utilisation = spendInYear(priorCashflows, year);
+    const unwindingOfDiscount = (opening - utilisation) * priorRate;
+    const closingProvision = opening - utilisation + unwindingOfDiscount;
+    movements.push({
+      year,
+      openingProvision: opening,
+      rateChange: 0,
+      estimateChange: 0,
+      utilisation,
+      unwindingOfDiscount,
+      closingProvision,
+      discountRatePercent: priorRate * 100,
+      isForecast: false,
+    });
+    opening = closingProvision;
+  }
+
+  // Remeasure at the current valuation year
+  const expectedProvision =
+    currentValuationYear > priorValuationYear
+      ? opening
+      : calculateProvisionBalance(priorCashflows, currentValuationYear, priorRate);
+  const atCurrentRate = calculateProvisionBalance(
+    priorCashflows,
+    currentValuationYear,
+    currentRate
+  );
+  const currentProvision = calculateProvisionBalance(
+    currentCashflows,
+    currentValuationYear,
+    currentRate
+  );
+  const rateChange = atCurrentRate - expectedProvision;
+  const estimateChange = currentProvision - atCurrentRate;
+
+  // Project the current estimate until the last closure spend
+  const lastSpendYear = currentCashflows.reduce(
+    (last, cf) => (cf.escalatedCost > 0 ? Math.max(last, cf.year) : last),
+    currentValuationYear
+  );
+  opening = expectedProvision;
+  for (let year = currentValuationYear; year <= lastSpendYear; year++) {
+    const isRemeasurementYear = year === currentValuationYear;
+    const rowRateChange = isRemeasurementYear ? rateChange : 0;
+    const rowEstimateChange = isRemeasurementYear ? estimateChange : 0;
+    const utilisation = spendInYear(currentCashflows, year);
+    const remeasured = opening + rowRateChange + rowEstimateChange;
+    const unwindingOfDiscount = (remeasured - utilisation) * currentRate;
+    const closingProvision = remeasured - utilisation + unwindingOfDiscount;
+    movements.push({
+      year,
+      openingProvision: opening,
+      rateChange: rowRateChange,
+      estimateChange: rowEstimateChange,
+      utilisation,
+      unwindingOfDiscount,
+      closingProvision,
+      discountRatePercent: currentRate * 100,
+      isForecast: true,
+    });
+    opening = closingProvision;
+  }
+
+  return {
+    priorValuationYear,
+    currentValuationYear,
+    priorProvision,
+    expectedProvision,
+    rateChange,
+    estimateChange,
+    currentProvision,
+    movements,
+  };
+}
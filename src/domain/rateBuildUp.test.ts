@@ -0,0 +1,115 @@
+/**
+ * Unit tests for Rate Build-Up
+ *
+ * Tests cover:
+ * - Deriving a rate from plant, labour, haul and consumables
+ * - Starting a build-up from the current rate
+ * - Built-up rates in unit rates, line items and saved scenarios
+ * - Which unit rates can be built up
+ * - Rate build-up validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILD_UP_RATE_KEYS,
+  applyRateBuildUps,
+  calculateRateBuildUp,
+  createRateBuildUp,
+  isBuildUpRate,
+} from './rateBuildUp';
+import { applyRateSetVersion, createRateSet } from './rateLibrary';
+import { applyWaterTreatmentTechnology } from './waterTreatment';
+import { calculateClosureCosts } from './calcEngine';
+import { DEFAULT_UNIT_RATES, createDefaultInputState, normalizeInputState } from './defaults';
+import { InputStateSchema, RateBuildUpSchema } from './validation';
+import type { InputState, RateBuildUp } from './types';
+
+/** Excavator and trucks moving 400 m³/hr over a 2 km haul */
+const EARTHWORKS: RateBuildUp = {
+  equipment: [
+    { description: 'Excavator 120t', quantity: 1, hourlyRate: 420 },
+    { description: 'Haul truck 90t', quantity: 4, hourlyRate: 260 },
+  ],
+  labour: [{ description: 'Operators', quantity: 5, hourlyRate: 96 }],
+  productivityPerHour: 400,
+  haulDistanceKm: 2,
+  haulCostPerUnitKm: 0.45,
+  consumablesPerUnit: 0.35,
+};
+
+describe('calculateRateBuildUp', () => {
+  it('should spread plant and labour over productivity and add haul and consumables', () => {
+    const result = calculateRateBuildUp(EARTHWORKS);
+
+    expect(result.equipmentPerUnit).toBeCloseTo((420 + 4 * 260) / 400, 10);
+    expect(result.labourPerUnit).toBeCloseTo((5 * 96) / 400, 10);
+    expect(result.haulPerUnit).toBeCloseTo(0.9, 10);
+    expect(result.rate).toBeCloseTo(3.65 + 1.2 + 0.9 + 0.35, 10);
+  });
+
+  it('should carry no time-based cost when there is no output', () => {
+    const result = calculateRateBuildUp({ ...EARTHWORKS, productivityPerHour: 0 });
+
+    expect(result.equipmentPerUnit).toBe(0);
+    expect(result.rate).toBeCloseTo(0.9 + 0.35, 10);
+  });
+
+  it('should start a build-up at the current rate', () => {
+    expect(calculateRateBuildUp(createRateBuildUp(8)).rate).toBe(8);
+  });
+});
+
+describe('Built-up unit rates', () => {
+  const withBuildUp = (): InputState => {
+    const inputs = createDefaultInputState();
+    const rateBuildUps = { earthworksPerM3: EARTHWORKS };
+    return { ...inputs, rateBuildUps, unitRates: applyRateBuildUps(inputs.unitRates, rateBuildUps) };
+  };
+
+  it('should replace only the built-up rates', () => {
+    const { unitRates } = withBuildUp();
+
+    expect(unitRates.earthworksPerM3).toBeCloseTo(6.1, 10);
+    expect(unitRates.topsoilPerM3).toBe(DEFAULT_UNIT_RATES.topsoilPerM3);
+  });
+
+  it('should show the built-up rate in the line items', () => {
+    const results = calculateClosureCosts(withBuildUp());
+    const earthworks = results.lineItems.filter(i => i.unitRate === withBuildUp().unitRates.earthworksPerM3);
+
+    expect(earthworks.length).toBeGreaterThan(0);
+  });
+
+  it('should recalculate built-up rates when a saved scenario is loaded', () => {
+    const saved = { ...withBuildUp(), unitRates: { ...DEFAULT_UNIT_RATES, earthworksPerM3: 99 } };
+
+    expect(normalizeInputState(saved).unitRates.earthworksPerM3).toBeCloseTo(6.1, 10);
+    expect(normalizeInputState({}).rateBuildUps).toEqual({});
+  });
+
+  it('should keep built-up rates when a rate set or treatment technology is applied', () => {
+    const rateSet = createRateSet('regional', 'Regional', { ...DEFAULT_UNIT_RATES, earthworksPerM3: 12 }, { effectiveDate: '2026-01-01', notes: '' }, '2026-01-01T00:00:00.000Z');
+
+    expect(applyRateSetVersion(withBuildUp(), rateSet, rateSet.versions[0]!).unitRates.earthworksPerM3).toBeCloseTo(6.1, 10);
+    expect(applyWaterTreatmentTechnology(withBuildUp(), 'reverse_osmosis').unitRates.earthworksPerM3).toBeCloseTo(6.1, 10);
+  });
+});
+
+describe('isBuildUpRate', () => {
+  it('should accept the rates that can be built up and no others', () => {
+    expect(BUILD_UP_RATE_KEYS.every(key => key in DEFAULT_UNIT_RATES && isBuildUpRate(key))).toBe(true);
+    expect(isBuildUpRate('bulkingFactor')).toBe(false);
+  });
+});
+
+describe('RateBuildUpSchema', () => {
+  it('should validate a build-up and a scenario holding it', () => {
+    expect(RateBuildUpSchema.safeParse(EARTHWORKS).success).toBe(true);
+    expect(InputStateSchema.safeParse({ ...createDefaultInputState(), rateBuildUps: { earthworksPerM3: EARTHWORKS } }).success).toBe(true);
+  });
+
+  it('should reject zero productivity and unknown rates', () => {
+    expect(RateBuildUpSchema.safeParse({ ...EARTHWORKS, productivityPerHour: 0 }).success).toBe(false);
+    expect(InputStateSchema.safeParse({ ...createDefaultInputState(), rateBuildUps: { gravelPerM3: EARTHWORKS } }).success).toBe(false);
+  });
+});
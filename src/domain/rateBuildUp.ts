@@ -0,0 +1,122 @@
+/**
+ * Mine Closure Costing - Rate Build-Up
+ *
+ * First-principles derivation of unit rates from plant and labour hourly
+ * rates, productivity, haul distance and consumables, so a rate such as
+ * earthworks $/m³ can be traced to its inputs:
+ *
+ *   rate = (plant $/hr + labour $/hr) / productivity
+ *        + haul distance × haul cost per unit-km
+ *        + consumables per unit
+ *
+ * A built-up rate is stored in the scenario's unit rates like a typed rate,
+ * so line items, sensitivity and simulation use it unchanged.
+ *
+ * @module rateBuildUp
+ */
+
+import type { BuildUpRateKey, RateBuildUp, RateBuildUpResource, UnitRates } from './types';
+
+/** Unit rates that can be built up, with their display names and units */
+export const BUILD_UP_RATES: Record<BuildUpRateKey, { name: string; unit: string }> = {
+  earthworksPerM3: { name: 'Earthworks', unit: 'm³' },
+  cappingBasePerM2: { name: 'Capping base', unit: 'm²' },
+  topsoilPerM3: { name: 'Topsoil', unit: 'm³' },
+  revegetationPerHa: { name: 'Revegetation', unit: 'ha' },
+  demolitionPerBuilding: { name: 'Demolition', unit: 'building' },
+  roadRehabPerKm: { name: 'Road rehabilitation', unit: 'km' },
+  abandonmentBundPerM: { name: 'Abandonment bund', unit: 'm' },
+  pitBackfillPerM3: { name: 'Pit backfill', unit: 'm³' },
+  pitWallStabilisationPerHa: { name: 'Pit wall stabilisation', unit: 'ha' },
+  pitLakeManagementPerHa: { name: 'Pit lake management', unit: 'ha' },
+  safetyFencingPerM: { name: 'Safety fencing', unit: 'm' },
+  infrastructureRehabPerHa: { name: 'Infrastructure area rehabilitation', unit: 'ha' },
+  shaftCappingPerM2: { name: 'Shaft capping', unit: 'm²' },
+  portalSealingPerPortal: { name: 'Portal sealing', unit: 'portal' },
+  declineBackfillPerM3: { name: 'Decline backfill', unit: 'm³' },
+  ventilationRemovalPerSite: { name: 'Ventilation removal', unit: 'site' },
+  subsidenceMonitoringPerYear: { name: 'Subsidence monitoring', unit: 'year' },
+  waterTreatmentOpexPerML: { name: 'Water treatment opex', unit: 'ML' },
+  waterTreatmentResidualDisposalPerML: { name: 'Residual disposal', unit: 'ML' },
+  hazardousMaterialsPerHa: { name: 'Hazardous materials', unit: 'ha' },
+  erosionControlsPerHa: { name: 'Erosion controls', unit: 'ha' },
+};
+
+/** Unit rates that can be built up, in display order */
+export const BUILD_UP_RATE_KEYS = Object.keys(BUILD_UP_RATES) as BuildUpRateKey[];
+
+/** Whether a unit rate can be built up */
+export function isBuildUpRate(key: keyof UnitRates): key is BuildUpRateKey {
+  return key in BUILD_UP_RATES;
+}
+
+/** Components of a built-up rate, per unit of output */
+export interface RateBuildUpResult {
+  readonly equipmentPerUnit: number;
+  readonly labourPerUnit: number;
+  readonly haulPerUnit: number;
+  readonly consumablesPerUnit: number;
+  readonly rate: number;
+}
+
+/** Hourly cost of a list of plant items or crews ($/hr) */
+function hourlyCost(resources: readonly RateBuildUpResource[]): number {
+  return resources.reduce((sum, r) => sum + r.quantity * r.hourlyRate, 0);
+}
+
+/**
+ * Calculate a unit rate from its build-up.
+ *
+ * @param buildUp - Rate build-up
+ * @returns Rate and its components per unit
+ */
+export function calculateRateBuildUp(buildUp: RateBuildUp): RateBuildUpResult {
+  // With no output there is no time-based cost to spread
+  const perUnit = (cost: number) =>
+    buildUp.productivityPerHour > 0 ? cost / buildUp.productivityPerHour : 0;
+  const equipmentPerUnit = perUnit(hourlyCost(buildUp.equipment));
+  const labourPerUnit = perUnit(hourlyCost(buildUp.labour));
+  const haulPerUnit = buildUp.haulDistanceKm * buildUp.haulCostPerUnitKm;
+
+  return {
+    equipmentPerUnit,
+    labourPerUnit,
+    haulPerUnit,
+    consumablesPerUnit: buildUp.consumablesPerUnit,
+    rate: equipmentPerUnit + labourPerUnit + haulPerUnit + buildUp.consumablesPerUnit,
+  };
+}
+
+/**
+ * Start a build-up for a rate. The current rate is carried as consumables so
+ * the estimate does not change until plant and labour are entered.
+ *
+ * @param currentRate - Rate currently entered
+ */
+export function createRateBuildUp(currentRate: number): RateBuildUp {
+  return {
+    equipment: [],
+    labour: [],
+    productivityPerHour: 100,
+    haulDistanceKm: 0,
+    haulCostPerUnitKm: 0,
+    consumablesPerUnit: currentRate,
+  };
+}
+
+/**
+ * Replace built-up unit rates with the rates calculated from their build-ups.
+ *
+ * @param unitRates - Unit rates
+ * @param rateBuildUps - Build-ups by unit rate
+ * @returns Unit rates with built-up rates recalculated
+ */
+export function applyRateBuildUps(
+  unitRates: UnitRates,
+  rateBuildUps: Partial<Record<keyof UnitRates, RateBuildUp>>
+): UnitRates {
+  const builtUp = Object.fromEntries(
+    Object.entries(rateBuildUps).map(([key, buildUp]) => [key, calculateRateBuildUp(buildUp).rate])
+  ) as Partial<UnitRates>;
+  return { ...unitRates, ...builtUp };
+}
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the Rate Library
+ *
+ * Tests cover:
+ * - Creating rate sets and numbering versions
+ * - Applying a version and recording the rate source
+ * - Detecting rates edited after loading
+ * - Filling rates missing from older versions
+ * - Rate library validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addRateSetVersion,
+  applyRateSetVersion,
+  createRateSet,
+  findRateSetVersion,
+  getLatestRateSetVersion,
+  isRateSetModified,
+  normalizeRateLibrary,
+} from './rateLibrary';
+import { DEFAULT_UNIT_RATES, createDefaultInputState } from './defaults';
+import { InputStateSchema, RateLibrarySchema } from './validation';
+import type { RateSet, UnitRates } from './types';
+
+const CREATED_AT = '2026-01-15T09:30:00.000Z';
+const details = { effectiveDate: '2026-01-01', notes: 'FY26 contractor schedule' };
+
+function regionalRates(): RateSet {
+  return createRateSet('pilbara', 'Pilbara contractors', { ...DEFAULT_UNIT_RATES, topsoilPerM3: 18 }, details, CREATED_AT);
+}
+
+describe('Rate sets', () => {
+  it('should store the rates as version 1', () => {
+    const rateSet = regionalRates();
+
+    expect(rateSet.versions).toHaveLength(1);
+    expect(rateSet.versions[0]).toMatchObject({ version: 1, ...details, createdAt: CREATED_AT });
+    expect(rateSet.versions[0]?.unitRates.topsoilPerM3).toBe(18);
+  });
+
+  it('should number new versions and keep earlier ones unchanged', () => {
+    const v1 = regionalRates();
+    const v2 = addRateSetVersion(v1, { ...DEFAULT_UNIT_RATES, topsoilPerM3: 20 }, { effectiveDate: '2027-01-01', notes: '' }, CREATED_AT);
+
+    expect(v2.versions.map(v => v.version)).toEqual([1, 2]);
+    expect(v2.versions[0]).toEqual(v1.versions[0]);
+    expect(getLatestRateSetVersion(v2)?.unitRates.topsoilPerM3).toBe(20);
+  });
+
+  it('should find the version a scenario used', () => {
+    const library = [regionalRates()];
+
+    expect(findRateSetVersion(library, { rateSetId: 'pilbara', name: 'Pilbara contractors', version: 1, effectiveDate: '2026-01-01' })).toBeDefined();
+    expect(findRateSetVersion(library, { rateSetId: 'pilbara', name: 'Pilbara contractors', version: 3, effectiveDate: '2026-01-01' })).toBeUndefined();
+    expect(findRateSetVersion([], { rateSetId: 'pilbara', name: 'Pilbara contractors', version: 1, effectiveDate: '2026-01-01' })).toBeUndefined();
+  });
+});
+
+describe('Applying a rate set', () => {
+  it('should load the rates and record the rate set and version', () => {
+    const rateSet = regionalRates();
+    const inputs = applyRateSetVersion(createDefaultInputState(), rateSet, rateSet.versions[0]!);
+
+    expect(inputs.unitRates.topsoilPerM3).toBe(18);
+    expect(inputs.rateSource).toEqual({
+      rateSetId: 'pilbara',
+      name: 'Pilbara contractors',
+      version: 1,
+      effectiveDate: '2026-01-01',
+    });
+  });
+
+  it('should detect rates edited after loading', () => {
+    const rateSet = regionalRates();
+    const version = rateSet.versions[0]!;
+    const inputs = applyRateSetVersion(createDefaultInputState(), rateSet, version);
+
+    expect(isRateSetModified(inputs.unitRates, version)).toBe(false);
+    expect(isRateSetModified({ ...inputs.unitRates, topsoilPerM3: 19 }, version)).toBe(true);
+  });
+
+  it('should fill rates missing from versions saved before they existed', () => {
+    const { shaftCappingPerM2: _shaftCappingPerM2, ...older } = DEFAULT_UNIT_RATES;
+    void _shaftCappingPerM2;
+    const rateSet = createRateSet('old', 'Old rates', older as UnitRates, details, CREATED_AT);
+
+    const inputs = applyRateSetVersion(createDefaultInputState(), rateSet, rateSet.versions[0]!);
+    expect(inputs.unitRates.shaftCappingPerM2).toBe(DEFAULT_UNIT_RATES.shaftCappingPerM2);
+    expect(normalizeRateLibrary([rateSet])[0]?.versions[0]?.unitRates.shaftCappingPerM2).toBe(
+      DEFAULT_UNIT_RATES.shaftCappingPerM2
+    );
+  });
+});
+
+describe('RateLibrarySchema', () => {
+  it('should validate a library and a scenario with a rate source', () => {
+    const rateSet = regionalRates();
+    const inputs = applyRateSetVersion(createDefaultInputState(), rateSet, rateSet.versions[0]!);
+
+    expect(RateLibrarySchema.safeParse([rateSet]).success).toBe(true);
+    expect(InputStateSchema.safeParse(inputs).success).toBe(true);
+    expect(createDefaultInputState().rateSource).toBeNull();
+  });
+
+  it('should reject duplicate versions and invalid effective dates', () => {
+    const rateSet = regionalRates();
+    const version = rateSet.versions[0]!;
+
+    expect(RateLibrarySchema.safeParse([{ ...rateSet, versions: [version, version] }]).success).toBe(false);
+    expect(RateLibrarySchema.safeParse([{ ...rateSet, versions: [{ ...version, effectiveDate: '1 Jan 2026' }] }]).success).toBe(false);
+  });
+
+  it('should reject duplicate rate set ids', () => {
+    expect(RateLibrarySchema.safeParse([regionalRates(), regionalRates()]).success).toBe(false);
+  });
+});
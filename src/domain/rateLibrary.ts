@@ -0,0 +1,147 @@
+/**
+ * Mine Closure Costing - Rate Library
+ *
+ * Named, versioned unit rate schedules - e.g. a regional contractor schedule -
+ * that can be saved from a scenario and applied to others. Each save of a rate
+ * set adds a dated version; a scenario records the set and version its unit
+ * rates were loaded from.
+ *
+ * @module rateLibrary
+ */
+
+import type {
+  InputState,
+  RateSet,
+  RateSetReference,
+  RateSetVersion,
+  RateSetVersionDetails,
+  UnitRates,
+} from './types';
+import { DEFAULT_UNIT_RATES } from './defaults';
+import { applyRateBuildUps } from './rateBuildUp';
+
+/**
+ * Create a rate set holding the given rates as version 1.
+ *
+ * @param id - Unique rate set id
+ * @param name - Rate set name
+ * @param unitRates - Rates to store
+ * @param details - Effective date and notes for the version
+ * @param createdAt - Save timestamp (ISO)
+ */
+export function createRateSet(
+  id: string,
+  name: string,
+  unitRates: UnitRates,
+  details: RateSetVersionDetails,
+  createdAt: string
+): RateSet {
+  return {
+    id,
+    name,
+    versions: [{ version: 1, ...details, createdAt, unitRates: { ...unitRates } }],
+  };
+}
+
+/**
+ * Add a new version of a rate set. Earlier versions are kept unchanged so
+ * scenarios that used them can still be traced.
+ *
+ * @param rateSet - Rate set to extend
+ * @param unitRates - Rates for the new version
+ * @param details - Effective date and notes for the version
+ * @param createdAt - Save timestamp (ISO)
+ * @returns Rate set with the new version appended
+ */
+export function addRateSetVersion(
+  rateSet: RateSet,
+  unitRates: UnitRates,
+  details: RateSetVersionDetails,
+  createdAt: string
+): RateSet {
+  const version = Math.max(0, ...rateSet.versions.map((v) => v.version)) + 1;
+  return {
+    ...rateSet,
+    versions: [
+      ...rateSet.versions,
+      { version, ...details, createdAt, unitRates: { ...unitRates } },
+    ],
+  };
+}
+
+/**
+ * Latest version of a rate set.
+ */
+export function getLatestRateSetVersion(rateSet: RateSet): RateSetVersion | undefined {
+  return rateSet.versions.reduce<RateSetVersion | undefined>(
+    (latest, v) => (!latest || v.version > latest.version ? v : latest),
+    undefined
+  );
+}
+
+/**
+ * Find the rate set version a scenario's rates were loaded from.
+ *
+ * @param library - Rate library
+ * @param reference - Scenario rate source
+ * @returns The version, or undefined when it is not in this library
+ */
+export function findRateSetVersion(
+  library: readonly RateSet[],
+  reference: RateSetReference
+): RateSetVersion | undefined {
+  return library
+    .find((set) => set.id === reference.rateSetId)
+    ?.versions.find((v) => v.version === reference.version);
+}
+
+/**
+ * Load a rate set version into a scenario and record it as the rate source.
+ * Rates added to the model after the version was saved take their defaults;
+ * rates the scenario builds up keep their build-ups.
+ *
+ * @param inputs - Scenario inputs
+ * @param rateSet - Rate set
+ * @param version - Version to apply
+ * @returns Updated inputs
+ */
+export function applyRateSetVersion(
+  inputs: InputState,
+  rateSet: RateSet,
+  version: RateSetVersion
+): InputState {
+  return {
+    ...inputs,
+    unitRates: applyRateBuildUps(
+      { ...DEFAULT_UNIT_RATES, ...version.unitRates },
+      inputs.rateBuildUps
+    ),
+    rateSource: {
+      rateSetId: rateSet.id,
+      name: rateSet.name,
+      version: version.version,
+      effectiveDate: version.effectiveDate,
+    },
+  };
+}
+
+/**
+ * Whether a scenario's rates differ from the rate set version they were loaded from.
+ */
+export function isRateSetModified(unitRates: UnitRates, version: RateSetVersion): boolean {
+  const stored: UnitRates = { ...DEFAULT_UNIT_RATES, ...version.unitRates };
+  return (Object.keys(stored) as (keyof UnitRates)[]).some((key) => unitRates[key] !== stored[key]);
+}
+
+/**
+ * Fill in unit rates missing from rate set versions saved by earlier versions of the tool.
+ */
+export function normalizeRateLibrary(library: readonly RateSet[]): RateSet[] {
+  return library.map((set) => ({
+    ...set,
+    versions: set.versions.map((v) => ({
+      ...v,
+      unitRates: { ...DEFAULT_UNIT_RATES, ...v.unitRates },
+    })),
+  }));
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for Scale Curves
+ *
+ * Tests cover:
+ * - Power curve and tiered rate multipliers
+ * - Starting a curve that leaves the rate unchanged
+ * - Scaled rates in direct works and domain line items
+ * - Scale curve validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createScaleCurve, getScaleMultiplier, scaleUnitRate } from './scaleCurves';
+import { createSiteDomain } from './siteDomains';
+import { calculateClosureCosts, calculateDomainClosureCosts } from './calcEngine';
+import { DEFAULT_UNIT_RATES, createDefaultInputState, normalizeInputState } from './defaults';
+import { InputStateSchema, ScaleCurveSchema } from './validation';
+import { CostCategory } from './types';
+import type { InputState, ScaleCurve } from './types';
+
+const POWER: ScaleCurve = { type: 'power', referenceQuantity: 100000, exponent: 0.9 };
+
+/** Full rate to 100k m³, 80% to 500k m³, 60% beyond */
+const TIERED: ScaleCurve = {
+  type: 'tiered',
+  tiers: [
+    { fromQuantity: 0, rateFactor: 1 },
+    { fromQuantity: 100000, rateFactor: 0.8 },
+    { fromQuantity: 500000, rateFactor: 0.6 },
+  ],
+};
+
+describe('getScaleMultiplier', () => {
+  it('should apply the power curve relative to the reference quantity', () => {
+    expect(getScaleMultiplier(POWER, 100000)).toBeCloseTo(1, 10);
+    expect(getScaleMultiplier(POWER, 1000000)).toBeCloseTo(Math.pow(10, -0.1), 10);
+    expect(getScaleMultiplier(POWER, 10000)).toBeCloseTo(Math.pow(10, 0.1), 10);
+  });
+
+  it('should scale linearly with an exponent of 1', () => {
+    expect(getScaleMultiplier({ ...POWER, exponent: 1 }, 5000000)).toBe(1);
+  });
+
+  it('should blend the band factors across the quantity', () => {
+    expect(getScaleMultiplier(TIERED, 50000)).toBe(1);
+    expect(getScaleMultiplier(TIERED, 200000)).toBeCloseTo((100000 + 100000 * 0.8) / 200000, 10);
+    expect(getScaleMultiplier(TIERED, 1000000)).toBeCloseTo((100000 + 400000 * 0.8 + 500000 * 0.6) / 1000000, 10);
+  });
+
+  it('should leave the rate unchanged for no quantity or no curve', () => {
+    expect(getScaleMultiplier(POWER, 0)).toBe(1);
+    expect(scaleUnitRate(8, 1000000)).toBe(8);
+    expect(scaleUnitRate(8, 1000000, POWER)).toBeCloseTo(8 * Math.pow(10, -0.1), 10);
+  });
+
+  it('should start new curves at the unscaled rate', () => {
+    for (const type of ['power', 'tiered'] as const) {
+      const curve = createScaleCurve(type, 100000);
+      expect(getScaleMultiplier(curve, 2500000)).toBeCloseTo(1, 10);
+      expect(ScaleCurveSchema.safeParse(curve).success).toBe(true);
+    }
+  });
+});
+
+describe('Scaled line items', () => {
+  const withCurves = (scaleCurves: InputState['scaleCurves']): InputState => ({
+    ...createDefaultInputState(),
+    scaleCurves,
+  });
+
+  it('should make a large earthworks volume cheaper per unit', () => {
+    const inputs = withCurves({ earthworksPerM3: POWER });
+    const large = { ...inputs, quantities: { ...inputs.quantities, earthworksVolumeM3Override: 2000000 } };
+    const earthworks = calculateClosureCosts(large).lineItems.find(i => i.category === CostCategory.Earthworks);
+    const linear = calculateClosureCosts({ ...large, scaleCurves: {} }).lineItems.find(i => i.category === CostCategory.Earthworks);
+
+    expect(earthworks?.unitRate).toBeLessThan(linear?.unitRate ?? 0);
+    expect(earthworks?.unitRate).toBeCloseTo((linear?.unitRate ?? 0) * Math.pow(20, -0.1), 6);
+  });
+
+  it("should scale domain capping at each domain's own area", () => {
+    const curve: ScaleCurve = { type: 'power', referenceQuantity: 500000, exponent: 0.8 };
+    const small = { ...createSiteDomain('tsf', []), areaHa: 10 };
+    const large = { ...small, areaHa: 500 };
+    const rate = (areaHa: number) =>
+      calculateDomainClosureCosts({ ...small, areaHa }, DEFAULT_UNIT_RATES, { cappingBasePerM2: curve })[0]?.unitRate ?? 0;
+    const linear = (areaHa: number) => calculateDomainClosureCosts({ ...small, areaHa }, DEFAULT_UNIT_RATES)[0]?.unitRate ?? 0;
+
+    expect(rate(small.areaHa)).toBeGreaterThan(linear(small.areaHa));
+    expect(rate(large.areaHa)).toBeLessThan(linear(large.areaHa));
+  });
+
+  it('should not change the default estimate', () => {
+    expect(createDefaultInputState().scaleCurves).toEqual({});
+    expect(normalizeInputState({}).scaleCurves).toEqual({});
+    expect(calculateClosureCosts(withCurves({})).totalNominalCost).toBe(calculateClosureCosts(createDefaultInputState()).totalNominalCost);
+  });
+});
+
+describe('ScaleCurveSchema', () => {
+  it('should validate curves and a scenario holding them', () => {
+    expect(ScaleCurveSchema.safeParse(POWER).success).toBe(true);
+    expect(ScaleCurveSchema.safeParse(TIERED).success).toBe(true);
+    expect(InputStateSchema.safeParse({ ...createDefaultInputState(), scaleCurves: { earthworksPerM3: TIERED } }).success).toBe(true);
+  });
+
+  it('should reject out-of-range exponents and badly ordered bands', () => {
+    expect(ScaleCurveSchema.safeParse({ ...POWER, exponent: 0.2 }).success).toBe(false);
+    expect(ScaleCurveSchema.safeParse({ type: 'tiered', tiers: [{ fromQuantity: 10, rateFactor: 1 }] }).success).toBe(false);
+    expect(ScaleCurveSchema.safeParse({ type: 'tiered', tiers: [{ fromQuantity: 0, rateFactor: 1 }, { fromQuantity: 500, rateFactor: 0.9 }, { fromQuantity: 100, rateFactor: 0.8 }] }).success).toBe(false);
+    expect(InputStateSchema.safeParse({ ...createDefaultInputState(), scaleCurves: { gravelPerM3: POWER } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Mine Closure Costing - Scale Curves
+ *
+ * Economies of scale for unit rates. Without a curve a line item costs its
+ * quantity × unit rate; with one, the rate is adjusted for the quantity of the
+ * line item it is applied to, so large earthworks volumes and revegetation
+ * areas cost less per unit:
+ *
+ *   power:  rate = base × (quantity / reference)^(exponent − 1)
+ *   tiered: rate = base × Σ(band quantity × band factor) / quantity
+ *
+ * @module scaleCurves
+ */
+
+import type { RateTier, ScaleCurve, UnitRates } from './types';
+
+/** Unit rates a scale curve can apply to, with a typical reference quantity in the rate's unit */
+export const SCALABLE_RATES: Partial<Record<keyof UnitRates, number>> = {
+  earthworksPerM3: 100000,
+  cappingBasePerM2: 500000,
+  topsoilPerM3: 50000,
+  revegetationPerHa: 100,
+  demolitionPerBuilding: 10,
+  roadRehabPerKm: 10,
+  abandonmentBundPerM: 2000,
+  pitBackfillPerM3: 1000000,
+  pitWallStabilisationPerHa: 10,
+  pitLakeManagementPerHa: 20,
+  safetyFencingPerM: 2000,
+  infrastructureRehabPerHa: 20,
+  shaftCappingPerM2: 50,
+  portalSealingPerPortal: 1,
+  declineBackfillPerM3: 10000,
+  ventilationRemovalPerSite: 2,
+  subsidenceMonitoringPerYear: 10,
+  hazardousMaterialsPerHa: 5,
+  erosionControlsPerHa: 100,
+};
+
+/** Scale curve types with display names */
+export const SCALE_CURVE_TYPE_NAMES: Record<ScaleCurve['type'], string> = {
+  power: 'Power curve',
+  tiered: 'Tiered rates',
+};
+
+/**
+ * Blended rate multiplier across rate bands - each band's quantity is costed
+ * at its own factor.
+ */
+function tieredMultiplier(tiers: readonly RateTier[], quantity: number): number {
+  let cost = 0;
+  tiers.forEach((tier, i) => {
+    const bandEnd = Math.min(quantity, tiers[i + 1]?.fromQuantity ?? Infinity);
+    if (bandEnd > tier.fromQuantity) cost += (bandEnd - tier.fromQuantity) * tier.rateFactor;
+  });
+  return cost / quantity;
+}
+
+/**
+ * Multiplier on the base rate for a quantity.
+ *
+ * @param curve - Scale curve
+ * @param quantity - Quantity the rate is applied to
+ * @returns Rate multiplier (1 for no quantity)
+ */
+export function getScaleMultiplier(curve: ScaleCurve, quantity: number): number {
+  if (quantity <= 0) return 1;
+  switch (curve.type) {
+    case 'power':
+      return curve.referenceQuantity > 0
+        ? Math.pow(quantity / curve.referenceQuantity, curve.exponent - 1)
+        : 1;
+    case 'tiered':
+      return curve.tiers.length > 0 ? tieredMultiplier(curve.tiers, quantity) : 1;
+  }
+}
+
+/**
+ * Unit rate for a quantity, after its scale curve if it has one.
+ *
+ * @param baseRate - Unit rate
+ * @param quantity - Quantity the rate is applied to
+ * @param curve - Scale curve, if any
+ */
+export function scaleUnitRate(baseRate: number, quantity: number, curve?: ScaleCurve): number {
+  return curve ? baseRate * getScaleMultiplier(curve, quantity) : baseRate;
+}
+
+/**
+ * Start a scale curve that leaves the rate unchanged until its exponent or
+ * band factors are edited.
+ *
+ * @param type - Curve type
+ * @param referenceQuantity - Reference quantity, or the second band's start
+ */
+export function createScaleCurve(type: ScaleCurve['type'], referenceQuantity: number): ScaleCurve {
+  return type === 'power'
+    ? { type, referenceQuantity, exponent: 1 }
+    : {
+        type,
+        tiers: [
+          { fromQuantity: 0, rateFactor: 1 },
+          { fromQuantity: referenceQuantity, rateFactor: 1 },
+        ],
+      };
+}
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the Phase Scheduler
+ *
+ * Tests cover:
+ * - Default schedule reproduces the standard closure sequence
+ * - Finish-to-start and start-to-start relationships with lags
+ * - Critical path and float
+ * - Cycle detection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { scheduleClosurePhases, findScheduleCycle, wouldCreateCycle } from './scheduler';
+import { calculateClosureCosts, calculateTotalDuration, getPhaseStartYear } from './calcEngine';
+import { createDefaultInputState, DEFAULT_PHASE_SCHEDULE } from './defaults';
+import { PhaseScheduleSchema } from './validation';
+import type { InputState, PhaseSchedule, PhaseTiming } from './types';
+import { ClosurePhase } from './types';
+
+function timingOf(timings: readonly PhaseTiming[], phase: ClosurePhase): PhaseTiming {
+  const timing = timings.find(t => t.phase === phase);
+  if (!timing) throw new Error(`Missing timing for ${phase}`);
+  return timing;
+}
+
+describe('scheduleClosurePhases', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  describe('Default schedule', () => {
+    it('should start phases in the standard closure sequence', () => {
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, inputs.phaseSchedule);
+
+      // Default durations: planning 2, decomm 2, earthworks 3, TSF/WRD 3, water 10,
+      // revegetation 3, monitoring 15, relinquishment 2
+      expect(timingOf(timings, ClosurePhase.PlanningApprovals).startYear).toBe(0);
+      expect(timingOf(timings, ClosurePhase.DecommissioningDemolition).startYear).toBe(2);
+      expect(timingOf(timings, ClosurePhase.EarthworksLandform).startYear).toBe(4);
+      expect(timingOf(timings, ClosurePhase.TailingsWRDRehabilitation).startYear).toBe(4);
+      expect(timingOf(timings, ClosurePhase.WaterManagement).startYear).toBe(4);
+      expect(timingOf(timings, ClosurePhase.RevegetationEcosystem).startYear).toBe(7);
+      expect(timingOf(timings, ClosurePhase.MonitoringMaintenance).startYear).toBe(10);
+      expect(timingOf(timings, ClosurePhase.RelinquishmentPostClosure).startYear).toBe(25);
+    });
+
+    it('should total 27 years for default durations', () => {
+      const { totalDurationYears } = scheduleClosurePhases(inputs.phaseDurations, inputs.phaseSchedule);
+      expect(totalDurationYears).toBe(27);
+      expect(calculateTotalDuration(inputs.phaseDurations)).toBe(27);
+    });
+
+    it('should extend relinquishment when water management outlasts monitoring', () => {
+      const durations = { ...inputs.phaseDurations, [ClosurePhase.WaterManagement]: 30 };
+      const { timings, totalDurationYears } = scheduleClosurePhases(durations, DEFAULT_PHASE_SCHEDULE);
+
+      expect(timingOf(timings, ClosurePhase.RelinquishmentPostClosure).startYear).toBe(34);
+      expect(totalDurationYears).toBe(36);
+    });
+
+    it('should support the legacy getPhaseStartYear signature', () => {
+      expect(getPhaseStartYear(ClosurePhase.RevegetationEcosystem, inputs.phaseDurations)).toBe(7);
+    });
+  });
+
+  describe('Relationship types', () => {
+    it('should start water treatment during decommissioning with start-to-start', () => {
+      const schedule: PhaseSchedule = {
+        ...DEFAULT_PHASE_SCHEDULE,
+        [ClosurePhase.WaterManagement]: [
+          { phase: ClosurePhase.DecommissioningDemolition, type: 'start_to_start', lagYears: 1 },
+        ],
+      };
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, schedule);
+
+      expect(timingOf(timings, ClosurePhase.WaterManagement).startYear).toBe(3);
+      expect(timingOf(timings, ClosurePhase.WaterManagement).finishYear).toBe(13);
+    });
+
+    it('should run revegetation progressively alongside earthworks', () => {
+      const schedule: PhaseSchedule = {
+        ...DEFAULT_PHASE_SCHEDULE,
+        [ClosurePhase.RevegetationEcosystem]: [
+          { phase: ClosurePhase.EarthworksLandform, type: 'start_to_start', lagYears: 1 },
+        ],
+      };
+      const { timings, totalDurationYears } = scheduleClosurePhases(inputs.phaseDurations, schedule);
+
+      expect(timingOf(timings, ClosurePhase.RevegetationEcosystem).startYear).toBe(5);
+      expect(timingOf(timings, ClosurePhase.MonitoringMaintenance).startYear).toBe(8);
+      expect(totalDurationYears).toBe(25);
+    });
+
+    it('should apply finish-to-start lags', () => {
+      const schedule: PhaseSchedule = {
+        ...DEFAULT_PHASE_SCHEDULE,
+        [ClosurePhase.DecommissioningDemolition]: [
+          { phase: ClosurePhase.PlanningApprovals, type: 'finish_to_start', lagYears: 2 },
+        ],
+      };
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, schedule);
+
+      expect(timingOf(timings, ClosurePhase.DecommissioningDemolition).startYear).toBe(4);
+    });
+
+    it('should start phases without predecessors in year 0', () => {
+      const schedule: PhaseSchedule = {
+        ...DEFAULT_PHASE_SCHEDULE,
+        [ClosurePhase.WaterManagement]: [],
+      };
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, schedule);
+
+      expect(timingOf(timings, ClosurePhase.WaterManagement).startYear).toBe(0);
+    });
+  });
+
+  describe('Critical path', () => {
+    it('should mark the longest chain as critical', () => {
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, inputs.phaseSchedule);
+
+      expect(timingOf(timings, ClosurePhase.PlanningApprovals).isCritical).toBe(true);
+      expect(timingOf(timings, ClosurePhase.EarthworksLandform).isCritical).toBe(true);
+      expect(timingOf(timings, ClosurePhase.MonitoringMaintenance).isCritical).toBe(true);
+      expect(timingOf(timings, ClosurePhase.RelinquishmentPostClosure).isCritical).toBe(true);
+    });
+
+    it('should give float to phases off the critical path', () => {
+      const { timings } = scheduleClosurePhases(inputs.phaseDurations, inputs.phaseSchedule);
+      const water = timingOf(timings, ClosurePhase.WaterManagement);
+
+      // Water finishes in year 14; relinquishment cannot start before year 25
+      expect(water.isCritical).toBe(false);
+      expect(water.totalFloatYears).toBe(11);
+    });
+
+    it('should account for start-to-start links in the backward pass', () => {
+      const schedule: PhaseSchedule = {
+        ...DEFAULT_PHASE_SCHEDULE,
+        [ClosurePhase.RelinquishmentPostClosure]: [
+          { phase: ClosurePhase.MonitoringMaintenance, type: 'start_to_start', lagYears: 20 },
+        ],
+      };
+      const { timings, totalDurationYears } = scheduleClosurePhases(inputs.phaseDurations, schedule);
+
+      expect(totalDurationYears).toBe(32);
+      expect(timingOf(timings, ClosurePhase.MonitoringMaintenance).isCritical).toBe(true);
+      expect(timingOf(timings, ClosurePhase.MonitoringMaintenance).totalFloatYears).toBe(0);
+    });
+
+    it('should report phase timings in calculation results', () => {
+      const results = calculateClosureCosts(inputs);
+      expect(results.phaseTimings).toHaveLength(8);
+      expect(results.totalDurationYears).toBe(27);
+    });
+  });
+
+  describe('Cycles', () => {
+    const cyclicSchedule: PhaseSchedule = {
+      ...DEFAULT_PHASE_SCHEDULE,
+      [ClosurePhase.PlanningApprovals]: [
+        { phase: ClosurePhase.EarthworksLandform, type: 'finish_to_start', lagYears: 0 },
+      ],
+    };
+
+    it('should find no cycle in the default schedule', () => {
+      expect(findScheduleCycle(DEFAULT_PHASE_SCHEDULE)).toBeNull();
+    });
+
+    it('should find a cycle through the offending phases', () => {
+      const cycle = findScheduleCycle(cyclicSchedule);
+      expect(cycle).not.toBeNull();
+      expect(cycle).toContain(ClosurePhase.PlanningApprovals);
+      expect(cycle).toContain(ClosurePhase.EarthworksLandform);
+      expect(cycle?.[0]).toBe(cycle?.[cycle.length - 1]);
+    });
+
+    it('should still produce a schedule when a cycle exists', () => {
+      const result = scheduleClosurePhases(inputs.phaseDurations, cyclicSchedule);
+      expect(result.cycle).not.toBeNull();
+      expect(result.timings).toHaveLength(8);
+      expect(result.totalDurationYears).toBeGreaterThan(0);
+    });
+
+    it('should detect links that would create a cycle', () => {
+      expect(wouldCreateCycle(DEFAULT_PHASE_SCHEDULE, ClosurePhase.PlanningApprovals, ClosurePhase.MonitoringMaintenance)).toBe(true);
+      expect(wouldCreateCycle(DEFAULT_PHASE_SCHEDULE, ClosurePhase.WaterManagement, ClosurePhase.WaterManagement)).toBe(true);
+      expect(wouldCreateCycle(DEFAULT_PHASE_SCHEDULE, ClosurePhase.WaterManagement, ClosurePhase.EarthworksLandform)).toBe(false);
+    });
+
+    it('should reject cyclic schedules in validation', () => {
+      expect(PhaseScheduleSchema.safeParse(DEFAULT_PHASE_SCHEDULE).success).toBe(true);
+      expect(PhaseScheduleSchema.safeParse(cyclicSchedule).success).toBe(false);
+    });
+  });
+});
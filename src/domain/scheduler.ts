@@ -0,0 +1,193 @@
+/**
+ * Mine Closure Costing - Phase Scheduler
+ *
+ * Derives phase start years and total closure duration from phase durations
+ * and predecessor relationships using a critical path pass.
+ *
+ * @module scheduler
+ */
+
+import type { PhaseDurations, PhasePredecessor, PhaseSchedule, PhaseTiming } from './types';
+import { ClosurePhase, CLOSURE_PHASES } from './types';
+
+/** Output of a schedule pass */
+export interface ScheduleResult {
+  /** Timing of every phase, in CLOSURE_PHASES order */
+  readonly timings: readonly PhaseTiming[];
+
+  /** Years from closure start to the last phase finish */
+  readonly totalDurationYears: number;
+
+  /** Phases forming a dependency cycle, or null if the schedule is acyclic */
+  readonly cycle: readonly ClosurePhase[] | null;
+}
+
+interface ScheduleLink {
+  readonly from: ClosurePhase;
+  readonly to: ClosurePhase;
+  readonly predecessor: PhasePredecessor;
+}
+
+// ============================================================================
+// Cycle Detection
+// ============================================================================
+
+/**
+ * Find a dependency cycle in the schedule.
+ *
+ * @param schedule - Phase predecessors
+ * @returns Phases forming the cycle (first phase repeated at the end), or null
+ */
+export function findScheduleCycle(schedule: PhaseSchedule): ClosurePhase[] | null {
+  const state = new Map<ClosurePhase, 'visiting' | 'done'>();
+  const path: ClosurePhase[] = [];
+
+  const visit = (phase: ClosurePhase): ClosurePhase[] | null => {
+    const current = state.get(phase);
+    if (current === 'done') return null;
+    if (current === 'visiting') {
+      return [...path.slice(path.indexOf(phase)), phase];
+    }
+
+    state.set(phase, 'visiting');
+    path.push(phase);
+    for (const pred of schedule[phase] ?? []) {
+      const cycle = visit(pred.phase);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(phase, 'done');
+    return null;
+  };
+
+  for (const phase of CLOSURE_PHASES) {
+    const cycle = visit(phase);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check whether making `predecessor` a predecessor of `phase` would create a cycle.
+ */
+export function wouldCreateCycle(
+  schedule: PhaseSchedule,
+  phase: ClosurePhase,
+  predecessor: ClosurePhase
+): boolean {
+  if (phase === predecessor) return true;
+
+  // A cycle forms if `phase` is already upstream of `predecessor`
+  const stack: ClosurePhase[] = [predecessor];
+  const seen = new Set<ClosurePhase>();
+  while (stack.length > 0) {
+    const current = stack.pop() as ClosurePhase;
+    if (current === phase) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    for (const pred of schedule[current] ?? []) {
+      stack.push(pred.phase);
+    }
+  }
+  return false;
+}
+
+// ============================================================================
+// Critical Path
+// ============================================================================
+
+/**
+ * Schedule closure phases with a forward and backward critical path pass.
+ *
+ * Finish-to-start: successor starts `lag` years after the predecessor finishes.
+ * Start-to-start: successor starts `lag` years after the predecessor starts.
+ * Phases without predecessors start in year 0. If the schedule contains a cycle,
+ * links closing the cycle are ignored so a schedule can still be produced.
+ *
+ * @param durations - Phase durations (years)
+ * @param schedule - Phase predecessors
+ * @returns Phase timings, total duration and any cycle found
+ */
+export function scheduleClosurePhases(
+  durations: PhaseDurations,
+  schedule: PhaseSchedule
+): ScheduleResult {
+  const cycle = findScheduleCycle(schedule);
+
+  // Forward pass in dependency order (Kahn), falling back to phase order on a cycle
+  const earlyStart = new Map<ClosurePhase, number>();
+  const earlyFinish = new Map<ClosurePhase, number>();
+  const order: ClosurePhase[] = [];
+  const links: ScheduleLink[] = [];
+
+  const scheduleForward = (phase: ClosurePhase): void => {
+    let start = 0;
+    for (const pred of schedule[phase] ?? []) {
+      const predStart = earlyStart.get(pred.phase);
+      const predFinish = earlyFinish.get(pred.phase);
+      if (predStart === undefined || predFinish === undefined) continue;
+
+      const anchor = pred.type === 'start_to_start' ? predStart : predFinish;
+      start = Math.max(start, anchor + pred.lagYears);
+      links.push({ from: pred.phase, to: phase, predecessor: pred });
+    }
+    earlyStart.set(phase, start);
+    earlyFinish.set(phase, start + durations[phase]);
+    order.push(phase);
+  };
+
+  const remaining = new Set<ClosurePhase>(CLOSURE_PHASES);
+  while (remaining.size > 0) {
+    const ready = CLOSURE_PHASES.find(
+      (phase) =>
+        remaining.has(phase) &&
+        (schedule[phase] ?? []).every((pred) => pred.phase === phase || !remaining.has(pred.phase))
+    );
+    // On a cycle, take the first unscheduled phase and ignore its unresolved links
+    const next = ready ?? CLOSURE_PHASES.find((phase) => remaining.has(phase));
+    if (next === undefined) break;
+    scheduleForward(next);
+    remaining.delete(next);
+  }
+
+  const totalDurationYears = Math.max(0, ...earlyFinish.values());
+
+  // Backward pass over the links used in the forward pass
+  const lateStart = new Map<ClosurePhase, number>();
+  const lateFinish = new Map<ClosurePhase, number>();
+
+  for (const phase of [...order].reverse()) {
+    let finish = totalDurationYears;
+    for (const link of links) {
+      if (link.from !== phase) continue;
+      const successorStart = lateStart.get(link.to);
+      if (successorStart === undefined) continue;
+
+      const { type, lagYears } = link.predecessor;
+      const limit =
+        type === 'start_to_start'
+          ? successorStart - lagYears + durations[phase]
+          : successorStart - lagYears;
+      finish = Math.min(finish, limit);
+    }
+    lateFinish.set(phase, finish);
+    lateStart.set(phase, finish - durations[phase]);
+  }
+
+  const timings: PhaseTiming[] = CLOSURE_PHASES.map((phase) => {
+    const startYear = earlyStart.get(phase) ?? 0;
+    const finishYear = earlyFinish.get(phase) ?? startYear;
+    const totalFloatYears = Math.max(0, (lateFinish.get(phase) ?? finishYear) - finishYear);
+
+    return {
+      phase,
+      startYear,
+      finishYear,
+      durationYears: durations[phase],
+      totalFloatYears,
+      isCritical: totalFloatYears === 0,
+    };
+  });
+
+  return { timings, totalDurationYears, cycle };
+}
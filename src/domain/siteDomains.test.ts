@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the Site Domain Register
+ *
+ * Tests cover:
+ * - Adding domains with unique ids and names
+ * - Migrating scenarios saved with a single TSF and WRD
+ * - One closure line item per domain
+ * - Pit void closure works
+ * - Cost breakdown by domain
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createPitVoidClosure,
+  createSiteDomain,
+  getDomainAreaHa,
+  legacySiteDomains,
+  scaleSiteDomains,
+} from './siteDomains';
+import {
+  calculateClosureCosts,
+  calculateDomainClosureCosts,
+  calculateSensitivity,
+} from './calcEngine';
+import { createDefaultInputState, normalizeInputState } from './defaults';
+import { ClosurePhase, CostCategory } from './types';
+import type { InputState, SiteDomain } from './types';
+
+describe('Site domain register', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should give a new domain the next free id and name for its type', () => {
+    const tsf = createSiteDomain('tsf', inputs.siteDomains);
+
+    expect(tsf.id).toBe('tsf-2');
+    expect(tsf.name).toBe('TSF 2');
+    expect(tsf.type).toBe('tsf');
+    expect(createSiteDomain('pit', inputs.siteDomains).id).toBe('pit-1');
+  });
+
+  it('should skip names already taken by renamed domains', () => {
+    const renamed = inputs.siteDomains.map(d => (d.id === 'tsf-1' ? { ...d, name: 'TSF 2' } : d));
+    const tsf = createSiteDomain('tsf', renamed);
+
+    expect(tsf.id).toBe('tsf-3');
+    expect(tsf.name).toBe('TSF 3');
+  });
+
+  it('should scale only the domains of the given type', () => {
+    const scaled = scaleSiteDomains(inputs.siteDomains, 'tsf', 'areaHa', 2);
+
+    expect(getDomainAreaHa(scaled, 'tsf')).toBe(getDomainAreaHa(inputs.siteDomains, 'tsf') * 2);
+    expect(getDomainAreaHa(scaled, 'wrd')).toBe(getDomainAreaHa(inputs.siteDomains, 'wrd'));
+  });
+});
+
+describe('Legacy TSF and WRD quantities', () => {
+  it('should migrate a single TSF and WRD into the register', () => {
+    const domains = legacySiteDomains({
+      tsfAreaHa: 80,
+      tsfCoverThicknessM: 0.6,
+      wrdFootprintHa: 150,
+      wrdReshapingDepthM: 1.2,
+    });
+
+    expect(domains).toHaveLength(2);
+    expect(domains?.[0]).toMatchObject({ type: 'tsf', areaHa: 80, coverThicknessM: 0.6 });
+    expect(domains?.[1]).toMatchObject({ type: 'wrd', areaHa: 150, reshapingDepthM: 1.2 });
+  });
+
+  it('should return null when no legacy quantities are present', () => {
+    expect(legacySiteDomains({})).toBeNull();
+  });
+
+  it('should migrate and drop legacy quantities when normalizing a saved scenario', () => {
+    const { siteDomains: _siteDomains, ...saved } = createDefaultInputState();
+    void _siteDomains;
+    const normalized = normalizeInputState({
+      ...saved,
+      quantities: { ...saved.quantities, tsfAreaHa: 60, tsfCoverThicknessM: 0.4 } as InputState['quantities'],
+    });
+
+    expect(getDomainAreaHa(normalized.siteDomains, 'tsf')).toBe(60);
+    expect(normalized.quantities).not.toHaveProperty('tsfAreaHa');
+    expect(normalized.quantities).not.toHaveProperty('tsfCoverThicknessM');
+  });
+
+  it('should keep the default register for scenarios with no TSF or WRD quantities', () => {
+    const normalized = normalizeInputState({});
+
+    expect(normalized.siteDomains).toEqual(createDefaultInputState().siteDomains);
+  });
+});
+
+describe('Domain line items', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should cost each domain as its own line item', () => {
+    const domains: SiteDomain[] = [
+      ...inputs.siteDomains,
+      { ...createSiteDomain('tsf', inputs.siteDomains), name: 'TSF 2' },
+    ];
+    const results = calculateClosureCosts({ ...inputs, siteDomains: domains });
+
+    for (const domain of domains) {
+      const items = results.lineItems.filter(item => item.domainId === domain.id);
+      expect(items).toHaveLength(1);
+      expect(items[0]?.description).toContain(domain.name);
+    }
+    expect(results.lineItems.filter(item => item.category === CostCategory.TSFClosure)).toHaveLength(2);
+  });
+
+  it('should cost infrastructure areas per hectare', () => {
+    const infrastructure = { ...createSiteDomain('infrastructure', []), areaHa: 15 };
+    const [item] = calculateDomainClosureCosts(infrastructure, inputs.unitRates);
+
+    expect(item?.category).toBe(CostCategory.InfrastructureRehabilitation);
+    expect(item?.subtotal).toBe(15 * inputs.unitRates.infrastructureRehabPerHa);
+  });
+
+  it('should omit domains with no area', () => {
+    const empty = { ...createSiteDomain('wrd', []), areaHa: 0 };
+
+    expect(calculateDomainClosureCosts(empty, inputs.unitRates)).toEqual([]);
+  });
+
+  it('should scale total TSF area in sensitivity analysis', () => {
+    const twoTsfs = { ...inputs, siteDomains: [...inputs.siteDomains, createSiteDomain('tsf', inputs.siteDomains)] };
+    const tsfArea = calculateSensitivity(twoTsfs).find(s => s.driverKey === 'tsfArea');
+
+    expect(tsfArea?.baseValue).toBe(getDomainAreaHa(twoTsfs.siteDomains, 'tsf'));
+    expect(tsfArea?.highTotalCost ?? 0).toBeGreaterThan(tsfArea?.lowTotalCost ?? 0);
+  });
+});
+
+describe('Pit void closure', () => {
+  let inputs: InputState;
+  let pit: SiteDomain;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+    pit = {
+      ...createSiteDomain('pit', []),
+      pitVoid: {
+        abandonmentBundLengthM: 2000,
+        backfillVolumeM3: 500000,
+        wallStabilisationAreaHa: 12,
+        pitLakeAreaHa: 30,
+        safetyFenceLengthM: 2200,
+      },
+    };
+  });
+
+  it('should cost each pit void work as its own line item', () => {
+    const items = calculateDomainClosureCosts(pit, inputs.unitRates);
+    const { unitRates } = inputs;
+
+    expect(items.map(item => item.subtotal)).toEqual([
+      2000 * unitRates.abandonmentBundPerM,
+      500000 * unitRates.pitBackfillPerM3,
+      12 * unitRates.pitWallStabilisationPerHa,
+      30 * unitRates.pitLakeManagementPerHa,
+      2200 * unitRates.safetyFencingPerM,
+    ]);
+    for (const item of items) {
+      expect(item.category).toBe(CostCategory.PitClosure);
+      expect(item.domainId).toBe(pit.id);
+      expect(item.description.startsWith(`${pit.name} - `)).toBe(true);
+    }
+  });
+
+  it('should omit works with no quantity', () => {
+    const bundOnly: SiteDomain = {
+      ...pit,
+      pitVoid: { ...createPitVoidClosure(0), abandonmentBundLengthM: 1500 },
+    };
+    const items = calculateDomainClosureCosts(bundOnly, inputs.unitRates);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]?.unit).toBe('m');
+  });
+
+  it('should schedule pit lake management with water management', () => {
+    const lake = calculateDomainClosureCosts(pit, inputs.unitRates).find(item =>
+      item.description.endsWith('pit lake management')
+    );
+
+    expect(lake?.phase).toBe(ClosurePhase.WaterManagement);
+  });
+
+  it('should size a new pit bund and fence to its crest', () => {
+    const pitVoid = createPitVoidClosure(50);
+    const circlePerimeter = 2 * Math.sqrt(Math.PI * 50 * 10000);
+
+    expect(pitVoid.abandonmentBundLengthM).toBeCloseTo(circlePerimeter, 0);
+    expect(pitVoid.safetyFenceLengthM).toBe(pitVoid.abandonmentBundLengthM);
+    expect(pitVoid.backfillVolumeM3).toBe(0);
+    expect(createSiteDomain('pit', []).pitVoid).toBeDefined();
+    expect(createSiteDomain('tsf', []).pitVoid).toBeUndefined();
+  });
+
+  it('should include pit void costs in the site total', () => {
+    const withPit = { ...inputs, siteDomains: [...inputs.siteDomains, pit] };
+    const pitCost = calculateClosureCosts(withPit).domainBreakdown.find(d => d.domainId === pit.id);
+    const expected = calculateDomainClosureCosts(pit, inputs.unitRates).reduce((sum, item) => sum + item.subtotal, 0);
+
+    expect(pitCost?.totalCost).toBeCloseTo(expected, 6);
+  });
+});
+
+describe('Domain cost breakdown', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should list domains in register order followed by site-wide costs', () => {
+    const { domainBreakdown } = calculateClosureCosts(inputs);
+
+    expect(domainBreakdown.map(d => d.domainId)).toEqual([...inputs.siteDomains.map(d => d.id), null]);
+  });
+
+  it('should sum to the total cost', () => {
+    const results = calculateClosureCosts(inputs);
+    const total = results.domainBreakdown.reduce((sum, d) => sum + d.totalCost, 0);
+    const percent = results.domainBreakdown.reduce((sum, d) => sum + d.percentOfTotal, 0);
+
+    expect(total).toBeCloseTo(results.totalNominalCost, 4);
+    expect(percent).toBeCloseTo(100, 6);
+  });
+
+  it('should report zero for a domain with no area', () => {
+    const siteDomains = inputs.siteDomains.map(d => (d.type === 'wrd' ? { ...d, areaHa: 0 } : d));
+    const wrd = calculateClosureCosts({ ...inputs, siteDomains }).domainBreakdown.find(d => d.type === 'wrd');
+
+    expect(wrd?.totalCost).toBe(0);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Mine Closure Costing - Site Domain Register
+ *
+ * Helpers for the register of closure domains. Each tailings facility, waste
+ * rock dump, pit and infrastructure area is its own entry with its own
+ * quantities, and is costed as its own line item.
+ *
+ * @module siteDomains
+ */
+
+import type { PitVoidClosure, SiteDomain, SiteDomainType } from './types';
+
+/** Short labels used to name new domains */
+const DOMAIN_NAME_PREFIXES: Record<SiteDomainType, string> = {
+  tsf: 'TSF',
+  wrd: 'WRD',
+  pit: 'Pit',
+  infrastructure: 'Infrastructure Area',
+};
+
+/** Starting quantities for a newly added domain */
+const NEW_DOMAIN_QUANTITIES: Record<
+  SiteDomainType,
+  Pick<SiteDomain, 'areaHa' | 'coverThicknessM' | 'reshapingDepthM'>
+> = {
+  tsf: { areaHa: 50, coverThicknessM: 0.5, reshapingDepthM: 0 },
+  wrd: { areaHa: 100, coverThicknessM: 0, reshapingDepthM: 1 },
+  pit: { areaHa: 50, coverThicknessM: 0, reshapingDepthM: 0 },
+  infrastructure: { areaHa: 20, coverThicknessM: 0, reshapingDepthM: 0.3 },
+};
+
+/** Domain types in display order */
+export const SITE_DOMAIN_TYPES: readonly SiteDomainType[] = ['tsf', 'wrd', 'pit', 'infrastructure'];
+
+/** Share of a new pit's footprint taken as wall needing battering or stabilisation */
+const PIT_WALL_STABILISATION_SHARE = 0.2;
+
+/**
+ * Starting pit void closure works for a pit of the given footprint. The bund and
+ * fence follow the crest, approximated as the perimeter of a circle of equal area;
+ * no backfill or pit lake is assumed.
+ *
+ * @param areaHa - Pit footprint (ha)
+ */
+export function createPitVoidClosure(areaHa: number): PitVoidClosure {
+  const crestLengthM = Math.round(2 * Math.sqrt(Math.PI * areaHa * 10000));
+  return {
+    abandonmentBundLengthM: crestLengthM,
+    backfillVolumeM3: 0,
+    wallStabilisationAreaHa: areaHa * PIT_WALL_STABILISATION_SHARE,
+    pitLakeAreaHa: 0,
+    safetyFenceLengthM: crestLengthM,
+  };
+}
+
+/**
+ * Create a new domain with a unique id and the next free name for its type.
+ *
+ * @param type - Domain type
+ * @param existing - Domains already in the register
+ */
+export function createSiteDomain(
+  type: SiteDomainType,
+  existing: readonly SiteDomain[]
+): SiteDomain {
+  const ids = new Set(existing.map((d) => d.id));
+  const names = new Set(existing.map((d) => d.name));
+  let n = 1;
+  while (ids.has(`${type}-${n}`) || names.has(`${DOMAIN_NAME_PREFIXES[type]} ${n}`)) n++;
+
+  const quantities = NEW_DOMAIN_QUANTITIES[type];
+  return {
+    id: `${type}-${n}`,
+    name: `${DOMAIN_NAME_PREFIXES[type]} ${n}`,
+    type,
+    ...quantities,
+    ...(type === 'pit' && { pitVoid: createPitVoidClosure(quantities.areaHa) }),
+  };
+}
+
+/**
+ * Total footprint area of the domains of one type (ha).
+ */
+export function getDomainAreaHa(domains: readonly SiteDomain[], type: SiteDomainType): number {
+  return domains.filter((d) => d.type === type).reduce((sum, d) => sum + d.areaHa, 0);
+}
+
+/**
+ * Area-weighted average of a domain depth across the domains of one type (m).
+ */
+export function getDomainAverageDepthM(
+  domains: readonly SiteDomain[],
+  type: SiteDomainType,
+  field: 'coverThicknessM' | 'reshapingDepthM'
+): number {
+  const ofType = domains.filter((d) => d.type === type);
+  const area = ofType.reduce((sum, d) => sum + d.areaHa, 0);
+  if (area <= 0) return 0;
+  return ofType.reduce((sum, d) => sum + d.areaHa * d[field], 0) / area;
+}
+
+/**
+ * Scale one quantity on every domain of a type, e.g. for sensitivity analysis.
+ *
+ * @param domains - Site domain register
+ * @param type - Domain type to scale
+ * @param field - Quantity to scale
+ * @param factor - Multiplier
+ * @returns Updated register
+ */
+export function scaleSiteDomains(
+  domains: readonly SiteDomain[],
+  type: SiteDomainType,
+  field: 'areaHa' | 'coverThicknessM' | 'reshapingDepthM',
+  factor: number
+): SiteDomain[] {
+  return domains.map((d) => (d.type === type ? { ...d, [field]: d[field] * factor } : d));
+}
+
+/** Single TSF and WRD quantities held by scenarios saved before the domain register */
+export interface LegacyDomainQuantities {
+  readonly tsfAreaHa?: number;
+  readonly tsfCoverThicknessM?: number;
+  readonly wrdFootprintHa?: number;
+  readonly wrdReshapingDepthM?: number;
+}
+
+/**
+ * Build the domain register for a scenario saved with a single TSF and WRD.
+ *
+ * @param quantities - Stored quantities
+ * @returns Register with one TSF and one WRD, or null when the scenario has neither
+ */
+export function legacySiteDomains(quantities: LegacyDomainQuantities): SiteDomain[] | null {
+  if (quantities.tsfAreaHa === undefined && quantities.wrdFootprintHa === undefined) {
+    return null;
+  }
+
+  return [
+    {
+      id: 'tsf-1',
+      name: 'TSF 1',
+      type: 'tsf',
+      areaHa: quantities.tsfAreaHa ?? 0,
+      coverThicknessM: quantities.tsfCoverThicknessM ?? 0,
+      reshapingDepthM: 0,
+    },
+    {
+      id: 'wrd-1',
+      name: 'WRD 1',
+      type: 'wrd',
+      areaHa: quantities.wrdFootprintHa ?? 0,
+      coverThicknessM: 0,
+      reshapingDepthM: quantities.wrdReshapingDepthM ?? 0,
+    },
+  ];
+}
@@ -0,0 +1,232 @@
+/**
+ * Unit tests for Spend Profiles
+ *
+ * Tests cover:
+ * - Profile weights for each profile type
+ * - Profile resolution precedence
+ * - Effect of spend profiles on annual cashflows and NPV
+ * - Line item overrides keyed by id, and removal of stale overrides
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getSpendProfileWeights,
+  removeStaleLineItemProfiles,
+  resolveSpendProfile,
+  UNIFORM_SPEND_PROFILE,
+} from './spendProfiles';
+import { calculateClosureCosts } from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import { createCustomLineItem } from './customLineItems';
+import type { InputState, LineItemCost, SpendProfile } from './types';
+import { ClosurePhase, CostCategory } from './types';
+
+const sum = (values: readonly number[]) => values.reduce((total, v) => total + v, 0);
+
+describe('getSpendProfileWeights', () => {
+  const profiles: SpendProfile[] = [
+    { type: 'uniform' },
+    { type: 'front_loaded' },
+    { type: 'back_loaded' },
+    { type: 's_curve' },
+    { type: 'lump_sum_start' },
+    { type: 'lump_sum_end' },
+    { type: 'custom', percentages: [10, 20, 30, 40] },
+  ];
+
+  it('should return one weight per year summing to 1 for every profile', () => {
+    for (const profile of profiles) {
+      const weights = getSpendProfileWeights(profile, 5);
+      expect(weights).toHaveLength(5);
+      expect(sum(weights)).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('should return a single full weight for zero duration', () => {
+    expect(getSpendProfileWeights({ type: 's_curve' }, 0)).toEqual([1]);
+  });
+
+  it('should spread uniform profiles evenly', () => {
+    expect(getSpendProfileWeights({ type: 'uniform' }, 4)).toEqual([0.25, 0.25, 0.25, 0.25]);
+  });
+
+  it('should decrease over time for front-loaded profiles', () => {
+    const weights = getSpendProfileWeights({ type: 'front_loaded' }, 4);
+    expect(weights[0]).toBeCloseTo(0.4);
+    expect(weights[3]).toBeCloseTo(0.1);
+  });
+
+  it('should mirror front-loaded for back-loaded profiles', () => {
+    const front = getSpendProfileWeights({ type: 'front_loaded' }, 6);
+    const back = getSpendProfileWeights({ type: 'back_loaded' }, 6);
+    expect(back).toEqual([...front].reverse());
+  });
+
+  it('should peak mid-phase and be symmetric for S-curve profiles', () => {
+    const weights = getSpendProfileWeights({ type: 's_curve' }, 5);
+    expect(weights[2]).toBeGreaterThan(weights[1] ?? 0);
+    expect(weights[1]).toBeGreaterThan(weights[0] ?? 0);
+    expect(weights[0]).toBeCloseTo(weights[4] ?? 0, 10);
+  });
+
+  it('should place lump sums in the first or last year', () => {
+    expect(getSpendProfileWeights({ type: 'lump_sum_start' }, 3)).toEqual([1, 0, 0]);
+    expect(getSpendProfileWeights({ type: 'lump_sum_end' }, 3)).toEqual([0, 0, 1]);
+  });
+
+  it('should rescale custom percentages to the phase duration', () => {
+    // Percentages beyond the duration are dropped, the remainder rescaled
+    const weights = getSpendProfileWeights({ type: 'custom', percentages: [30, 10, 60] }, 2);
+    expect(weights[0]).toBeCloseTo(0.75);
+    expect(weights[1]).toBeCloseTo(0.25);
+
+    // Missing years get nothing
+    expect(getSpendProfileWeights({ type: 'custom', percentages: [100] }, 3)).toEqual([1, 0, 0]);
+  });
+
+  it('should fall back to uniform when custom percentages are all zero', () => {
+    expect(getSpendProfileWeights({ type: 'custom', percentages: [0, 0] }, 2)).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('resolveSpendProfile', () => {
+  const item: LineItemCost = {
+    id: 'earthworks',
+    category: CostCategory.Earthworks,
+    description: 'Bulk earthworks',
+    quantity: 1,
+    unit: 'm³',
+    unitRate: 1,
+    subtotal: 1,
+    phase: ClosurePhase.EarthworksLandform,
+  };
+
+  it('should default to uniform', () => {
+    expect(resolveSpendProfile(item, { categories: {}, lineItems: {} })).toEqual(UNIFORM_SPEND_PROFILE);
+  });
+
+  it('should prefer line item over item and category profiles', () => {
+    const settings = {
+      categories: { [CostCategory.Earthworks]: { type: 'back_loaded' } as SpendProfile },
+      lineItems: { earthworks: { type: 'lump_sum_end' } as SpendProfile },
+    };
+    const withItemProfile: LineItemCost = { ...item, spendProfile: { type: 's_curve' } };
+
+    expect(resolveSpendProfile(withItemProfile, settings).type).toBe('lump_sum_end');
+    expect(resolveSpendProfile(withItemProfile, { ...settings, lineItems: {} }).type).toBe('s_curve');
+    expect(resolveSpendProfile(item, { ...settings, lineItems: {} }).type).toBe('back_loaded');
+  });
+});
+
+describe('Spend profiles in cashflows', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should spend water treatment capex in the first water management year by default', () => {
+    const results = calculateClosureCosts(inputs);
+    const capex = results.lineItems.find(i => i.category === CostCategory.WaterTreatmentCapex);
+    const waterStart = results.phaseTimings.find(t => t.phase === ClosurePhase.WaterManagement)?.startYear ?? 0;
+    const firstWaterYear = results.annualCashflows[waterStart];
+    const secondWaterYear = results.annualCashflows[waterStart + 1];
+
+    expect(capex).toBeDefined();
+    expect(firstWaterYear).toBeDefined();
+    expect(secondWaterYear).toBeDefined();
+    expect(
+      (firstWaterYear?.phaseBreakdown[ClosurePhase.WaterManagement] ?? 0) -
+      (secondWaterYear?.phaseBreakdown[ClosurePhase.WaterManagement] ?? 0)
+    ).toBeCloseTo(capex?.subtotal ?? 0, 0);
+  });
+
+  it('should preserve total nominal cost for any profile', () => {
+    const base = calculateClosureCosts(inputs);
+    const backLoaded = calculateClosureCosts({
+      ...inputs,
+      spendProfiles: {
+        categories: { [CostCategory.Earthworks]: { type: 'back_loaded' }, [CostCategory.Monitoring]: { type: 's_curve' } },
+        lineItems: {},
+      },
+    });
+
+    const totalCashflow = (cashflows: typeof base.annualCashflows) => sum(cashflows.map(cf => cf.nominalCost));
+    expect(totalCashflow(backLoaded.annualCashflows)).toBeCloseTo(totalCashflow(base.annualCashflows), 0);
+    expect(backLoaded.totalNominalCost).toBeCloseTo(base.totalNominalCost, 0);
+  });
+
+  it('should increase NPV when spending is brought forward', () => {
+    const uniform = calculateClosureCosts({
+      ...inputs,
+      spendProfiles: { categories: {}, lineItems: {} },
+    });
+    const lumpSum = calculateClosureCosts(inputs);
+
+    expect(lumpSum.totalDiscountedCost).toBeGreaterThan(uniform.totalDiscountedCost);
+  });
+
+  it('should apply line item overrides', () => {
+    const base = calculateClosureCosts(inputs);
+    const capex = base.lineItems.find(i => i.category === CostCategory.WaterTreatmentCapex);
+    const overridden = calculateClosureCosts({
+      ...inputs,
+      spendProfiles: {
+        ...inputs.spendProfiles,
+        lineItems: { [capex?.id ?? '']: { type: 'lump_sum_end' } },
+      },
+    });
+
+    expect(overridden.totalDiscountedCost).toBeLessThan(base.totalDiscountedCost);
+  });
+
+  it('should keep line item overrides when a domain is renamed or the treatment technology changes', () => {
+    const withOverrides: InputState = {
+      ...inputs,
+      spendProfiles: {
+        ...inputs.spendProfiles,
+        lineItems: { 'tsf-1.capping': { type: 'lump_sum_end' }, 'water-treatment-capex': { type: 'lump_sum_end' } },
+      },
+    };
+    const changed: InputState = {
+      ...withOverrides,
+      siteDomains: withOverrides.siteDomains.map(d => (d.id === 'tsf-1' ? { ...d, name: 'North TSF' } : d)),
+      quantities: { ...withOverrides.quantities, waterTreatmentTechnology: 'reverse_osmosis' },
+    };
+    const withoutOverrides: InputState = { ...changed, spendProfiles: inputs.spendProfiles };
+
+    expect(calculateClosureCosts(changed).totalDiscountedCost).toBeLessThan(
+      calculateClosureCosts(withoutOverrides).totalDiscountedCost
+    );
+  });
+});
+
+describe('removeStaleLineItemProfiles', () => {
+  const inputs = createDefaultInputState();
+  const profile: SpendProfile = { type: 'lump_sum_end' };
+
+  it('should drop overrides of removed domains and custom items', () => {
+    const settings = {
+      categories: {},
+      lineItems: {
+        earthworks: profile,
+        'tsf-1.capping': profile,
+        'wrd-1.reshaping': profile,
+        'custom.custom-1': profile,
+        'custom.custom-2': profile,
+      },
+    };
+    const domains = inputs.siteDomains.filter(d => d.id !== 'wrd-1');
+    const customItems = [{ ...createCustomLineItem([]), quantity: 1 }];
+
+    expect(Object.keys(removeStaleLineItemProfiles(settings, domains, customItems).lineItems)).toEqual([
+      'earthworks',
+      'tsf-1.capping',
+      'custom.custom-1',
+    ]);
+    expect(removeStaleLineItemProfiles(settings, inputs.siteDomains, [
+      createCustomLineItem([]),
+      { ...createCustomLineItem([]), id: 'custom-2' },
+    ])).toBe(settings);
+  });
+});
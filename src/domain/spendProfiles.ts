@@ -0,0 +1,167 @@
+/**
+ * Mine Closure Costing - Spend Profiles
+ *
+ * Spend curves that spread a line item's cost across the years of its phase.
+ *
+ * @module spendProfiles
+ */
+
+import type {
+  CustomLineItem,
+  LineItemCost,
+  SiteDomain,
+  SpendProfile,
+  SpendProfileSettings,
+  SpendProfileType,
+} from './types';
+import { CUSTOM_LINE_ITEM_ID_PREFIX } from './customLineItems';
+
+/** Human-readable spend profile names */
+export const SPEND_PROFILE_NAMES: Record<SpendProfileType, string> = {
+  uniform: 'Uniform',
+  front_loaded: 'Front-loaded',
+  back_loaded: 'Back-loaded',
+  s_curve: 'S-curve',
+  lump_sum_start: 'Lump sum at start',
+  lump_sum_end: 'Lump sum at end',
+  custom: 'Custom % per year',
+};
+
+/** Beta distribution shape used for the S-curve (symmetric, mid-phase peak) */
+const S_CURVE_ALPHA = 3;
+const S_CURVE_BETA = 3;
+
+/** Uniform spending - the profile for costs without an override */
+export const UNIFORM_SPEND_PROFILE: SpendProfile = { type: 'uniform' };
+
+// ============================================================================
+// Beta Distribution
+// ============================================================================
+
+/**
+ * Cumulative distribution function of the beta distribution for integer shapes.
+ * Uses the binomial identity I_x(a, b) = P(Binomial(a + b - 1, x) ≥ a).
+ */
+function betaCdf(x: number, alpha: number, beta: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const n = alpha + beta - 1;
+  let cdf = 0;
+  let coefficient = 1; // C(n, k)
+  for (let k = 0; k <= n; k++) {
+    if (k >= alpha) {
+      cdf += coefficient * Math.pow(x, k) * Math.pow(1 - x, n - k);
+    }
+    coefficient = (coefficient * (n - k)) / (k + 1);
+  }
+  return cdf;
+}
+
+// ============================================================================
+// Profile Weights
+// ============================================================================
+
+/**
+ * Share of cost in each year of a phase.
+ *
+ * @param profile - Spend profile
+ * @param durationYears - Phase duration (years)
+ * @returns One weight per year, summing to 1 (a single weight of 1 for zero duration)
+ */
+export function getSpendProfileWeights(profile: SpendProfile, durationYears: number): number[] {
+  const years = Math.max(1, Math.round(durationYears));
+  const uniform = Array.from({ length: years }, () => 1 / years);
+
+  let raw: number[];
+  switch (profile.type) {
+    case 'uniform':
+      return uniform;
+    case 'front_loaded':
+      raw = Array.from({ length: years }, (_, i) => years - i);
+      break;
+    case 'back_loaded':
+      raw = Array.from({ length: years }, (_, i) => i + 1);
+      break;
+    case 's_curve':
+      raw = Array.from(
+        { length: years },
+        (_, i) =>
+          betaCdf((i + 1) / years, S_CURVE_ALPHA, S_CURVE_BETA) -
+          betaCdf(i / years, S_CURVE_ALPHA, S_CURVE_BETA)
+      );
+      break;
+    case 'lump_sum_start':
+      raw = Array.from({ length: years }, (_, i) => (i === 0 ? 1 : 0));
+      break;
+    case 'lump_sum_end':
+      raw = Array.from({ length: years }, (_, i) => (i === years - 1 ? 1 : 0));
+      break;
+    case 'custom':
+      // Years beyond the phase duration are dropped; missing years get nothing
+      raw = Array.from({ length: years }, (_, i) => Math.max(0, profile.percentages[i] ?? 0));
+      break;
+  }
+
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? raw.map((w) => w / total) : uniform;
+}
+
+/**
+ * Resolve the spend profile for a line item.
+ * Precedence: line item override, profile set on the item, category profile, uniform.
+ *
+ * @param item - Line item
+ * @param settings - Spend profile overrides
+ */
+export function resolveSpendProfile(
+  item: LineItemCost,
+  settings: SpendProfileSettings
+): SpendProfile {
+  return (
+    settings.lineItems[item.id] ??
+    item.spendProfile ??
+    settings.categories[item.category] ??
+    UNIFORM_SPEND_PROFILE
+  );
+}
+
+// ============================================================================
+// Line Item Overrides
+// ============================================================================
+
+/**
+ * Drop line item overrides of site domains and custom items that no longer exist.
+ *
+ * @param settings - Spend profile overrides
+ * @param domains - Current site domains
+ * @param customLineItems - Current custom items
+ * @returns The settings - unchanged when nothing is stale
+ */
+export function removeStaleLineItemProfiles(
+  settings: SpendProfileSettings,
+  domains: readonly SiteDomain[],
+  customLineItems: readonly CustomLineItem[]
+): SpendProfileSettings {
+  const domainIds = new Set(domains.map((domain) => domain.id));
+  const customIds = new Set(customLineItems.map((item) => item.id));
+
+  // Site-wide item ids have no owner prefix
+  const isStale = (id: string): boolean => {
+    const separator = id.indexOf('.');
+    if (separator < 0) return false;
+    const owner = id.slice(0, separator);
+    return owner === CUSTOM_LINE_ITEM_ID_PREFIX
+      ? !customIds.has(id.slice(separator + 1))
+      : !domainIds.has(owner);
+  };
+
+  const ids = Object.keys(settings.lineItems);
+  if (!ids.some(isStale)) return settings;
+  return {
+    ...settings,
+    lineItems: Object.fromEntries(
+      Object.entries(settings.lineItems).filter(([id]) => !isStale(id))
+    ),
+  };
+}
@@ -56,6 +56,9 @@ export enum CostCategory {
   Earthworks = 'earthworks',
   TSFClosure = 'tsf_closure',
   WRDRehabilitation = 'wrd_rehabilitation',
+  PitClosure = 'pit_closure',
+  InfrastructureRehabilitation = 'infrastructure_rehabilitation',
+  UndergroundClosure = 'underground_closure',
   WaterTreatmentCapex = 'water_treatment_capex',
   WaterTreatmentOpex = 'water_treatment_opex',
   Revegetation = 'revegetation',
@@ -78,6 +81,9 @@ export const CATEGORY_NAMES: Record<CostCategory, string> = {
   [CostCategory.Earthworks]: 'Earthworks & Landform',
   [CostCategory.TSFClosure]: 'TSF Closure',
   [CostCategory.WRDRehabilitation]: 'WRD Rehabilitation',
+  [CostCategory.PitClosure]: 'Pit Closure',
+  [CostCategory.InfrastructureRehabilitation]: 'Infrastructure Areas',
+  [CostCategory.UndergroundClosure]: 'Underground Closure',
   [CostCategory.WaterTreatmentCapex]: 'Water Treatment (Capex)',
   [CostCategory.WaterTreatmentOpex]: 'Water Treatment (Opex)',
   [CostCategory.Revegetation]: 'Revegetation',
@@ -98,6 +104,85 @@ export type MonitoringIntensity = 'low' | 'medium' | 'high';
 /** Discount rate mode */
 export type DiscountRateMode = 'real' | 'nominal';
 
+/** Water treatment technologies */
+export type WaterTreatmentTechnology =
+  | 'passive_wetland'
+  | 'lime_hds'
+  | 'reverse_osmosis'
+  | 'biological_sulphate';
+
+/** Cost and performance characteristics of a water treatment technology */
+export interface WaterTreatmentTechnologySpec {
+  readonly name: string;
+  readonly description: string;
+
+  /** Name of the treatment residual (sludge, brine, ...) */
+  readonly residualName: string;
+
+  /** Capital cost of the reference plant ($) */
+  readonly referenceCapex: number;
+
+  /** Capacity of the reference plant (ML/day) */
+  readonly referenceFlowMLPerDay: number;
+
+  /** Capacity exponent for scaling capex to flow */
+  readonly capacityExponent: number;
+
+  /** Operating cost excluding residual disposal and power ($/ML) */
+  readonly opexPerML: number;
+
+  /** Residual disposal cost ($/ML treated) */
+  readonly residualDisposalPerML: number;
+
+  /** Energy use (kWh/ML treated) */
+  readonly energyKWhPerML: number;
+
+  /** Plant asset life (years) */
+  readonly assetLifeYears: number;
+}
+
+/** Cost regions, from near-metro to very remote */
+export type CostRegion = 'metropolitan' | 'regional' | 'remote' | 'very_remote';
+
+/** Regional cost multipliers and remoteness add-ons */
+export interface LocationFactors {
+  /** Labour cost multiplier */
+  readonly labourFactor: number;
+
+  /** Plant and equipment cost multiplier */
+  readonly plantFactor: number;
+
+  /** Materials cost multiplier */
+  readonly materialsFactor: number;
+
+  /** Fly-in fly-out camp, travel and accommodation ($/person-day) */
+  readonly campCostPerPersonDay: number;
+
+  /** Freight to site (% of materials cost) */
+  readonly freightPercent: number;
+}
+
+/** Cost region library entry */
+export interface CostRegionSpec extends LocationFactors {
+  readonly name: string;
+  readonly description: string;
+}
+
+/** Site location settings */
+export interface LocationSettings extends LocationFactors {
+  readonly region: CostRegion;
+
+  /** Base labour cost per person-day, used to convert labour cost to person-days on site */
+  readonly labourCostPerPersonDay: number;
+}
+
+/** Share of a cost category's direct cost in labour, plant and materials (sums to 1) */
+export interface CostComposition {
+  readonly labour: number;
+  readonly plant: number;
+  readonly materials: number;
+}
+
 /** Phase duration configuration */
 export interface PhaseDurations {
   readonly [ClosurePhase.PlanningApprovals]: number;
@@ -110,22 +195,118 @@ export interface PhaseDurations {
   readonly [ClosurePhase.RelinquishmentPostClosure]: number;
 }
 
-/** Direct works quantities - primary user inputs */
-export interface DirectWorksQuantities {
-  /** Total disturbed area requiring rehabilitation (ha) */
-  readonly disturbedAreaHa: number;
+/** Dependency type between two closure phases */
+export type PhaseRelationshipType = 'finish_to_start' | 'start_to_start';
+
+/** A predecessor constraint on a closure phase */
+export interface PhasePredecessor {
+  /** Phase that must finish (or start) first */
+  readonly phase: ClosurePhase;
 
-  /** Tailings Storage Facility area (ha) */
-  readonly tsfAreaHa: number;
+  /** Relationship type */
+  readonly type: PhaseRelationshipType;
 
-  /** TSF cover/cap thickness (m) */
-  readonly tsfCoverThicknessM: number;
+  /** Lag after the predecessor finishes (or starts) (years) */
+  readonly lagYears: number;
+}
+
+/** Predecessors of each closure phase; phases without predecessors start in year 0 */
+export type PhaseSchedule = Readonly<Record<ClosurePhase, readonly PhasePredecessor[]>>;
+
+/** Shape of spending across a phase */
+export type SpendProfileType =
+  | 'uniform'
+  | 'front_loaded'
+  | 'back_loaded'
+  | 's_curve'
+  | 'lump_sum_start'
+  | 'lump_sum_end'
+  | 'custom';
+
+/** Spend curve used to spread a cost across its phase duration */
+export type SpendProfile =
+  | { readonly type: Exclude<SpendProfileType, 'custom'> }
+  | {
+      readonly type: 'custom';
+      /** Share of the cost in each phase year (%); rescaled to total 100% */
+      readonly percentages: readonly number[];
+    };
+
+/** Spend profile overrides; costs without one are spread uniformly */
+export interface SpendProfileSettings {
+  /** Profile per cost category */
+  readonly categories: Partial<Record<CostCategory, SpendProfile>>;
+
+  /** Profile per line item, keyed by line item id */
+  readonly lineItems: Readonly<Record<string, SpendProfile>>;
+}
 
-  /** Waste Rock Dump footprint area (ha) */
-  readonly wrdFootprintHa: number;
+/** Kinds of closure domain */
+export type SiteDomainType = 'tsf' | 'wrd' | 'pit' | 'infrastructure';
+
+/** Human-readable domain type names */
+export const SITE_DOMAIN_TYPE_NAMES: Record<SiteDomainType, string> = {
+  tsf: 'Tailings Storage Facility',
+  wrd: 'Waste Rock Dump',
+  pit: 'Open Pit',
+  infrastructure: 'Infrastructure Area',
+};
 
-  /** WRD average reshaping depth (m) */
-  readonly wrdReshapingDepthM: number;
+/** Pit void closure works - quantities for a pit domain */
+export interface PitVoidClosure {
+  /** Abandonment bund length around the pit crest (m) */
+  readonly abandonmentBundLengthM: number;
+
+  /** Backfill placed into the void (m³) */
+  readonly backfillVolumeM3: number;
+
+  /** Pit wall area battered back or stabilised (ha) */
+  readonly wallStabilisationAreaHa: number;
+
+  /** Pit lake surface area to be managed - 0 where no lake forms (ha) */
+  readonly pitLakeAreaHa: number;
+
+  /** Safety fence length (m) */
+  readonly safetyFenceLengthM: number;
+}
+
+/** A closure domain in the site register - one TSF, WRD, pit or infrastructure area */
+export interface SiteDomain {
+  readonly id: string;
+  readonly name: string;
+  readonly type: SiteDomainType;
+
+  /** Footprint area (ha) */
+  readonly areaHa: number;
+
+  /** Cover/cap thickness (m) */
+  readonly coverThicknessM: number;
+
+  /** Average reshaping depth (m) */
+  readonly reshapingDepthM: number;
+
+  /** Pit void closure works - pit domains only */
+  readonly pitVoid?: PitVoidClosure;
+}
+
+/** A user-defined direct works item, for site-specific costs the built-in items do not cover */
+export interface CustomLineItem {
+  readonly id: string;
+  readonly description: string;
+  readonly category: CostCategory;
+  readonly phase: ClosurePhase;
+  readonly quantity: number;
+  readonly unit: string;
+  readonly unitRate: number;
+
+  /** Spend curve for this item; the category profile applies when absent */
+  readonly spendProfile?: SpendProfile;
+}
+
+/** Direct works quantities - primary user inputs */
+export interface DirectWorksQuantities {
+  /** Total disturbed area requiring rehabilitation (ha) */
+  readonly disturbedAreaHa: number;
 
   /** Optional: explicit earthworks volume override (m³) */
   readonly earthworksVolumeM3Override: number | null;
@@ -148,8 +329,8 @@ export interface DirectWorksQuantities {
   /** Water treatment duration (years) */
   readonly waterTreatmentDurationYears: number;
 
-  /** Water treatment intensity factor (0.5 = simple, 1.0 = standard, 2.0 = complex) */
-  readonly waterTreatmentIntensityFactor: number;
+  /** Water treatment technology - its rates are loaded into the water treatment unit rates */
+  readonly waterTreatmentTechnology: WaterTreatmentTechnology;
 
   /** Monitoring duration (years) */
   readonly monitoringDurationYears: number;
@@ -165,6 +346,33 @@ export interface DirectWorksQuantities {
 
   /** Enable community/heritage management costs */
   readonly communityHeritageEnabled: boolean;
+
+  /** Underground workings - number of shafts to cap */
+  readonly shaftCount: number;
+
+  /** Average shaft diameter (m) */
+  readonly shaftDiameterM: number;
+
+  /** Number of raises (ventilation and escape) to cap */
+  readonly raiseCount: number;
+
+  /** Average raise diameter (m) */
+  readonly raiseDiameterM: number;
+
+  /** Number of portals and adits to seal */
+  readonly portalCount: number;
+
+  /** Length of decline to backfill from the portal (m) */
+  readonly declineBackfillLengthM: number;
+
+  /** Decline cross-section (m²) */
+  readonly declineCrossSectionM2: number;
+
+  /** Number of surface ventilation sites (fans, heaters, substations) to remove */
+  readonly ventilationSiteCount: number;
+
+  /** Subsidence monitoring duration (years) */
+  readonly subsidenceMonitoringYears: number;
 }
 
 /** Unit rates - editable with defaults */
@@ -193,12 +401,69 @@ export interface UnitRates {
   /** Road rehabilitation rate ($/km) */
   readonly roadRehabPerKm: number;
 
-  /** Water treatment capex ($) - base plant cost */
+  /** Pit abandonment bund rate ($/m) */
+  readonly abandonmentBundPerM: number;
+
+  /** Pit backfill rate - load, haul and place ($/m³) */
+  readonly pitBackfillPerM3: number;
+
+  /** Pit wall battering and stabilisation rate ($/ha) */
+  readonly pitWallStabilisationPerHa: number;
+
+  /** Pit lake management - spillway, water quality works and lake edge rehabilitation ($/ha of lake) */
+  readonly pitLakeManagementPerHa: number;
+
+  /** Safety fencing rate ($/m) */
+  readonly safetyFencingPerM: number;
+
+  /** Infrastructure area rehabilitation - hardstand removal and ripping ($/ha) */
+  readonly infrastructureRehabPerHa: number;
+
+  /** Shaft and raise capping - reinforced concrete cap ($/m² of opening) */
+  readonly shaftCappingPerM2: number;
+
+  /** Portal and adit sealing - plug or bulkhead and portal backfill ($/portal) */
+  readonly portalSealingPerPortal: number;
+
+  /** Decline backfill rate ($/m³) */
+  readonly declineBackfillPerM3: number;
+
+  /** Ventilation infrastructure removal ($/site) */
+  readonly ventilationRemovalPerSite: number;
+
+  /** Subsidence monitoring ($/year) */
+  readonly subsidenceMonitoringPerYear: number;
+
+  /** Water treatment capex ($) - cost of the reference plant */
   readonly waterTreatmentCapex: number;
 
-  /** Water treatment opex ($/ML) */
+  /** Capacity of the reference plant (ML/day) */
+  readonly waterTreatmentReferenceFlowMLPerDay: number;
+
+  /** Capacity exponent for scaling plant capex to flow (0.6 = six-tenths rule) */
+  readonly waterTreatmentCapacityExponent: number;
+
+  /** Treatment plant asset life (years) - the plant is replaced at the end of each life */
+  readonly waterTreatmentAssetLifeYears: number;
+
+  /** Mid-life refurbishment cost (% of plant capex) */
+  readonly waterTreatmentRefurbishmentPercent: number;
+
+  /** End-of-life replacement cost (% of plant capex) */
+  readonly waterTreatmentReplacementPercent: number;
+
+  /** Water treatment opex excluding residual disposal and power ($/ML) */
   readonly waterTreatmentOpexPerML: number;
 
+  /** Treatment residual (sludge/brine) disposal ($/ML treated) */
+  readonly waterTreatmentResidualDisposalPerML: number;
+
+  /** Treatment energy use (kWh/ML treated) */
+  readonly waterTreatmentEnergyKWhPerML: number;
+
+  /** Electricity price ($/kWh) */
+  readonly electricityPerKWh: number;
+
   /** Monitoring rate ($/year) - by intensity */
   readonly monitoringPerYearLow: number;
   readonly monitoringPerYearMedium: number;
@@ -248,9 +513,6 @@ export interface RiskFactors {
 
   /** Regulatory uncertainty (0-100) */
   readonly regulatoryUncertainty: number;
-
-  /** Remote logistics complexity (0-100) */
-  readonly logisticsComplexity: number;
 }
 
 /** Financial parameters */
@@ -258,40 +520,319 @@ export interface FinancialParams {
   /** Closure start year */
   readonly closureStartYear: number;
 
-  /** Annual escalation rate (% - nominal) */
+  /** Valuation (reporting) year - cashflows are discounted back to this year */
+  readonly valuationYear: number;
+
+  /** Base year of the unit rates - cashflows are escalated from this year */
+  readonly rateBaseYear: number;
+
+  /**
+   * General annual escalation (inflation) rate (%) - all costs escalate at
+   * this rate unless category escalation is on
+   */
   readonly escalationRatePercent: number;
 
   /** Discount rate (%) */
   readonly discountRatePercent: number;
 
-  /** Discount rate mode - real or nominal */
+  /**
+   * Discount rate mode - real discounts today's dollar flows (escalated only
+   * above the general rate), nominal discounts escalated flows
+   */
   readonly discountRateMode: DiscountRateMode;
 }
 
+/** Escalation indices cost categories can be assigned to */
+export type EscalationIndexId = 'labour' | 'plant_fuel' | 'materials' | 'professional_services';
+
+/** Escalation of an index in one calendar year */
+export interface EscalationYearRate {
+  readonly year: number;
+
+  /** Escalation from the previous year (%) */
+  readonly ratePercent: number;
+}
+
+/** Cost escalation index - a long-term rate with optional year-by-year rates */
+export interface EscalationIndex {
+  /** Annual escalation rate (%) for years not in the series */
+  readonly ratePercent: number;
+
+  /** Year-by-year escalation rates in ascending year order */
+  readonly series: readonly EscalationYearRate[];
+
+  /** Imported cost index the year-by-year rates are taken from, in place of the entered rates */
+  readonly costIndexId?: string;
+}
+
+/** Level of a cost index in one year */
+export interface CostIndexPoint {
+  readonly year: number;
+  readonly value: number;
+}
+
+/** Published cost index series - producer price index, construction cost index, ... */
+export interface CostIndexSeries {
+  readonly id: string;
+  readonly name: string;
+
+  /** Index levels in ascending year order */
+  readonly points: readonly CostIndexPoint[];
+}
+
+/** Rebasing of unit rates priced in an earlier year to the rate base year */
+export interface RateRebaseSettings {
+  /** Cost index the rates are rebased by; null uses the rates as entered */
+  readonly costIndexId: string | null;
+
+  /** Year the unit rates are priced in */
+  readonly ratesYear: number;
+}
+
+/** Escalation by cost category */
+export interface EscalationSettings {
+  /** Escalate each category by its index; when off all costs escalate at the general rate */
+  readonly enabled: boolean;
+
+  readonly indices: Record<EscalationIndexId, EscalationIndex>;
+
+  /** Index each category escalates by; unassigned categories use the general rate */
+  readonly categoryIndices: Partial<Record<CostCategory, EscalationIndexId>>;
+}
+
+/** Keys of an object type whose values are numbers */
+export type NumericKeys<T> = {
+  [K in keyof T]-?: T[K] extends number ? K : never;
+}[keyof T];
+
+/** Probability distribution types supported by the simulation engine */
+export type DistributionType = 'triangular' | 'pert' | 'uniform' | 'lognormal';
+
+/** Triangular distribution defined by minimum, most likely and maximum values */
+export interface TriangularDistribution {
+  readonly type: 'triangular';
+  readonly min: number;
+  readonly mode: number;
+  readonly max: number;
+}
+
+/** PERT (scaled beta) distribution defined by minimum, most likely and maximum values */
+export interface PertDistribution {
+  readonly type: 'pert';
+  readonly min: number;
+  readonly mode: number;
+  readonly max: number;
+}
+
+/** Uniform distribution between minimum and maximum values */
+export interface UniformDistribution {
+  readonly type: 'uniform';
+  readonly min: number;
+  readonly max: number;
+}
+
+/** Lognormal distribution defined by the arithmetic mean and standard deviation */
+export interface LognormalDistribution {
+  readonly type: 'lognormal';
+  readonly mean: number;
+  readonly standardDeviation: number;
+}
+
+/** Distribution attached to a single numeric input */
+export type ProbabilityDistribution =
+  | TriangularDistribution
+  | PertDistribution
+  | UniformDistribution
+  | LognormalDistribution;
+
+/** Distributions by input group - fields without a distribution keep their point value */
+export interface InputDistributions {
+  readonly quantities: Partial<Record<NumericKeys<DirectWorksQuantities>, ProbabilityDistribution>>;
+  readonly unitRates: Partial<Record<NumericKeys<UnitRates>, ProbabilityDistribution>>;
+  readonly indirectRates: Partial<
+    Record<NumericKeys<IndirectCostRates>, ProbabilityDistribution>
+  >;
+
+  /** Site domain quantities, keyed by domain id and field, e.g. tsf-1.areaHa */
+  readonly siteDomains: Partial<Record<SiteDomainDistributionKey, ProbabilityDistribution>>;
+}
+
+/** Site domain quantities that can carry a distribution */
+export type SiteDomainQuantityKey = 'areaHa' | 'coverThicknessM' | 'reshapingDepthM';
+
+/** Distribution key of a site domain quantity - domain id and field */
+export type SiteDomainDistributionKey = `${string}.${SiteDomainQuantityKey}`;
+
+/** Input groups that can carry distributions */
+export type DistributionGroup = keyof InputDistributions;
+
+/** Monte Carlo simulation settings */
+export interface SimulationSettings {
+  /** Run the probabilistic simulation alongside the deterministic estimate */
+  readonly enabled: boolean;
+
+  /** Number of iterations */
+  readonly iterations: number;
+
+  /** Seed for the pseudo-random number generator (same seed = same samples) */
+  readonly seed: number;
+
+  /** Input distributions */
+  readonly distributions: InputDistributions;
+}
+
+/** How water treatment continuing after the scheduled closure is valued */
+export type PerpetualTreatmentMode = 'perpetuity' | 'fixed_term';
+
+/** Water treatment continuing beyond the scheduled water management phase */
+export interface PerpetualTreatmentSettings {
+  /** Value ongoing treatment after the water management phase */
+  readonly enabled: boolean;
+
+  /** Perpetuity (no end date) or a fixed long-tail term */
+  readonly mode: PerpetualTreatmentMode;
+
+  /** Long-tail treatment term after the water management phase (years, fixed term only) */
+  readonly termYears: number;
+}
+
+/** Plant item or labour crew in a rate build-up */
+export interface RateBuildUpResource {
+  readonly description: string;
+
+  /** Number of plant items or crew members */
+  readonly quantity: number;
+
+  /** Hourly rate per plant item or crew member ($/hr) */
+  readonly hourlyRate: number;
+}
+
+/** Unit rates that can be derived from a build-up */
+export type BuildUpRateKey =
+  | 'earthworksPerM3'
+  | 'cappingBasePerM2'
+  | 'topsoilPerM3'
+  | 'revegetationPerHa'
+  | 'demolitionPerBuilding'
+  | 'roadRehabPerKm'
+  | 'abandonmentBundPerM'
+  | 'pitBackfillPerM3'
+  | 'pitWallStabilisationPerHa'
+  | 'pitLakeManagementPerHa'
+  | 'safetyFencingPerM'
+  | 'infrastructureRehabPerHa'
+  | 'shaftCappingPerM2'
+  | 'portalSealingPerPortal'
+  | 'declineBackfillPerM3'
+  | 'ventilationRemovalPerSite'
+  | 'subsidenceMonitoringPerYear'
+  | 'waterTreatmentOpexPerML'
+  | 'waterTreatmentResidualDisposalPerML'
+  | 'hazardousMaterialsPerHa'
+  | 'erosionControlsPerHa';
+
+/** First-principles build-up of a unit rate from plant, labour, haul and consumables */
+export interface RateBuildUp {
+  readonly equipment: readonly RateBuildUpResource[];
+  readonly labour: readonly RateBuildUpResource[];
+
+  /** Output of the plant and crew (units/hr) */
+  readonly productivityPerHour: number;
+
+  /** One-way haul distance (km) */
+  readonly haulDistanceKm: number;
+
+  /** Haul cost per unit per km ($/unit/km) */
+  readonly haulCostPerUnitKm: number;
+
+  /** Fuel, materials and other consumables ($/unit) */
+  readonly consumablesPerUnit: number;
+}
+
+/** Rate band of a tiered scale curve */
+export interface RateTier {
+  /** Quantity the band starts at; the first band starts at zero */
+  readonly fromQuantity: number;
+
+  /** Multiplier on the base rate for quantities in this band */
+  readonly rateFactor: number;
+}
+
+/** Non-linear scaling of a unit rate with the quantity it is applied to */
+export type ScaleCurve =
+  | {
+      readonly type: 'power';
+
+      /** Quantity at which the base rate applies */
+      readonly referenceQuantity: number;
+
+      /** Cost exponent - below 1 gives economies of scale, 1 is linear */
+      readonly exponent: number;
+    }
+  | {
+      readonly type: 'tiered';
+
+      /** Rate bands in ascending order of quantity */
+      readonly tiers: readonly RateTier[];
+    };
+
+/** Rate set version a scenario's unit rates were loaded from */
+export interface RateSetReference {
+  readonly rateSetId: string;
+  readonly name: string;
+  readonly version: number;
+
+  /** Date the rates apply from (ISO date) */
+  readonly effectiveDate: string;
+}
+
 /** Complete input state */
 export interface InputState {
   readonly quantities: DirectWorksQuantities;
+  readonly siteDomains: readonly SiteDomain[];
+  readonly customLineItems: readonly CustomLineItem[];
+  readonly location: LocationSettings;
   readonly unitRates: UnitRates;
+
+  /** Rate library version the unit rates were loaded from; null when entered directly */
+  readonly rateSource: RateSetReference | null;
+
+  /** Unit rates derived from a first-principles build-up instead of entered directly */
+  readonly rateBuildUps: Partial<Record<keyof UnitRates, RateBuildUp>>;
+
+  /** Non-linear scaling of unit rates with quantity; rates without a curve scale linearly */
+  readonly scaleCurves: Partial<Record<keyof UnitRates, ScaleCurve>>;
+
   readonly indirectRates: IndirectCostRates;
   readonly riskFactors: RiskFactors;
   readonly financialParams: FinancialParams;
+  readonly escalation: EscalationSettings;
+
+  /** Cost index series imported with the scenario */
+  readonly costIndices: readonly CostIndexSeries[];
+
+  readonly rateRebase: RateRebaseSettings;
   readonly phaseDurations: PhaseDurations;
+  readonly phaseSchedule: PhaseSchedule;
+  readonly spendProfiles: SpendProfileSettings;
+  readonly perpetualTreatment: PerpetualTreatmentSettings;
+  readonly simulation: SimulationSettings;
   readonly scenarioName: string;
 }
 
 /** Derived quantities calculated from inputs */
 export interface DerivedQuantities {
-  /** TSF area in m² */
+  /** Total TSF area in m² */
   readonly tsfAreaM2: number;
 
-  /** WRD area in m² */
+  /** Total WRD area in m² */
   readonly wrdAreaM2: number;
 
-  /** TSF capping volume (m³) */
-  readonly tsfCappingVolumeM3: number;
+  /** Cover/cap placement volume across all domains (m³) */
+  readonly coverVolumeM3: number;
 
-  /** WRD earthworks volume (m³) */
-  readonly wrdEarthworksVolumeM3: number;
+  /** Reshaping volume across all domains, bulked (m³) */
+  readonly reshapingVolumeM3: number;
 
   /** Total earthworks volume (m³) */
   readonly totalEarthworksVolumeM3: number;
@@ -317,6 +858,12 @@ export interface DerivedQuantities {
 
 /** Individual line item cost */
 export interface LineItemCost {
+  /**
+   * Stable identifier - unlike the description it survives renaming a domain or
+   * custom item and switching treatment technology. Domain items are prefixed
+   * with the domain id (tsf-1.capping) and custom items with custom.
+   */
+  readonly id: string;
   readonly category: CostCategory;
   readonly description: string;
   readonly quantity: number;
@@ -324,6 +871,12 @@ export interface LineItemCost {
   readonly unitRate: number;
   readonly subtotal: number;
   readonly phase: ClosurePhase;
+
+  /** Spend curve for this item; overrides the category profile when set */
+  readonly spendProfile?: SpendProfile;
+
+  /** Site domain the item belongs to; site-wide items have none */
+  readonly domainId?: string;
 }
 
 /** Annual cashflow entry */
@@ -353,6 +906,21 @@ export interface SensitivityResult {
   readonly deltaNPV: number;
 }
 
+/** Estimate outcome with an alternative water treatment technology */
+export interface TechnologyComparison {
+  readonly technology: WaterTreatmentTechnology;
+
+  /** True for the technology in the current inputs */
+  readonly isCurrent: boolean;
+
+  readonly totalCost: number;
+  readonly npv: number;
+
+  /** Change from the current estimate */
+  readonly deltaCost: number;
+  readonly deltaNPV: number;
+}
+
 /** Phase cost summary */
 export interface PhaseCostSummary {
   readonly phase: ClosurePhase;
@@ -367,6 +935,71 @@ export interface CategoryCostSummary {
   readonly percentOfTotal: number;
 }
 
+/** Domain cost summary; the site-wide entry has no domain */
+export interface DomainCostSummary {
+  readonly domainId: string | null;
+  readonly name: string;
+  readonly type: SiteDomainType | null;
+  readonly totalCost: number;
+  readonly percentOfTotal: number;
+}
+
+/** Scheduled timing of a closure phase (years relative to closure start) */
+export interface PhaseTiming {
+  readonly phase: ClosurePhase;
+  readonly startYear: number;
+  readonly finishYear: number;
+  readonly durationYears: number;
+
+  /** Years the phase can slip without extending the total duration */
+  readonly totalFloatYears: number;
+
+  /** On the critical path (zero float) */
+  readonly isCritical: boolean;
+}
+
+/** Present value of water treatment continuing after the scheduled closure */
+export interface PerpetualTreatmentResult {
+  /** Perpetuity or fixed long-tail term */
+  readonly mode: PerpetualTreatmentMode;
+
+  /** First calendar year of ongoing treatment */
+  readonly startYear: number;
+
+  /** Treatment years valued (Infinity for a perpetuity) */
+  readonly termYears: number;
+
+  /** Annual treatment opex (rate base dollars) */
+  readonly annualOpex: number;
+
+  /** Cost of each plant replacement (rate base dollars) */
+  readonly replacementCost: number;
+
+  /** Cost of each mid-life refurbishment (rate base dollars) */
+  readonly refurbishmentCost: number;
+
+  /** Plant asset life (years) */
+  readonly assetLifeYears: number;
+
+  /** Real discount rate used (%) */
+  readonly realDiscountRatePercent: number;
+
+  /** Long-term escalation of treatment opex above the general rate (%) */
+  readonly realOpexEscalationPercent: number;
+
+  /** Present value of ongoing opex at the valuation year */
+  readonly opexPresentValue: number;
+
+  /** Present value of plant replacements and refurbishments at the valuation year */
+  readonly replacementPresentValue: number;
+
+  /**
+   * Total present value at the valuation year (Infinity for a perpetuity when
+   * costs escalate in real terms at or above the real discount rate)
+   */
+  readonly presentValue: number;
+}
+
 /** Complete calculation results */
 export interface Results {
   /** Derived quantities from inputs */
@@ -402,6 +1035,9 @@ export interface Results {
   /** Cost breakdown by category */
   readonly categoryBreakdown: readonly CategoryCostSummary[];
 
+  /** Cost breakdown by site domain, with site-wide and indirect costs as one entry */
+  readonly domainBreakdown: readonly DomainCostSummary[];
+
   /** Sensitivity analysis results */
   readonly sensitivityResults: readonly SensitivityResult[];
 
@@ -410,6 +1046,244 @@ export interface Results {
 
   /** Total project duration (years) */
   readonly totalDurationYears: number;
+
+  /** Scheduled start, finish and float of each phase */
+  readonly phaseTimings: readonly PhaseTiming[];
+
+  /** Fisher-equivalent discount rate in the other mode (nominal if real, real if nominal) (%) */
+  readonly equivalentDiscountRatePercent: number;
+
+  /** Estimate with each water treatment technology (empty without water treatment) */
+  readonly technologyComparison: readonly TechnologyComparison[];
+
+  /** Ongoing water treatment after the schedule, valued separately from the NPV (null when off) */
+  readonly perpetualTreatment: PerpetualTreatmentResult | null;
+
+  /**
+   * Factor rebasing the unit rates to the rate base year (1 when not rebasing);
+   * null when the rebase index has no value for the rates year or the rate base
+   * year, in which case the rates are used as entered
+   */
+  readonly rateRebaseFactor: number | null;
+}
+
+/** Percentile summary of a sampled outcome */
+export interface PercentileSummary {
+  readonly p10: number;
+  readonly p50: number;
+  readonly p90: number;
+  readonly mean: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+/** Outcome of a single simulation iteration */
+export interface SimulationSample {
+  readonly iteration: number;
+  readonly totalCost: number;
+  readonly npv: number;
+}
+
+/** Monte Carlo simulation results */
+export interface SimulationResults {
+  /** Number of iterations run */
+  readonly iterations: number;
+
+  /** Seed used for the run */
+  readonly seed: number;
+
+  /** Total nominal cost percentiles */
+  readonly totalCost: PercentileSummary;
+
+  /** NPV percentiles */
+  readonly npv: PercentileSummary;
+
+  /** Per-iteration outcomes, in iteration order */
+  readonly samples: readonly SimulationSample[];
+}
+
+/** Provision movements over one financial year */
+export interface ProvisionMovement {
+  /** Financial year */
+  readonly year: number;
+
+  /** Provision at the start of the year */
+  readonly openingProvision: number;
+
+  /** Remeasurement for a change in discount rate (applied at the start of the year) */
+  readonly rateChange: number;
+
+  /** Remeasurement for a change in estimated cashflows (applied at the start of the year) */
+  readonly estimateChange: number;
+
+  /** Closure spend charged against the provision */
+  readonly utilisation: number;
+
+  /** Unwinding of discount (finance cost) */
+  readonly unwindingOfDiscount: number;
+
+  /** Provision at the end of the year */
+  readonly closingProvision: number;
+
+  /** Nominal discount rate applied (%) */
+  readonly discountRatePercent: number;
+
+  /** True for years from the current valuation year, projected from the current estimate */
+  readonly isForecast: boolean;
+}
+
+/** Provision roll-forward between a prior and a current estimate */
+export interface ProvisionRollForward {
+  /** Valuation year of the prior estimate */
+  readonly priorValuationYear: number;
+
+  /** Valuation year of the current estimate */
+  readonly currentValuationYear: number;
+
+  /** Provision reported under the prior estimate */
+  readonly priorProvision: number;
+
+  /** Prior estimate rolled forward to the current valuation year, before remeasurement */
+  readonly expectedProvision: number;
+
+  /** Remeasurement for the change in discount rate */
+  readonly rateChange: number;
+
+  /** Remeasurement for the change in estimated cashflows */
+  readonly estimateChange: number;
+
+  /** Provision under the current estimate */
+  readonly currentProvision: number;
+
+  /** Movements per financial year, from the prior valuation year to the last closure spend */
+  readonly movements: readonly ProvisionMovement[];
+}
+
+/** Saved scenario, preset or the current inputs, to compare */
+export interface ComparisonSource {
+  readonly id: string;
+  readonly name: string;
+  readonly inputs: InputState;
+}
+
+/** A compared scenario and its results */
+export interface ComparedScenario extends ComparisonSource {
+  readonly results: Results;
+}
+
+/** Value of a measure in one scenario, against the base scenario */
+export interface ComparisonValue {
+  readonly value: number;
+
+  /** Value less the base scenario's value (0 for the base scenario) */
+  readonly delta: number;
+
+  /** Delta as a percentage of the base value, or null when the base value is 0 */
+  readonly deltaPercent: number | null;
+}
+
+/** One measure across the compared scenarios */
+export interface ComparisonRow {
+  readonly key: string;
+  readonly label: string;
+  readonly unit: 'currency' | 'years';
+
+  /** Values in scenario order, the base scenario first */
+  readonly values: readonly ComparisonValue[];
+}
+
+/** Side-by-side comparison of two or more scenarios */
+export interface ScenarioComparison {
+  /** Compared scenarios, the base scenario first */
+  readonly scenarios: readonly ComparedScenario[];
+
+  /** Headline measures */
+  readonly kpis: readonly ComparisonRow[];
+
+  /** Category totals, for categories with cost in any scenario */
+  readonly categories: readonly ComparisonRow[];
+
+  /** Phase totals, for phases with cost in any scenario */
+  readonly phases: readonly ComparisonRow[];
+}
+
+/** Input groups substituted one at a time in an input bridge */
+export type BridgeInputGroup =
+  | 'quantities'
+  | 'siteDomains'
+  | 'customLineItems'
+  | 'unitRates'
+  | 'indirectRates'
+  | 'riskFactors'
+  | 'financialParams'
+  | 'phaseDurations';
+
+/** Cost measure bridged between two estimates */
+export type CostBridgeMeasure = 'total' | 'npv';
+
+/** One movement in a cost bridge */
+export interface CostBridgeStep {
+  /** Cost category, input group, or 'other' for the remaining inputs */
+  readonly key: string;
+  readonly label: string;
+  readonly delta: number;
+}
+
+/** Movements explaining the change from one estimate to another */
+export interface CostBridge {
+  /** Prior estimate's total cost or NPV */
+  readonly startValue: number;
+
+  /** Current estimate's total cost or NPV */
+  readonly endValue: number;
+
+  /** Non-zero movements, in order; they sum to endValue - startValue */
+  readonly steps: readonly CostBridgeStep[];
+}
+
+/** Input value as shown in a diff; null where the field is absent */
+export type InputDiffValue = string | number | boolean | null;
+
+/** One input field that differs between two scenarios */
+export interface InputDiffEntry {
+  /** Field path in the input state, e.g. unitRates.earthworksPerM3 */
+  readonly path: string;
+
+  /** Input group, e.g. Unit Rates */
+  readonly group: string;
+
+  /** Field within the group, e.g. Earthworks or TSF 1 › Area */
+  readonly field: string;
+  readonly unit: string;
+  readonly oldValue: InputDiffValue;
+  readonly newValue: InputDiffValue;
+}
+
+/** One change in the input history, holding the inputs from before it */
+export interface InputHistoryEntry {
+  /** What changed, e.g. Unit Rates › Earthworks or Reset to defaults */
+  readonly label: string;
+
+  /** Inputs before the change (after it, once undone) */
+  readonly inputs: InputState;
+
+  /** Changed field paths, '' for labelled changes; repeated edits of the same fields merge */
+  readonly paths: string;
+
+  /** When the change was made (ms since epoch) */
+  readonly timestamp: number;
+}
+
+/** Undo and redo stacks of input changes, most recent last */
+export interface InputHistory {
+  readonly past: readonly InputHistoryEntry[];
+  readonly future: readonly InputHistoryEntry[];
+}
+
+/** Inputs and history after an undo or redo */
+export interface InputHistoryStep {
+  readonly inputs: InputState;
+  readonly history: InputHistory;
 }
 
 /** Scenario preset definition */
@@ -420,6 +1294,33 @@ export interface ScenarioPreset {
   readonly inputs: InputState;
 }
 
+/** Details recorded with each rate set version */
+export interface RateSetVersionDetails {
+  /** Date the rates apply from (ISO date) */
+  readonly effectiveDate: string;
+
+  readonly notes: string;
+}
+
+/** One dated version of a rate set */
+export interface RateSetVersion extends RateSetVersionDetails {
+  readonly version: number;
+
+  /** When the version was saved (ISO timestamp) */
+  readonly createdAt: string;
+
+  readonly unitRates: UnitRates;
+}
+
+/** A named unit rate schedule in the rate library, e.g. a regional contractor schedule */
+export interface RateSet {
+  readonly id: string;
+  readonly name: string;
+
+  /** Versions, oldest first */
+  readonly versions: readonly RateSetVersion[];
+}
+
 /** Saved scenario in localStorage */
 export interface SavedScenario {
   readonly id: string;
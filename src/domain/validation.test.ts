@@ -10,8 +10,13 @@ import {
   DirectWorksQuantitiesSchema,
   RiskFactorsSchema,
   FinancialParamsSchema,
+  ProbabilityDistributionSchema,
+  SimulationSettingsSchema,
+  SiteDomainsSchema,
 } from './validation';
 import { createDefaultInputState } from './defaults';
+import { createSiteDomain } from './siteDomains';
+import { SCENARIO_PRESETS } from './presets';
 import type { InputState } from './types';
 import { z } from 'zod';
 
@@ -34,9 +39,8 @@ describe('InputStateSchema validation', () => {
         quantities: {
           ...defaultInputs.quantities,
           disturbedAreaHa: 0,
-          tsfAreaHa: 0,
-          wrdFootprintHa: 0,
         },
+        siteDomains: [],
       };
       const result = InputStateSchema.safeParse(minInputs);
       expect(result.success).toBe(true);
@@ -48,16 +52,26 @@ describe('InputStateSchema validation', () => {
         quantities: {
           ...defaultInputs.quantities,
           disturbedAreaHa: 50000,
-          tsfAreaHa: 5000,
-          wrdFootprintHa: 20000,
         },
+        siteDomains: defaultInputs.siteDomains.map(d => ({ ...d, areaHa: d.type === 'tsf' ? 5000 : 20000 })),
       };
       const result = InputStateSchema.safeParse(maxInputs);
       expect(result.success).toBe(true);
     });
+
+    it('should validate every scenario preset', () => {
+      for (const preset of SCENARIO_PRESETS) {
+        expect(InputStateSchema.safeParse(preset.inputs).success).toBe(true);
+      }
+    });
   });
 
   describe('Invalid inputs - negative values', () => {
+    it('should reject a fractional shaft count', () => {
+      const result = DirectWorksQuantitiesSchema.safeParse({ ...defaultInputs.quantities, shaftCount: 1.5 });
+      expect(result.success).toBe(false);
+    });
+
     it('should reject negative disturbed area', () => {
       const invalidInputs = {
         ...defaultInputs,
@@ -73,10 +87,7 @@ describe('InputStateSchema validation', () => {
     it('should reject negative TSF area', () => {
       const invalidInputs = {
         ...defaultInputs,
-        quantities: {
-          ...defaultInputs.quantities,
-          tsfAreaHa: -5,
-        },
+        siteDomains: defaultInputs.siteDomains.map(d => (d.type === 'tsf' ? { ...d, areaHa: -5 } : d)),
       };
       const result = InputStateSchema.safeParse(invalidInputs);
       expect(result.success).toBe(false);
@@ -85,10 +96,7 @@ describe('InputStateSchema validation', () => {
     it('should reject negative WRD area', () => {
       const invalidInputs = {
         ...defaultInputs,
-        quantities: {
-          ...defaultInputs.quantities,
-          wrdFootprintHa: -20,
-        },
+        siteDomains: defaultInputs.siteDomains.map(d => (d.type === 'wrd' ? { ...d, areaHa: -20 } : d)),
       };
       const result = InputStateSchema.safeParse(invalidInputs);
       expect(result.success).toBe(false);
@@ -156,13 +164,10 @@ describe('InputStateSchema validation', () => {
       expect(result.success).toBe(false);
     });
 
-    it('should reject TSF area over 10000 ha', () => {
+    it('should reject domain area over 50000 ha', () => {
       const invalidInputs = {
         ...defaultInputs,
-        quantities: {
-          ...defaultInputs.quantities,
-          tsfAreaHa: 15000,
-        },
+        siteDomains: defaultInputs.siteDomains.map(d => ({ ...d, areaHa: 60000 })),
       };
       const result = InputStateSchema.safeParse(invalidInputs);
       expect(result.success).toBe(false);
@@ -285,10 +290,6 @@ describe('Individual schema tests', () => {
     it('should validate valid quantities', () => {
       const validQuantities = {
         disturbedAreaHa: 500,
-        tsfAreaHa: 100,
-        tsfCoverThicknessM: 0.5,
-        wrdFootprintHa: 200,
-        wrdReshapingDepthM: 2,
         earthworksVolumeM3Override: null,
         topsoilThicknessM: 0.3,
         recontouringAreaHa: 100,
@@ -296,12 +297,21 @@ describe('Individual schema tests', () => {
         numberOfBuildings: 20,
         waterTreatmentFlowMLPerDay: 5,
         waterTreatmentDurationYears: 10,
-        waterTreatmentIntensityFactor: 1.0,
+        waterTreatmentTechnology: 'lime_hds',
         monitoringDurationYears: 10,
         monitoringIntensity: 'medium',
         hazardousMaterialsEnabled: false,
         hazardousMaterialsAreaHa: 0,
         communityHeritageEnabled: true,
+        shaftCount: 2,
+        shaftDiameterM: 5,
+        raiseCount: 4,
+        raiseDiameterM: 3,
+        portalCount: 1,
+        declineBackfillLengthM: 200,
+        declineCrossSectionM2: 30,
+        ventilationSiteCount: 2,
+        subsidenceMonitoringYears: 10,
       };
       const result = DirectWorksQuantitiesSchema.safeParse(validQuantities);
       expect(result.success).toBe(true);
@@ -310,10 +320,6 @@ describe('Individual schema tests', () => {
     it('should reject invalid monitoring intensity', () => {
       const invalidQuantities = {
         disturbedAreaHa: 500,
-        tsfAreaHa: 100,
-        tsfCoverThicknessM: 0.5,
-        wrdFootprintHa: 200,
-        wrdReshapingDepthM: 2,
         earthworksVolumeM3Override: null,
         topsoilThicknessM: 0.3,
         recontouringAreaHa: 100,
@@ -321,7 +327,7 @@ describe('Individual schema tests', () => {
         numberOfBuildings: 20,
         waterTreatmentFlowMLPerDay: 5,
         waterTreatmentDurationYears: 10,
-        waterTreatmentIntensityFactor: 1.0,
+        waterTreatmentTechnology: 'lime_hds',
         monitoringDurationYears: 10,
         monitoringIntensity: 'invalid',
         hazardousMaterialsEnabled: false,
@@ -337,6 +343,8 @@ describe('Individual schema tests', () => {
     it('should validate valid financial params', () => {
       const validParams = {
         closureStartYear: 2025,
+        valuationYear: 2025,
+        rateBaseYear: 2024,
         escalationRatePercent: 2.5,
         discountRatePercent: 7,
         discountRateMode: 'real',
@@ -348,6 +356,8 @@ describe('Individual schema tests', () => {
     it('should reject invalid discount rate mode', () => {
       const invalidParams = {
         closureStartYear: 2025,
+        valuationYear: 2025,
+        rateBaseYear: 2024,
         escalationRatePercent: 2.5,
         discountRatePercent: 7,
         discountRateMode: 'invalid',
@@ -359,6 +369,8 @@ describe('Individual schema tests', () => {
     it('should reject year before 2020', () => {
       const invalidParams = {
         closureStartYear: 2015,
+        valuationYear: 2025,
+        rateBaseYear: 2024,
         escalationRatePercent: 2.5,
         discountRatePercent: 7,
         discountRateMode: 'real',
@@ -375,7 +387,6 @@ describe('Individual schema tests', () => {
         geotechUncertainty: 30,
         waterQualityUncertainty: 40,
         regulatoryUncertainty: 20,
-        logisticsComplexity: 25,
       };
       const result = RiskFactorsSchema.safeParse(validRisks);
       expect(result.success).toBe(true);
@@ -387,12 +398,85 @@ describe('Individual schema tests', () => {
         geotechUncertainty: 30,
         waterQualityUncertainty: 40,
         regulatoryUncertainty: 20,
-        logisticsComplexity: 25,
       };
       const result = RiskFactorsSchema.safeParse(invalidRisks);
       expect(result.success).toBe(false);
     });
   });
+
+  describe('ProbabilityDistributionSchema', () => {
+    it('should validate an ordered triangular distribution', () => {
+      const result = ProbabilityDistributionSchema.safeParse({ type: 'triangular', min: 1, mode: 2, max: 3 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a mode outside the range', () => {
+      const result = ProbabilityDistributionSchema.safeParse({ type: 'pert', min: 1, mode: 5, max: 3 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a non-positive lognormal mean', () => {
+      const result = ProbabilityDistributionSchema.safeParse({ type: 'lognormal', mean: 0, standardDeviation: 1 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an unknown distribution type', () => {
+      const result = ProbabilityDistributionSchema.safeParse({ type: 'normal', mean: 1, standardDeviation: 1 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('SiteDomainsSchema', () => {
+    it('should validate the default register', () => {
+      const result = SiteDomainsSchema.safeParse(createDefaultInputState().siteDomains);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject duplicate domain ids', () => {
+      const [tsf] = createDefaultInputState().siteDomains;
+      const result = SiteDomainsSchema.safeParse([tsf, { ...tsf, name: 'TSF 2' }]);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject negative pit void quantities', () => {
+      const pit = createSiteDomain('pit', []);
+      const result = SiteDomainsSchema.safeParse([
+        { ...pit, pitVoid: { ...pit.pitVoid, backfillVolumeM3: -1 } },
+      ]);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an unknown domain type', () => {
+      const [tsf] = createDefaultInputState().siteDomains;
+      const result = SiteDomainsSchema.safeParse([{ ...tsf, type: 'heap_leach' }]);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('SimulationSettingsSchema', () => {
+    it('should reject distributions on unknown fields', () => {
+      const result = SimulationSettingsSchema.safeParse({
+        enabled: true,
+        iterations: 1000,
+        seed: 1,
+        distributions: {
+          quantities: { notAField: { type: 'uniform', min: 1, max: 2 } },
+          unitRates: {},
+          indirectRates: {},
+          siteDomains: {},
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject too few iterations', () => {
+      const result = SimulationSettingsSchema.safeParse({
+        ...createDefaultInputState().simulation,
+        iterations: 10,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe('Edge cases', () => {
@@ -444,8 +528,8 @@ describe('Edge cases', () => {
       quantities: {
         ...defaultInputs.quantities,
         disturbedAreaHa: 100000, // Maximum allowed
-        tsfAreaHa: 10000, // Maximum allowed
       },
+      siteDomains: defaultInputs.siteDomains.map(d => ({ ...d, areaHa: 50000 })), // Maximum allowed
     };
     const result = InputStateSchema.safeParse(boundaryInputs);
     expect(result.success).toBe(true);
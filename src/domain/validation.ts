@@ -6,7 +6,9 @@
  */
 
 import { z } from 'zod';
-import { ClosurePhase } from './types';
+import { ClosurePhase, CostCategory } from './types';
+import { findScheduleCycle } from './scheduler';
+import { CUSTOM_LINE_ITEM_CATEGORIES } from './customLineItems';
 
 /** Positive number schema */
 const positiveNumber = z.number().min(0, 'Must be non-negative');
@@ -20,16 +22,29 @@ const riskFactor = z.number().min(0).max(100, 'Must be between 0 and 100');
 /** Monitoring intensity schema */
 const monitoringIntensity = z.enum(['low', 'medium', 'high']);
 
+/** Cost region schema */
+const costRegion = z.enum(['metropolitan', 'regional', 'remote', 'very_remote']);
+
+/** Location cost multiplier schema */
+const locationFactor = z.number().min(0.5).max(3, 'Factor between 0.5 and 3.0');
+
 /** Discount rate mode schema */
 const discountRateMode = z.enum(['real', 'nominal']);
 
+/** Escalation index schema */
+const escalationIndexId = z.enum(['labour', 'plant_fuel', 'materials', 'professional_services']);
+
+/** Water treatment technology schema */
+const waterTreatmentTechnology = z.enum([
+  'passive_wetland',
+  'lime_hds',
+  'reverse_osmosis',
+  'biological_sulphate',
+]);
+
 /** Direct works quantities schema */
 export const DirectWorksQuantitiesSchema = z.object({
   disturbedAreaHa: positiveNumber.max(100000, 'Maximum 100,000 ha'),
-  tsfAreaHa: positiveNumber.max(10000, 'Maximum 10,000 ha'),
-  tsfCoverThicknessM: positiveNumber.max(5, 'Maximum 5m thickness'),
-  wrdFootprintHa: positiveNumber.max(50000, 'Maximum 50,000 ha'),
-  wrdReshapingDepthM: positiveNumber.max(20, 'Maximum 20m depth'),
   earthworksVolumeM3Override: z.number().nullable(),
   topsoilThicknessM: positiveNumber.max(2, 'Maximum 2m thickness'),
   recontouringAreaHa: positiveNumber.max(100000, 'Maximum 100,000 ha'),
@@ -37,14 +52,52 @@ export const DirectWorksQuantitiesSchema = z.object({
   numberOfBuildings: z.number().int().min(0).max(500, 'Maximum 500 buildings'),
   waterTreatmentFlowMLPerDay: positiveNumber.max(100, 'Maximum 100 ML/day'),
   waterTreatmentDurationYears: positiveNumber.max(100, 'Maximum 100 years'),
-  waterTreatmentIntensityFactor: z.number().min(0.5).max(3, 'Factor between 0.5 and 3'),
+  waterTreatmentTechnology: waterTreatmentTechnology,
   monitoringDurationYears: z.number().int().min(1).max(100, 'Between 1 and 100 years'),
   monitoringIntensity: monitoringIntensity,
   hazardousMaterialsEnabled: z.boolean(),
   hazardousMaterialsAreaHa: positiveNumber.max(1000, 'Maximum 1,000 ha'),
   communityHeritageEnabled: z.boolean(),
+  shaftCount: z.number().int().min(0).max(100, 'Maximum 100 shafts'),
+  shaftDiameterM: positiveNumber.max(20, 'Maximum 20m diameter'),
+  raiseCount: z.number().int().min(0).max(200, 'Maximum 200 raises'),
+  raiseDiameterM: positiveNumber.max(10, 'Maximum 10m diameter'),
+  portalCount: z.number().int().min(0).max(50, 'Maximum 50 portals'),
+  declineBackfillLengthM: positiveNumber.max(50000, 'Maximum 50 km'),
+  declineCrossSectionM2: positiveNumber.max(100, 'Maximum 100 m²'),
+  ventilationSiteCount: z.number().int().min(0).max(50, 'Maximum 50 sites'),
+  subsidenceMonitoringYears: z.number().int().min(0).max(100, 'Maximum 100 years'),
+});
+
+/** Pit void closure schema */
+export const PitVoidClosureSchema = z.object({
+  abandonmentBundLengthM: positiveNumber.max(100000, 'Maximum 100 km'),
+  backfillVolumeM3: positiveNumber.max(1000000000, 'Maximum 1 billion m³'),
+  wallStabilisationAreaHa: positiveNumber.max(10000, 'Maximum 10,000 ha'),
+  pitLakeAreaHa: positiveNumber.max(10000, 'Maximum 10,000 ha'),
+  safetyFenceLengthM: positiveNumber.max(100000, 'Maximum 100 km'),
+});
+
+/** Site domain schema */
+export const SiteDomainSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  type: z.enum(['tsf', 'wrd', 'pit', 'infrastructure']),
+  areaHa: positiveNumber.max(50000, 'Maximum 50,000 ha'),
+  coverThicknessM: positiveNumber.max(5, 'Maximum 5m thickness'),
+  reshapingDepthM: positiveNumber.max(20, 'Maximum 20m depth'),
+  pitVoid: PitVoidClosureSchema.optional(),
 });
 
+/** Site domain register schema */
+export const SiteDomainsSchema = z
+  .array(SiteDomainSchema)
+  .max(100, 'Maximum 100 domains')
+  .refine(
+    (domains) => new Set(domains.map((d) => d.id)).size === domains.length,
+    'Domain ids must be unique'
+  );
+
 /** Unit rates schema */
 export const UnitRatesSchema = z.object({
   earthworksPerM3: positiveNumber.max(100, 'Maximum $100/m³'),
@@ -55,8 +108,27 @@ export const UnitRatesSchema = z.object({
   revegetationComplexityFactor: z.number().min(0.5).max(3, 'Factor between 0.5 and 3'),
   demolitionPerBuilding: positiveNumber.max(5000000, 'Maximum $5M/building'),
   roadRehabPerKm: positiveNumber.max(1000000, 'Maximum $1M/km'),
+  abandonmentBundPerM: positiveNumber.max(5000, 'Maximum $5,000/m'),
+  pitBackfillPerM3: positiveNumber.max(100, 'Maximum $100/m³'),
+  pitWallStabilisationPerHa: positiveNumber.max(1000000, 'Maximum $1M/ha'),
+  pitLakeManagementPerHa: positiveNumber.max(1000000, 'Maximum $1M/ha'),
+  safetyFencingPerM: positiveNumber.max(1000, 'Maximum $1,000/m'),
+  infrastructureRehabPerHa: positiveNumber.max(1000000, 'Maximum $1M/ha'),
+  shaftCappingPerM2: positiveNumber.max(100000, 'Maximum $100,000/m²'),
+  portalSealingPerPortal: positiveNumber.max(10000000, 'Maximum $10M/portal'),
+  declineBackfillPerM3: positiveNumber.max(500, 'Maximum $500/m³'),
+  ventilationRemovalPerSite: positiveNumber.max(10000000, 'Maximum $10M/site'),
+  subsidenceMonitoringPerYear: positiveNumber.max(5000000, 'Maximum $5M/year'),
   waterTreatmentCapex: positiveNumber.max(500000000, 'Maximum $500M'),
+  waterTreatmentReferenceFlowMLPerDay: z.number().gt(0).max(500, 'Maximum 500 ML/day'),
+  waterTreatmentCapacityExponent: z.number().min(0.3).max(1, 'Exponent between 0.3 and 1'),
+  waterTreatmentAssetLifeYears: z.number().int().min(1).max(100, 'Between 1 and 100 years'),
+  waterTreatmentRefurbishmentPercent: z.number().min(0).max(100, 'Maximum 100%'),
+  waterTreatmentReplacementPercent: z.number().min(0).max(200, 'Maximum 200%'),
   waterTreatmentOpexPerML: positiveNumber.max(10000, 'Maximum $10,000/ML'),
+  waterTreatmentResidualDisposalPerML: positiveNumber.max(10000, 'Maximum $10,000/ML'),
+  waterTreatmentEnergyKWhPerML: positiveNumber.max(20000, 'Maximum 20,000 kWh/ML'),
+  electricityPerKWh: positiveNumber.max(5, 'Maximum $5/kWh'),
   monitoringPerYearLow: positiveNumber.max(5000000, 'Maximum $5M/year'),
   monitoringPerYearMedium: positiveNumber.max(10000000, 'Maximum $10M/year'),
   monitoringPerYearHigh: positiveNumber.max(20000000, 'Maximum $20M/year'),
@@ -67,6 +139,95 @@ export const UnitRatesSchema = z.object({
   mobilisationLumpSum: positiveNumber.max(50000000, 'Maximum $50M'),
 });
 
+/** Plant item or labour crew in a rate build-up */
+export const RateBuildUpResourceSchema = z.object({
+  description: z.string().max(100),
+  quantity: positiveNumber.max(1000, 'Maximum 1,000'),
+  hourlyRate: positiveNumber.max(100000, 'Maximum $100,000/hr'),
+});
+
+/** Rate build-up schema */
+export const RateBuildUpSchema = z.object({
+  equipment: z.array(RateBuildUpResourceSchema).max(50),
+  labour: z.array(RateBuildUpResourceSchema).max(50),
+  productivityPerHour: z.number().positive('Productivity must be greater than zero').max(1000000),
+  haulDistanceKm: positiveNumber.max(500, 'Maximum 500 km'),
+  haulCostPerUnitKm: positiveNumber.max(10000),
+  consumablesPerUnit: positiveNumber.max(10000000),
+});
+
+/** Rate build-ups by unit rate */
+export const RateBuildUpsSchema = z.partialRecord(UnitRatesSchema.keyof(), RateBuildUpSchema);
+
+/** Rate band of a tiered scale curve */
+export const RateTierSchema = z.object({
+  fromQuantity: positiveNumber,
+  rateFactor: z.number().positive().max(10, 'Maximum 10× the base rate'),
+});
+
+/** Scale curve schema */
+export const ScaleCurveSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('power'),
+    referenceQuantity: z.number().positive('Reference quantity must be greater than zero'),
+    exponent: z.number().min(0.5).max(1.5, 'Exponent between 0.5 and 1.5'),
+  }),
+  z.object({
+    type: z.literal('tiered'),
+    tiers: z
+      .array(RateTierSchema)
+      .min(1)
+      .max(20)
+      .refine((tiers) => tiers[0]?.fromQuantity === 0, 'The first band must start at zero')
+      .refine(
+        (tiers) =>
+          tiers.every((t, i) => i === 0 || t.fromQuantity > (tiers[i - 1]?.fromQuantity ?? 0)),
+        'Bands must be in ascending order of quantity'
+      ),
+  }),
+]);
+
+/** Scale curves by unit rate */
+export const ScaleCurvesSchema = z.partialRecord(UnitRatesSchema.keyof(), ScaleCurveSchema);
+
+/** Rate source schema - the rate library version a scenario's rates came from */
+export const RateSetReferenceSchema = z.object({
+  rateSetId: z.string().min(1),
+  name: z.string().min(1).max(100),
+  version: z.number().int().min(1),
+  effectiveDate: z.iso.date(),
+});
+
+/** Rate set version schema */
+export const RateSetVersionSchema = z.object({
+  version: z.number().int().min(1),
+  effectiveDate: z.iso.date(),
+  notes: z.string().max(500),
+  createdAt: z.iso.datetime(),
+  unitRates: UnitRatesSchema,
+});
+
+/** Rate set schema */
+export const RateSetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  versions: z
+    .array(RateSetVersionSchema)
+    .min(1, 'A rate set needs at least one version')
+    .refine(
+      (versions) => new Set(versions.map((v) => v.version)).size === versions.length,
+      'Version numbers must be unique'
+    ),
+});
+
+/** Rate library schema */
+export const RateLibrarySchema = z
+  .array(RateSetSchema)
+  .refine(
+    (sets) => new Set(sets.map((s) => s.id)).size === sets.length,
+    'Rate set ids must be unique'
+  );
+
 /** Indirect cost rates schema */
 export const IndirectCostRatesSchema = z.object({
   siteEstablishmentPercent: percentage,
@@ -81,17 +242,81 @@ export const RiskFactorsSchema = z.object({
   geotechUncertainty: riskFactor,
   waterQualityUncertainty: riskFactor,
   regulatoryUncertainty: riskFactor,
-  logisticsComplexity: riskFactor,
+});
+
+/** Location settings schema */
+export const LocationSettingsSchema = z.object({
+  region: costRegion,
+  labourFactor: locationFactor,
+  plantFactor: locationFactor,
+  materialsFactor: locationFactor,
+  campCostPerPersonDay: positiveNumber.max(5000, 'Maximum $5,000/person-day'),
+  freightPercent: percentage,
+  labourCostPerPersonDay: z.number().positive().max(10000, 'Maximum $10,000/person-day'),
 });
 
 /** Financial parameters schema */
 export const FinancialParamsSchema = z.object({
   closureStartYear: z.number().int().min(2020).max(2100, 'Year between 2020 and 2100'),
+  valuationYear: z.number().int().min(2000).max(2100, 'Year between 2000 and 2100'),
+  rateBaseYear: z.number().int().min(2000).max(2100, 'Year between 2000 and 2100'),
   escalationRatePercent: z.number().min(0).max(20, 'Maximum 20%'),
   discountRatePercent: z.number().min(0).max(30, 'Maximum 30%'),
   discountRateMode: discountRateMode,
 });
 
+/** Escalation of an index in one year */
+export const EscalationYearRateSchema = z.object({
+  year: z.number().int().min(1950).max(2200),
+  ratePercent: z.number().min(-20).max(30, 'Between -20% and 30%'),
+});
+
+/** Escalation index schema */
+export const EscalationIndexSchema = z.object({
+  ratePercent: z.number().min(0).max(20, 'Maximum 20%'),
+  costIndexId: z.string().min(1).optional(),
+  series: z
+    .array(EscalationYearRateSchema)
+    .max(200)
+    .refine(
+      (series) => series.every((s, i) => i === 0 || s.year > (series[i - 1]?.year ?? 0)),
+      'Series years must be in ascending order'
+    ),
+});
+
+/** Category escalation schema */
+export const EscalationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  indices: z.record(escalationIndexId, EscalationIndexSchema),
+  categoryIndices: z.partialRecord(z.enum(CostCategory), escalationIndexId),
+});
+
+/** Cost index level in one year */
+export const CostIndexPointSchema = z.object({
+  year: z.number().int().min(1900).max(2200),
+  value: z.number().positive('Index values must be greater than zero'),
+});
+
+/** Cost index series schema */
+export const CostIndexSeriesSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  points: z
+    .array(CostIndexPointSchema)
+    .min(1)
+    .max(500)
+    .refine(
+      (points) => points.every((p, i) => i === 0 || p.year > (points[i - 1]?.year ?? 0)),
+      'Index years must be in ascending order'
+    ),
+});
+
+/** Rate rebase schema */
+export const RateRebaseSettingsSchema = z.object({
+  costIndexId: z.string().min(1).nullable(),
+  ratesYear: z.number().int().min(1900).max(2100),
+});
+
 /** Phase durations schema */
 export const PhaseDurationsSchema = z.object({
   [ClosurePhase.PlanningApprovals]: z.number().int().min(0).max(10),
@@ -104,24 +329,174 @@ export const PhaseDurationsSchema = z.object({
   [ClosurePhase.RelinquishmentPostClosure]: z.number().int().min(0).max(10),
 });
 
+/** Phase predecessor schema */
+export const PhasePredecessorSchema = z.object({
+  phase: z.enum(ClosurePhase),
+  type: z.enum(['finish_to_start', 'start_to_start']),
+  lagYears: z.number().int().min(0).max(50, 'Maximum 50 years'),
+});
+
+const phasePredecessors = z.array(PhasePredecessorSchema);
+
+/** Phase schedule schema - predecessors per phase, must not contain a cycle */
+export const PhaseScheduleSchema = z
+  .object({
+    [ClosurePhase.PlanningApprovals]: phasePredecessors,
+    [ClosurePhase.DecommissioningDemolition]: phasePredecessors,
+    [ClosurePhase.EarthworksLandform]: phasePredecessors,
+    [ClosurePhase.TailingsWRDRehabilitation]: phasePredecessors,
+    [ClosurePhase.WaterManagement]: phasePredecessors,
+    [ClosurePhase.RevegetationEcosystem]: phasePredecessors,
+    [ClosurePhase.MonitoringMaintenance]: phasePredecessors,
+    [ClosurePhase.RelinquishmentPostClosure]: phasePredecessors,
+  })
+  .refine((schedule) => findScheduleCycle(schedule) === null, 'Phase dependencies form a cycle');
+
+/** Spend profile schema */
+export const SpendProfileSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum([
+      'uniform',
+      'front_loaded',
+      'back_loaded',
+      's_curve',
+      'lump_sum_start',
+      'lump_sum_end',
+    ]),
+  }),
+  z.object({
+    type: z.literal('custom'),
+    percentages: z
+      .array(z.number().min(0).max(100))
+      .min(1)
+      .max(100)
+      .refine((p) => p.some((v) => v > 0), 'At least one year must have spend'),
+  }),
+]);
+
+/** Spend profile overrides schema */
+export const SpendProfileSettingsSchema = z.object({
+  categories: z.partialRecord(z.enum(CostCategory), SpendProfileSchema),
+  lineItems: z.record(z.string(), SpendProfileSchema),
+});
+
+/** Custom line item schema */
+export const CustomLineItemSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1).max(200),
+  category: z
+    .enum(CostCategory)
+    .refine(
+      (category) => CUSTOM_LINE_ITEM_CATEGORIES.includes(category),
+      'Indirect categories are calculated from the direct works'
+    ),
+  phase: z.enum(ClosurePhase),
+  quantity: positiveNumber.max(1000000000, 'Maximum 1 billion'),
+  unit: z.string().max(30),
+  unitRate: positiveNumber.max(1000000000, 'Maximum $1 billion'),
+  spendProfile: SpendProfileSchema.optional(),
+});
+
+/** Custom line items schema */
+export const CustomLineItemsSchema = z
+  .array(CustomLineItemSchema)
+  .max(200, 'Maximum 200 custom items')
+  .refine(
+    (items) => new Set(items.map((i) => i.id)).size === items.length,
+    'Custom item ids must be unique'
+  );
+
+/** Probability distribution schema */
+export const ProbabilityDistributionSchema = z.discriminatedUnion('type', [
+  z
+    .object({ type: z.literal('triangular'), min: z.number(), mode: z.number(), max: z.number() })
+    .refine((d) => d.min <= d.mode && d.mode <= d.max, 'Requires min ≤ most likely ≤ max'),
+  z
+    .object({ type: z.literal('pert'), min: z.number(), mode: z.number(), max: z.number() })
+    .refine((d) => d.min <= d.mode && d.mode <= d.max, 'Requires min ≤ most likely ≤ max'),
+  z
+    .object({ type: z.literal('uniform'), min: z.number(), max: z.number() })
+    .refine((d) => d.min <= d.max, 'Requires min ≤ max'),
+  z.object({
+    type: z.literal('lognormal'),
+    mean: z.number().positive('Mean must be positive'),
+    standardDeviation: positiveNumber,
+  }),
+]);
+
+/** Ongoing water treatment settings schema */
+export const PerpetualTreatmentSettingsSchema = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(['perpetuity', 'fixed_term']),
+  termYears: z.number().int().min(1).max(1000, 'Between 1 and 1,000 years'),
+});
+
+/** Simulation settings schema */
+export const SimulationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  iterations: z.number().int().min(100).max(20000, 'Between 100 and 20,000 iterations'),
+  seed: z.number().int(),
+  distributions: z.object({
+    quantities: z.partialRecord(DirectWorksQuantitiesSchema.keyof(), ProbabilityDistributionSchema),
+    unitRates: z.partialRecord(UnitRatesSchema.keyof(), ProbabilityDistributionSchema),
+    indirectRates: z.partialRecord(IndirectCostRatesSchema.keyof(), ProbabilityDistributionSchema),
+    siteDomains: z.record(
+      z.templateLiteral([
+        z.string(),
+        '.',
+        z.enum(['areaHa', 'coverThicknessM', 'reshapingDepthM']),
+      ]),
+      ProbabilityDistributionSchema
+    ),
+  }),
+});
+
 /** Complete input state schema */
 export const InputStateSchema = z.object({
   quantities: DirectWorksQuantitiesSchema,
+  siteDomains: SiteDomainsSchema,
+  customLineItems: CustomLineItemsSchema,
+  location: LocationSettingsSchema,
   unitRates: UnitRatesSchema,
+  rateSource: RateSetReferenceSchema.nullable(),
+  rateBuildUps: RateBuildUpsSchema,
+  scaleCurves: ScaleCurvesSchema,
   indirectRates: IndirectCostRatesSchema,
   riskFactors: RiskFactorsSchema,
   financialParams: FinancialParamsSchema,
+  escalation: EscalationSettingsSchema,
+  costIndices: z.array(CostIndexSeriesSchema).max(50),
+  rateRebase: RateRebaseSettingsSchema,
   phaseDurations: PhaseDurationsSchema,
+  phaseSchedule: PhaseScheduleSchema,
+  spendProfiles: SpendProfileSettingsSchema,
+  perpetualTreatment: PerpetualTreatmentSettingsSchema,
+  simulation: SimulationSettingsSchema,
   scenarioName: z.string().min(1).max(100),
 });
 
 /** Type inference from schemas */
 export type ValidatedDirectWorksQuantities = z.infer<typeof DirectWorksQuantitiesSchema>;
+export type ValidatedPitVoidClosure = z.infer<typeof PitVoidClosureSchema>;
+export type ValidatedSiteDomain = z.infer<typeof SiteDomainSchema>;
+export type ValidatedCustomLineItem = z.infer<typeof CustomLineItemSchema>;
 export type ValidatedUnitRates = z.infer<typeof UnitRatesSchema>;
+export type ValidatedRateBuildUp = z.infer<typeof RateBuildUpSchema>;
+export type ValidatedScaleCurve = z.infer<typeof ScaleCurveSchema>;
+export type ValidatedRateSetReference = z.infer<typeof RateSetReferenceSchema>;
+export type ValidatedRateSet = z.infer<typeof RateSetSchema>;
 export type ValidatedIndirectCostRates = z.infer<typeof IndirectCostRatesSchema>;
 export type ValidatedRiskFactors = z.infer<typeof RiskFactorsSchema>;
+export type ValidatedLocationSettings = z.infer<typeof LocationSettingsSchema>;
 export type ValidatedFinancialParams = z.infer<typeof FinancialParamsSchema>;
+export type ValidatedEscalationSettings = z.infer<typeof EscalationSettingsSchema>;
+export type ValidatedCostIndexSeries = z.infer<typeof CostIndexSeriesSchema>;
+export type ValidatedRateRebaseSettings = z.infer<typeof RateRebaseSettingsSchema>;
 export type ValidatedPhaseDurations = z.infer<typeof PhaseDurationsSchema>;
+export type ValidatedPhaseSchedule = z.infer<typeof PhaseScheduleSchema>;
+export type ValidatedSpendProfileSettings = z.infer<typeof SpendProfileSettingsSchema>;
+export type ValidatedPerpetualTreatmentSettings = z.infer<typeof PerpetualTreatmentSettingsSchema>;
+export type ValidatedSimulationSettings = z.infer<typeof SimulationSettingsSchema>;
 export type ValidatedInputState = z.infer<typeof InputStateSchema>;
 
 /**
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for Water Treatment Technologies
+ *
+ * Tests cover:
+ * - Loading library rates for a technology
+ * - Line items reflecting the selected technology
+ * - Comparing the estimate across technologies
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  WATER_TREATMENT_TECHNOLOGIES,
+  WATER_TREATMENT_TECHNOLOGY_IDS,
+  applyWaterTreatmentTechnology,
+  getWaterTreatmentRates,
+} from './waterTreatment';
+import {
+  calculateClosureCosts,
+  calculateCostTotals,
+  calculateWaterTreatmentAnnualOpex,
+  compareWaterTreatmentTechnologies,
+} from './calcEngine';
+import { createDefaultInputState } from './defaults';
+import { CostCategory } from './types';
+import type { InputState } from './types';
+
+describe('Water treatment technology library', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should default to lime dosing with its library rates', () => {
+    expect(inputs.quantities.waterTreatmentTechnology).toBe('lime_hds');
+    expect(inputs.unitRates).toMatchObject(getWaterTreatmentRates('lime_hds'));
+  });
+
+  it('should load the technology rates when a technology is applied', () => {
+    const ro = applyWaterTreatmentTechnology(inputs, 'reverse_osmosis');
+    const spec = WATER_TREATMENT_TECHNOLOGIES.reverse_osmosis;
+
+    expect(ro.quantities.waterTreatmentTechnology).toBe('reverse_osmosis');
+    expect(ro.unitRates.waterTreatmentCapex).toBe(spec.referenceCapex);
+    expect(ro.unitRates.waterTreatmentOpexPerML).toBe(spec.opexPerML);
+    expect(ro.unitRates.waterTreatmentResidualDisposalPerML).toBe(spec.residualDisposalPerML);
+    expect(ro.unitRates.waterTreatmentEnergyKWhPerML).toBe(spec.energyKWhPerML);
+    expect(ro.unitRates.waterTreatmentAssetLifeYears).toBe(spec.assetLifeYears);
+  });
+
+  it('should leave other rates and the original inputs unchanged', () => {
+    const wetland = applyWaterTreatmentTechnology(inputs, 'passive_wetland');
+
+    expect(wetland.unitRates.electricityPerKWh).toBe(inputs.unitRates.electricityPerKWh);
+    expect(wetland.unitRates.earthworksPerM3).toBe(inputs.unitRates.earthworksPerM3);
+    expect(inputs.quantities.waterTreatmentTechnology).toBe('lime_hds');
+  });
+});
+
+describe('Water treatment line items', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should name the selected technology in the water treatment line items', () => {
+    const results = calculateClosureCosts(applyWaterTreatmentTechnology(inputs, 'reverse_osmosis'));
+    const waterItems = results.lineItems.filter(
+      item =>
+        item.category === CostCategory.WaterTreatmentCapex ||
+        item.category === CostCategory.WaterTreatmentOpex
+    );
+
+    expect(waterItems.length).toBeGreaterThan(0);
+    for (const item of waterItems) {
+      expect(item.description).toContain('Reverse osmosis');
+    }
+    expect(waterItems.some(item => item.description.includes('brine disposal'))).toBe(true);
+  });
+
+  it('should cost operations, residual disposal and power over the treatment duration', () => {
+    const results = calculateClosureCosts(inputs);
+    const opexTotal = results.lineItems
+      .filter(item => item.category === CostCategory.WaterTreatmentOpex)
+      .reduce((sum, item) => sum + item.subtotal, 0);
+
+    const { waterTreatmentFlowMLPerDay, waterTreatmentDurationYears } = inputs.quantities;
+    const { waterTreatmentOpexPerML, waterTreatmentResidualDisposalPerML, waterTreatmentEnergyKWhPerML, electricityPerKWh } = inputs.unitRates;
+    const perML = waterTreatmentOpexPerML + waterTreatmentResidualDisposalPerML + waterTreatmentEnergyKWhPerML * electricityPerKWh;
+
+    expect(opexTotal).toBeCloseTo(waterTreatmentFlowMLPerDay * 365 * waterTreatmentDurationYears * perML, 4);
+    expect(calculateWaterTreatmentAnnualOpex(inputs)).toBeCloseTo(waterTreatmentFlowMLPerDay * 365 * perML, 4);
+  });
+
+  it('should omit disposal and power items when their rates are zero', () => {
+    const results = calculateClosureCosts({
+      ...inputs,
+      unitRates: { ...inputs.unitRates, waterTreatmentResidualDisposalPerML: 0, waterTreatmentEnergyKWhPerML: 0 },
+    });
+    const opexItems = results.lineItems.filter(item => item.category === CostCategory.WaterTreatmentOpex);
+
+    expect(opexItems).toHaveLength(1);
+  });
+});
+
+describe('Water treatment technology comparison', () => {
+  let inputs: InputState;
+
+  beforeEach(() => {
+    inputs = createDefaultInputState();
+  });
+
+  it('should compare every technology against the current estimate', () => {
+    const comparison = compareWaterTreatmentTechnologies(inputs);
+    const base = calculateCostTotals(inputs);
+    const current = comparison.find(c => c.isCurrent);
+
+    expect(comparison.map(c => c.technology)).toEqual(WATER_TREATMENT_TECHNOLOGY_IDS);
+    expect(current?.technology).toBe('lime_hds');
+    expect(current?.totalCost).toBeCloseTo(base.total, 6);
+    expect(current?.deltaCost).toBe(0);
+    expect(current?.deltaNPV).toBe(0);
+  });
+
+  it('should cost reverse osmosis above a passive wetland', () => {
+    const comparison = compareWaterTreatmentTechnologies(inputs);
+    const ro = comparison.find(c => c.technology === 'reverse_osmosis');
+    const wetland = comparison.find(c => c.technology === 'passive_wetland');
+
+    expect(ro?.deltaCost ?? 0).toBeGreaterThan(0);
+    expect(wetland?.deltaCost ?? 0).toBeLessThan(0);
+  });
+
+  it('should keep edited rates for the current technology', () => {
+    const quoted = { ...inputs, unitRates: { ...inputs.unitRates, waterTreatmentOpexPerML: 1000 } };
+    const current = compareWaterTreatmentTechnologies(quoted).find(c => c.isCurrent);
+
+    expect(current?.totalCost).toBeCloseTo(calculateCostTotals(quoted).total, 6);
+  });
+
+  it('should be empty when no water is treated', () => {
+    const noWater = { ...inputs, quantities: { ...inputs.quantities, waterTreatmentDurationYears: 0 } };
+
+    expect(compareWaterTreatmentTechnologies(noWater)).toEqual([]);
+    expect(calculateClosureCosts(noWater).technologyComparison).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Mine Closure Costing - Water Treatment Technologies
+ *
+ * Cost library for water treatment technology options. Selecting a technology
+ * loads its rates into the water treatment unit rates, which remain editable
+ * for site-specific quotes.
+ *
+ * @module waterTreatment
+ */
+
+import type {
+  InputState,
+  UnitRates,
+  WaterTreatmentTechnology,
+  WaterTreatmentTechnologySpec,
+} from './types';
+import { applyRateBuildUps } from './rateBuildUp';
+
+/** Water treatment unit rates set by the technology */
+export type WaterTreatmentRates = Pick<
+  UnitRates,
+  | 'waterTreatmentCapex'
+  | 'waterTreatmentReferenceFlowMLPerDay'
+  | 'waterTreatmentCapacityExponent'
+  | 'waterTreatmentOpexPerML'
+  | 'waterTreatmentResidualDisposalPerML'
+  | 'waterTreatmentEnergyKWhPerML'
+  | 'waterTreatmentAssetLifeYears'
+>;
+
+/** Technology library (AUD, 2024 basis, indicative) */
+export const WATER_TREATMENT_TECHNOLOGIES: Record<
+  WaterTreatmentTechnology,
+  WaterTreatmentTechnologySpec
+> = {
+  passive_wetland: {
+    name: 'Passive wetland',
+    description: 'Constructed wetland - low opex, land intensive, limited economies of scale',
+    residualName: 'substrate',
+    referenceCapex: 3000000,
+    referenceFlowMLPerDay: 2,
+    capacityExponent: 0.9,
+    opexPerML: 80,
+    residualDisposalPerML: 20,
+    energyKWhPerML: 5,
+    assetLifeYears: 25,
+  },
+  lime_hds: {
+    name: 'Lime dosing / HDS',
+    description: 'Lime neutralisation with high density sludge recycle',
+    residualName: 'sludge',
+    referenceCapex: 5000000,
+    referenceFlowMLPerDay: 2,
+    capacityExponent: 0.6,
+    opexPerML: 400,
+    residualDisposalPerML: 60,
+    energyKWhPerML: 150,
+    assetLifeYears: 20,
+  },
+  reverse_osmosis: {
+    name: 'Reverse osmosis',
+    description: 'Membrane desalination - removes dissolved salts, produces brine',
+    residualName: 'brine',
+    referenceCapex: 12000000,
+    referenceFlowMLPerDay: 2,
+    capacityExponent: 0.7,
+    opexPerML: 900,
+    residualDisposalPerML: 400,
+    energyKWhPerML: 3000,
+    assetLifeYears: 15,
+  },
+  biological_sulphate: {
+    name: 'Biological sulphate reduction',
+    description: 'Bioreactor reducing sulphate and precipitating metals as sulphides',
+    residualName: 'sulphide sludge',
+    referenceCapex: 8000000,
+    referenceFlowMLPerDay: 2,
+    capacityExponent: 0.65,
+    opexPerML: 350,
+    residualDisposalPerML: 100,
+    energyKWhPerML: 300,
+    assetLifeYears: 20,
+  },
+};
+
+/** Technologies in display order */
+export const WATER_TREATMENT_TECHNOLOGY_IDS = Object.keys(
+  WATER_TREATMENT_TECHNOLOGIES
+) as WaterTreatmentTechnology[];
+
+/** Technology for new estimates */
+export const DEFAULT_WATER_TREATMENT_TECHNOLOGY: WaterTreatmentTechnology = 'lime_hds';
+
+/**
+ * Water treatment unit rates for a technology.
+ *
+ * @param technology - Treatment technology
+ */
+export function getWaterTreatmentRates(technology: WaterTreatmentTechnology): WaterTreatmentRates {
+  const spec = WATER_TREATMENT_TECHNOLOGIES[technology];
+  return {
+    waterTreatmentCapex: spec.referenceCapex,
+    waterTreatmentReferenceFlowMLPerDay: spec.referenceFlowMLPerDay,
+    waterTreatmentCapacityExponent: spec.capacityExponent,
+    waterTreatmentOpexPerML: spec.opexPerML,
+    waterTreatmentResidualDisposalPerML: spec.residualDisposalPerML,
+    waterTreatmentEnergyKWhPerML: spec.energyKWhPerML,
+    waterTreatmentAssetLifeYears: spec.assetLifeYears,
+  };
+}
+
+/**
+ * Switch an estimate to a water treatment technology, replacing the water
+ * treatment unit rates with the technology's library rates. Rates the
+ * estimate builds up keep their build-ups.
+ *
+ * @param inputs - Input state
+ * @param technology - Treatment technology
+ * @returns Input state using the technology
+ */
+export function applyWaterTreatmentTechnology(
+  inputs: InputState,
+  technology: WaterTreatmentTechnology
+): InputState {
+  return {
+    ...inputs,
+    quantities: { ...inputs.quantities, waterTreatmentTechnology: technology },
+    unitRates: applyRateBuildUps(
+      { ...inputs.unitRates, ...getWaterTreatmentRates(technology) },
+      inputs.rateBuildUps
+    ),
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Mine Closure Costing - Simulation Worker
+ *
+ * Runs the Monte Carlo simulation off the main thread. Each iteration is a full
+ * run of the calculation engine, so a large simulation would otherwise freeze
+ * the UI; the store terminates the worker to cancel a run when inputs change.
+ */
+
+import { runMonteCarloSimulation } from '../domain/monteCarlo';
+import type { InputState } from '../domain/types';
+
+self.addEventListener('message', (event: MessageEvent<InputState>) => {
+  self.postMessage(runMonteCarloSimulation(event.data));
+});
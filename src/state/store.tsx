@@ -20,15 +20,51 @@ import type {
   InputState,
   Results,
   SavedScenario,
+  RateSet,
+  RateSetVersionDetails,
   CurrencyConfig,
   DirectWorksQuantities,
+  SiteDomain,
+  CustomLineItem,
   UnitRates,
+  RateBuildUp,
+  ScaleCurve,
   IndirectCostRates,
   RiskFactors,
+  LocationSettings,
   FinancialParams,
   PhaseDurations,
+  PhaseSchedule,
+  SpendProfileSettings,
+  PerpetualTreatmentSettings,
+  EscalationSettings,
+  RateRebaseSettings,
+  SimulationSettings,
+  SimulationResults,
+  InputHistory,
 } from '../domain/types';
-import { calculateClosureCosts, createDefaultInputState, DEFAULT_CURRENCY } from '../domain';
+import {
+  calculateClosureCosts,
+  countDistributions,
+  createDefaultInputState,
+  normalizeInputState,
+  normalizeRateLibrary,
+  createRateSet,
+  addRateSetVersion,
+  applyRateSetVersion,
+  applyRateBuildUps,
+  parseCostIndexCsv,
+  removeCostIndex,
+  removeStaleDomainDistributions,
+  removeStaleLineItemProfiles,
+  getPresetById,
+  getPresetInputs,
+  createInputHistory,
+  recordInputChange,
+  undoInputChange,
+  redoInputChange,
+  DEFAULT_CURRENCY,
+} from '../domain';
 import { generateId, deepClone } from '../utils/formatting';
 import { importScenarioJSON } from '../utils/export';
 
@@ -39,30 +75,60 @@ import { importScenarioJSON } from '../utils/export';
 interface AppState {
   inputs: InputState;
   results: Results | null;
+  simulation: SimulationResults | null;
   isCalculating: boolean;
+  isSimulating: boolean;
   savedScenarios: SavedScenario[];
+  rateLibrary: RateSet[];
   currency: CurrencyConfig;
   error: string | null;
+  /** Undo and redo of input changes, for this session only */
+  history: InputHistory;
 }
 
 type AppAction =
   | { type: 'SET_INPUTS'; payload: InputState }
   | { type: 'UPDATE_QUANTITIES'; payload: Partial<DirectWorksQuantities> }
+  | { type: 'SET_SITE_DOMAINS'; payload: readonly SiteDomain[] }
+  | { type: 'SET_CUSTOM_LINE_ITEMS'; payload: readonly CustomLineItem[] }
   | { type: 'UPDATE_UNIT_RATES'; payload: Partial<UnitRates> }
+  | { type: 'SET_RATE_BUILD_UP'; payload: { key: keyof UnitRates; buildUp: RateBuildUp | null } }
+  | { type: 'SET_SCALE_CURVE'; payload: { key: keyof UnitRates; curve: ScaleCurve | null } }
   | { type: 'UPDATE_INDIRECT_RATES'; payload: Partial<IndirectCostRates> }
   | { type: 'UPDATE_RISK_FACTORS'; payload: Partial<RiskFactors> }
+  | { type: 'UPDATE_LOCATION'; payload: Partial<LocationSettings> }
   | { type: 'UPDATE_FINANCIAL_PARAMS'; payload: Partial<FinancialParams> }
+  | { type: 'UPDATE_ESCALATION'; payload: Partial<EscalationSettings> }
+  | { type: 'IMPORT_COST_INDICES'; payload: { csv: string; name: string } }
+  | { type: 'DELETE_COST_INDEX'; payload: string }
+  | { type: 'UPDATE_RATE_REBASE'; payload: Partial<RateRebaseSettings> }
   | { type: 'UPDATE_PHASE_DURATIONS'; payload: Partial<PhaseDurations> }
+  | { type: 'UPDATE_PHASE_SCHEDULE'; payload: Partial<PhaseSchedule> }
+  | { type: 'UPDATE_SPEND_PROFILES'; payload: Partial<SpendProfileSettings> }
+  | { type: 'UPDATE_PERPETUAL_TREATMENT'; payload: Partial<PerpetualTreatmentSettings> }
+  | { type: 'UPDATE_SIMULATION_SETTINGS'; payload: Partial<SimulationSettings> }
   | { type: 'SET_SCENARIO_NAME'; payload: string }
   | { type: 'SET_RESULTS'; payload: Results }
+  | { type: 'SET_SIMULATION'; payload: SimulationResults | null }
   | { type: 'SET_CALCULATING'; payload: boolean }
+  | { type: 'SET_SIMULATING'; payload: boolean }
   | { type: 'SAVE_SCENARIO' }
   | { type: 'LOAD_SCENARIO'; payload: string }
+  | { type: 'LOAD_PRESET'; payload: string }
   | { type: 'DELETE_SCENARIO'; payload: string }
   | { type: 'IMPORT_SCENARIO'; payload: string }
+  | { type: 'SAVE_RATE_SET'; payload: { name: string; details: RateSetVersionDetails } }
+  | {
+      type: 'SAVE_RATE_SET_VERSION';
+      payload: { rateSetId: string; details: RateSetVersionDetails };
+    }
+  | { type: 'APPLY_RATE_SET'; payload: { rateSetId: string; version: number } }
+  | { type: 'DELETE_RATE_SET'; payload: string }
   | { type: 'SET_CURRENCY'; payload: CurrencyConfig }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'RESET_TO_DEFAULT' };
+  | { type: 'RESET_TO_DEFAULT' }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
 
 // ============================================================================
 // Local Storage Keys
@@ -70,6 +136,7 @@ type AppAction =
 
 const STORAGE_KEY_SCENARIOS = 'mine-closure-costing-scenarios';
 const STORAGE_KEY_CURRENT = 'mine-closure-costing-current';
+const STORAGE_KEY_RATE_LIBRARY = 'mine-closure-costing-rate-library';
 
 // ============================================================================
 // Local Storage Helpers
@@ -79,7 +146,8 @@ function loadSavedScenarios(): SavedScenario[] {
   try {
     const stored = localStorage.getItem(STORAGE_KEY_SCENARIOS);
     if (stored) {
-      return JSON.parse(stored) as SavedScenario[];
+      const scenarios = JSON.parse(stored) as SavedScenario[];
+      return scenarios.map((s) => ({ ...s, inputs: normalizeInputState(s.inputs) }));
     }
   } catch {
     console.warn('Failed to load saved scenarios');
@@ -99,7 +167,7 @@ function loadCurrentInputs(): InputState | null {
   try {
     const stored = localStorage.getItem(STORAGE_KEY_CURRENT);
     if (stored) {
-      return JSON.parse(stored) as InputState;
+      return normalizeInputState(JSON.parse(stored) as Partial<InputState>);
     }
   } catch {
     console.warn('Failed to load current inputs');
@@ -115,6 +183,26 @@ function saveCurrentInputs(inputs: InputState): void {
   }
 }
 
+function loadRateLibrary(): RateSet[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_RATE_LIBRARY);
+    if (stored) {
+      return normalizeRateLibrary(JSON.parse(stored) as RateSet[]);
+    }
+  } catch {
+    console.warn('Failed to load rate library');
+  }
+  return [];
+}
+
+function saveRateLibraryToStorage(library: RateSet[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_RATE_LIBRARY, JSON.stringify(library));
+  } catch {
+    console.warn('Failed to save rate library');
+  }
+}
+
 // ============================================================================
 // Reducer
 // ============================================================================
@@ -134,15 +222,92 @@ function appReducer(state: AppState, action: AppAction): AppState {
         error: null,
       };
 
+    case 'SET_SITE_DOMAINS': {
+      // Distributions and spend profile overrides on removed domains go with them
+      const distributions = removeStaleDomainDistributions(
+        state.inputs.simulation.distributions,
+        action.payload
+      );
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          siteDomains: action.payload,
+          spendProfiles: removeStaleLineItemProfiles(
+            state.inputs.spendProfiles,
+            action.payload,
+            state.inputs.customLineItems
+          ),
+          simulation:
+            distributions === state.inputs.simulation.distributions
+              ? state.inputs.simulation
+              : { ...state.inputs.simulation, distributions },
+        },
+        error: null,
+      };
+    }
+
+    case 'SET_CUSTOM_LINE_ITEMS':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          customLineItems: action.payload,
+          spendProfiles: removeStaleLineItemProfiles(
+            state.inputs.spendProfiles,
+            state.inputs.siteDomains,
+            action.payload
+          ),
+        },
+        error: null,
+      };
+
     case 'UPDATE_UNIT_RATES':
       return {
         ...state,
         inputs: {
           ...state.inputs,
-          unitRates: { ...state.inputs.unitRates, ...action.payload },
+          // Built-up rates follow their build-ups, not typed values
+          unitRates: applyRateBuildUps(
+            { ...state.inputs.unitRates, ...action.payload },
+            state.inputs.rateBuildUps
+          ),
+        },
+        error: null,
+      };
+
+    case 'SET_RATE_BUILD_UP': {
+      // Removing a build-up keeps its last rate as a typed rate
+      const { [action.payload.key]: _removed, ...rateBuildUps } = state.inputs.rateBuildUps;
+      void _removed;
+      const updated = action.payload.buildUp
+        ? { ...rateBuildUps, [action.payload.key]: action.payload.buildUp }
+        : rateBuildUps;
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          rateBuildUps: updated,
+          unitRates: applyRateBuildUps(state.inputs.unitRates, updated),
         },
         error: null,
       };
+    }
+
+    case 'SET_SCALE_CURVE': {
+      const { [action.payload.key]: _removed, ...scaleCurves } = state.inputs.scaleCurves;
+      void _removed;
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          scaleCurves: action.payload.curve
+            ? { ...scaleCurves, [action.payload.key]: action.payload.curve }
+            : scaleCurves,
+        },
+        error: null,
+      };
+    }
 
     case 'UPDATE_INDIRECT_RATES':
       return {
@@ -164,6 +329,16 @@ function appReducer(state: AppState, action: AppAction): AppState {
         error: null,
       };
 
+    case 'UPDATE_LOCATION':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          location: { ...state.inputs.location, ...action.payload },
+        },
+        error: null,
+      };
+
     case 'UPDATE_FINANCIAL_PARAMS':
       return {
         ...state,
@@ -174,6 +349,47 @@ function appReducer(state: AppState, action: AppAction): AppState {
         error: null,
       };
 
+    case 'UPDATE_ESCALATION':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          escalation: { ...state.inputs.escalation, ...action.payload },
+        },
+        error: null,
+      };
+
+    case 'IMPORT_COST_INDICES': {
+      try {
+        const imported = parseCostIndexCsv(action.payload.csv, action.payload.name).map(
+          (series) => ({ ...series, id: generateId() })
+        );
+        return {
+          ...state,
+          inputs: { ...state.inputs, costIndices: [...state.inputs.costIndices, ...imported] },
+          error: null,
+        };
+      } catch (e) {
+        return {
+          ...state,
+          error: `Failed to import cost indices: ${e instanceof Error ? e.message : 'invalid CSV'}`,
+        };
+      }
+    }
+
+    case 'DELETE_COST_INDEX':
+      return { ...state, inputs: removeCostIndex(state.inputs, action.payload), error: null };
+
+    case 'UPDATE_RATE_REBASE':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          rateRebase: { ...state.inputs.rateRebase, ...action.payload },
+        },
+        error: null,
+      };
+
     case 'UPDATE_PHASE_DURATIONS':
       return {
         ...state,
@@ -184,6 +400,46 @@ function appReducer(state: AppState, action: AppAction): AppState {
         error: null,
       };
 
+    case 'UPDATE_PHASE_SCHEDULE':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          phaseSchedule: { ...state.inputs.phaseSchedule, ...action.payload },
+        },
+        error: null,
+      };
+
+    case 'UPDATE_SPEND_PROFILES':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          spendProfiles: { ...state.inputs.spendProfiles, ...action.payload },
+        },
+        error: null,
+      };
+
+    case 'UPDATE_PERPETUAL_TREATMENT':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          perpetualTreatment: { ...state.inputs.perpetualTreatment, ...action.payload },
+        },
+        error: null,
+      };
+
+    case 'UPDATE_SIMULATION_SETTINGS':
+      return {
+        ...state,
+        inputs: {
+          ...state.inputs,
+          simulation: { ...state.inputs.simulation, ...action.payload },
+        },
+        error: null,
+      };
+
     case 'SET_SCENARIO_NAME':
       return {
         ...state,
@@ -193,9 +449,15 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_RESULTS':
       return { ...state, results: action.payload, isCalculating: false };
 
+    case 'SET_SIMULATION':
+      return { ...state, simulation: action.payload, isSimulating: false };
+
     case 'SET_CALCULATING':
       return { ...state, isCalculating: action.payload };
 
+    case 'SET_SIMULATING':
+      return { ...state, isSimulating: action.payload };
+
     case 'SAVE_SCENARIO': {
       const newScenario: SavedScenario = {
         id: generateId(),
@@ -216,6 +478,11 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return state;
     }
 
+    case 'LOAD_PRESET': {
+      const inputs = getPresetInputs(action.payload);
+      return inputs ? { ...state, inputs, error: null } : state;
+    }
+
     case 'DELETE_SCENARIO': {
       const filtered = state.savedScenarios.filter((s) => s.id !== action.payload);
       saveScenariosToStorage(filtered);
@@ -231,6 +498,55 @@ function appReducer(state: AppState, action: AppAction): AppState {
       }
     }
 
+    case 'SAVE_RATE_SET': {
+      const rateSet = createRateSet(
+        generateId(),
+        action.payload.name,
+        state.inputs.unitRates,
+        action.payload.details,
+        new Date().toISOString()
+      );
+      const updated = [...state.rateLibrary, rateSet];
+      saveRateLibraryToStorage(updated);
+      return {
+        ...state,
+        rateLibrary: updated,
+        inputs: applyRateSetVersion(state.inputs, rateSet, rateSet.versions[0]!),
+      };
+    }
+
+    case 'SAVE_RATE_SET_VERSION': {
+      const existing = state.rateLibrary.find((r) => r.id === action.payload.rateSetId);
+      if (!existing) return state;
+      const rateSet = addRateSetVersion(
+        existing,
+        state.inputs.unitRates,
+        action.payload.details,
+        new Date().toISOString()
+      );
+      const updated = state.rateLibrary.map((r) => (r.id === rateSet.id ? rateSet : r));
+      saveRateLibraryToStorage(updated);
+      return {
+        ...state,
+        rateLibrary: updated,
+        inputs: applyRateSetVersion(state.inputs, rateSet, rateSet.versions.at(-1)!),
+      };
+    }
+
+    case 'APPLY_RATE_SET': {
+      const rateSet = state.rateLibrary.find((r) => r.id === action.payload.rateSetId);
+      const version = rateSet?.versions.find((v) => v.version === action.payload.version);
+      if (!rateSet || !version) return state;
+      return { ...state, inputs: applyRateSetVersion(state.inputs, rateSet, version), error: null };
+    }
+
+    case 'DELETE_RATE_SET': {
+      // Scenarios keep their rates and rate source; the source is then shown as unavailable
+      const filtered = state.rateLibrary.filter((r) => r.id !== action.payload);
+      saveRateLibraryToStorage(filtered);
+      return { ...state, rateLibrary: filtered };
+    }
+
     case 'SET_CURRENCY':
       return { ...state, currency: action.payload };
 
@@ -249,6 +565,54 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+/** Label for input changes that name themselves rather than the fields they change */
+function historyLabel(state: AppState, action: AppAction): string | undefined {
+  switch (action.type) {
+    case 'LOAD_SCENARIO': {
+      const scenario = state.savedScenarios.find((s) => s.id === action.payload);
+      return scenario && `Load scenario "${scenario.name}"`;
+    }
+    case 'LOAD_PRESET': {
+      const preset = getPresetById(action.payload);
+      return preset && `Load preset "${preset.name}"`;
+    }
+    case 'IMPORT_SCENARIO':
+      return 'Import scenario';
+    case 'APPLY_RATE_SET': {
+      const rateSet = state.rateLibrary.find((r) => r.id === action.payload.rateSetId);
+      return rateSet && `Apply rate set "${rateSet.name}" v${action.payload.version}`;
+    }
+    case 'RESET_TO_DEFAULT':
+      return 'Reset to defaults';
+    default:
+      return undefined;
+  }
+}
+
+/** App reducer recording every input change for undo and redo */
+function historyReducer(state: AppState, action: AppAction): AppState {
+  if (action.type === 'UNDO' || action.type === 'REDO') {
+    const step =
+      action.type === 'UNDO'
+        ? undoInputChange(state.history, state.inputs)
+        : redoInputChange(state.history, state.inputs);
+    return step ? { ...state, inputs: step.inputs, history: step.history, error: null } : state;
+  }
+
+  const next = appReducer(state, action);
+  if (next.inputs === state.inputs) return next;
+  return {
+    ...next,
+    history: recordInputChange(
+      state.history,
+      state.inputs,
+      next.inputs,
+      Date.now(),
+      historyLabel(state, action)
+    ),
+  };
+}
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -259,17 +623,37 @@ interface AppContextValue {
   // Convenience action creators
   setInputs: (inputs: InputState) => void;
   updateQuantities: (updates: Partial<DirectWorksQuantities>) => void;
+  setSiteDomains: (domains: readonly SiteDomain[]) => void;
+  setCustomLineItems: (items: readonly CustomLineItem[]) => void;
   updateUnitRates: (updates: Partial<UnitRates>) => void;
+  setRateBuildUp: (key: keyof UnitRates, buildUp: RateBuildUp | null) => void;
+  setScaleCurve: (key: keyof UnitRates, curve: ScaleCurve | null) => void;
   updateIndirectRates: (updates: Partial<IndirectCostRates>) => void;
   updateRiskFactors: (updates: Partial<RiskFactors>) => void;
+  updateLocation: (updates: Partial<LocationSettings>) => void;
   updateFinancialParams: (updates: Partial<FinancialParams>) => void;
+  updateEscalation: (updates: Partial<EscalationSettings>) => void;
+  importCostIndices: (csv: string, name: string) => void;
+  deleteCostIndex: (id: string) => void;
+  updateRateRebase: (updates: Partial<RateRebaseSettings>) => void;
   updatePhaseDurations: (updates: Partial<PhaseDurations>) => void;
+  updatePhaseSchedule: (updates: Partial<PhaseSchedule>) => void;
+  updateSpendProfiles: (updates: Partial<SpendProfileSettings>) => void;
+  updatePerpetualTreatment: (updates: Partial<PerpetualTreatmentSettings>) => void;
+  updateSimulationSettings: (updates: Partial<SimulationSettings>) => void;
   setScenarioName: (name: string) => void;
   saveScenario: () => void;
   loadScenario: (id: string) => void;
+  loadPreset: (id: string) => void;
   deleteScenario: (id: string) => void;
   importScenario: (json: string) => void;
+  saveRateSet: (name: string, details: RateSetVersionDetails) => void;
+  saveRateSetVersion: (rateSetId: string, details: RateSetVersionDetails) => void;
+  applyRateSet: (rateSetId: string, version: number) => void;
+  deleteRateSet: (id: string) => void;
   resetToDefault: () => void;
+  undo: () => void;
+  redo: () => void;
 }
 
 const AppContext = createContext<AppContextValue | null>(null);
@@ -288,18 +672,23 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     const savedInputs = loadCurrentInputs();
     const inputs = savedInputs ?? createDefaultInputState();
     const savedScenarios = loadSavedScenarios();
+    const rateLibrary = loadRateLibrary();
 
     return {
       inputs,
       results: null,
+      simulation: null,
       isCalculating: false,
+      isSimulating: false,
       savedScenarios,
+      rateLibrary,
       currency: DEFAULT_CURRENCY,
       error: null,
+      history: createInputHistory(),
     };
   }, []);
 
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, dispatch] = useReducer(historyReducer, initialState);
 
   // Auto-calculate results when inputs change
   useEffect(() => {
@@ -324,6 +713,43 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     return () => clearTimeout(timeoutId);
   }, [state.inputs]);
 
+  // Probabilistic run only when enabled and at least one input is uncertain. It
+  // runs in a worker; an input change terminates the worker, cancelling the run
+  useEffect(() => {
+    const { simulation } = state.inputs;
+    if (!simulation.enabled || countDistributions(simulation.distributions) === 0) {
+      dispatch({ type: 'SET_SIMULATION', payload: null });
+      return;
+    }
+
+    dispatch({ type: 'SET_SIMULATING', payload: true });
+    let worker: Worker | null = null;
+    const start = () => {
+      worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SimulationResults>) => {
+        dispatch({ type: 'SET_SIMULATION', payload: event.data });
+        worker?.terminate();
+      };
+      worker.onerror = (event) => {
+        console.error('Simulation error:', event.message);
+        dispatch({ type: 'SET_SIMULATION', payload: null });
+        dispatch({
+          type: 'SET_ERROR',
+          payload: 'Simulation failed. Please check your input distributions.',
+        });
+        worker?.terminate();
+      };
+      worker.postMessage(state.inputs);
+    };
+
+    // Longer debounce than the deterministic run - a slider drag starts one run
+    const timeoutId = setTimeout(start, 300);
+    return () => {
+      clearTimeout(timeoutId);
+      worker?.terminate();
+    };
+  }, [state.inputs]);
+
   // Action creators
   const setInputs = useCallback(
     (inputs: InputState) => dispatch({ type: 'SET_INPUTS', payload: inputs }),
@@ -336,11 +762,34 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     []
   );
 
+  const setSiteDomains = useCallback(
+    (domains: readonly SiteDomain[]) => dispatch({ type: 'SET_SITE_DOMAINS', payload: domains }),
+    []
+  );
+
+  const setCustomLineItems = useCallback(
+    (items: readonly CustomLineItem[]) =>
+      dispatch({ type: 'SET_CUSTOM_LINE_ITEMS', payload: items }),
+    []
+  );
+
   const updateUnitRates = useCallback(
     (updates: Partial<UnitRates>) => dispatch({ type: 'UPDATE_UNIT_RATES', payload: updates }),
     []
   );
 
+  const setRateBuildUp = useCallback(
+    (key: keyof UnitRates, buildUp: RateBuildUp | null) =>
+      dispatch({ type: 'SET_RATE_BUILD_UP', payload: { key, buildUp } }),
+    []
+  );
+
+  const setScaleCurve = useCallback(
+    (key: keyof UnitRates, curve: ScaleCurve | null) =>
+      dispatch({ type: 'SET_SCALE_CURVE', payload: { key, curve } }),
+    []
+  );
+
   const updateIndirectRates = useCallback(
     (updates: Partial<IndirectCostRates>) =>
       dispatch({ type: 'UPDATE_INDIRECT_RATES', payload: updates }),
@@ -352,18 +801,70 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     []
   );
 
+  const updateLocation = useCallback(
+    (updates: Partial<LocationSettings>) => dispatch({ type: 'UPDATE_LOCATION', payload: updates }),
+    []
+  );
+
   const updateFinancialParams = useCallback(
     (updates: Partial<FinancialParams>) =>
       dispatch({ type: 'UPDATE_FINANCIAL_PARAMS', payload: updates }),
     []
   );
 
+  const updateEscalation = useCallback(
+    (updates: Partial<EscalationSettings>) =>
+      dispatch({ type: 'UPDATE_ESCALATION', payload: updates }),
+    []
+  );
+
+  const importCostIndices = useCallback(
+    (csv: string, name: string) =>
+      dispatch({ type: 'IMPORT_COST_INDICES', payload: { csv, name } }),
+    []
+  );
+
+  const deleteCostIndex = useCallback(
+    (id: string) => dispatch({ type: 'DELETE_COST_INDEX', payload: id }),
+    []
+  );
+
+  const updateRateRebase = useCallback(
+    (updates: Partial<RateRebaseSettings>) =>
+      dispatch({ type: 'UPDATE_RATE_REBASE', payload: updates }),
+    []
+  );
+
   const updatePhaseDurations = useCallback(
     (updates: Partial<PhaseDurations>) =>
       dispatch({ type: 'UPDATE_PHASE_DURATIONS', payload: updates }),
     []
   );
 
+  const updatePhaseSchedule = useCallback(
+    (updates: Partial<PhaseSchedule>) =>
+      dispatch({ type: 'UPDATE_PHASE_SCHEDULE', payload: updates }),
+    []
+  );
+
+  const updateSpendProfiles = useCallback(
+    (updates: Partial<SpendProfileSettings>) =>
+      dispatch({ type: 'UPDATE_SPEND_PROFILES', payload: updates }),
+    []
+  );
+
+  const updatePerpetualTreatment = useCallback(
+    (updates: Partial<PerpetualTreatmentSettings>) =>
+      dispatch({ type: 'UPDATE_PERPETUAL_TREATMENT', payload: updates }),
+    []
+  );
+
+  const updateSimulationSettings = useCallback(
+    (updates: Partial<SimulationSettings>) =>
+      dispatch({ type: 'UPDATE_SIMULATION_SETTINGS', payload: updates }),
+    []
+  );
+
   const setScenarioName = useCallback(
     (name: string) => dispatch({ type: 'SET_SCENARIO_NAME', payload: name }),
     []
@@ -376,6 +877,11 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     []
   );
 
+  const loadPreset = useCallback(
+    (id: string) => dispatch({ type: 'LOAD_PRESET', payload: id }),
+    []
+  );
+
   const deleteScenario = useCallback(
     (id: string) => dispatch({ type: 'DELETE_SCENARIO', payload: id }),
     []
@@ -386,41 +892,108 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     []
   );
 
+  const saveRateSet = useCallback(
+    (name: string, details: RateSetVersionDetails) =>
+      dispatch({ type: 'SAVE_RATE_SET', payload: { name, details } }),
+    []
+  );
+
+  const saveRateSetVersion = useCallback(
+    (rateSetId: string, details: RateSetVersionDetails) =>
+      dispatch({ type: 'SAVE_RATE_SET_VERSION', payload: { rateSetId, details } }),
+    []
+  );
+
+  const applyRateSet = useCallback(
+    (rateSetId: string, version: number) =>
+      dispatch({ type: 'APPLY_RATE_SET', payload: { rateSetId, version } }),
+    []
+  );
+
+  const deleteRateSet = useCallback(
+    (id: string) => dispatch({ type: 'DELETE_RATE_SET', payload: id }),
+    []
+  );
+
   const resetToDefault = useCallback(() => dispatch({ type: 'RESET_TO_DEFAULT' }), []);
 
+  const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+
+  const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+
   const contextValue: AppContextValue = useMemo(
     () => ({
       state,
       dispatch,
       setInputs,
       updateQuantities,
+      setSiteDomains,
+      setCustomLineItems,
       updateUnitRates,
+      setRateBuildUp,
+      setScaleCurve,
       updateIndirectRates,
       updateRiskFactors,
+      updateLocation,
       updateFinancialParams,
+      updateEscalation,
+      importCostIndices,
+      deleteCostIndex,
+      updateRateRebase,
       updatePhaseDurations,
+      updatePhaseSchedule,
+      updateSpendProfiles,
+      updatePerpetualTreatment,
+      updateSimulationSettings,
       setScenarioName,
       saveScenario,
       loadScenario,
+      loadPreset,
       deleteScenario,
       importScenario,
+      saveRateSet,
+      saveRateSetVersion,
+      applyRateSet,
+      deleteRateSet,
       resetToDefault,
+      undo,
+      redo,
     }),
     [
       state,
       setInputs,
       updateQuantities,
+      setSiteDomains,
+      setCustomLineItems,
       updateUnitRates,
+      setRateBuildUp,
+      setScaleCurve,
       updateIndirectRates,
       updateRiskFactors,
+      updateLocation,
       updateFinancialParams,
+      updateEscalation,
+      importCostIndices,
+      deleteCostIndex,
+      updateRateRebase,
       updatePhaseDurations,
+      updatePhaseSchedule,
+      updateSpendProfiles,
+      updatePerpetualTreatment,
+      updateSimulationSettings,
       setScenarioName,
       saveScenario,
       loadScenario,
+      loadPreset,
       deleteScenario,
       importScenario,
+      saveRateSet,
+      saveRateSetVersion,
+      applyRateSet,
+      deleteRateSet,
       resetToDefault,
+      undo,
+      redo,
     ]
   );
 
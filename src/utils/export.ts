@@ -10,8 +10,13 @@ import type {
   LineItemCost,
   AnnualCashflow,
   CurrencyConfig,
+  SimulationResults,
+  ProvisionRollForward,
+  InputDiffEntry,
+  InputDiffValue,
 } from '../domain/types';
 import { CATEGORY_NAMES, PHASE_NAMES } from '../domain/types';
+import { normalizeInputState } from '../domain/defaults';
 import { formatCurrency } from './formatting';
 
 /**
@@ -22,10 +27,10 @@ export function exportScenarioJSON(inputs: InputState): string {
 }
 
 /**
- * Import scenario from JSON
+ * Import scenario from JSON, filling inputs missing from older exports with defaults
  */
 export function importScenarioJSON(json: string): InputState {
-  return JSON.parse(json) as InputState;
+  return normalizeInputState(JSON.parse(json) as Partial<InputState>);
 }
 
 /**
@@ -109,13 +114,48 @@ export function exportCashflowsCSV(
   return csvContent;
 }
 
+/**
+ * Export Monte Carlo percentiles and per-iteration samples as CSV
+ */
+export function exportSimulationCSV(
+  simulation: SimulationResults,
+  currency: CurrencyConfig
+): string {
+  const summaryHeaders = ['Metric', 'P10', 'P50', 'P90', 'Mean', 'Min', 'Max'];
+  const summaryRows = [
+    { label: 'Total Cost', summary: simulation.totalCost },
+    { label: 'NPV', summary: simulation.npv },
+  ].map(({ label, summary }) => [
+    label,
+    formatCurrency(summary.p10, currency),
+    formatCurrency(summary.p50, currency),
+    formatCurrency(summary.p90, currency),
+    formatCurrency(summary.mean, currency),
+    formatCurrency(summary.min, currency),
+    formatCurrency(summary.max, currency),
+  ]);
+
+  const sampleHeaders = ['Iteration', 'Total Cost', 'NPV'];
+  const sampleRows = simulation.samples.map((s) => [
+    (s.iteration + 1).toString(),
+    formatCurrency(s.totalCost, currency),
+    formatCurrency(s.npv, currency),
+  ]);
+
+  const toCsv = (rows: string[][]) =>
+    rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+
+  return `${toCsv([summaryHeaders, ...summaryRows])}\n\n${toCsv([sampleHeaders, ...sampleRows])}`;
+}
+
 /**
  * Download results as CSV files (combined)
  */
 export function downloadResultsCSV(
   results: Results,
   inputs: InputState,
-  currency: CurrencyConfig
+  currency: CurrencyConfig,
+  simulation: SimulationResults | null = null
 ): void {
   // Create combined CSV with multiple sections
   let content = '=== MINE CLOSURE COST ESTIMATE ===\n\n';
@@ -125,6 +165,15 @@ export function downloadResultsCSV(
   content += '=== SUMMARY ===\n';
   content += `Total Nominal Cost,${formatCurrency(results.totalNominalCost, currency)}\n`;
   content += `Total Discounted (NPV),${formatCurrency(results.totalDiscountedCost, currency)}\n`;
+  if (results.perpetualTreatment) {
+    const { presentValue, startYear } = results.perpetualTreatment;
+    const value = Number.isFinite(presentValue)
+      ? formatCurrency(presentValue, currency)
+      : 'Unbounded (real discount rate not positive)';
+    content += `Ongoing Water Treatment PV (from ${startYear}),${value}\n`;
+  }
+  content += `Valuation Year,${inputs.financialParams.valuationYear}\n`;
+  content += `Rate Base Year,${inputs.financialParams.rateBaseYear}\n`;
   content += `Peak Annual Cashflow,${formatCurrency(results.peakAnnualCashflow, currency)}\n`;
   content += `Peak Year,${results.peakCashflowYear}\n`;
   content += `Total Duration,${results.totalDurationYears} years\n\n`;
@@ -136,10 +185,79 @@ export function downloadResultsCSV(
   content += '=== ANNUAL CASHFLOWS ===\n';
   content += exportCashflowsCSV(results.annualCashflows, currency);
 
+  if (simulation) {
+    content += `\n\n=== MONTE CARLO SIMULATION (${simulation.iterations} iterations, seed ${simulation.seed}) ===\n`;
+    content += exportSimulationCSV(simulation, currency);
+  }
+
   const filename = `${inputs.scenarioName.replace(/[^a-z0-9]/gi, '_')}_results.csv`;
   downloadFile(content, filename, 'text/csv');
 }
 
+/**
+ * Export a provision roll-forward as CSV
+ */
+export function exportProvisionCSV(
+  rollForward: ProvisionRollForward,
+  currency: CurrencyConfig
+): string {
+  const headers = [
+    'Year',
+    'Basis',
+    'Opening Provision',
+    'Change in Discount Rate',
+    'Change in Estimate',
+    'Utilisation',
+    'Unwinding of Discount',
+    'Closing Provision',
+    'Discount Rate (%)',
+  ];
+
+  const rows = rollForward.movements.map((m) => [
+    m.year.toString(),
+    m.isForecast ? 'Forecast' : 'Prior estimate',
+    formatCurrency(m.openingProvision, currency),
+    formatCurrency(m.rateChange, currency),
+    formatCurrency(m.estimateChange, currency),
+    formatCurrency(-m.utilisation, currency),
+    formatCurrency(m.unwindingOfDiscount, currency),
+    formatCurrency(m.closingProvision, currency),
+    m.discountRatePercent.toFixed(2),
+  ]);
+
+  const csvContent = [headers, ...rows]
+    .map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+
+  return csvContent;
+}
+
+/**
+ * Download a provision roll-forward with its reconciliation summary as CSV
+ */
+export function downloadProvisionCSV(
+  rollForward: ProvisionRollForward,
+  inputs: InputState,
+  currency: CurrencyConfig
+): void {
+  let content = '=== PROVISION ROLL-FORWARD ===\n\n';
+  content += `Scenario: ${inputs.scenarioName}\n`;
+  content += `Generated: ${new Date().toISOString()}\n\n`;
+
+  content += '=== RECONCILIATION ===\n';
+  content += `Prior Provision (${rollForward.priorValuationYear}),${formatCurrency(rollForward.priorProvision, currency)}\n`;
+  content += `Expected Provision (${rollForward.currentValuationYear}),${formatCurrency(rollForward.expectedProvision, currency)}\n`;
+  content += `Change in Discount Rate,${formatCurrency(rollForward.rateChange, currency)}\n`;
+  content += `Change in Estimate,${formatCurrency(rollForward.estimateChange, currency)}\n`;
+  content += `Current Provision (${rollForward.currentValuationYear}),${formatCurrency(rollForward.currentProvision, currency)}\n\n`;
+
+  content += '=== MOVEMENTS ===\n';
+  content += exportProvisionCSV(rollForward, currency);
+
+  const filename = `${inputs.scenarioName.replace(/[^a-z0-9]/gi, '_')}_provision.csv`;
+  downloadFile(content, filename, 'text/csv');
+}
+
 /**
  * Download line items only as CSV
  */
@@ -165,3 +283,42 @@ export function downloadCashflowsCSV(
   const filename = `${inputs.scenarioName.replace(/[^a-z0-9]/gi, '_')}_cashflows.csv`;
   downloadFile(csv, filename, 'text/csv');
 }
+
+/**
+ * Export an input diff as CSV
+ */
+export function exportInputDiffCSV(
+  entries: readonly InputDiffEntry[],
+  oldName: string,
+  newName: string
+): string {
+  const value = (v: InputDiffValue) => (v === null ? '' : String(v));
+  const headers = ['Group', 'Field', 'Unit', oldName, newName, 'Path'];
+  const rows = entries.map((e) => [
+    e.group,
+    e.field,
+    e.unit,
+    value(e.oldValue),
+    value(e.newValue),
+    e.path,
+  ]);
+
+  const csvContent = [headers, ...rows]
+    .map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+
+  return csvContent;
+}
+
+/**
+ * Download an input diff between two scenarios as CSV
+ */
+export function downloadInputDiffCSV(
+  entries: readonly InputDiffEntry[],
+  oldName: string,
+  newName: string
+): void {
+  const csv = exportInputDiffCSV(entries, oldName, newName);
+  const filename = `${oldName}_vs_${newName}`.replace(/[^a-z0-9]/gi, '_') + '_input_diff.csv';
+  downloadFile(csv, filename, 'text/csv');
+}